@@ -28,8 +28,12 @@
   const state = {
     currentConfig: { name: '', ip: '', mac: '', username: '', password: '' },
     configuredTvs: [],
+    /** Platform-level settings edited outside this UI (e.g. controlApi), preserved on save */
+    platformConfig: {},
     editingTvIndex: null,
     editingSourcesTvIndex: null,
+    /** Configured TV being paired again; its credentials are replaced on success */
+    repairingTvIndex: null,
     sources: [],
     draggedItem: null,
     dragStartIndex: null,
@@ -128,10 +132,12 @@
     discover: () => homebridge.request('/discover'),
     pair: (ip, deviceName) => homebridge.request('/pair', { ip, deviceName }),
     pairGrant: (ip, pin) => homebridge.request('/pair-grant', { ip, pin }),
+    checkAuth: (ip, username, password, mac) => homebridge.request('/check-auth', { ip, username, password, mac }),
     getMac: (ip) => homebridge.request('/get-mac', ip),
-    wakeOnLan: (mac) => homebridge.request('/wake-on-lan', { mac }),
+    wakeOnLan: (mac, ip, wakeOnLan) => homebridge.request('/wake-on-lan', { mac, ip, wakeOnLan }),
     getSources: (ip, username, password, mac) => homebridge.request('/get-sources', { ip, username, password, mac }),
     currentApp: (ip, username, password, mac) => homebridge.request('/current-app', { ip, username, password, mac }),
+    sendText: (ip, username, password, mac, text) => homebridge.request('/send-text', { ip, username, password, mac, text }),
   };
 
   // ============================================================================
@@ -142,6 +148,7 @@
    *  settings-view re-render). Cheap and safe to call on every keystroke/toggle. */
   const pushPluginConfig = async () => {
     await homebridge.updatePluginConfig([{
+      ...state.platformConfig,
       platform: PLATFORM_NAME,
       devices: state.configuredTvs,
     }]);
@@ -217,10 +224,14 @@
     li.innerHTML = `
       <div class="d-flex w-100 justify-content-between align-items-center">
         <div>
-          <h6 class="mb-1"><i class="bi bi-tv me-2"></i> ${tv.name}</h6>
+          <h6 class="mb-1">
+            <i class="bi bi-tv me-2"></i> ${tv.name}
+            <span class="badge bg-danger ms-2 auth-badge" style="display: none;" title="The TV rejects the stored credentials">Pairing lost</span>
+          </h6>
           <small class="text-muted"><i class="bi bi-hdd-network me-1"></i> ${tv.ip}</small>
         </div>
         <div>
+          <button class="btn btn-sm btn-warning repair-tv-btn me-2" style="display: none;"><i class="bi bi-link-45deg"></i> Re-pair</button>
           <button class="btn btn-sm btn-secondary edit-sources-btn me-2"><i class="bi bi-list"></i> Sources</button>
           <button class="btn btn-sm btn-primary edit-tv-btn me-2"><i class="bi bi-pencil"></i> Edit</button>
           <button class="btn btn-sm btn-danger delete-tv-btn"><i class="bi bi-trash"></i> Delete</button>
@@ -228,6 +239,10 @@
       </div>
     `;
 
+    li.querySelector('.repair-tv-btn').addEventListener('click', function () {
+      setButtonLoading(this, true, 'Connecting...');
+      startRepairing(index).finally(() => setButtonLoading(this, false));
+    });
     li.querySelector('.edit-sources-btn').addEventListener('click', () => openEditSourcesScreen(index));
     li.querySelector('.edit-tv-btn').addEventListener('click', () => openEditScreen(index));
     li.querySelector('.delete-tv-btn').addEventListener('click', async function () {
@@ -256,7 +271,26 @@
     noTvsMessage.style.display = 'none';
     container.style.display = 'block';
     container.innerHTML = '';
-    state.configuredTvs.forEach((tv, i) => container.appendChild(createTvListItem(tv, i)));
+    state.configuredTvs.forEach((tv, i) => {
+      const li = createTvListItem(tv, i);
+      container.appendChild(li);
+      checkTvAuth(tv, li);
+    });
+  };
+
+  /** Flag a TV whose stored credentials it rejects (factory reset, or Homebridge removed from its paired devices). */
+  const checkTvAuth = async (tv, listItem) => {
+    if (!tv.ip || !tv.username) {
+      return;
+    }
+    try {
+      const result = await api.checkAuth(tv.ip, tv.username, tv.password, tv.mac);
+      const unauthorized = result && result.success && result.status === 'unauthorized';
+      listItem.querySelector('.auth-badge').style.display = unauthorized ? '' : 'none';
+      listItem.querySelector('.repair-tv-btn').style.display = unauthorized ? '' : 'none';
+    } catch {
+      // The check is a hint only — an unanswered request leaves the list as it is
+    }
   };
 
   // ============================================================================
@@ -274,8 +308,13 @@
       }
       setButtonLoading(wolBtn, true, 'Sending...');
       try {
-        const result = await api.wakeOnLan(state.currentConfig.mac);
-        if (result.success) {
+        const { mac, ip, wakeOnLan } = state.currentConfig;
+        const result = await api.wakeOnLan(mac, ip, wakeOnLan);
+        if (result.success && result.nicAnswered === false) {
+          homebridge.toast.info('Wake-on-LAN packet sent, but the TV did not answer. Check its broadcast address, interface or that it is on the same network.');
+        } else if (result.success && result.apiAnswered) {
+          homebridge.toast.success('Wake-on-LAN packet sent, the TV is awake.');
+        } else if (result.success) {
           homebridge.toast.success('Wake-on-LAN packet sent! Wait a few seconds for the TV to wake up.');
         } else {
           homebridge.toast.error(result.error);
@@ -417,6 +456,27 @@
     return li;
   };
 
+  /** Grant failures after which the TV has to show a new PIN */
+  const PAIRING_RESTART_CODES = new Set(['no-session', 'session-expired', 'too-many-attempts']);
+
+  /** Pair a configured TV again, keeping its settings (see handlePinSubmit). */
+  const startRepairing = async (index) => {
+    const tv = state.configuredTvs[index];
+    state.repairingTvIndex = index;
+    state.currentConfig = { ...tv };
+    await startPairing(tv.ip, null);
+  };
+
+  /** Leave the PIN step: back to the TV list when re-pairing, else to discovery. */
+  const leavePairing = () => {
+    const screen = state.repairingTvIndex !== null ? 'successScreen' : 'wizardStep1';
+    if (state.repairingTvIndex !== null) {
+      state.repairingTvIndex = null;
+      resetCurrentConfig();
+    }
+    showScreen(screen);
+  };
+
   const handlePinSubmit = async () => {
     const pin = getPinValue();
     if (!pin || pin.length !== 4) {
@@ -431,13 +491,24 @@
     try {
       const result = await api.pairGrant(state.currentConfig.ip, pin);
 
-      if (result.success) {
+      if (result.success && state.repairingTvIndex !== null) {
+        await updateTv(state.repairingTvIndex, { username: result.username, password: result.password });
+        setButtonLoading(btn, false, null, 'Confirm PIN');
+        homebridge.toast.success('TV paired again. Restart Homebridge to use the new credentials.');
+        leavePairing();
+      } else if (result.success) {
         state.currentConfig.username = result.username;
         state.currentConfig.password = result.password;
         showConfirmScreen();
-      } else {
+      } else if (PAIRING_RESTART_CODES.has(result.code)) {
+        // The TV no longer accepts a PIN for this request: back to picking the TV
         homebridge.toast.error(result.error);
         setButtonLoading(btn, false, null, 'Confirm PIN');
+        leavePairing();
+      } else {
+        const attempts = result.attemptsLeft ? ` (${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left)` : '';
+        homebridge.toast.error(`${result.error}${attempts}`);
+        setButtonLoading(btn, false, null, 'Confirm PIN');
         clearPinInputs();
         focusFirstPinInput();
       }
@@ -466,6 +537,7 @@
     $('editPlayPauseButtonKey').value = tv.playPauseButtonKey || 'PlayPause';
     $('editSourceSwitches').checked = tv.sourceSwitches || false;
     $('editAmbilightHueSwitch').checked = tv.ambilightHueSwitch || false;
+    $('editVolumeSlider').value = tv.volumeSlider || 'none';
     const editSensors = tv.stateSensors || [];
     $('editSensorPower').checked = editSensors.includes('power');
     $('editSensorAmbilight').checked = editSensors.includes('ambilight');
@@ -600,6 +672,41 @@
     }
   };
 
+  const sendTextToTv = async () => {
+    const tv = state.configuredTvs[state.editingTvIndex] || {};
+    const ip = $('editTvIp').value.trim() || tv.ip;
+    const mac = $('editTvMac').value.trim() || tv.mac;
+    const text = $('sendTextInput').value;
+    if (!ip) {
+      homebridge.toast.error('TV IP address is required');
+      return;
+    }
+    if (!text) {
+      homebridge.toast.error('Enter the text to send');
+      return;
+    }
+    const btn = $('sendTextBtn');
+    const original = btn.innerHTML;
+    btn.disabled = true;
+    btn.innerHTML = '<span class="spinner-border spinner-border-sm"></span> Sending...';
+    try {
+      const res = await api.sendText(ip, tv.username, tv.password, mac, text);
+      if (res && res.success && res.keyboardVisible === false) {
+        homebridge.toast.info('Text sent, but no text field is open on the TV. Open a search box first.');
+      } else if (res && res.success) {
+        homebridge.toast.success('Text sent to the TV');
+        $('sendTextInput').value = '';
+      } else {
+        homebridge.toast.error((res && res.error) || 'Failed to send text');
+      }
+    } catch (e) {
+      homebridge.toast.error('Failed: ' + e.message);
+    } finally {
+      btn.disabled = false;
+      btn.innerHTML = original;
+    }
+  };
+
   const handleEditSubmit = async (event) => {
     event.preventDefault();
     event.stopPropagation();
@@ -632,6 +739,7 @@
         playPauseButtonKey: $('editPlayPauseButtonKey').value,
         sourceSwitches: $('editSourceSwitches').checked,
         ambilightHueSwitch: $('editAmbilightHueSwitch').checked,
+        volumeSlider: $('editVolumeSlider').value,
         stateSensors: editStateSensors,
         customApps: state.editCustomApps || [],
       });
@@ -1189,7 +1297,7 @@
   });
 
   $('cancelPairingBtn').addEventListener('click', () => {
-    showScreen('wizardStep1');
+    leavePairing();
     $('deviceList').style.display = 'none';
     $('deviceListContainer').innerHTML = '';
   });
@@ -1205,6 +1313,15 @@
   $('addCustomAppBtn').addEventListener('click', addCustomApp);
   $('detectCurrentAppBtn').addEventListener('click', detectCurrentApp);
 
+  // Text entry
+  $('sendTextBtn').addEventListener('click', sendTextToTv);
+  $('sendTextInput').addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      sendTextToTv();
+    }
+  });
+
   // Step 3 confirm screen
   $('confirmTvForm').addEventListener('submit', handleConfirmSubmit);
   $('cancelConfirmBtn').addEventListener('click', () => {
@@ -1251,6 +1368,7 @@
   // ============================================================================
 
   const config = await homebridge.getPluginConfig();
+  state.platformConfig = config[0] ?? {};
   if (config.length && config[0].devices?.length) {
     state.configuredTvs = config[0].devices;
     showScreen('successScreen');
@@ -1,26 +1,21 @@
 import { HomebridgePluginUiServer } from '@homebridge/plugin-ui-utils';
-import { Bonjour } from 'bonjour-service';
 import arp from 'node-arp';
 import { promisify } from 'util';
 
 import {
   TV_API_PORT,
   TV_API_VERSION,
-  DISCOVERY_TIMEOUT,
   CONNECTION_TIMEOUT,
 } from '../dist/api/constants.js';
 import {
-  hmacSignature,
-  postToTv,
   getFromTv,
   createDigestAuth,
-  createDeviceInfo,
-  handleErrorResponse,
-  extractIpv4,
-  createPairingSuccess,
+  discoverTVs,
   sendWakeOnLan,
+  wakeAndVerify,
 } from '../dist/api/utils.js';
 import { PhilipsTVClient, HOME_URI, WATCH_TV_URI } from '../dist/api/PhilipsTVClient.js';
+import { PairingClient } from '../dist/api/PairingClient.js';
 
 const getMAC = promisify(arp.getMAC);
 
@@ -77,7 +72,7 @@ function debugLog(...args) {
 class UiServer extends HomebridgePluginUiServer {
   constructor() {
     super();
-    this.pairingSessions = new Map();
+    this.pairing = new PairingClient();
 
     // Register request handlers
     this.onRequest('/discover', this.discoverDevices.bind(this));
@@ -86,9 +81,11 @@ class UiServer extends HomebridgePluginUiServer {
     this.onRequest('/wake-on-lan', this.wakeOnLan.bind(this));
     this.onRequest('/pair', this.pair.bind(this));
     this.onRequest('/pair-grant', this.pairGrant.bind(this));
+    this.onRequest('/check-auth', this.checkAuth.bind(this));
     this.onRequest('/system-info', this.getSystemInfo.bind(this));
     this.onRequest('/get-sources', this.getSources.bind(this));
     this.onRequest('/current-app', this.getCurrentApp.bind(this));
+    this.onRequest('/send-text', this.sendText.bind(this));
 
     this.ready();
   }
@@ -98,32 +95,7 @@ class UiServer extends HomebridgePluginUiServer {
   // --------------------------------------------------------------------------
 
   async discoverDevices() {
-    return new Promise((resolve) => {
-      const devices = [];
-      const bonjour = new Bonjour();
-      const browser = bonjour.find({ type: 'androidtvremote2' });
-
-      browser.on('up', (service) => {
-        const device = {
-          name: service.name,
-          host: extractIpv4(service),
-          addresses: service.addresses || [],
-          port: service.port,
-          txt: service.txt,
-          type: service.type,
-        };
-
-        if (!devices.some(d => d.host === device.host)) {
-          devices.push(device);
-        }
-      });
-
-      setTimeout(() => {
-        browser.stop();
-        bonjour.destroy();
-        resolve(devices);
-      }, DISCOVERY_TIMEOUT);
-    });
+    return discoverTVs();
   }
 
   // --------------------------------------------------------------------------
@@ -170,17 +142,31 @@ class UiServer extends HomebridgePluginUiServer {
   // --------------------------------------------------------------------------
 
   async wakeOnLan(data) {
-    const { mac } = data;
+    const { mac, ip, wakeOnLan = {} } = data;
 
     if (!mac) {
       return { success: false, error: 'MAC address is required' };
     }
 
+    const options = {
+      broadcastAddress: wakeOnLan.broadcastAddress || undefined,
+      port: wakeOnLan.port || undefined,
+      interface: wakeOnLan.interface || undefined,
+      unicastAddress: wakeOnLan.unicast && ip ? ip : undefined,
+    };
+
     try {
       console.log(`[WOL] Sending magic packet to ${mac}`);
-      await sendWakeOnLan(mac);
-      console.log('[WOL] Magic packet sent successfully');
-      return { success: true, message: 'Wake-on-LAN packet sent' };
+      if (!ip) {
+        await sendWakeOnLan(mac, options);
+        console.log('[WOL] Magic packet sent successfully');
+        return { success: true, message: 'Wake-on-LAN packet sent' };
+      }
+
+      // Ping the TV's NIC (checked against ARP) so the user can tell a lost packet from a slow boot
+      const { nicAnswered, apiAnswered, arpMac } = await wakeAndVerify(mac, ip, options);
+      console.log(`[WOL] Magic packet sent, NIC ${nicAnswered ? `answered, API ${apiAnswered ? 'up' : 'not up yet'}` : `did not answer (ARP: ${arpMac ?? 'none'})`}`);
+      return { success: true, nicAnswered, apiAnswered, message: 'Wake-on-LAN packet sent' };
     } catch (error) {
       console.log('[WOL] Failed:', error.message);
       return { success: false, error: error.message || 'Failed to send Wake-on-LAN packet' };
@@ -198,48 +184,16 @@ class UiServer extends HomebridgePluginUiServer {
       return { success: false, error: 'IP address is required' };
     }
 
-    try {
-      console.log(`[Pairing] Starting pairing with TV at ${ip}`);
-
-      const testResult = await this.testConnection(ip);
-      if (!testResult.success) {
-        return testResult;
-      }
-
-      console.log('[Pairing] Connection test passed, proceeding with pairing...');
-
-      const device = createDeviceInfo(deviceName);
-      const pairRequest = {
-        access: { scope: ['read', 'write', 'control'] },
-        device,
-      };
-
-      console.log('[Pairing] Sending pairing request...');
-
-      const response = await postToTv(ip, '/pair/request', pairRequest);
-
-      if (!response.ok) {
-        return handleErrorResponse(response, 'Pairing');
-      }
-
-      const result = await response.json();
-
-      this.pairingSessions.set(ip, {
-        auth_key: result.auth_key,
-        timestamp: result.timestamp,
-        device,
-      });
+    console.log(`[Pairing] Starting pairing with TV at ${ip}`);
 
-      return {
-        success: true,
-        auth_key: result.auth_key,
-        timestamp: result.timestamp,
-        message: 'Check your TV screen for the PIN code',
-      };
-    } catch (error) {
-      console.log('[Pairing] Error:', error.message);
-      return { success: false, error: error.message || 'Failed to initiate pairing' };
+    const testResult = await this.testConnection(ip);
+    if (!testResult.success) {
+      return testResult;
     }
+
+    const result = await this.pairing.request(ip, deviceName);
+    console.log(result.success ? '[Pairing] PIN requested' : `[Pairing] Failed (${result.code}): ${result.error}`);
+    return result;
   }
 
   // --------------------------------------------------------------------------
@@ -253,71 +207,36 @@ class UiServer extends HomebridgePluginUiServer {
       return { success: false, error: 'IP address and PIN are required' };
     }
 
-    const session = this.pairingSessions.get(ip);
-    if (!session) {
-      return { success: false, error: 'No active pairing session found' };
-    }
-
-    try {
-      console.log('[PairGrant] Processing PIN...');
-
-      const signature = hmacSignature(session.timestamp.toString(), pin);
-
-      const grantRequest = {
-        auth: {
-          auth_appId: '1',
-          auth_timestamp: session.timestamp,
-          auth_signature: signature,
-          pin,
-        },
-        device: session.device,
-      };
-
-      const initialResponse = await postToTv(ip, '/pair/grant', grantRequest, { timeout: CONNECTION_TIMEOUT });
-
-      if (initialResponse.status === 401) {
-        const wwwAuth = initialResponse.headers.get('www-authenticate');
-
-        if (wwwAuth?.toLowerCase().startsWith('digest')) {
-          console.log('[PairGrant] Retrying with Digest auth...');
-
-          const digestAuth = createDigestAuth(
-            session.device.id,
-            session.auth_key,
-            wwwAuth,
-            'POST',
-            `/${TV_API_VERSION}/pair/grant`,
-          );
-
-          const response = await postToTv(ip, '/pair/grant', grantRequest, {
-            headers: { 'Authorization': digestAuth },
-            timeout: CONNECTION_TIMEOUT,
-          });
-
-          if (!response.ok) {
-            return handleErrorResponse(response, 'PairGrant');
-          }
+    const result = await this.pairing.grant(ip, pin);
+    console.log(result.success ? '[PairGrant] Paired' : `[PairGrant] Failed (${result.code}): ${result.error}`);
+    return result;
+  }
 
-          const result = await response.json();
+  // --------------------------------------------------------------------------
+  // Credential Check (spots TVs that were reset or unpaired)
+  // --------------------------------------------------------------------------
 
-          if (result.error_id && result.error_id !== 'SUCCESS') {
-            return { success: false, error: `Pairing failed: ${result.error_id} - ${result.error_text || ''}` };
-          }
+  async checkAuth(data) {
+    const { ip, username, password, mac } = data;
 
-          this.pairingSessions.delete(ip);
-          return createPairingSuccess(session);
-        }
-      }
+    if (!ip) {
+      return { success: false, error: 'IP address is required' };
+    }
 
-      if (!initialResponse.ok) {
-        return handleErrorResponse(initialResponse, 'PairGrant');
-      }
+    try {
+      const client = new PhilipsTVClient({
+        ip,
+        mac: mac || '',
+        username: username || '',
+        password: password || '',
+      });
 
-      this.pairingSessions.delete(ip);
-      return createPairingSuccess(session);
+      const status = await client.checkCredentials();
+      debugLog(`[CheckAuth] ${ip}: ${status}`);
+      return { success: true, status };
     } catch (error) {
-      console.log('[PairGrant] Error:', error.message);
-      return { success: false, error: error.message || 'Failed to complete pairing' };
+      console.log('[CheckAuth] Error:', error.message);
+      return { success: false, error: error.message || 'Failed to check the credentials' };
     }
   }
 
@@ -526,6 +445,42 @@ class UiServer extends HomebridgePluginUiServer {
       return { success: false, error: error.message || 'Failed to detect current app' };
     }
   }
+
+  // --------------------------------------------------------------------------
+  // Send Text (types into the TV's focused search field)
+  // --------------------------------------------------------------------------
+
+  async sendText(data) {
+    const { ip, username, password, mac, text } = data;
+
+    if (!ip) {
+      return { success: false, error: 'IP address is required' };
+    }
+    if (!text) {
+      return { success: false, error: 'Enter the text to send' };
+    }
+
+    try {
+      const client = new PhilipsTVClient({
+        ip,
+        mac: mac || '',
+        username: username || '',
+        password: password || '',
+      });
+
+      // Without a focused text field the TV accepts the text and drops it
+      const keyboardVisible = await client.getKeyboardVisible();
+      const sent = await client.sendText(text);
+      debugLog(`[SendText] ${sent ? 'Sent' : 'Failed to send'} ${text.length} characters (keyboard ${keyboardVisible ?? 'unknown'})`);
+
+      return sent
+        ? { success: true, keyboardVisible }
+        : { success: false, error: 'The TV did not accept the text. Is it on and paired?' };
+    } catch (error) {
+      console.log('[SendText] Error:', error.message);
+      return { success: false, error: error.message || 'Failed to send text' };
+    }
+  }
 }
 
 // ============================================================================
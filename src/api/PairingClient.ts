@@ -0,0 +1,243 @@
+/**
+ * Philips TV Pairing Client
+ * Runs the `/pair/request` → `/pair/grant` handshake that creates the
+ * credentials (device ID + auth key) the TV client signs in with.
+ */
+
+import { PAIRING_TIMEOUT, TV_API_VERSION } from './constants.js';
+import {
+  createDeviceInfo,
+  createDigestAuth,
+  createPairingSuccess,
+  hmacSignature,
+  parseErrorResponse,
+  postToTv,
+  type TimedResponse,
+} from './utils.js';
+import type {
+  GrantRequest,
+  GrantResponse,
+  GrantResult,
+  PairingErrorCode,
+  PairingResult,
+  PairingSession,
+  PairRequest,
+  PairResponse,
+} from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PairingClientOptions {
+  /** How long the PIN shown on the TV is accepted (ms) */
+  readonly sessionTtlMs?: number;
+  /** Wrong PINs allowed before pairing has to start over */
+  readonly maxPinAttempts?: number;
+  /** Per-request timeout (ms) */
+  readonly timeout?: number;
+}
+
+/** A PIN request the TV is waiting on */
+interface ActiveSession extends PairingSession {
+  readonly expiresAt: number;
+  attemptsLeft: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** The TV drops the PIN after a few minutes; stop accepting it on our side too */
+export const PAIRING_SESSION_TTL_MS = 5 * 60_000;
+
+export const MAX_PIN_ATTEMPTS = 3;
+
+const PAIRING_SCOPE = ['read', 'write', 'control'];
+
+/** Value the grant's `auth_appId` must carry */
+const AUTH_APP_ID = '1';
+
+const GRANT_URI = `/${TV_API_VERSION}/pair/grant`;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const failure = (code: PairingErrorCode, error: string): { success: false; code: PairingErrorCode; error: string } =>
+  ({ success: false, code, error });
+
+// ============================================================================
+// PAIRING CLIENT
+// ============================================================================
+
+/**
+ * Pairs with one or more TVs, keyed by IP. `request` makes the TV show a PIN
+ * and opens a session; `grant` submits the PIN and returns the credentials.
+ * A session expires after `sessionTtlMs` and allows `maxPinAttempts` wrong
+ * PINs, after which pairing has to start over so the TV shows a fresh PIN.
+ *
+ * Neither method throws: failures come back as `{ success: false, code, error }`
+ * with a message that can be shown to the user as is.
+ */
+export class PairingClient {
+  private readonly sessions = new Map<string, ActiveSession>();
+  private readonly sessionTtlMs: number;
+  private readonly maxPinAttempts: number;
+  private readonly timeout: number;
+
+  constructor(options: PairingClientOptions = {}) {
+    this.sessionTtlMs = options.sessionTtlMs ?? PAIRING_SESSION_TTL_MS;
+    this.maxPinAttempts = options.maxPinAttempts ?? MAX_PIN_ATTEMPTS;
+    this.timeout = options.timeout ?? PAIRING_TIMEOUT;
+  }
+
+  /** Whether a PIN is pending for `ip`. */
+  hasSession(ip: string): boolean {
+    return this.activeSession(ip) !== null;
+  }
+
+  /** Forget the pending PIN for `ip`. */
+  cancel(ip: string): void {
+    this.sessions.delete(ip);
+  }
+
+  // ==========================================================================
+  // STEP 1: REQUEST
+  // ==========================================================================
+
+  /** Ask the TV to show a PIN. Replaces any session already open for `ip`. */
+  async request(ip: string, deviceName = 'Homebridge'): Promise<PairingResult> {
+    this.pruneExpired();
+    this.sessions.delete(ip);
+
+    const device = createDeviceInfo(deviceName);
+    const body: PairRequest = { access: { scope: PAIRING_SCOPE }, device };
+
+    let response: TimedResponse;
+    try {
+      response = await postToTv(ip, '/pair/request', body, { timeout: this.timeout });
+    } catch (error) {
+      return failure('unreachable', `Cannot reach TV at ${ip}: ${errorMessage(error)}`);
+    }
+
+    if (!response.ok) {
+      return failure('rejected', parseErrorResponse(response.status, await response.text()));
+    }
+
+    const result = await response.json().catch(() => null) as (Partial<PairResponse> & GrantResponse) | null;
+    if (typeof result?.auth_key !== 'string' || typeof result.timestamp !== 'number') {
+      return failure('rejected', `Pairing failed: ${result?.error_id ?? 'unexpected response from the TV'}`);
+    }
+
+    const expiresAt = Date.now() + this.sessionTtlMs;
+    this.sessions.set(ip, {
+      auth_key: result.auth_key,
+      timestamp: result.timestamp,
+      device,
+      expiresAt,
+      attemptsLeft: this.maxPinAttempts,
+    });
+
+    return {
+      success: true,
+      auth_key: result.auth_key,
+      timestamp: result.timestamp,
+      expiresAt,
+      message: 'Check your TV screen for the PIN code',
+    };
+  }
+
+  // ==========================================================================
+  // STEP 2: GRANT
+  // ==========================================================================
+
+  /** Submit the PIN shown on the TV and return the credentials. */
+  async grant(ip: string, pin: string): Promise<GrantResult> {
+    const session = this.sessions.get(ip);
+    if (!session) {
+      return failure('no-session', 'No active pairing session found. Start pairing again.');
+    }
+    if (Date.now() >= session.expiresAt) {
+      this.sessions.delete(ip);
+      return failure('session-expired', 'The PIN has expired. Start pairing again to get a new one.');
+    }
+
+    const body: GrantRequest = {
+      auth: {
+        auth_appId: AUTH_APP_ID,
+        auth_timestamp: session.timestamp,
+        auth_signature: hmacSignature(session.timestamp.toString(), pin),
+        pin,
+      },
+      device: session.device,
+    };
+
+    let response: TimedResponse;
+    try {
+      response = await postToTv(ip, '/pair/grant', body, { timeout: this.timeout });
+
+      // Most TVs want the grant signed with the auth key from step 1
+      const challenge = response.status === 401 ? response.headers.get('www-authenticate') : null;
+      if (challenge?.toLowerCase().startsWith('digest')) {
+        const authorization = createDigestAuth(session.device.id, session.auth_key, challenge, 'POST', GRANT_URI);
+        response = await postToTv(ip, '/pair/grant', body, {
+          headers: { 'Authorization': authorization },
+          timeout: this.timeout,
+        });
+      }
+    } catch (error) {
+      return failure('unreachable', `Cannot reach TV at ${ip}: ${errorMessage(error)}`);
+    }
+
+    if (response.status === 401) {
+      return this.wrongPin(ip, session);
+    }
+    if (!response.ok) {
+      return failure('rejected', parseErrorResponse(response.status, await response.text()));
+    }
+
+    const result = await response.json().catch(() => ({})) as GrantResponse;
+    if (result.error_id === 'INVALID_PIN') {
+      return this.wrongPin(ip, session);
+    }
+    if (result.error_id && result.error_id !== 'SUCCESS') {
+      this.sessions.delete(ip);
+      return failure('rejected', `Pairing failed: ${result.error_id} - ${result.error_text || ''}`);
+    }
+
+    this.sessions.delete(ip);
+    return createPairingSuccess(session);
+  }
+
+  /** Count a wrong PIN, ending the session once the attempts are used up. */
+  private wrongPin(ip: string, session: ActiveSession): GrantResult {
+    session.attemptsLeft--;
+    if (session.attemptsLeft <= 0) {
+      this.sessions.delete(ip);
+      return failure('too-many-attempts', 'Too many wrong PINs. Start pairing again to get a new PIN.');
+    }
+    return { ...failure('invalid-pin', parseErrorResponse(401)), attemptsLeft: session.attemptsLeft };
+  }
+
+  // ==========================================================================
+  // SESSIONS
+  // ==========================================================================
+
+  private activeSession(ip: string): ActiveSession | null {
+    const session = this.sessions.get(ip);
+    return session && Date.now() < session.expiresAt ? session : null;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [ip, session] of this.sessions) {
+      if (now >= session.expiresAt) {
+        this.sessions.delete(ip);
+      }
+    }
+  }
+}
@@ -7,12 +7,18 @@ import { TV_API_VERSION } from './constants.js';
 import {
   buildUrl,
   fetchWithTimeout,
+  buildAmbilightSidePixels,
   httpsAgent,
+  mapMenuNodesByContext,
+  parseKeyboardVisible,
+  parseTVActivity,
   sendWakeOnLan,
+  type WakeOnLanOptions,
 } from './utils.js';
 import { DigestAuthSession } from './DigestAuthSession.js';
 import type {
   PowerState,
+  ScreenState,
   VolumeState,
   TVSource,
   TVSourceList,
@@ -20,13 +26,31 @@ import type {
   TVApplicationList,
   TVChannel,
   TVChannelList,
+  TVChannelDb,
+  CurrentChannel,
+  TVFavoriteList,
+  TVFavoriteListChannels,
   RemoteKey,
   SystemInfo,
+  CredentialStatus,
   AmbilightStyleName,
   AmbilightConfig,
   AmbilightTopology,
   AmbilightCached,
   AmbilightColor,
+  AmbilightControlMode,
+  AmbilightCurrentMode,
+  AmbilightLoungeStyle,
+  AmbilightPixelData,
+  AmbilightRgb,
+  AmbilightSide,
+  MenuSettingValues,
+  MenuStructure,
+  AuroraOpenState,
+  AuroraGallery,
+  AuroraGalleryItem,
+  AuroraSettings,
+  WakeOnLanConfig,
 } from './types.js';
 
 // ============================================================================
@@ -37,7 +61,7 @@ const DEFAULT_GET_TIMEOUT_MS = 2000;
 const DEFAULT_POST_TIMEOUT_MS = 3000;
 
 /** Minimum delay between consecutive API requests to avoid overwhelming the TV */
-const INTER_REQUEST_DELAY_MS = 100;
+export const INTER_REQUEST_DELAY_MS = 100;
 
 /**
  * Maximum time a request may wait in the queue before being dropped.
@@ -46,9 +70,64 @@ const INTER_REQUEST_DELAY_MS = 100;
  */
 const QUEUE_TIMEOUT_MS = 8000;
 
-/** Ambilight menu settings node IDs (from iOS app analysis) */
-const AMBILIGHT_BRIGHTNESS_NODE_ID = 2131230769;
-const AMBILIGHT_SATURATION_NODE_ID = 2131230771;
+/**
+ * Setters where a newer write replaces one still waiting in the queue (last
+ * write wins), so a slider drag sends its final value instead of every step.
+ * `/ambilight/cached` is left out: side writes carry only the sides they paint.
+ */
+const COALESCED_ENDPOINTS: ReadonlySet<string> = new Set([
+  '/activities/tv',
+  '/ambilight/currentconfiguration',
+  '/ambilight/mode',
+  '/ambilight/power',
+  '/audio/volume',
+  '/HueLamp/power',
+  '/menuitems/settings/update',
+  '/screenstate',
+]);
+
+/** Menu setting contexts, resolved to node IDs via `/menuitems/settings/structure` */
+const AMBILIGHT_BRIGHTNESS_CONTEXT = 'ambilight_brightness';
+const AMBILIGHT_SATURATION_CONTEXT = 'ambilight_saturation';
+
+/**
+ * Node IDs observed on the models tested (from iOS app analysis). These vary
+ * across TVs/firmware, so they are only used when the menu structure can't
+ * be resolved.
+ */
+const FALLBACK_MENU_NODE_IDS: Readonly<Record<string, number>> = {
+  [AMBILIGHT_BRIGHTNESS_CONTEXT]: 2131230769,
+  [AMBILIGHT_SATURATION_CONTEXT]: 2131230771,
+};
+
+/** The settings structure is a large document — give the TV longer to produce it */
+const MENU_STRUCTURE_TIMEOUT_MS = 5000;
+
+/**
+ * After the settings structure can't be fetched, menu writes use the fallback
+ * node IDs without asking again for this long (or until the next power-on),
+ * instead of waiting out the structure timeout on every write.
+ */
+export const MENU_STRUCTURE_RETRY_INTERVAL_MS = 10 * 60_000;
+
+/**
+ * After the TV rejects the credentials, requests fail without being sent for
+ * this long. One request then checks whether they are accepted again.
+ */
+export const AUTH_RETRY_INTERVAL_MS = 5 * 60_000;
+
+/**
+ * Power-on budget. A TV in deep standby needs WoL, then 10-20s before its
+ * API answers, then a few more seconds before `/powerstate` reads On.
+ */
+export const POWER_ON_TIMEOUT_MS = 30_000;
+
+/** Reachability checks back off from the initial delay up to the cap */
+const POWER_ON_BACKOFF_INITIAL_MS = 1000;
+const POWER_ON_BACKOFF_MAX_MS = 4000;
+
+/** Interval between `/powerstate` reads while waiting for the TV to report On */
+const POWER_ON_CONFIRM_INTERVAL_MS = 1000;
 
 /** Ambilight menu settings range */
 const AMBILIGHT_SETTING_MIN = 0;
@@ -75,6 +154,15 @@ export const WATCH_TV_URI = 'content://android.media.tv/channel';
 /** Home screen virtual source URI */
 export const HOME_URI = 'virtual:home';
 
+/** Lounge light presets — sent as a static Follow Color with these colors */
+export const AMBILIGHT_LOUNGE_PRESETS: Readonly<Record<AmbilightLoungeStyle, AmbilightColor>> = {
+  'Hot lava': { hue: 0, saturation: 255, brightness: 255 },
+  'Deep water': { hue: 170, saturation: 255, brightness: 255 },
+  'Fresh nature': { hue: 85, saturation: 255, brightness: 255 },
+  'Warm White': { hue: 30, saturation: 80, brightness: 255 },
+  'Cool white': { hue: 200, saturation: 40, brightness: 255 },
+};
+
 /** Intent action for source selection */
 const SOURCE_SELECT_ACTION = 'org.droidtv.playtv.SELECTURI';
 
@@ -93,6 +181,9 @@ export interface PhilipsTVClientConfig {
   mac: string;
   username: string;
   password: string;
+  /** Send Wake-on-LAN before powering on (defaults to true) */
+  wakeOnLanEnabled?: boolean;
+  wakeOnLan?: WakeOnLanConfig;
 }
 
 interface ApplicationIntent {
@@ -101,6 +192,70 @@ interface ApplicationIntent {
   extras?: Record<string, unknown>;
 }
 
+/** Request queue counters since the client was created, for diagnostics */
+export interface RequestQueueStats {
+  /** Requests waiting to be sent: user actions (writes) and background reads */
+  readonly pending: { readonly user: number; readonly background: number };
+  /** Most requests waiting at once */
+  readonly peakDepth: number;
+  readonly sent: number;
+  /** Setter calls replaced by a newer write to the same setting before being sent */
+  readonly coalesced: number;
+  /** Reads answered by an identical read already queued or in flight */
+  readonly deduplicated: number;
+  /** Calls dropped after waiting longer than the queue timeout */
+  readonly dropped: number;
+  readonly averageWaitMs: number;
+  readonly maxWaitMs: number;
+}
+
+/**
+ * Queue lane of a request. The user lane (commands, and reads a command
+ * depends on, like power-on's reachability checks) is always served before
+ * the background lane, where polling keeps it busy.
+ */
+export type RequestPriority = 'user' | 'background';
+
+/** A caller waiting for a queued request, dropped once it has waited QUEUE_TIMEOUT_MS */
+interface QueueWaiter {
+  readonly settle: (result: unknown) => void;
+  readonly enqueuedAt: number;
+}
+
+/** A request waiting for its turn */
+interface QueuedRequest {
+  readonly method: 'GET' | 'POST';
+  readonly endpoint: string;
+  /** Replaced by each newer write to the same setter while waiting */
+  body: unknown;
+  readonly timeout: number;
+  priority: RequestPriority;
+  /** When the first caller queued it; coalescing keeps it, so waiting callers keep their deadline */
+  readonly enqueuedAt: number;
+  /** Set once sent */
+  startedAt: number | null;
+  /** Set for setters (see COALESCED_ENDPOINTS) */
+  readonly coalesceKey: string | null;
+  /** Every caller waiting for this request's result */
+  waiters: QueueWaiter[];
+}
+
+/** Which pending write a setter call replaces: same endpoint, and same menu node or volume field. */
+function coalesceKey(endpoint: string, body: unknown): string | null {
+  if (!COALESCED_ENDPOINTS.has(endpoint)) {
+    return null;
+  }
+  if (endpoint === '/menuitems/settings/update') {
+    const nodeId = (body as { values?: Array<{ value?: { Nodeid?: number } }> } | undefined)?.values?.[0]?.value?.Nodeid;
+    return `${endpoint}:${nodeId}`;
+  }
+  if (endpoint === '/audio/volume') {
+    // A mute toggle must not replace a pending volume level, or the other way round
+    return `${endpoint}:${Object.keys(body ?? {}).sort().join(',')}`;
+  }
+  return endpoint;
+}
+
 // ============================================================================
 // CLIENT CLASS
 // ============================================================================
@@ -109,8 +264,11 @@ export class PhilipsTVClient {
   private readonly config: PhilipsTVClientConfig;
   private readonly debug: (message: string) => void;
 
-  /** Promise chain that serializes all requests to the TV */
-  private requestQueue: Promise<void> = Promise.resolve();
+  /** Requests waiting to be sent, one at a time, user actions first */
+  private readonly queue: Record<'user' | 'background', QueuedRequest[]> = { user: [], background: [] };
+  private inFlight: QueuedRequest | null = null;
+  private draining = false;
+  private queueCounters = { peakDepth: 0, sent: 0, coalesced: 0, deduplicated: 0, dropped: 0, totalWaitMs: 0, maxWaitMs: 0 };
 
   /** Cached app intents — maps packageName to the intent returned by the TV */
   private appIntents = new Map<string, ApplicationIntent>();
@@ -118,21 +276,98 @@ export class PhilipsTVClient {
   /** Shared digest auth session — avoids a 401 round-trip on every request */
   private readonly authSession: DigestAuthSession;
 
+  /** LED layout, fetched once for per-side pixel writes */
+  private ambilightTopology: AmbilightTopology | null = null;
+
+  /** Menu setting node IDs keyed by context, resolved once from the TV's menu structure */
+  private menuNodeIds: Map<string, number> | null = null;
+  private menuNodeResolution: Promise<Map<string, number> | null> | null = null;
+  /** When the structure last couldn't be resolved; null when it may be fetched */
+  private menuStructureFailedAt: number | null = null;
+
+  /** Requests in a row that got no HTTP response at all (timeout, refused, no route) */
+  private transportFailures = 0;
+
+  /** When the TV last rejected the credentials after a fresh challenge; null while they work */
+  private authRejectedAt: number | null = null;
+
+  /** Request URIs the TV answered 404 for last time — it doesn't have them, as opposed to not answering */
+  private readonly missingUris = new Set<string>();
+
+  /** Bumped on every power command so a running power-on sequence can tell it was superseded */
+  private powerCommandGeneration = 0;
+
   constructor(config: PhilipsTVClientConfig, debug?: (message: string) => void) {
-    this.config = config;
+    // Copy so an IP change at runtime doesn't leak into the caller's config
+    this.config = { ...config };
     this.debug = debug ?? (() => {});
     this.authSession = new DigestAuthSession(config.username, config.password);
   }
 
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  get ip(): string {
+    return this.config.ip;
+  }
+
+  /**
+   * Point the client at a new address (the TV got a new DHCP lease).
+   * Queued requests pick up the new address when they run.
+   */
+  setIp(ip: string): void {
+    this.config.ip = ip;
+    this.transportFailures = 0;
+    this.authRejectedAt = null;
+    this.authSession.clear();
+  }
+
+  /**
+   * Number of consecutive requests the TV did not answer at all. Any HTTP
+   * response — even an error status — resets it, so a high count means the
+   * TV is off the network or no longer at this address.
+   */
+  get consecutiveFailures(): number {
+    return this.transportFailures;
+  }
+
+  /**
+   * Whether the TV rejected the username/password even after a fresh digest
+   * challenge — it was factory reset or the paired device was removed. Cleared
+   * as soon as a request is accepted again.
+   */
+  get isUnauthorized(): boolean {
+    return this.authRejectedAt !== null;
+  }
+
   // ==========================================================================
   // HTTP LAYER
   // ==========================================================================
 
+  /** Request queue counters: depth, wait times, and how many calls were merged or dropped. */
+  get queueStats(): RequestQueueStats {
+    const { totalWaitMs, ...counters } = this.queueCounters;
+    return {
+      ...counters,
+      pending: { user: this.queue.user.length, background: this.queue.background.length },
+      averageWaitMs: counters.sent > 0 ? Math.round(totalWaitMs / counters.sent) : 0,
+    };
+  }
+
   /**
    * Queued request wrapper. Serializes all API calls so only one HTTP
    * exchange is in-flight at a time, with a small delay between requests
    * to avoid overwhelming the TV's lightweight JointSpace API server.
    *
+   * Requests in the user lane are sent before any in the background lane,
+   * so a burst of polling can't hold up a power or source change. A write to
+   * a setter replaces the body of its pending predecessor in place (keeping
+   * its queue position and age), and every caller gets the newer write's
+   * result. A read joins an identical read that is already queued or in
+   * flight when that one will answer within the caller's own timeout; the
+   * joining caller keeps its own queue deadline.
+   *
    * A queue-level timeout ensures requests that wait too long behind
    * earlier (timed-out) requests are dropped before exceeding
    * Homebridge's characteristic callback timeout.
@@ -140,44 +375,133 @@ export class PhilipsTVClient {
   private request<T>(
     method: 'GET' | 'POST',
     endpoint: string,
-    body?: unknown,
-    timeout = method === 'POST' ? DEFAULT_POST_TIMEOUT_MS : DEFAULT_GET_TIMEOUT_MS,
+    body: unknown,
+    timeout: number,
+    priority: RequestPriority,
   ): Promise<T | null> {
-    const enqueueTime = Date.now();
-
     return new Promise<T | null>((resolve) => {
-      this.requestQueue = this.requestQueue.then(async () => {
-        // Drop requests that have been waiting in the queue too long
-        const waited = Date.now() - enqueueTime;
-        if (waited >= QUEUE_TIMEOUT_MS) {
-          this.debug(`API ${method} ${endpoint} → DROPPED (queued ${waited}ms)`);
-          resolve(null);
+      const now = Date.now();
+      const waiter: QueueWaiter = { settle: resolve as (result: unknown) => void, enqueuedAt: now };
+
+      if (method === 'GET') {
+        const identical = this.findIdenticalRead(endpoint, now + timeout);
+        if (identical) {
+          identical.waiters.push(waiter);
+          // A command waiting on a queued poll read moves it to the user lane
+          if (priority === 'user' && identical.priority === 'background' && identical.startedAt === null) {
+            this.queue.background.splice(this.queue.background.indexOf(identical), 1);
+            identical.priority = 'user';
+            this.queue.user.push(identical);
+          }
+          this.queueCounters.deduplicated++;
           return;
         }
+      }
 
-        const start = Date.now();
-        // Only log POST requests (user actions) — GET polling is silent unless it fails
-        if (method === 'POST') {
-          this.debug(`API POST ${endpoint} ← ${JSON.stringify(body)}`);
-        }
-        try {
-          const result = await this.executeRequest<T>(method, endpoint, body, timeout);
-          if (method === 'POST') {
-            const elapsed = Date.now() - start;
-            const ok = result !== null;
-            this.debug(`API POST ${endpoint} → ${ok ? 'OK' : 'FAIL'} (${elapsed}ms)`);
-          }
-          resolve(result);
-        } catch {
-          this.debug(`API ${method} ${endpoint} → ERROR (${Date.now() - start}ms)`);
-          resolve(null);
-        } finally {
-          await this.sleep(INTER_REQUEST_DELAY_MS);
-        }
-      });
+      const lane = this.queue[priority];
+      const key = method === 'POST' ? coalesceKey(endpoint, body) : null;
+      const pending = key ? lane.find(r => r.coalesceKey === key) : undefined;
+      if (pending) {
+        pending.body = body;
+        // Joins at the pending write's age: a drag of newer values must not extend the wait
+        pending.waiters.push({ ...waiter, enqueuedAt: pending.enqueuedAt });
+        this.queueCounters.coalesced++;
+        return;
+      }
+
+      lane.push({ method, endpoint, body, timeout, priority, enqueuedAt: now, startedAt: null, coalesceKey: key, waiters: [waiter] });
+      const depth = this.queue.user.length + this.queue.background.length;
+      this.queueCounters.peakDepth = Math.max(this.queueCounters.peakDepth, depth);
+      void this.drainQueue();
     });
   }
 
+  /**
+   * A queued or in-flight GET of `endpoint` that will answer by `deadline`:
+   * in flight, it must finish within its timeout by then; queued, its own
+   * timeout must not be longer than the caller's.
+   */
+  private findIdenticalRead(endpoint: string, deadline: number): QueuedRequest | undefined {
+    const inFlight = this.inFlight;
+    if (inFlight?.method === 'GET' && inFlight.endpoint === endpoint && inFlight.startedAt! + inFlight.timeout <= deadline) {
+      return inFlight;
+    }
+    const timeout = deadline - Date.now();
+    return [...this.queue.user, ...this.queue.background]
+      .find(r => r.method === 'GET' && r.endpoint === endpoint && r.timeout <= timeout);
+  }
+
+  /** Send queued requests one at a time until both lanes are empty. */
+  private async drainQueue(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+    try {
+      let next = this.queue.user.shift() ?? this.queue.background.shift();
+      while (next) {
+        await this.dispatch(next);
+        next = this.queue.user.shift() ?? this.queue.background.shift();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async dispatch(request: QueuedRequest): Promise<void> {
+    const { method, endpoint, body } = request;
+    const finish = (result: unknown) => request.waiters.forEach(waiter => waiter.settle(result));
+
+    // Drop callers that have been waiting in the queue too long; send for the rest
+    const now = Date.now();
+    const expired = request.waiters.filter(waiter => now - waiter.enqueuedAt >= QUEUE_TIMEOUT_MS);
+    if (expired.length > 0) {
+      this.debug(`API ${method} ${endpoint} → DROPPED (queued ${now - request.enqueuedAt}ms)`);
+      this.queueCounters.dropped += expired.length;
+      expired.forEach(waiter => waiter.settle(null));
+      request.waiters = request.waiters.filter(waiter => !expired.includes(waiter));
+      if (request.waiters.length === 0) {
+        return;
+      }
+    }
+    const waited = now - request.enqueuedAt;
+
+    // Don't keep sending credentials the TV rejected; retry them now and then
+    if (this.authRejectedAt !== null && Date.now() - this.authRejectedAt < AUTH_RETRY_INTERVAL_MS) {
+      this.debug(`API ${method} ${endpoint} → SKIPPED (credentials rejected)`);
+      finish(null);
+      return;
+    }
+
+    this.queueCounters.sent++;
+    this.queueCounters.totalWaitMs += waited;
+    this.queueCounters.maxWaitMs = Math.max(this.queueCounters.maxWaitMs, waited);
+
+    const start = Date.now();
+    // Only log POST requests (user actions) — GET polling is silent unless it fails
+    if (method === 'POST') {
+      this.debug(`API POST ${endpoint} ← ${JSON.stringify(body)}`);
+    }
+    request.startedAt = start;
+    this.inFlight = request;
+    try {
+      const result = await this.executeRequest(method, endpoint, body, request.timeout);
+      if (method === 'POST') {
+        const elapsed = Date.now() - start;
+        const ok = result !== null;
+        this.debug(`API POST ${endpoint} → ${ok ? 'OK' : 'FAIL'} (${elapsed}ms)`);
+      }
+      this.inFlight = null;
+      finish(result);
+    } catch {
+      this.debug(`API ${method} ${endpoint} → ERROR (${Date.now() - start}ms)`);
+      this.inFlight = null;
+      finish(null);
+    } finally {
+      await this.sleep(INTER_REQUEST_DELAY_MS);
+    }
+  }
+
   /** Performs the actual HTTP request with digest auth handling. */
   private async executeRequest<T>(
     method: 'GET' | 'POST',
@@ -194,12 +518,13 @@ export class PhilipsTVClient {
       // If we have cached auth, send credentials proactively (single round-trip)
       if (this.authSession.hasCachedAuth) {
         const authHeader = this.authSession.buildHeader(method, uri)!;
-        const response = await fetchWithTimeout(
+        const response = await this.send(
           url,
           { method, headers: { ...headers, Authorization: authHeader }, body: requestBody, dispatcher: httpsAgent },
           timeout,
         );
 
+        this.noteStatus(uri, response.status);
         if (response.ok) {
           return this.parseJsonResponse<T>(response);
         }
@@ -215,12 +540,13 @@ export class PhilipsTVClient {
       }
 
       // No cached auth — initial request (may trigger 401)
-      const initialResponse = await fetchWithTimeout(
+      const initialResponse = await this.send(
         url,
         { method, headers, body: requestBody, dispatcher: httpsAgent },
         timeout,
       );
 
+      this.noteStatus(uri, initialResponse.status);
       if (initialResponse.ok) {
         return this.parseJsonResponse<T>(initialResponse);
       }
@@ -232,10 +558,18 @@ export class PhilipsTVClient {
       this.debug(`API ${method} ${endpoint} HTTP ${initialResponse.status}`);
       return null;
     } catch {
+      this.transportFailures++;
       return null;
     }
   }
 
+  /** `fetchWithTimeout`, resetting the failure count once the TV answers. */
+  private async send(...args: Parameters<typeof fetchWithTimeout>): ReturnType<typeof fetchWithTimeout> {
+    const response = await fetchWithTimeout(...args);
+    this.transportFailures = 0;
+    return response;
+  }
+
   /**
    * Perform a fresh digest auth handshake from a 401 response,
    * caching the parameters for subsequent requests.
@@ -256,7 +590,7 @@ export class PhilipsTVClient {
 
     const authHeader = this.authSession.buildHeader(method, uri)!;
 
-    const authResponse = await fetchWithTimeout(
+    const authResponse = await this.send(
       url,
       {
         method,
@@ -267,9 +601,33 @@ export class PhilipsTVClient {
       timeout,
     );
 
+    this.noteStatus(uri, authResponse.status);
+    if (authResponse.status === 401) {
+      // Rejected with parameters from a challenge we were just given: the credentials themselves are wrong
+      this.authSession.clear();
+      this.authRejectedAt = Date.now();
+      return null;
+    }
+    if (authResponse.ok) {
+      this.authRejectedAt = null;
+    }
     return authResponse.ok ? this.parseJsonResponse<T>(authResponse) : null;
   }
 
+  /** Remember whether the TV has an endpoint; a 401 says nothing either way. */
+  private noteStatus(uri: string, status: number): void {
+    if (status === 404) {
+      this.missingUris.add(uri);
+    } else if (status !== 401) {
+      this.missingUris.delete(uri);
+    }
+  }
+
+  /** Whether the TV answered 404 the last time `endpoint` was requested. */
+  private isMissing(endpoint: string): boolean {
+    return this.missingUris.has(`/${TV_API_VERSION}${endpoint}`);
+  }
+
   /**
    * Parse a JSON response body. Returns null only on parse failure.
    * Empty bodies on 2xx responses return an empty object (common for POST success).
@@ -287,55 +645,120 @@ export class PhilipsTVClient {
     }
   }
 
-  private get<T>(endpoint: string, timeout?: number): Promise<T | null> {
-    return this.request<T>('GET', endpoint, undefined, timeout);
+  /** A read, in the background lane unless a command is waiting on it. */
+  private get<T>(endpoint: string, timeout = DEFAULT_GET_TIMEOUT_MS, priority: RequestPriority = 'background'): Promise<T | null> {
+    return this.request<T>('GET', endpoint, undefined, timeout, priority);
   }
 
-  private post<T>(endpoint: string, body: unknown, timeout?: number): Promise<T | null> {
-    return this.request<T>('POST', endpoint, body, timeout);
+  /** A write, in the user lane unless the endpoint only reads (e.g. `/menuitems/settings/current`). */
+  private post<T>(endpoint: string, body: unknown, timeout = DEFAULT_POST_TIMEOUT_MS, priority: RequestPriority = 'user'): Promise<T | null> {
+    return this.request<T>('POST', endpoint, body, timeout, priority);
   }
 
   // ==========================================================================
   // POWER
   // ==========================================================================
 
-  async getPowerState(): Promise<boolean> {
-    const result = await this.get<PowerState>('/powerstate');
+  /** @param priority - `user` when a command waits on the answer (power-on confirmation) */
+  async getPowerState(priority: RequestPriority = 'background'): Promise<boolean> {
+    const result = await this.get<PowerState>('/powerstate', undefined, priority);
     return result?.powerstate === 'On';
   }
 
   async setPowerState(on: boolean): Promise<boolean> {
+    const generation = ++this.powerCommandGeneration;
     if (on) {
-      // Send WoL first — if the TV is in deep standby its network stack may
-      // be down and the API POST will fail. WoL gives the TV the chance to
-      // wake, but we only return true when the API confirms the state change.
-      // Returning false here lets the caller keep isPoweredOn = false so the
-      // next attempt is not silently skipped — the poll will reconcile once
-      // the TV responds.
-      await this.tryWakeOnLan();
-      const result = await this.post('/powerstate', { powerstate: 'On' });
-      return result !== null;
+      return this.powerOn(generation);
     }
 
     const result = await this.post('/powerstate', { powerstate: 'Standby' });
     return result !== null;
   }
 
+  /**
+   * Power-on sequence for TVs that may be in deep standby:
+   *   1. Wake-on-LAN (repeated while the API is down — a sleeping NIC can miss a burst)
+   *   2. Wait for the API to answer, backing off between checks
+   *   3. POST `/powerstate` On
+   *   4. Poll `/powerstate` until it reads On
+   *
+   * Resolves true only once the TV confirms On. Resolves false when the
+   * budget runs out, or early when a newer power command supersedes it
+   * (e.g. the user turns the TV back off mid-boot). Returning false lets the
+   * caller keep the TV marked off so the next attempt is not silently skipped.
+   */
+  private async powerOn(generation: number): Promise<boolean> {
+    const deadline = Date.now() + POWER_ON_TIMEOUT_MS;
+    const superseded = () => generation !== this.powerCommandGeneration;
+
+    let backoff = POWER_ON_BACKOFF_INITIAL_MS;
+    await this.tryWakeOnLan();
+    while (!(await this.isReachable('user'))) {
+      if (superseded() || Date.now() + backoff >= deadline) {
+        this.debug('Power-on: TV API did not become reachable');
+        return false;
+      }
+      await this.sleep(backoff);
+      backoff = Math.min(backoff * 2, POWER_ON_BACKOFF_MAX_MS);
+      await this.tryWakeOnLan();
+    }
+
+    if (superseded() || await this.post('/powerstate', { powerstate: 'On' }) === null) {
+      return false;
+    }
+
+    while (!superseded()) {
+      if (await this.getPowerState('user')) {
+        // The settings structure may well have failed because the TV was asleep
+        this.menuStructureFailedAt = null;
+        return true;
+      }
+      if (Date.now() + POWER_ON_CONFIRM_INTERVAL_MS >= deadline) {
+        this.debug('Power-on: TV did not report On in time');
+        return false;
+      }
+      await this.sleep(POWER_ON_CONFIRM_INTERVAL_MS);
+    }
+    return false;
+  }
+
   private async tryWakeOnLan(): Promise<boolean> {
+    if (this.config.wakeOnLanEnabled === false) {
+      return false;
+    }
     try {
-      await sendWakeOnLan(this.config.mac);
+      await sendWakeOnLan(this.config.mac, this.wakeOnLanOptions());
       return true;
     } catch {
       return false;
     }
   }
 
+  // ==========================================================================
+  // SCREEN
+  // ==========================================================================
+
+  /**
+   * Whether the panel is lit. Returns null when the TV doesn't answer or
+   * doesn't support `/screenstate`, so callers can keep their last state.
+   */
+  async getScreenState(): Promise<boolean | null> {
+    const result = await this.get<ScreenState>('/screenstate');
+    return result?.screenstate ? result.screenstate === 'On' : null;
+  }
+
+  /** Turn the panel off while the TV (and its audio) keeps running, or back on. */
+  async setScreenState(on: boolean): Promise<boolean> {
+    const result = await this.post('/screenstate', { screenstate: on ? 'On' : 'Off' });
+    return result !== null;
+  }
+
   // ==========================================================================
   // VOLUME
   // ==========================================================================
 
-  async getVolume(): Promise<VolumeState | null> {
-    return this.get<VolumeState>('/audio/volume');
+  async getVolume(priority: RequestPriority = 'background'): Promise<VolumeState | null> {
+    return this.get<VolumeState>('/audio/volume', undefined, priority);
   }
 
   async setVolume(volume: number): Promise<boolean> {
@@ -531,6 +954,58 @@ export class PhilipsTVClient {
     return result !== null;
   }
 
+  /** The channel the tuner is showing, or null when it isn't running. */
+  async getCurrentChannel(): Promise<CurrentChannel | null> {
+    return parseTVActivity(await this.get<unknown>('/activities/tv'));
+  }
+
+  async getFavoriteLists(): Promise<TVFavoriteList[]> {
+    const result = await this.get<TVChannelDb>('/channeldb/tv');
+    return result?.favoriteLists ?? [];
+  }
+
+  /**
+   * Channels of a favourite list, in the list's order. The list only carries
+   * ccids, so names come from the full channel lists; favourites the TV
+   * no longer has a channel for are dropped.
+   */
+  async getFavoriteChannels(favoriteListId: string): Promise<TVChannel[]> {
+    const result = await this.get<TVFavoriteListChannels>(`/channeldb/tv/favoriteLists/${encodeURIComponent(favoriteListId)}`);
+    const favorites = result?.channels ?? [];
+    if (favorites.length === 0) {
+      return [];
+    }
+
+    const channels = await this.getChannels();
+    const byCcid = new Map<number, TVChannel>();
+    for (const ch of channels) {
+      // Prefer the channel list the favourite list belongs to
+      if (!byCcid.has(ch.ccid) || ch.channelListId === result?.parentId) {
+        byCcid.set(ch.ccid, ch);
+      }
+    }
+
+    return favorites
+      .filter(fav => byCcid.has(fav.ccid))
+      .map(fav => {
+        const ch = byCcid.get(fav.ccid)!;
+        return { ...ch, preset: fav.preset ?? ch.preset, channelListId: result?.parentId ?? ch.channelListId };
+      });
+  }
+
+  /** Tune by channel number, the way the remote's number pad does: digits, then OK. */
+  async sendChannelNumber(channelNumber: string): Promise<boolean> {
+    if (!/^\d{1,4}$/.test(channelNumber)) {
+      return false;
+    }
+    for (const digit of channelNumber) {
+      if (!(await this.sendKey(`Digit${digit}` as RemoteKey))) {
+        return false;
+      }
+    }
+    return this.sendKey('Confirm');
+  }
+
   // ==========================================================================
   // REMOTE
   // ==========================================================================
@@ -540,19 +1015,50 @@ export class PhilipsTVClient {
     return result !== null;
   }
 
+  /**
+   * Type text into the focused field (e.g. a YouTube or Netflix search box)
+   * instead of cursoring through the on-screen keyboard.
+   */
+  async sendText(text: string): Promise<boolean> {
+    if (!text) {
+      return false;
+    }
+    const result = await this.post('/input/textentry', { textentry: text });
+    return result !== null;
+  }
+
+  /**
+   * Whether the on-screen keyboard is showing. Returns 'unsupported' when the
+   * TV answers 404 (it has no such endpoint) and null when it didn't answer.
+   */
+  async getKeyboardVisible(): Promise<boolean | 'unsupported' | null> {
+    const endpoint = '/input/onscreenkeyboard/visible';
+    const visible = parseKeyboardVisible(await this.get<unknown>(endpoint));
+    return visible ?? (this.isMissing(endpoint) ? 'unsupported' : null);
+  }
+
   // ==========================================================================
   // SYSTEM
   // ==========================================================================
 
-  async getSystemInfo(): Promise<SystemInfo | null> {
-    return this.get<SystemInfo>('/system');
+  async getSystemInfo(priority: RequestPriority = 'background'): Promise<SystemInfo | null> {
+    return this.get<SystemInfo>('/system', undefined, priority);
   }
 
-  async isReachable(): Promise<boolean> {
-    const result = await this.getSystemInfo();
+  async isReachable(priority: RequestPriority = 'background'): Promise<boolean> {
+    const result = await this.getSystemInfo(priority);
     return result !== null;
   }
 
+  /** Check the stored credentials with an authenticated read. */
+  async checkCredentials(): Promise<CredentialStatus> {
+    const result = await this.get<PowerState>('/powerstate');
+    if (result !== null) {
+      return 'authorized';
+    }
+    return this.isUnauthorized ? 'unauthorized' : 'unreachable';
+  }
+
   // ==========================================================================
   // AMBILIGHT
   // ==========================================================================
@@ -647,16 +1153,7 @@ export class PhilipsTVClient {
    * @param preset - Preset name: 'Hot lava', 'Deep water', 'Fresh nature', 'Warm White', 'Cool white'
    */
   async setAmbilightLounge(preset: string = 'Warm White'): Promise<boolean> {
-    // Lounge light presets map to specific colors
-    const presets: Record<string, AmbilightColor> = {
-      'Hot lava': { hue: 0, saturation: 255, brightness: 255 },
-      'Deep water': { hue: 170, saturation: 255, brightness: 255 },
-      'Fresh nature': { hue: 85, saturation: 255, brightness: 255 },
-      'Warm White': { hue: 30, saturation: 80, brightness: 255 },
-      'Cool white': { hue: 200, saturation: 40, brightness: 255 },
-    };
-
-    const color = presets[preset] ?? presets['Warm White'];
+    const color = AMBILIGHT_LOUNGE_PRESETS[preset as AmbilightLoungeStyle] ?? AMBILIGHT_LOUNGE_PRESETS['Warm White'];
     return this.setAmbilightFollowColor(color, 0);
   }
 
@@ -679,21 +1176,76 @@ export class PhilipsTVClient {
     return this.get<AmbilightTopology>('/ambilight/topology');
   }
 
+  /**
+   * Get the Ambilight control mode ('internal' when the TV drives the LEDs,
+   * 'manual' when pixel colors come from `/ambilight/cached`).
+   */
+  async getAmbilightMode(): Promise<AmbilightControlMode | null> {
+    const result = await this.get<AmbilightCurrentMode>('/ambilight/mode');
+    return result?.current ?? null;
+  }
+
+  async setAmbilightMode(mode: AmbilightControlMode): Promise<boolean> {
+    const result = await this.post('/ambilight/mode', { current: mode });
+    return result !== null;
+  }
+
+  /** Colors measured from the video signal, per layer/side/pixel */
+  async getAmbilightMeasured(): Promise<AmbilightPixelData | null> {
+    return this.get<AmbilightPixelData>('/ambilight/measured');
+  }
+
+  /** Colors after the current style's processing, per layer/side/pixel */
+  async getAmbilightProcessed(): Promise<AmbilightPixelData | null> {
+    return this.get<AmbilightPixelData>('/ambilight/processed');
+  }
+
+  /** Colors last written to `/ambilight/cached`, per layer/side/pixel */
+  async getAmbilightCached(): Promise<AmbilightPixelData | null> {
+    return this.get<AmbilightPixelData>('/ambilight/cached');
+  }
+
+  /**
+   * Write pixel colors to `/ambilight/cached`. Only shown while the
+   * Ambilight mode is 'manual' — see setAmbilightSides for the full sequence.
+   * @param data - Per-layer/side/pixel colors, or a single color for all LEDs
+   */
+  async setAmbilightCached(data: AmbilightPixelData | AmbilightRgb): Promise<boolean> {
+    const result = await this.post('/ambilight/cached', data);
+    return result !== null;
+  }
+
+  /**
+   * Paint each side of the TV a single color: switches Ambilight to manual
+   * mode and writes every pixel of the given sides, using the LED topology
+   * (fetched once) to address them. The TV stays in manual mode until
+   * `setAmbilightMode('internal')` or a style change hands the LEDs back.
+   */
+  async setAmbilightSides(colors: Partial<Record<AmbilightSide, AmbilightRgb>>): Promise<boolean> {
+    this.ambilightTopology ??= await this.getAmbilightTopology();
+
+    const manual = await this.setAmbilightMode('manual');
+    if (!manual) {
+      return false;
+    }
+    return this.setAmbilightCached(buildAmbilightSidePixels(colors, this.ambilightTopology));
+  }
+
   /**
    * Set Ambilight brightness
    * @param brightness - Brightness level (0-10)
    */
   async setAmbilightBrightness(brightness: number): Promise<boolean> {
     const clampedBrightness = Math.max(AMBILIGHT_SETTING_MIN, Math.min(AMBILIGHT_SETTING_MAX, brightness));
-    const result = await this.post('/menuitems/settings/update', {
-      values: [{
-        value: {
-          Nodeid: AMBILIGHT_BRIGHTNESS_NODE_ID,
-          data: { value: clampedBrightness },
-        },
-      }],
-    });
-    return result !== null;
+    return this.updateMenuSetting(AMBILIGHT_BRIGHTNESS_CONTEXT, clampedBrightness);
+  }
+
+  /**
+   * Read the Ambilight brightness setting
+   * @returns Brightness level (0-10), or null when the TV doesn't report it
+   */
+  async getAmbilightBrightness(): Promise<number | null> {
+    return this.readMenuSetting(AMBILIGHT_BRIGHTNESS_CONTEXT);
   }
 
   /**
@@ -702,15 +1254,7 @@ export class PhilipsTVClient {
    */
   async setAmbilightSaturation(saturation: number): Promise<boolean> {
     const clampedSaturation = Math.max(AMBILIGHT_SETTING_MIN, Math.min(AMBILIGHT_SETTING_MAX, saturation));
-    const result = await this.post('/menuitems/settings/update', {
-      values: [{
-        value: {
-          Nodeid: AMBILIGHT_SATURATION_NODE_ID,
-          data: { value: clampedSaturation },
-        },
-      }],
-    });
-    return result !== null;
+    return this.updateMenuSetting(AMBILIGHT_SATURATION_CONTEXT, clampedSaturation);
   }
 
   /**
@@ -729,12 +1273,142 @@ export class PhilipsTVClient {
     return result !== null;
   }
 
+  // ==========================================================================
+  // AURORA (AMBIENT MODE)
+  // ==========================================================================
+
+  /**
+   * Whether the Aurora ambient screensaver is showing. Returns 'unsupported'
+   * when the TV has no Aurora support (older sets 404 here) and null when it
+   * didn't answer.
+   */
+  async getAuroraOpen(): Promise<boolean | 'unsupported' | null> {
+    const endpoint = '/aurora/settings/isopen';
+    const result = await this.get<AuroraOpenState>(endpoint);
+    if (typeof result?.isopen === 'boolean') {
+      return result.isopen;
+    }
+    return this.isMissing(endpoint) ? 'unsupported' : null;
+  }
+
+  /** Current Aurora settings (selected gallery, …), or null when unavailable. */
+  async getAuroraSettings(): Promise<AuroraSettings | null> {
+    return this.get<AuroraSettings>('/aurora/settings/current');
+  }
+
+  /** Galleries the TV offers for Aurora (empty when unavailable). */
+  async getAuroraGallery(): Promise<AuroraGalleryItem[]> {
+    const result = await this.get<AuroraGallery>('/aurora/settings/gallery');
+    return result?.gallery ?? [];
+  }
+
+  /** Start or stop Aurora, optionally switching to a gallery in the same update. */
+  async setAuroraOpen(open: boolean, galleryId?: string): Promise<boolean> {
+    const result = await this.post('/aurora/settings/update', galleryId ? { isopen: open, galleryId } : { isopen: open });
+    return result !== null;
+  }
+
+  /** Choose the gallery Aurora shows, without starting or stopping it. */
+  async setAuroraGallery(galleryId: string): Promise<boolean> {
+    const result = await this.post('/aurora/settings/update', { galleryId });
+    return result !== null;
+  }
+
+  // ==========================================================================
+  // MENU SETTINGS
+  // ==========================================================================
+
+  /**
+   * Resolve the node ID of a menu setting by its `context` string
+   * (e.g. `ambilight_brightness`). Node IDs are not stable across TVs or
+   * firmware, so — like the official app — they are looked up in
+   * `/menuitems/settings/structure`, which is fetched once per client and
+   * cached. Falls back to the known hardcoded ID when the structure can't be
+   * fetched or doesn't list the context; a failed fetch is retried after
+   * `MENU_STRUCTURE_RETRY_INTERVAL_MS` or the next power-on.
+   */
+  async resolveMenuNodeId(context: string): Promise<number | null> {
+    const nodeIds = await this.getMenuNodeIds();
+    const nodeId = nodeIds?.get(context);
+    if (nodeId !== undefined) {
+      return nodeId;
+    }
+    const fallback = FALLBACK_MENU_NODE_IDS[context] ?? null;
+    this.debug(`Menu node "${context}" not resolved, ${fallback !== null ? `using fallback ${fallback}` : 'no fallback'}`);
+    return fallback;
+  }
+
+  private getMenuNodeIds(): Promise<Map<string, number> | null> {
+    if (this.menuNodeIds) {
+      return Promise.resolve(this.menuNodeIds);
+    }
+    if (this.menuStructureFailedAt !== null && Date.now() - this.menuStructureFailedAt < MENU_STRUCTURE_RETRY_INTERVAL_MS) {
+      return Promise.resolve(null);
+    }
+    // Share one in-flight fetch between concurrent callers
+    this.menuNodeResolution ??= this.get<MenuStructure>('/menuitems/settings/structure', MENU_STRUCTURE_TIMEOUT_MS)
+      .then((structure) => {
+        const nodeIds = structure ? mapMenuNodesByContext(structure) : null;
+        if (nodeIds && nodeIds.size > 0) {
+          this.menuNodeIds = nodeIds;
+          this.debug(`Resolved ${nodeIds.size} menu setting nodes`);
+          return nodeIds;
+        }
+        this.menuStructureFailedAt = Date.now();
+        return null;
+      })
+      .finally(() => {
+        this.menuNodeResolution = null;
+      });
+    return this.menuNodeResolution;
+  }
+
+  private async readMenuSetting(context: string): Promise<number | null> {
+    const nodeId = await this.resolveMenuNodeId(context);
+    if (nodeId === null) {
+      return null;
+    }
+    const result = await this.post<MenuSettingValues>('/menuitems/settings/current', { nodes: [{ nodeid: nodeId }] }, undefined, 'background');
+    const value = result?.values?.[0]?.value?.data?.value;
+    return typeof value === 'number' ? value : null;
+  }
+
+  private async updateMenuSetting(context: string, value: number): Promise<boolean> {
+    const nodeId = await this.resolveMenuNodeId(context);
+    if (nodeId === null) {
+      return false;
+    }
+    const result = await this.post('/menuitems/settings/update', {
+      values: [{
+        value: {
+          Nodeid: nodeId,
+          data: { value },
+        },
+      }],
+    });
+    return result !== null;
+  }
+
   // ==========================================================================
   // UTILITIES
   // ==========================================================================
 
+  /** Send Wake-on-LAN, unless it is disabled for this TV. */
   async wakeUp(): Promise<void> {
-    await sendWakeOnLan(this.config.mac);
+    if (this.config.wakeOnLanEnabled === false) {
+      return;
+    }
+    await sendWakeOnLan(this.config.mac, this.wakeOnLanOptions());
+  }
+
+  private wakeOnLanOptions(): WakeOnLanOptions {
+    const { broadcastAddress, port, interface: iface, unicast } = this.config.wakeOnLan ?? {};
+    return {
+      broadcastAddress,
+      port,
+      interface: iface,
+      unicastAddress: unicast ? this.config.ip : undefined,
+    };
   }
 
   private sleep(ms: number): Promise<void> {
@@ -20,6 +20,21 @@ export const WOL_BURST_COUNT = 3;
 export const WOL_PACKETS_PER_BURST = 5;
 export const WOL_BURST_INTERVAL_MS = 100;
 
+/** How long to ping the TV for its NIC's answer after a verified wake, and how often */
+export const WOL_VERIFY_TIMEOUT_MS = 10000;
+export const WOL_VERIFY_INTERVAL_MS = 1000;
+
+/** Every key `POST /input/key` accepts */
+export const REMOTE_KEYS = [
+  'Standby', 'PowerOn', 'PowerOff', 'Back', 'Find', 'RedColour', 'GreenColour', 'YellowColour',
+  'BlueColour', 'Home', 'VolumeUp', 'VolumeDown', 'Mute', 'Options', 'Dot', 'Digit0', 'Digit1',
+  'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Info',
+  'CursorUp', 'CursorDown', 'CursorLeft', 'CursorRight', 'Confirm', 'Next', 'Previous', 'Adjust',
+  'WatchTV', 'Viewmode', 'Teletext', 'Subtitle', 'ChannelStepUp', 'ChannelStepDown', 'Source',
+  'AmbilightOnOff', 'PlayPause', 'Play', 'Pause', 'FastForward', 'Stop', 'Rewind', 'Record',
+  'Online',
+] as const;
+
 // Philips TV shared secret key for signature verification
 export const AUTH_SHARED_KEY = Buffer.from(
   'ZmVay1EQVFOaZhwQ4Kv81ypLAZNczV9sG4KkseXWn1NEk6cXmPKO/MCa9sryslvLCFMnNe4Z4CPXzToowvhHvA==',
@@ -30,3 +30,7 @@ export {
 // TV Client
 export { PhilipsTVClient, HDMI_SOURCES, WATCH_TV_URI } from './PhilipsTVClient.js';
 export type { PhilipsTVClientConfig } from './PhilipsTVClient.js';
+
+// Pairing
+export { PairingClient, PAIRING_SESSION_TTL_MS, MAX_PIN_ATTEMPTS } from './PairingClient.js';
+export type { PairingClientOptions } from './PairingClient.js';
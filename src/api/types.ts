@@ -2,6 +2,8 @@
  * Philips TV API Types
  */
 
+import type { REMOTE_KEYS } from './constants.js';
+
 export interface DeviceInfo {
   device_name: string;
   device_os: string;
@@ -51,18 +53,48 @@ export interface ApiResult<T = unknown> {
   details?: string;
 }
 
+/**
+ * Why a pairing step failed:
+ * - `unreachable`: the request never got an answer
+ * - `rejected`: the TV refused the request (busy, unsupported, internal error)
+ * - `no-session` / `session-expired`: no PIN is pending for this TV, or it timed out
+ * - `invalid-pin`: wrong PIN, another attempt is allowed
+ * - `too-many-attempts`: wrong PIN too often, pairing must start over
+ */
+export type PairingErrorCode =
+  | 'unreachable'
+  | 'rejected'
+  | 'no-session'
+  | 'session-expired'
+  | 'invalid-pin'
+  | 'too-many-attempts';
+
 export interface PairingResult extends ApiResult {
   auth_key?: string;
   timestamp?: number;
   message?: string;
+  code?: PairingErrorCode;
+  /** When the PIN shown on the TV stops being accepted (epoch ms) */
+  expiresAt?: number;
 }
 
 export interface GrantResult extends ApiResult {
   username?: string;
   password?: string;
   message?: string;
+  code?: PairingErrorCode;
+  /** PIN attempts left after an `invalid-pin` failure */
+  attemptsLeft?: number;
 }
 
+/**
+ * Outcome of checking stored credentials against the TV:
+ * - `authorized`: the TV accepted them
+ * - `unauthorized`: the TV rejected them after a fresh challenge (reset, or the pairing was removed)
+ * - `unreachable`: no usable answer, so nothing is known about them
+ */
+export type CredentialStatus = 'authorized' | 'unauthorized' | 'unreachable';
+
 export interface SystemInfo {
   name?: string;
   country?: string;
@@ -101,6 +133,15 @@ export interface PowerState {
   powerstate: 'On' | 'Standby';
 }
 
+export interface ScreenState {
+  screenstate: 'On' | 'Off';
+}
+
+/** Body of `/input/onscreenkeyboard/visible` (also pushed through `/notifychange`) */
+export interface OnScreenKeyboardState {
+  visible?: boolean;
+}
+
 export interface VolumeState {
   current: number;
   min: number;
@@ -152,6 +193,42 @@ export interface TVChannelList {
   version?: number;
 }
 
+/** A favourite list from `/channeldb/tv` */
+export interface TVFavoriteList {
+  id: string;
+  name?: string;
+  /** Channel list the favourites belong to (`allcab`, `allsat`, …) */
+  parentId?: string;
+  version?: number;
+}
+
+/** Overview of the TV's channel database (`/channeldb/tv`) */
+export interface TVChannelDb {
+  channelLists?: { id: string; version?: number }[];
+  favoriteLists?: TVFavoriteList[];
+}
+
+/** Entries of one favourite list (`/channeldb/tv/favoriteLists/<id>`) */
+export interface TVFavoriteListChannels {
+  id?: string;
+  parentId?: string;
+  channels?: { ccid: number; preset?: string }[];
+}
+
+/** Tuner state from `/activities/tv` (also pushed through `/notifychange`) */
+export interface TVActivity {
+  channel?: { ccid?: number; preset?: string; name?: string };
+  channelList?: { id?: string; version?: string | number };
+}
+
+/** The channel the tuner is showing */
+export interface CurrentChannel {
+  ccid: number;
+  name: string;
+  preset?: string;
+  channelListId?: string;
+}
+
 export interface CurrentActivity {
   pkg?: {
     name?: string;
@@ -222,6 +299,12 @@ export type AmbilightLoungeStyle =
   | 'Warm White'
   | 'Cool white';
 
+// Ambilight style selectable as a HomeKit switch, e.g. 'FOLLOW_VIDEO/GAME' or 'LOUNGE/WARM_WHITE'
+export type AmbilightStyleSwitchId =
+  | `FOLLOW_VIDEO/${AmbilightVideoStyle}`
+  | `FOLLOW_AUDIO/${AmbilightAudioStyle}`
+  | `LOUNGE/${AmbilightColorStyle}`;
+
 // Full Ambilight configuration for setting styles
 export interface AmbilightConfig {
   styleName: AmbilightStyleName;
@@ -253,9 +336,28 @@ export interface AmbilightTopology {
   bottom: number;
 }
 
+// Ambilight LED edges, as named in topology and pixel data
+export type AmbilightSide = 'left' | 'top' | 'right' | 'bottom';
+
+// 8-bit RGB color used by the pixel endpoints (/ambilight/cached etc.)
+export interface AmbilightRgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Pixel data keyed by layer ('layer1', ...) → side → pixel index ('0', '1', ...).
+// /ambilight/cached also accepts an AmbilightRgb at any level to set all pixels below it.
+export type AmbilightSidePixels = Record<string, AmbilightRgb>;
+export type AmbilightLayerPixels = Partial<Record<AmbilightSide, AmbilightSidePixels | AmbilightRgb>>;
+export type AmbilightPixelData = Record<string, AmbilightLayerPixels | AmbilightRgb>;
+
+// Ambilight control mode (/ambilight/mode); 'manual' is required for /ambilight/cached writes
+export type AmbilightControlMode = 'internal' | 'manual' | 'expert' | 'lounge';
+
 // Current ambilight mode response
 export interface AmbilightCurrentMode {
-  current: AmbilightStyleName;
+  current: AmbilightControlMode;
 }
 
 // Ambilight cached response
@@ -263,6 +365,7 @@ export interface AmbilightCached {
   styleName: AmbilightStyleName;
   isExpert: boolean;
   algorithm?: string;
+  menuSetting?: string;
   colorSettings?: {
     color: AmbilightColor;
     colorDelta: AmbilightColor;
@@ -270,54 +373,120 @@ export interface AmbilightCached {
   };
 }
 
-export type RemoteKey =
-  | 'Standby'
-  | 'Back'
-  | 'Find'
-  | 'RedColour'
-  | 'GreenColour'
-  | 'YellowColour'
-  | 'BlueColour'
-  | 'Home'
-  | 'VolumeUp'
-  | 'VolumeDown'
-  | 'Mute'
-  | 'Options'
-  | 'Dot'
-  | 'Digit0'
-  | 'Digit1'
-  | 'Digit2'
-  | 'Digit3'
-  | 'Digit4'
-  | 'Digit5'
-  | 'Digit6'
-  | 'Digit7'
-  | 'Digit8'
-  | 'Digit9'
-  | 'Info'
-  | 'CursorUp'
-  | 'CursorDown'
-  | 'CursorLeft'
-  | 'CursorRight'
-  | 'Confirm'
-  | 'Next'
-  | 'Previous'
-  | 'Adjust'
-  | 'WatchTV'
-  | 'Viewmode'
-  | 'Teletext'
-  | 'Subtitle'
-  | 'ChannelStepUp'
-  | 'ChannelStepDown'
-  | 'Source'
-  | 'AmbilightOnOff'
-  | 'PlayPause'
-  | 'Pause'
-  | 'FastForward'
-  | 'Stop'
-  | 'Rewind'
-  | 'Record'
-  | 'Online';
+// Menu settings tree from /menuitems/settings/structure
+export interface MenuStructureNode {
+  node_id: number;
+  type?: string;
+  string_id?: string;
+  context?: string;
+  data?: {
+    nodes?: MenuStructureNode[];
+    [key: string]: unknown;
+  };
+}
+
+export interface MenuStructure {
+  node?: MenuStructureNode;
+  nodes?: MenuStructureNode[];
+  version?: number;
+}
+
+// Current setting values from POST /menuitems/settings/current
+export interface MenuSettingValues {
+  values?: {
+    value?: {
+      Nodeid?: number;
+      data?: { value?: unknown };
+    };
+  }[];
+}
+
+// Aurora (ambient screensaver) — /aurora/settings/*. Only the fields the
+// plugin relies on are typed; the TV may send more.
+export interface AuroraOpenState {
+  isopen: boolean;
+}
+
+export interface AuroraGalleryItem {
+  id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface AuroraGallery {
+  gallery?: AuroraGalleryItem[];
+}
+
+export interface AuroraSettings {
+  isopen?: boolean;
+  galleryId?: string;
+  [key: string]: unknown;
+}
+
+/** Keys accepted by `POST /input/key` (see `REMOTE_KEYS`) */
+export type RemoteKey = typeof REMOTE_KEYS[number];
+
+/**
+ * Per-device remap of the HomeKit remote: a HomeKit key name (`SELECT`,
+ * `ARROW_UP`, `INFORMATION`, …), optionally suffixed `_DOUBLE` or `_LONG`,
+ * mapped to the TV key to send.
+ */
+export type RemoteKeyMapConfig = Partial<Record<string, RemoteKey>>;
+
+/** Platform-level settings for the optional local control API */
+export interface ControlApiConfig {
+  enabled?: boolean;
+  /** Bearer token every request must present */
+  token: string;
+  port?: number;
+  /** Interface to bind (defaults to all interfaces) */
+  host?: string;
+}
+
+/** Platform-level settings for the optional MQTT bridge */
+export interface MqttConfig {
+  enabled?: boolean;
+  /** Broker URL, e.g. `mqtt://192.168.1.5:1883` */
+  url: string;
+  username?: string;
+  password?: string;
+  /** Root of the state/command topics (defaults to `philips-ambilight-tv`) */
+  topicPrefix?: string;
+  /** Publish Home Assistant discovery payloads (defaults to true) */
+  homeAssistantDiscovery?: boolean;
+  discoveryPrefix?: string;
+}
+
+/** An input on a device group's input wheel */
+export interface DeviceGroupInputConfig {
+  name: string;
+  /** Source URI or alias (`hdmi1`…`hdmi4`, `watchtv`, `home`), as in the control API */
+  source: string;
+}
+
+/** Platform-level group of TVs controlled together from one accessory (e.g. a video wall) */
+export interface DeviceGroupConfig {
+  name: string;
+  /** Member TVs, by configured name or MAC address */
+  members: string[];
+  /** Whether the group shows as on when any member is on (default) or only when all are */
+  aggregate?: 'any' | 'all';
+  inputs?: DeviceGroupInputConfig[];
+  /** Style the group's Ambilight switch turns on (defaults to `FOLLOW_VIDEO/STANDARD`) */
+  ambilightStyle?: AmbilightStyleSwitchId;
+}
+
+/** Per-device Wake-on-LAN delivery settings */
+export interface WakeOnLanConfig {
+  /** Broadcast address, e.g. the TV subnet's `192.168.20.255` (defaults to `255.255.255.255`) */
+  broadcastAddress?: string;
+  /** UDP port (defaults to 9) */
+  port?: number;
+  /** Network interface to send from, by name (`eth0`) or local IPv4 address */
+  interface?: string;
+  /** Also send the packets straight to the TV's IP */
+  unicast?: boolean;
+}
 
 export interface TVDeviceConfig {
   name: string;
@@ -327,6 +496,7 @@ export interface TVDeviceConfig {
   password: string;
   pollingInterval?: number;
   wakeOnLanEnabled?: boolean;
+  wakeOnLan?: WakeOnLanConfig;
   ambilightMode?: string;
   ambilightOnStart?: boolean;
   inputs?: InputConfig[];
@@ -335,9 +505,39 @@ export interface TVDeviceConfig {
   infoButtonKey?: RemoteKey;
   backButtonKey?: RemoteKey;
   playPauseButtonKey?: RemoteKey;
+  remoteKeys?: RemoteKeyMapConfig;
   sourceSwitches?: boolean;
   ambilightHueSwitch?: boolean;
+  screenSwitch?: boolean;
+  volumeSlider?: 'none' | 'lightbulb' | 'fan';
+  ambilightStyleSwitches?: AmbilightStyleSwitchId[];
+  ambilightSideLights?: boolean;
+  ambilightAnimations?: AmbilightAnimationConfig[];
+  aurora?: AuroraConfig;
+  channelFavorites?: ChannelFavoritesConfig;
   customApps?: CustomAppConfig[];
+  macros?: MacroConfig[];
+  sleepTimer?: SleepTimerConfig;
+  parentalControls?: ParentalControlsConfig;
+}
+
+/**
+ * A named sequence of steps exposed as a stateless switch. A step is any
+ * control API command (`{"type": "key", "key": "Home"}`, `app`, `source`,
+ * `channel`, `ambilight`, …) or one of the macro-only steps:
+ * `{"type": "delay", "ms": 500}` and
+ * `{"type": "waitForApp", "app": "com.netflix.ninja", "timeout": 15000}`.
+ * Any step may carry `"repeat": n`.
+ */
+export interface MacroConfig {
+  name: string;
+  steps: MacroStepConfig[];
+}
+
+export interface MacroStepConfig {
+  type: string;
+  repeat?: number;
+  [field: string]: unknown;
 }
 
 /**
@@ -357,6 +557,57 @@ export interface CustomAppConfig {
   action?: string;
 }
 
+/** A plugin-driven Ambilight color animation exposed as a HomeKit switch. */
+export interface AmbilightAnimationConfig {
+  scene: AmbilightAnimationScene;
+  /** Switch name (defaults to "Ambilight <Scene>"). */
+  name?: string;
+  /** Run time in seconds. Sunrise and alert stop on their own (defaults 600s / 10s); breathing and rainbow loop until turned off unless set. */
+  duration?: number;
+  /** Base hue (0-360) for breathing and alert. */
+  hue?: number;
+}
+
+export type AmbilightAnimationScene = 'sunrise' | 'breathing' | 'rainbow' | 'alert';
+
+/** Aurora ambient mode, exposed as a HomeKit switch. */
+/** Parental mode: blocked apps/sources and a daily screen-time budget. */
+export interface ParentalControlsConfig {
+  enabled?: boolean;
+  /** Package names or sources (URI or alias such as `hdmi1`) to block */
+  blocked?: string[];
+  /** Daily window in which the mode applies, as local `HH:MM` times (may cross midnight) */
+  hours?: { start: string; end: string };
+  /** Expose a "Kids Mode" switch that turns the mode on outside `hours` */
+  kidsModeSwitch?: boolean;
+  /** Minutes the TV may be on per day while the mode applies; the TV turns off once used up */
+  dailyBudgetMinutes?: number;
+  /** Source to switch to when a blocked app appears (defaults to pressing Home) */
+  fallbackSource?: string;
+}
+
+/** Sleep timer exposed as a Valve with a duration. */
+export interface SleepTimerConfig {
+  enabled?: boolean;
+  /** Minutes before the deadline over which volume and Ambilight fade out (default 5, 0 = no fade) */
+  fadeMinutes?: number;
+}
+
+export interface AuroraConfig {
+  enabled?: boolean;
+  /** Gallery to show when the switch turns Aurora on, by id or name (defaults to the TV's last choice). */
+  gallery?: string;
+}
+
+/** Favourite TV channels imported as inputs. */
+export interface ChannelFavoritesConfig {
+  enabled?: boolean;
+  /** Favourite list to import, by id or name (defaults to the TV's first list). */
+  list?: string;
+  /** Maximum number of channels on the input wheel (default 10). */
+  max?: number;
+}
+
 export interface InputConfig {
   name: string;
   type: 'app' | 'source' | 'channel';
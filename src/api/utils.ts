@@ -2,14 +2,38 @@
  * Philips TV API Utilities
  */
 
+import { execFile } from 'child_process';
 import crypto from 'crypto';
 import dgram from 'dgram';
+import net from 'net';
+import os from 'os';
+import { promisify } from 'util';
+import { Bonjour, type Service } from 'bonjour-service';
+import arp from 'node-arp';
 import { Agent, type Dispatcher, type Headers, fetch } from 'undici';
 import {
-  TV_API_PORT, TV_API_VERSION, ERROR_MESSAGES, AUTH_SHARED_KEY,
+  TV_API_PORT, TV_API_VERSION, ERROR_MESSAGES, AUTH_SHARED_KEY, DISCOVERY_TIMEOUT,
   WOL_PORT, WOL_BROADCAST_IP, WOL_BURST_COUNT, WOL_PACKETS_PER_BURST, WOL_BURST_INTERVAL_MS,
+  WOL_VERIFY_TIMEOUT_MS, WOL_VERIFY_INTERVAL_MS,
 } from './constants.js';
-import type { DeviceInfo, DigestAuthParams, FetchOptions, PairingSession, DiscoveredDevice } from './types.js';
+import type {
+  AmbilightPixelData,
+  AmbilightRgb,
+  AmbilightSide,
+  AmbilightTopology,
+  CurrentChannel,
+  DeviceInfo,
+  DigestAuthParams,
+  DiscoveredDevice,
+  FetchOptions,
+  MenuStructure,
+  MenuStructureNode,
+  OnScreenKeyboardState,
+  PairingSession,
+  TVActivity,
+} from './types.js';
+
+const getArpMac = promisify(arp.getMAC);
 
 // ============================================================================
 // HTTPS AGENT
@@ -252,6 +276,180 @@ export const extractIpv4 = (service: DiscoveredDevice): string => {
   return ipv4 || service.addresses?.[0] || service.host;
 };
 
+/** mDNS service type advertised by Philips Android TVs */
+export const TV_SERVICE_TYPE = 'androidtvremote2';
+
+/**
+ * Browse the local network for Philips Android TVs for `timeout` ms.
+ * Results are de-duplicated by host (TVs answer on every interface).
+ */
+export const discoverTVs = (timeout = DISCOVERY_TIMEOUT): Promise<DiscoveredDevice[]> =>
+  new Promise((resolve) => {
+    const devices: DiscoveredDevice[] = [];
+    const bonjour = new Bonjour();
+    const browser = bonjour.find({ type: TV_SERVICE_TYPE });
+
+    browser.on('up', (service: Service) => {
+      const device: DiscoveredDevice = {
+        name: service.name,
+        host: service.host,
+        addresses: service.addresses || [],
+        port: service.port,
+        txt: service.txt as Record<string, string> | undefined,
+        type: service.type,
+      };
+      device.host = extractIpv4(device);
+
+      if (!devices.some(d => d.host === device.host)) {
+        devices.push(device);
+      }
+    });
+
+    setTimeout(() => {
+      browser.stop();
+      bonjour.destroy();
+      resolve(devices);
+    }, timeout);
+  });
+
+/**
+ * Canonical `aa:bb:cc:dd:ee:ff` form of a MAC address. Accepts `:` or `-`
+ * separators and the unpadded octets macOS `arp` prints (`0:1a:…`).
+ * Returns null for anything that isn't six hex octets.
+ */
+export const normalizeMac = (mac: string): string | null => {
+  const octets = mac.trim().toLowerCase().split(/[:-]/);
+  if (octets.length !== 6 || !octets.every(o => /^[0-9a-f]{1,2}$/.test(o))) {
+    return null;
+  }
+  return octets.map(o => o.padStart(2, '0')).join(':');
+};
+
+// ============================================================================
+// CHANNEL UTILITIES
+// ============================================================================
+
+/**
+ * Read the tuned channel from an `/activities/tv` body. Returns null when the
+ * TV reports no channel (the tuner isn't running) or the body is malformed —
+ * it also arrives untyped through `/notifychange`.
+ */
+export const parseTVActivity = (activity: unknown): CurrentChannel | null => {
+  const { channel, channelList } = (activity ?? {}) as TVActivity;
+  if (typeof channel?.ccid !== 'number' || channel.ccid <= 0) {
+    return null;
+  }
+  return {
+    ccid: channel.ccid,
+    name: channel.name ?? `Channel ${channel.preset ?? channel.ccid}`,
+    preset: channel.preset,
+    channelListId: channelList?.id,
+  };
+};
+
+// ============================================================================
+// TEXT ENTRY UTILITIES
+// ============================================================================
+
+/**
+ * Read the on-screen keyboard visibility from an `/input/onscreenkeyboard/visible`
+ * body. Some firmwares answer with a bare boolean; null when neither form is present.
+ */
+export const parseKeyboardVisible = (body: unknown): boolean | null => {
+  if (typeof body === 'boolean') {
+    return body;
+  }
+  const visible = (body as OnScreenKeyboardState | null)?.visible;
+  return typeof visible === 'boolean' ? visible : null;
+};
+
+// ============================================================================
+// MENU STRUCTURE UTILITIES
+// ============================================================================
+
+/**
+ * Walk a `/menuitems/settings/structure` tree and map every node that has a
+ * `context` string to its node ID. The first occurrence of a context wins.
+ */
+export const mapMenuNodesByContext = (structure: MenuStructure): Map<string, number> => {
+  const nodeIds = new Map<string, number>();
+  const visit = (node: MenuStructureNode | undefined): void => {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    if (node.context && typeof node.node_id === 'number' && !nodeIds.has(node.context)) {
+      nodeIds.set(node.context, node.node_id);
+    }
+    for (const child of node.data?.nodes ?? []) {
+      visit(child);
+    }
+  };
+  visit(structure.node);
+  for (const node of structure.nodes ?? []) {
+    visit(node);
+  }
+  return nodeIds;
+};
+
+// ============================================================================
+// AMBILIGHT PIXEL UTILITIES
+// ============================================================================
+
+/**
+ * Convert a HomeKit-style HSB color (hue 0-360, saturation/brightness 0-100)
+ * to 8-bit RGB for the Ambilight pixel endpoints.
+ */
+export const hsbToRgb = (hue: number, saturation: number, brightness: number): AmbilightRgb => {
+  const h = ((hue % 360) + 360) % 360 / 60;
+  const s = Math.max(0, Math.min(100, saturation)) / 100;
+  const v = Math.max(0, Math.min(100, brightness)) / 100;
+
+  const c = v * s;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = v - c;
+
+  const [r, g, b] =
+    h < 1 ? [c, x, 0] :
+      h < 2 ? [x, c, 0] :
+        h < 3 ? [0, c, x] :
+          h < 4 ? [0, x, c] :
+            h < 5 ? [x, 0, c] :
+              [c, 0, x];
+
+  return {
+    r: Math.round((r + m) * 255),
+    g: Math.round((g + m) * 255),
+    b: Math.round((b + m) * 255),
+  };
+};
+
+/**
+ * Build an `/ambilight/cached` payload that paints each side a single color.
+ * With a topology every pixel of every layer is listed explicitly (the most
+ * widely supported form); without one, side-level colors are sent for layer1.
+ * Sides not present in `colors` are left out, so the TV keeps their pixels.
+ */
+export const buildAmbilightSidePixels = (
+  colors: Partial<Record<AmbilightSide, AmbilightRgb>>,
+  topology?: AmbilightTopology | null,
+): AmbilightPixelData => {
+  const sides = Object.keys(colors) as AmbilightSide[];
+
+  if (!topology) {
+    return { layer1: Object.fromEntries(sides.map(side => [side, { ...colors[side]! }])) };
+  }
+
+  const data: AmbilightPixelData = {};
+  for (let layer = 1; layer <= Math.max(1, topology.layers); layer++) {
+    data[`layer${layer}`] = Object.fromEntries(sides.map(side => {
+      const count = Math.max(0, topology[side] ?? 0);
+      const pixels = Object.fromEntries(Array.from({ length: count }, (_, i) => [String(i), { ...colors[side]! }]));
+      return [side, pixels];
+    }));
+  }
+  return data;
+};
+
 // ============================================================================
 // STRING UTILITIES
 // ============================================================================
@@ -287,9 +485,9 @@ const createMagicPacket = (mac: string): Buffer => {
   return packet;
 };
 
-const wolSendPacket = (socket: dgram.Socket, packet: Buffer): Promise<void> =>
+const wolSendPacket = (socket: dgram.Socket, packet: Buffer, port: number, address: string): Promise<void> =>
   new Promise((resolve, reject) => {
-    socket.send(packet, 0, packet.length, WOL_PORT, WOL_BROADCAST_IP, (err) =>
+    socket.send(packet, 0, packet.length, port, address, (err) =>
       err ? reject(err) : resolve(),
     );
   });
@@ -297,12 +495,58 @@ const wolSendPacket = (socket: dgram.Socket, packet: Buffer): Promise<void> =>
 const wolSleep = (ms: number): Promise<void> =>
   new Promise(resolve => setTimeout(resolve, ms));
 
+/** Options for {@link sendWakeOnLan}. Without any, packets go to `255.255.255.255:9` from the OS's default interface. */
+export interface WakeOnLanOptions {
+  /** Destination of the broadcast, e.g. the subnet-directed `192.168.20.255` */
+  broadcastAddress?: string;
+  port?: number;
+  /** Interface to send from: a name (`eth0`) or one of the host's IPv4 addresses */
+  interface?: string;
+  /** Also send every packet straight to this address (for networks that drop broadcasts) */
+  unicastAddress?: string;
+}
+
+/** Broadcast address of the subnet `address`/`netmask` belongs to. */
+export const subnetBroadcast = (address: string, netmask: string): string => {
+  const addr = address.split('.').map(Number);
+  const mask = netmask.split('.').map(Number);
+  return addr.map((octet, i) => (octet | (~mask[i] & 0xff))).join('.');
+};
+
+/**
+ * Resolve an interface name or address to one of this host's IPv4
+ * interfaces. Throws when nothing matches so a typo doesn't silently fall
+ * back to the default route (the exact problem the option exists to avoid).
+ */
+const resolveWolInterface = (nameOrAddress: string): os.NetworkInterfaceInfoIPv4 => {
+  const interfaces = os.networkInterfaces();
+  const ipv4 = (infos: os.NetworkInterfaceInfo[] = []) =>
+    infos.filter((info): info is os.NetworkInterfaceInfoIPv4 => info.family === 'IPv4' && !info.internal);
+
+  const byName = ipv4(interfaces[nameOrAddress])[0];
+  if (byName) {
+    return byName;
+  }
+  for (const infos of Object.values(interfaces)) {
+    const byAddress = ipv4(infos).find(info => info.address === nameOrAddress);
+    if (byAddress) {
+      return byAddress;
+    }
+  }
+  throw new Error(`Unknown network interface "${nameOrAddress}"`);
+};
+
 /**
  * Send Wake-on-LAN magic packets in bursts (matching official Philips app).
  * Sends WOL_BURST_COUNT bursts of WOL_PACKETS_PER_BURST packets each,
  * with WOL_BURST_INTERVAL_MS between bursts.
+ *
+ * When an interface is given, the socket is bound to its address and —
+ * unless `broadcastAddress` is set — packets go to that interface's
+ * subnet-directed broadcast, which routes them out of the right NIC on
+ * multi-homed hosts (Docker, VLANs).
  */
-export const sendWakeOnLan = (macAddress: string): Promise<void> =>
+export const sendWakeOnLan = (macAddress: string, options: WakeOnLanOptions = {}): Promise<void> =>
   new Promise((resolve, reject) => {
     const mac = macAddress.replace(/[:-]/g, '').toLowerCase();
 
@@ -310,6 +554,20 @@ export const sendWakeOnLan = (macAddress: string): Promise<void> =>
       return reject(new Error('Invalid MAC address format'));
     }
 
+    let localInterface: os.NetworkInterfaceInfoIPv4 | undefined;
+    try {
+      localInterface = options.interface ? resolveWolInterface(options.interface) : undefined;
+    } catch (err) {
+      return reject(err);
+    }
+
+    const port = options.port ?? WOL_PORT;
+    const targets = [
+      options.broadcastAddress
+        ?? (localInterface ? subnetBroadcast(localInterface.address, localInterface.netmask) : WOL_BROADCAST_IP),
+      ...(options.unicastAddress ? [options.unicastAddress] : []),
+    ];
+
     const socket = dgram.createSocket('udp4');
     const packet = createMagicPacket(mac);
 
@@ -318,12 +576,14 @@ export const sendWakeOnLan = (macAddress: string): Promise<void> =>
       reject(err);
     });
 
-    socket.bind(async () => {
+    socket.bind({ address: localInterface?.address }, async () => {
       socket.setBroadcast(true);
       try {
         for (let burst = 0; burst < WOL_BURST_COUNT; burst++) {
           for (let i = 0; i < WOL_PACKETS_PER_BURST; i++) {
-            await wolSendPacket(socket, packet);
+            for (const target of targets) {
+              await wolSendPacket(socket, packet, port, target);
+            }
           }
           if (burst < WOL_BURST_COUNT - 1) {
             await wolSleep(WOL_BURST_INTERVAL_MS);
@@ -337,3 +597,85 @@ export const sendWakeOnLan = (macAddress: string): Promise<void> =>
       }
     });
   });
+
+/** Result of {@link wakeAndVerify} */
+export interface WakeOnLanVerification {
+  /** The TV's network card answered a ping after the magic packet, and ARP maps the IP to its MAC */
+  nicAnswered: boolean;
+  /** The JointSpace API port answered too (it comes up well after the NIC on a cold boot) */
+  apiAnswered: boolean;
+  /** MAC the ARP table reported for the IP, if any (may belong to another device) */
+  arpMac: string | null;
+}
+
+/** MAC address the host's ARP table holds for `ip` (pinging it first), or null. */
+export const lookupArpMac = async (ip: string): Promise<string | null> => {
+  try {
+    return normalizeMac(await getArpMac(ip));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a host answers a TCP connection on `port`. A refused connection
+ * counts: the host's network stack replied, only nothing listens yet.
+ */
+const hostAnswers = (ip: string, port: number, timeout: number): Promise<boolean> =>
+  new Promise(resolve => {
+    const socket = net.connect({ host: ip, port, timeout });
+    const finish = (answered: boolean): void => {
+      socket.destroy();
+      resolve(answered);
+    };
+    socket.once('connect', () => finish(true));
+    socket.once('timeout', () => finish(false));
+    socket.once('error', (err: NodeJS.ErrnoException) => finish(err.code === 'ECONNREFUSED'));
+  });
+
+const pingArgs = (ip: string, timeoutMs: number): string[] => {
+  if (process.platform === 'win32') {
+    return ['-n', '1', '-w', String(timeoutMs), ip];
+  }
+  // macOS takes the reply timeout in ms, Linux in whole seconds
+  const wait = process.platform === 'darwin' ? timeoutMs : Math.max(1, Math.round(timeoutMs / 1000));
+  return ['-c', '1', '-W', String(wait), ip];
+};
+
+/** Whether `ip` answers a single ping within `timeoutMs` (false when `ping` can't run). */
+const pingHost = (ip: string, timeoutMs: number): Promise<boolean> =>
+  new Promise(resolve => {
+    execFile('ping', pingArgs(ip, timeoutMs), { timeout: timeoutMs + 1000 }, error => resolve(!error));
+  });
+
+/**
+ * Send Wake-on-LAN, then ping the TV's IP until its network card answers or
+ * `timeout` passes. The ARP table alone can't tell: it may still hold the
+ * entry from before the TV went to sleep. A ping reply refreshes it, so ARP
+ * then confirms the reply came from the TV's MAC and not another device.
+ * The API port is probed once the NIC answers, telling "awake" apart from
+ * "still booting".
+ */
+export const wakeAndVerify = async (
+  macAddress: string,
+  ip: string,
+  options: WakeOnLanOptions = {},
+  timeout = WOL_VERIFY_TIMEOUT_MS,
+): Promise<WakeOnLanVerification> => {
+  await sendWakeOnLan(macAddress, options);
+
+  const expected = normalizeMac(macAddress);
+  const deadline = Date.now() + timeout;
+  let arpMac: string | null;
+  do {
+    const replied = await pingHost(ip, WOL_VERIFY_INTERVAL_MS);
+    arpMac = await lookupArpMac(ip);
+    if (replied && arpMac !== null && arpMac === expected) {
+      const apiAnswered = await hostAnswers(ip, TV_API_PORT, WOL_VERIFY_INTERVAL_MS);
+      return { nicAnswered: true, apiAnswered, arpMac };
+    }
+    await wolSleep(WOL_VERIFY_INTERVAL_MS);
+  } while (Date.now() < deadline);
+
+  return { nicAnswered: false, apiAnswered: false, arpMac };
+};
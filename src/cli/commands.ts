@@ -0,0 +1,461 @@
+/**
+ * philips-tv Command-Line Tool
+ * Pairing, diagnostics and scripted control without Homebridge running.
+ * Every command goes through the same `PhilipsTVClient` and `PairingClient`
+ * the plugin uses, so what works here works in HomeKit.
+ */
+
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'node:util';
+
+import { REMOTE_KEYS } from '../api/constants.js';
+import { PairingClient } from '../api/PairingClient.js';
+import { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import { discoverTVs } from '../api/utils.js';
+import { AMBILIGHT_STYLE_LABELS } from '../services/AmbilightStyleSwitchService.js';
+import { parseDeviceCommand, resolveSourceUri, runDeviceCommand } from '../services/DeviceCommands.js';
+import { NotifyChangeClient } from '../services/NotifyChangeClient.js';
+import { resolveTarget, type CliTarget } from './config.js';
+import { buildReport } from './report.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Terminal access, injected so commands can be tested without a TTY */
+export interface CliIO {
+  readonly out: (line: string) => void;
+  readonly err: (line: string) => void;
+  /** Ask for a line of input (the pairing PIN) */
+  readonly prompt: (question: string) => Promise<string>;
+  /** Aborted when the user interrupts (Ctrl+C); ends `watch` */
+  readonly signal: AbortSignal;
+}
+
+interface CliFlags {
+  readonly config?: string;
+  readonly tv?: string;
+  readonly ip?: string;
+  readonly username?: string;
+  readonly password?: string;
+  readonly mac?: string;
+  readonly name?: string;
+  readonly output?: string;
+  readonly timeout?: string;
+  readonly json?: boolean;
+  readonly verbose?: boolean;
+  readonly help?: boolean;
+}
+
+interface CommandContext {
+  readonly args: readonly string[];
+  readonly flags: CliFlags;
+  readonly io: CliIO;
+}
+
+interface CommandSpec {
+  readonly usage: string;
+  readonly summary: string;
+  readonly run: (ctx: CommandContext) => Promise<number>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+/** Thrown by a command to stop with a message and an exit code */
+class CliError extends Error {
+  constructor(message: string, readonly exitCode = EXIT_FAILURE) {
+    super(message);
+  }
+}
+
+const DEFAULT_DISCOVERY_SECONDS = 5;
+
+const CLI_OPTIONS = {
+  config: { type: 'string', short: 'c' },
+  tv: { type: 'string', short: 't' },
+  ip: { type: 'string' },
+  username: { type: 'string' },
+  password: { type: 'string' },
+  mac: { type: 'string' },
+  name: { type: 'string' },
+  output: { type: 'string', short: 'o' },
+  timeout: { type: 'string' },
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean', short: 'v' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const usageError = (message: string): CliError => new CliError(message, EXIT_USAGE);
+
+function target(ctx: CommandContext, requireCredentials = true): CliTarget {
+  const resolved = resolveTarget(ctx.flags, requireCredentials);
+  if (!resolved.success || !resolved.data) {
+    throw usageError(resolved.error ?? 'No TV to talk to');
+  }
+  return resolved.data;
+}
+
+function connect(ctx: CommandContext): PhilipsTVClient {
+  const { ip, mac, username, password, device } = target(ctx);
+  const debug = ctx.flags.verbose ? (message: string) => ctx.io.err(message) : undefined;
+  return new PhilipsTVClient({
+    ip,
+    mac,
+    username,
+    password,
+    // Without a MAC address there is nothing to wake
+    wakeOnLanEnabled: mac ? device?.wakeOnLanEnabled : false,
+    wakeOnLan: device?.wakeOnLan,
+  }, debug);
+}
+
+/** Validate and run a control command; fails when the TV doesn't accept it. */
+async function control(ctx: CommandContext, input: Record<string, unknown>, done: string): Promise<number> {
+  const parsed = parseDeviceCommand(input);
+  if (!parsed.success || !parsed.data) {
+    throw usageError(parsed.error ?? 'Invalid command');
+  }
+  const tvClient = connect(ctx);
+  // No accessory here to keep in step, so power goes straight to the client
+  const target = { tvClient, setPower: (on: boolean) => tvClient.setPowerState(on) };
+  if (!await runDeviceCommand(target, parsed.data)) {
+    throw new CliError('The TV did not accept the command (is it on and paired?)');
+  }
+  ctx.io.out(done);
+  return EXIT_OK;
+}
+
+function printJson(ctx: CommandContext, value: unknown): number {
+  ctx.io.out(JSON.stringify(value, null, 2));
+  return EXIT_OK;
+}
+
+const requireArg = (ctx: CommandContext, index: number, name: string): string => {
+  const value = ctx.args[index];
+  if (value === undefined) {
+    throw usageError(`Missing ${name}`);
+  }
+  return value;
+};
+
+// ============================================================================
+// COMMANDS: SETUP
+// ============================================================================
+
+async function discover(ctx: CommandContext): Promise<number> {
+  const seconds = ctx.flags.timeout ? Number(ctx.flags.timeout) : DEFAULT_DISCOVERY_SECONDS;
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw usageError('--timeout must be a number of seconds');
+  }
+  if (!ctx.flags.json) {
+    ctx.io.err(`Searching the network for ${seconds}s…`);
+  }
+
+  const devices = await discoverTVs(seconds * 1000);
+  if (ctx.flags.json) {
+    return printJson(ctx, devices.map(({ name, host, port }) => ({ name, ip: host, port })));
+  }
+  if (devices.length === 0) {
+    throw new CliError('No TVs found. Make sure the TV is on and on the same network.');
+  }
+  for (const device of devices) {
+    ctx.io.out(`${device.host}\t${device.name}`);
+  }
+  return EXIT_OK;
+}
+
+async function pair(ctx: CommandContext): Promise<number> {
+  const { ip, name, mac } = target(ctx, false);
+  const pairing = new PairingClient();
+
+  const started = await pairing.request(ip, ctx.flags.name);
+  if (!started.success) {
+    throw new CliError(started.error ?? 'Pairing failed');
+  }
+
+  for (;;) {
+    const pin = (await ctx.io.prompt('Enter the PIN shown on the TV: ')).trim();
+    const result = await pairing.grant(ip, pin);
+    if (result.success && result.username && result.password) {
+      const credentials = { username: result.username, password: result.password };
+      if (ctx.flags.json) {
+        return printJson(ctx, credentials);
+      }
+      ctx.io.out('Paired. Add these credentials to the TV in the Homebridge config:');
+      ctx.io.out(JSON.stringify({ name, ip, mac: mac || undefined, ...credentials }, null, 2));
+      return EXIT_OK;
+    }
+    if (result.code !== 'invalid-pin') {
+      throw new CliError(result.error ?? 'Pairing failed');
+    }
+    ctx.io.err(`Wrong PIN, ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left`);
+  }
+}
+
+// ============================================================================
+// COMMANDS: DIAGNOSTICS
+// ============================================================================
+
+async function info(ctx: CommandContext): Promise<number> {
+  const { name, ip } = target(ctx);
+  const client = connect(ctx);
+
+  // /system answers without credentials on most TVs, so read it before the check can lock them out
+  const system = await client.getSystemInfo();
+  const credentials = await client.checkCredentials();
+  const power = credentials === 'authorized' ? await client.getPowerState() : null;
+
+  if (ctx.flags.json) {
+    printJson(ctx, { name, ip, system, credentials, power });
+  } else {
+    ctx.io.out(`Name:         ${system?.name ?? name}`);
+    ctx.io.out(`Address:      ${ip}`);
+    ctx.io.out(`Model:        ${system?.model ?? 'unknown'}`);
+    ctx.io.out(`Software:     ${system?.softwareversion ?? 'unknown'}`);
+    ctx.io.out(`Credentials:  ${credentials}`);
+    ctx.io.out(`Power:        ${power === null ? 'unknown' : power ? 'on' : 'standby'}`);
+  }
+  return credentials === 'authorized' ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function apps(ctx: CommandContext): Promise<number> {
+  const list = await connect(ctx).getApplications();
+  if (list.length === 0) {
+    throw new CliError('The TV reported no apps (is it on and paired?)');
+  }
+  const rows = list.map(app => ({ label: app.label, packageName: app.intent?.component?.packageName ?? app.id }));
+  if (ctx.flags.json) {
+    return printJson(ctx, rows);
+  }
+  for (const row of rows.sort((a, b) => a.label.localeCompare(b.label))) {
+    ctx.io.out(`${row.packageName}\t${row.label}`);
+  }
+  return EXIT_OK;
+}
+
+async function channels(ctx: CommandContext): Promise<number> {
+  const list = await connect(ctx).getChannels();
+  if (list.length === 0) {
+    throw new CliError('The TV reported no channels');
+  }
+  if (ctx.flags.json) {
+    return printJson(ctx, list.map(({ ccid, name, preset, channelListId }) => ({ ccid, name, preset, channelListId })));
+  }
+  for (const channel of list) {
+    ctx.io.out(`${channel.preset ?? '-'}\t${channel.name}\t(ccid ${channel.ccid})`);
+  }
+  return EXIT_OK;
+}
+
+async function report(ctx: CommandContext): Promise<number> {
+  const result = await buildReport(target(ctx));
+  const text = JSON.stringify(result, null, 2);
+  if (!ctx.flags.output) {
+    ctx.io.out(text);
+    return EXIT_OK;
+  }
+  await writeFile(ctx.flags.output, text, 'utf-8');
+  const failed = result.results.filter(r => r.error).length;
+  ctx.io.out(`Report saved to ${ctx.flags.output} (${result.results.length - failed}/${result.results.length} endpoints answered)`);
+  return EXIT_OK;
+}
+
+/** Stream `/notifychange` events until interrupted. */
+async function watch(ctx: CommandContext): Promise<number> {
+  const { ip, username, password } = target(ctx);
+  const debug = ctx.flags.verbose ? (message: string) => ctx.io.err(message) : () => {};
+  const client = new NotifyChangeClient({ ip, username, password }, debug);
+
+  return new Promise<number>((resolve) => {
+    const onAbort = () => finish(EXIT_OK);
+    function finish(code: number): void {
+      client.stop();
+      ctx.io.signal.removeEventListener('abort', onAbort);
+      resolve(code);
+    }
+
+    client.on('notification', (notification: Record<string, unknown>) => {
+      const at = new Date().toISOString();
+      if (ctx.flags.json) {
+        ctx.io.out(JSON.stringify({ at, ...notification }));
+        return;
+      }
+      for (const [resource, value] of Object.entries(notification)) {
+        ctx.io.out(`${at}  ${resource}  ${JSON.stringify(value)}`);
+      }
+    });
+    client.on('failed', () => {
+      ctx.io.err(`Lost the connection to ${ip}`);
+      finish(EXIT_FAILURE);
+    });
+
+    if (ctx.io.signal.aborted) {
+      resolve(EXIT_OK);
+      return;
+    }
+    ctx.io.signal.addEventListener('abort', onAbort, { once: true });
+    ctx.io.err(`Watching ${ip} for changes (Ctrl+C to stop)…`);
+    client.start();
+  });
+}
+
+// ============================================================================
+// COMMANDS: CONTROL
+// ============================================================================
+
+function power(ctx: CommandContext): Promise<number> {
+  const state = requireArg(ctx, 0, 'on|off').toLowerCase();
+  if (state !== 'on' && state !== 'off') {
+    throw usageError('Power state must be "on" or "off"');
+  }
+  return control(ctx, { type: 'power', on: state === 'on' }, `TV turned ${state}`);
+}
+
+function key(ctx: CommandContext): Promise<number> {
+  const name = requireArg(ctx, 0, 'key name');
+  const match = REMOTE_KEYS.find(k => k.toLowerCase() === name.toLowerCase());
+  if (!match) {
+    throw usageError(`Unknown key "${name}". Keys: ${REMOTE_KEYS.join(', ')}`);
+  }
+  return control(ctx, { type: 'key', key: match }, `Sent ${match}`);
+}
+
+/** Launch an app (by label or package name) or switch to a source (alias or URI). */
+async function launch(ctx: CommandContext): Promise<number> {
+  const name = requireArg(ctx, 0, 'app or source');
+  if (resolveSourceUri(name) !== name || name.includes(':')) {
+    return control(ctx, { type: 'source', source: name }, `Switched to ${name}`);
+  }
+
+  // Listing the apps first also caches their launch intents in the client
+  const client = connect(ctx);
+  const wanted = name.toLowerCase();
+  const app = (await client.getApplications()).find(a =>
+    a.label.toLowerCase() === wanted || a.intent?.component?.packageName?.toLowerCase() === wanted);
+  const packageName = app?.intent?.component?.packageName ?? name;
+
+  if (!await client.launchApplication(packageName)) {
+    throw new CliError(`The TV did not launch ${packageName}`);
+  }
+  ctx.io.out(`Launched ${app?.label ?? packageName}`);
+  return EXIT_OK;
+}
+
+function ambilight(ctx: CommandContext): Promise<number> {
+  const mode = requireArg(ctx, 0, 'style|color').toLowerCase();
+
+  if (mode === 'style') {
+    const name = requireArg(ctx, 1, 'style');
+    const wanted = name.toLowerCase();
+    const style = wanted === 'off'
+      ? 'OFF'
+      : Object.entries(AMBILIGHT_STYLE_LABELS).find(([id, label]) => id.toLowerCase() === wanted || label.toLowerCase() === wanted)?.[0];
+    if (!style) {
+      throw usageError(`Unknown style "${name}". Styles: OFF, ${Object.values(AMBILIGHT_STYLE_LABELS).join(', ')}`);
+    }
+    return control(ctx, { type: 'ambilight', style }, `Ambilight set to ${name}`);
+  }
+
+  if (mode === 'color') {
+    const hue = Number(requireArg(ctx, 1, 'hue'));
+    const saturation = Number(requireArg(ctx, 2, 'saturation'));
+    const brightness = ctx.args[3] === undefined ? undefined : Number(ctx.args[3]);
+    return control(ctx, { type: 'ambilightColor', hue, saturation, brightness }, 'Ambilight color set');
+  }
+
+  throw usageError('Use "ambilight style <style>" or "ambilight color <hue> <saturation> [brightness]"');
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+const COMMANDS: Readonly<Record<string, CommandSpec>> = {
+  discover: { usage: 'discover [--timeout <seconds>]', summary: 'Find Philips TVs on the network', run: discover },
+  pair: { usage: 'pair --ip <ip> [--name <device name>]', summary: 'Pair with a TV and print its credentials', run: pair },
+  info: { usage: 'info', summary: 'Show the model, power state and whether the credentials work', run: info },
+  power: { usage: 'power on|off', summary: 'Turn the TV on (Wake-on-LAN when needed) or to standby', run: power },
+  key: { usage: 'key <RemoteKey>', summary: 'Send a remote control key (e.g. Home, VolumeUp)', run: key },
+  apps: { usage: 'apps', summary: 'List the installed apps', run: apps },
+  launch: { usage: 'launch <app|source>', summary: 'Open an app (label or package) or a source (hdmi1, watchtv, home, URI)', run: launch },
+  channels: { usage: 'channels', summary: 'List the TV channels', run: channels },
+  ambilight: {
+    usage: 'ambilight style <style|OFF> | ambilight color <hue> <saturation> [brightness]',
+    summary: 'Set an Ambilight style or a fixed color',
+    run: ambilight,
+  },
+  watch: { usage: 'watch', summary: 'Stream state changes reported by the TV', run: watch },
+  report: { usage: 'report [--output <file>]', summary: 'Read every endpoint the plugin uses into a debug JSON', run: report },
+};
+
+export function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  return [
+    'Usage: philips-tv <command> [options]',
+    '',
+    'Commands:',
+    ...Object.entries(COMMANDS).map(([name, spec]) => `  ${name.padEnd(width)}  ${spec.summary}`),
+    '',
+    'Options:',
+    '  -c, --config <path>      Homebridge config.json to read TVs from (default ~/.homebridge/config.json)',
+    '  -t, --tv <name|ip|mac>   Configured TV to use when there are several',
+    '  --ip, --mac <value>      Address of the TV, instead of or overriding the configured one',
+    '  --username, --password   Credentials, instead of or overriding the configured ones',
+    '  --json                   Machine-readable output',
+    '  -v, --verbose            Log every request',
+    '  -h, --help               Show help (also "philips-tv <command> --help")',
+  ].join('\n');
+}
+
+/**
+ * Run the CLI with `argv` (without the node and script paths). Resolves to
+ * the process exit code: 0 on success, 1 when the TV failed, 2 for usage errors.
+ */
+export async function runCli(argv: readonly string[], io: CliIO): Promise<number> {
+  let parsed: { values: CliFlags; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: [...argv], options: CLI_OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    io.err(error instanceof Error ? error.message : String(error));
+    io.err(usage());
+    return EXIT_USAGE;
+  }
+
+  const [name, ...args] = parsed.positionals;
+  const spec = name === undefined ? undefined : COMMANDS[name];
+  if (!spec) {
+    if (name !== undefined) {
+      io.err(`Unknown command "${name}"`);
+    }
+    (parsed.values.help ? io.out : io.err)(usage());
+    return parsed.values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (parsed.values.help) {
+    io.out(`Usage: philips-tv ${spec.usage}\n\n${spec.summary}`);
+    return EXIT_OK;
+  }
+
+  try {
+    return await spec.run({ args, flags: parsed.values, io });
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.err(error.message);
+      if (error.exitCode === EXIT_USAGE) {
+        io.err(`Usage: philips-tv ${spec.usage}`);
+      }
+      return error.exitCode;
+    }
+    io.err(`Unexpected error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * CLI Target Resolution
+ * Works out which TV a `philips-tv` command talks to and with which
+ * credentials: flags first, then the plugin's devices in the Homebridge config.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { ApiResult, TVDeviceConfig } from '../api/types.js';
+import { PLATFORM_NAME } from '../settings.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Connection flags accepted by every command */
+export interface TargetFlags {
+  /** Configured TV to use, by name, IP or MAC (needed when several are configured) */
+  readonly tv?: string;
+  readonly ip?: string;
+  readonly username?: string;
+  readonly password?: string;
+  readonly mac?: string;
+  /** Homebridge `config.json` (defaults to `~/.homebridge/config.json`) */
+  readonly config?: string;
+}
+
+/** The TV a command talks to */
+export interface CliTarget {
+  readonly name: string;
+  readonly ip: string;
+  readonly mac: string;
+  readonly username: string;
+  readonly password: string;
+  /** The configured device the target came from, when there is one */
+  readonly device?: TVDeviceConfig;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.homebridge', 'config.json');
+
+// ============================================================================
+// CONFIG FILE
+// ============================================================================
+
+/**
+ * The plugin's devices in a Homebridge config. A missing default config is
+ * not an error (flags alone are enough); an explicit path that can't be read is.
+ */
+export function loadConfiguredTvs(configPath?: string): ApiResult<TVDeviceConfig[]> {
+  const file = configPath ?? DEFAULT_CONFIG_PATH;
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return configPath
+      ? { success: false, error: `Cannot read Homebridge config at ${file}` }
+      : { success: true, data: [] };
+  }
+
+  let config: { platforms?: Array<{ platform?: string; devices?: TVDeviceConfig[] }> };
+  try {
+    config = JSON.parse(text);
+  } catch {
+    return { success: false, error: `Homebridge config at ${file} is not valid JSON` };
+  }
+
+  const devices = (config.platforms ?? [])
+    .filter(platform => platform.platform === PLATFORM_NAME)
+    .flatMap(platform => platform.devices ?? [])
+    .filter(device => typeof device?.ip === 'string');
+  return { success: true, data: devices };
+}
+
+const sameMac = (a: string, b: string): boolean =>
+  a.replace(/[^0-9a-f]/gi, '').toLowerCase() === b.replace(/[^0-9a-f]/gi, '').toLowerCase();
+
+const listChoices = (devices: readonly TVDeviceConfig[]): string =>
+  devices.length > 0 ? ` (${devices.map(d => d.name || d.ip).join(', ')})` : '';
+
+/** The configured device `selector` names, or an error listing the choices. */
+function pickDevice(devices: readonly TVDeviceConfig[], selector: string | undefined, ip: string | undefined): ApiResult<TVDeviceConfig | undefined> {
+  if (selector) {
+    const wanted = selector.toLowerCase();
+    const device = devices.find(d =>
+      d.name?.toLowerCase() === wanted || d.ip === selector || (d.mac && sameMac(d.mac, selector)));
+    return device
+      ? { success: true, data: device }
+      : { success: false, error: `No configured TV matches "${selector}"${listChoices(devices)}` };
+  }
+  if (ip) {
+    // An explicit address may still borrow the credentials of the TV configured there
+    return { success: true, data: devices.find(d => d.ip === ip) };
+  }
+  if (devices.length > 1) {
+    return { success: false, error: `Several TVs are configured, pick one with --tv${listChoices(devices)}` };
+  }
+  return { success: true, data: devices[0] };
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve the target TV. Flags override the matching field of the configured
+ * device; `requireCredentials` is false for commands that don't sign in
+ * (`pair`), which only need an address.
+ */
+export function resolveTarget(flags: TargetFlags, requireCredentials = true): ApiResult<CliTarget> {
+  const loaded = loadConfiguredTvs(flags.config);
+  if (!loaded.success) {
+    return { success: false, error: loaded.error };
+  }
+
+  const picked = pickDevice(loaded.data ?? [], flags.tv, flags.ip);
+  if (!picked.success) {
+    return { success: false, error: picked.error };
+  }
+  const device = picked.data;
+
+  const ip = flags.ip ?? device?.ip;
+  if (!ip) {
+    return { success: false, error: 'No TV to talk to: pass --ip or configure the plugin in Homebridge' };
+  }
+
+  const username = flags.username ?? device?.username ?? '';
+  const password = flags.password ?? device?.password ?? '';
+  if (requireCredentials && (!username || !password)) {
+    return { success: false, error: `No credentials for ${ip}: pass --username and --password, or run "philips-tv pair" first` };
+  }
+
+  return {
+    success: true,
+    data: {
+      name: device?.name ?? ip,
+      ip,
+      mac: flags.mac ?? device?.mac ?? '',
+      username,
+      password,
+      device,
+    },
+  };
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `philips-tv` bin.
+ */
+
+import readline from 'node:readline/promises';
+
+import { runCli } from './commands.js';
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+const prompt = async (question: string): Promise<string> => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return await rl.question(question, { signal: controller.signal });
+  } finally {
+    rl.close();
+  }
+};
+
+const code = await runCli(process.argv.slice(2), {
+  out: (line) => process.stdout.write(`${line}\n`),
+  err: (line) => process.stderr.write(`${line}\n`),
+  prompt,
+  signal: controller.signal,
+});
+
+// The TV client's keep-alive agent would hold the process open
+process.exit(code);
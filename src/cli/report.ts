@@ -0,0 +1,114 @@
+/**
+ * Debug Report
+ * Reads every endpoint the plugin relies on and records the raw responses,
+ * for attaching to a GitHub issue. Read-only: nothing is sent to the TV.
+ */
+
+import { TV_API_VERSION } from '../api/constants.js';
+import { createDigestAuth, getFromTv, type TimedResponse } from '../api/utils.js';
+import type { CliTarget } from './config.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EndpointResult {
+  readonly name: string;
+  readonly method: 'GET';
+  readonly endpoint: string;
+  /** HTTP status, or null when the TV didn't answer */
+  readonly responseStatus: number | null;
+  readonly responseBody: unknown;
+  readonly duration: number;
+  readonly error: string | null;
+  readonly authType: 'none' | 'digest' | 'failed';
+}
+
+export interface DebugReport {
+  readonly generatedAt: string;
+  readonly tv: { readonly name: string; readonly ip: string; readonly mac: string };
+  readonly results: EndpointResult[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Endpoints read by the report, in the order the plugin first uses them */
+export const REPORT_ENDPOINTS: ReadonlyArray<{ readonly name: string; readonly endpoint: string }> = [
+  { name: 'System Info', endpoint: '/system' },
+  { name: 'Power State', endpoint: '/powerstate' },
+  { name: 'Audio Volume', endpoint: '/audio/volume' },
+  { name: 'Input Sources', endpoint: '/sources' },
+  { name: 'Current Activity', endpoint: '/activities/current' },
+  { name: 'Applications', endpoint: '/applications' },
+  { name: 'TV Channels', endpoint: '/channeldb/tv/channelLists/all' },
+  { name: 'Ambilight Power', endpoint: '/ambilight/power' },
+  { name: 'Ambilight Configuration', endpoint: '/ambilight/currentconfiguration' },
+  { name: 'Ambilight Topology', endpoint: '/ambilight/topology' },
+  { name: 'Ambilight Mode', endpoint: '/ambilight/mode' },
+  { name: 'Settings Structure', endpoint: '/menuitems/settings/structure' },
+];
+
+const REPORT_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/** Parsed JSON when the body is JSON, the raw text otherwise. */
+async function readBody(response: TimedResponse): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** GET one endpoint, answering the digest challenge with the target's credentials. */
+async function probe(target: CliTarget, name: string, endpoint: string, timeout: number): Promise<EndpointResult> {
+  const start = Date.now();
+  const result = (response: TimedResponse | null, authType: EndpointResult['authType'], error: string | null, body: unknown = null): EndpointResult => ({
+    name,
+    method: 'GET',
+    endpoint,
+    responseStatus: response?.status ?? null,
+    responseBody: body,
+    duration: Date.now() - start,
+    error,
+    authType,
+  });
+
+  try {
+    const initial = await getFromTv(target.ip, endpoint, { timeout });
+    if (initial.status !== 401) {
+      return result(initial, 'none', initial.ok ? null : `HTTP ${initial.status}`, await readBody(initial));
+    }
+
+    const challenge = initial.headers.get('www-authenticate');
+    if (!challenge?.toLowerCase().startsWith('digest')) {
+      return result(initial, 'failed', 'Got 401 but no digest challenge', await readBody(initial));
+    }
+
+    const authorization = createDigestAuth(target.username, target.password, challenge, 'GET', `/${TV_API_VERSION}${endpoint}`);
+    const response = await getFromTv(target.ip, endpoint, { headers: { 'Authorization': authorization }, timeout });
+    const error = response.ok ? null : response.status === 401 ? 'Credentials rejected' : `HTTP ${response.status}`;
+    return result(response, response.status === 401 ? 'failed' : 'digest', error, await readBody(response));
+  } catch (error) {
+    return result(null, 'none', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Read every report endpoint in turn (one at a time, like the plugin's queue). */
+export async function buildReport(target: CliTarget, timeout = REPORT_TIMEOUT_MS): Promise<DebugReport> {
+  const results: EndpointResult[] = [];
+  for (const { name, endpoint } of REPORT_ENDPOINTS) {
+    results.push(await probe(target, name, endpoint, timeout));
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    tv: { name: target.name, ip: target.ip, mac: target.mac },
+    results,
+  };
+}
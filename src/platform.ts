@@ -1,8 +1,16 @@
 import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
 
 import { PhilipsAmbilightTVAccessory } from './platformAccessory.js';
-import type { TVDeviceConfig } from './api/types.js';
+import type { ControlApiConfig, DeviceGroupConfig, MqttConfig, TVDeviceConfig } from './api/types.js';
 import { sanitizeForHomeKit } from './api/utils.js';
+import { AMBILIGHT_STYLE_LABELS } from './services/AmbilightStyleSwitchService.js';
+import { ControlApiServer } from './services/ControlApiServer.js';
+import { deviceIdFromMac } from './services/DeviceCommands.js';
+import type { ControllableDevice } from './services/DeviceCommands.js';
+import { DeviceGroupService } from './services/DeviceGroupService.js';
+import { parseClockTime } from './services/ParentalControlService.js';
+import { MqttBridge } from './services/MqttBridge.js';
+import { isRemoteKey, validateRemoteKeyMap } from './services/RemoteKeyMapper.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
 
 // ============================================================================
@@ -13,6 +21,9 @@ const IPV4_REGEX = /^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/;
 const MAC_REGEX = /^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/;
 const MIN_POLLING_INTERVAL_MS = 1000;
 const MAX_POLLING_INTERVAL_MS = 60000;
+const MIN_CONTROL_API_TOKEN_LENGTH = 16;
+const MAX_SLEEP_FADE_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
 
 /**
  * HomebridgePlatform
@@ -89,6 +100,50 @@ export class PhilipsAmbilightTVPlatform implements DynamicPlatformPlugin {
       }
     }
 
+    const wol = device.wakeOnLan as Record<string, unknown> | undefined;
+    if (wol?.broadcastAddress !== undefined && !IPV4_REGEX.test(String(wol.broadcastAddress))) {
+      this.log.warn(`Device "${device.name}": Invalid Wake-on-LAN broadcast address "${wol.broadcastAddress}". Using default.`);
+      delete wol.broadcastAddress;
+    }
+    if (wol?.port !== undefined && !(Number.isInteger(wol.port) && (wol.port as number) >= 1 && (wol.port as number) <= 65535)) {
+      this.log.warn(`Device "${device.name}": Invalid Wake-on-LAN port "${wol.port}". Using default.`);
+      delete wol.port;
+    }
+
+    const fadeMinutes = device.sleepTimer?.fadeMinutes;
+    if (fadeMinutes !== undefined && !(Number.isInteger(fadeMinutes) && fadeMinutes >= 0 && fadeMinutes <= MAX_SLEEP_FADE_MINUTES)) {
+      this.log.warn(`Device "${device.name}": sleepTimer.fadeMinutes must be 0-${MAX_SLEEP_FADE_MINUTES}. Using default.`);
+      delete device.sleepTimer.fadeMinutes;
+    }
+
+    const parental = device.parentalControls as Record<string, unknown> | undefined;
+    if (parental?.hours !== undefined) {
+      const hours = parental.hours as Record<string, unknown>;
+      if (parseClockTime(hours?.start) === null || parseClockTime(hours?.end) === null) {
+        this.log.warn(`Device "${device.name}": parentalControls.hours needs "start" and "end" as HH:MM. Ignoring it.`);
+        delete parental.hours;
+      }
+    }
+    const budget = parental?.dailyBudgetMinutes;
+    if (budget !== undefined && !(Number.isInteger(budget) && (budget as number) >= 0 && (budget as number) <= MINUTES_PER_DAY)) {
+      this.log.warn(`Device "${device.name}": parentalControls.dailyBudgetMinutes must be 0-${MINUTES_PER_DAY}. Ignoring it.`);
+      delete parental!.dailyBudgetMinutes;
+    }
+
+    for (const field of ['infoButtonKey', 'backButtonKey', 'playPauseButtonKey'] as const) {
+      if (device[field] !== undefined && !isRemoteKey(device[field])) {
+        this.log.warn(`Device "${device.name}": ${field} "${device[field]}" is not a TV key. Using default.`);
+        delete device[field];
+      }
+    }
+    if (device.remoteKeys !== undefined) {
+      const { map, errors } = validateRemoteKeyMap(device.remoteKeys);
+      for (const error of errors) {
+        this.log.warn(`Device "${device.name}": remoteKeys ${error}. Ignoring it.`);
+      }
+      device.remoteKeys = map;
+    }
+
     return true;
   }
 
@@ -119,11 +174,119 @@ export class PhilipsAmbilightTVPlatform implements DynamicPlatformPlugin {
       this.api.publishExternalAccessories(PLUGIN_NAME, [accessory]);
     }
 
+    const groups = this.createDeviceGroups(accessories);
+    const controlApi = this.createControlApi(accessories);
+    const mqttBridge = this.createMqttBridge(accessories);
+
     // Clean up all accessories when Homebridge shuts down
     this.api.on('shutdown', () => {
+      void controlApi?.stop();
+      void mqttBridge?.stop();
+      groups.forEach(group => group.stop());
       for (const acc of accessories) {
         acc.cleanup();
       }
     });
   }
+
+  /**
+   * Publish the optional device groups (platform-level `groups` config), each
+   * as its own Television accessory. Members are matched by configured name
+   * or MAC; unknown members are skipped with a warning.
+   */
+  private createDeviceGroups(accessories: PhilipsAmbilightTVAccessory[]): DeviceGroupService[] {
+    const configs = (this.config.groups ?? []) as DeviceGroupConfig[];
+    const groups: DeviceGroupService[] = [];
+    const matches = (member: unknown, device: ControllableDevice): boolean => typeof member === 'string'
+      && (member === device.name || (MAC_REGEX.test(member) && deviceIdFromMac(member) === device.id));
+
+    for (const [index, config] of configs.entries()) {
+      if (!config?.name || typeof config.name !== 'string' || !Array.isArray(config.members)) {
+        this.log.error(`Group #${index + 1}: "name" and "members" are required. Skipping.`);
+        continue;
+      }
+
+      const members = accessories.map(acc => acc.device).filter(device => config.members.some(member => matches(member, device)));
+      for (const member of config.members) {
+        if (!members.some(device => matches(member, device))) {
+          this.log.warn(`Group "${config.name}": no configured TV matches member "${member}"`);
+        }
+      }
+      if (members.length === 0) {
+        this.log.error(`Group "${config.name}": no members found. Skipping.`);
+        continue;
+      }
+      if (config.ambilightStyle !== undefined && !(config.ambilightStyle in AMBILIGHT_STYLE_LABELS)) {
+        this.log.warn(`Group "${config.name}": Unknown ambilightStyle "${config.ambilightStyle}". Using default.`);
+        delete config.ambilightStyle;
+      }
+
+      const displayName = sanitizeForHomeKit(config.name);
+      const uuid = this.api.hap.uuid.generate(`${PLATFORM_NAME}-group-${config.name}`);
+      this.log.info('Publishing group accessory:', displayName);
+      const accessory = new this.api.platformAccessory(displayName, uuid, this.api.hap.Categories.TELEVISION);
+
+      const group = new DeviceGroupService({
+        Service: this.Service,
+        Characteristic: this.Characteristic,
+        config,
+        members,
+        communicationError: () => new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE),
+        log: (level, message) => this.log[level](`[${config.name}] ${message}`),
+      });
+      group.configure(accessory);
+      this.api.publishExternalAccessories(PLUGIN_NAME, [accessory]);
+      groups.push(group);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Start the optional local control API (platform-level `controlApi` config).
+   * Refuses to start without a reasonably long token — the API can power the
+   * TV on and off, so it must never be reachable unauthenticated.
+   */
+  private createControlApi(accessories: PhilipsAmbilightTVAccessory[]): ControlApiServer | null {
+    const config = this.config.controlApi as ControlApiConfig | undefined;
+    if (!config?.enabled) {
+      return null;
+    }
+
+    if (typeof config.token !== 'string' || config.token.length < MIN_CONTROL_API_TOKEN_LENGTH) {
+      this.log.error(`Control API: "token" must be at least ${MIN_CONTROL_API_TOKEN_LENGTH} characters. Not starting.`);
+      return null;
+    }
+
+    const server = new ControlApiServer({
+      config,
+      devices: accessories.map(acc => acc.device),
+      log: (level, message) => this.log[level](message),
+    });
+    server.start().catch((error: Error) => {
+      this.log.error(`Control API failed to start: ${error.message}`);
+    });
+    return server;
+  }
+
+  /** Start the optional MQTT bridge (platform-level `mqtt` config). */
+  private createMqttBridge(accessories: PhilipsAmbilightTVAccessory[]): MqttBridge | null {
+    const config = this.config.mqtt as MqttConfig | undefined;
+    if (!config?.enabled) {
+      return null;
+    }
+
+    if (typeof config.url !== 'string' || !/^(mqtts?|wss?|tcp|ssl):\/\//.test(config.url)) {
+      this.log.error('MQTT: "url" must be a broker URL such as mqtt://192.168.1.5:1883. Not starting.');
+      return null;
+    }
+
+    const bridge = new MqttBridge({
+      config,
+      devices: accessories.map(acc => acc.device),
+      log: (level, message) => this.log[level](message),
+    });
+    bridge.start();
+    return bridge;
+  }
 }
@@ -1,15 +1,37 @@
 import type { CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
 
 import type { PhilipsAmbilightTVPlatform } from './platform.js';
-import { PhilipsTVClient } from './api/PhilipsTVClient.js';
+import { PhilipsTVClient, POWER_ON_TIMEOUT_MS } from './api/PhilipsTVClient.js';
 import { sanitizeForHomeKit } from './api/utils.js';
-import type { TVDeviceConfig, AmbilightCached, RemoteKey } from './api/types.js';
+import type { TVDeviceConfig, AmbilightCached, CurrentChannel, RemoteKey, VolumeState } from './api/types.js';
 import { AmbilightService } from './services/AmbilightService.js';
 import { InputSourceManager } from './services/InputSourceManager.js';
 import { StatePollManager } from './services/StatePollManager.js';
 import { SourceSwitchService } from './services/SourceSwitchService.js';
 import { StateSensorService } from './services/StateSensorService.js';
 import { AmbilightHueSwitchService } from './services/AmbilightHueSwitchService.js';
+import { VolumeSliderService } from './services/VolumeSliderService.js';
+import { AmbilightStyleSwitchService } from './services/AmbilightStyleSwitchService.js';
+import { AmbilightSideService } from './services/AmbilightSideService.js';
+import { AmbilightAnimationService } from './services/AmbilightAnimationService.js';
+import { MacroService } from './services/MacroService.js';
+import { DeviceLocator } from './services/DeviceLocator.js';
+import { ScreenSwitchService } from './services/ScreenSwitchService.js';
+import { AuroraSwitchService } from './services/AuroraSwitchService.js';
+import { SleepTimerService } from './services/SleepTimerService.js';
+import { ParentalControlService } from './services/ParentalControlService.js';
+import { deviceIdFromMac } from './services/DeviceCommands.js';
+import type { ControllableDevice, DeviceStateUpdate } from './services/DeviceCommands.js';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * How long a power-on may hold the HomeKit request before it is acknowledged
+ * and finished in the background — well inside Homebridge's handler deadline.
+ */
+const POWER_ON_ACK_MS = 2500;
 
 // ============================================================================
 // PHILIPS AMBILIGHT TV ACCESSORY
@@ -27,10 +49,27 @@ export class PhilipsAmbilightTVAccessory {
   private readonly statePollManager: StatePollManager;
   private readonly stateSensorService: StateSensorService;
   private readonly ambilightHueSwitchService: AmbilightHueSwitchService;
+  private readonly volumeSliderService: VolumeSliderService;
+  private readonly ambilightStyleSwitchService: AmbilightStyleSwitchService;
+  private readonly ambilightSideService: AmbilightSideService;
+  private readonly ambilightAnimationService: AmbilightAnimationService;
+  private readonly macroService: MacroService;
+  private readonly screenSwitchService: ScreenSwitchService;
+  private readonly auroraSwitchService: AuroraSwitchService;
+  private readonly sleepTimerService: SleepTimerService;
+  private readonly parentalControlService: ParentalControlService;
+  private readonly deviceLocator: DeviceLocator;
+
+  /** This TV as seen by the local control API */
+  public readonly device: ControllableDevice;
+  private readonly stateListeners = new Set<(update: DeviceStateUpdate) => void>();
 
   private isPoweredOn = false;
   private isMuted = false;
   private powerSynced = false;
+  /** The TV rejects the stored username/password (see StatePollManager) */
+  private credentialsRejected = false;
+  private currentChannel: CurrentChannel | null = null;
 
   constructor(
     private readonly platform: PhilipsAmbilightTVPlatform,
@@ -61,7 +100,9 @@ export class PhilipsAmbilightTVAccessory {
       deviceId: this.config.mac,
       userInputs: this.config.inputs,
       customApps: this.config.customApps,
+      channelFavorites: this.config.channelFavorites,
       sourceConfigs: this.config.sources,
+      remoteKeys: this.config.remoteKeys,
       infoButtonKey: this.config.infoButtonKey,
       backButtonKey: this.config.backButtonKey,
       playPauseButtonKey: this.config.playPauseButtonKey,
@@ -96,15 +137,112 @@ export class PhilipsAmbilightTVAccessory {
       log: (level, msg) => this.log(level, msg),
     });
 
+    this.volumeSliderService = new VolumeSliderService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.ambilightStyleSwitchService = new AmbilightStyleSwitchService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.ambilightSideService = new AmbilightSideService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.ambilightAnimationService = new AmbilightAnimationService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.macroService = new MacroService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      setPower: (on) => this.setPowerFromCommand(on),
+      refreshState: () => void this.statePollManager.refresh(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.screenSwitchService = new ScreenSwitchService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.auroraSwitchService = new AuroraSwitchService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      gallery: this.config.aurora?.gallery,
+      communicationError: () => this.communicationError(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.sleepTimerService = new SleepTimerService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      storagePath: platform.api.user.storagePath(),
+      deviceId: this.config.mac,
+      fadeMinutes: this.config.sleepTimer?.fadeMinutes,
+      powerOff: () => this.powerOffFromPlugin(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.parentalControlService = new ParentalControlService({
+      Service: this.Service,
+      Characteristic: this.Characteristic,
+      tvClient: this.tvClient,
+      storagePath: platform.api.user.storagePath(),
+      deviceId: this.config.mac,
+      config: this.config.parentalControls ?? {},
+      isPoweredOn: () => this.isPoweredOn,
+      powerOff: () => this.powerOffFromPlugin(),
+      log: (level, msg) => this.log(level, msg),
+    });
+
+    this.deviceLocator = new DeviceLocator({
+      mac: this.config.mac,
+      name: this.config.name,
+      log: (level, msg) => this.log(level, msg),
+    });
+
     this.statePollManager = new StatePollManager(
       this.tvClient,
       this.config,
       {
         onPowerChange: (isOn) => this.onPowerChange(isOn),
         onAmbilightUpdate: (style, fallback) => this.onAmbilightUpdate(style, fallback),
-        onVolumeUpdate: (muted) => this.onMuteChange(muted),
+        onVolumeUpdate: (muted, volume) => this.onVolumeUpdate(muted, volume),
         onInputUpdate: (app) => this.applyInputReport(app),
-        onAppsReady: () => this.inputSourceManager.fetchAppsFromTV(),
+        onChannelUpdate: (channel) => this.onChannelUpdate(channel),
+        isTunerInputSelected: () => this.inputSourceManager.isTunerActive(),
+        onScreenUpdate: (screenOn) => this.screenSwitchService.updateFromPoll(screenOn),
+        onKeyboardUpdate: (visible) => this.emitState({ keyboard: visible }),
+        onAuroraUpdate: (open) => this.auroraSwitchService.updateFromPoll(open),
+        onAuroraUnsupported: () => this.auroraSwitchService.markUnsupported(),
+        onAppsReady: () => this.fetchInputsFromTV(),
+        onUnreachable: () => void this.recoverAddress(),
+        onAuthChange: (authorized) => {
+          this.credentialsRejected = !authorized;
+        },
       },
       (level, msg) => this.log(level, msg),
     );
@@ -130,6 +268,83 @@ export class PhilipsAmbilightTVAccessory {
       this.ambilightHueSwitchService.removeSwitch(this.accessory);
     }
 
+    // Configure the Screen switch (blank the panel, keep the audio)
+    if (this.config.screenSwitch) {
+      this.screenSwitchService.configureSwitch(this.accessory, sanitizeForHomeKit(this.config.name));
+    } else {
+      this.screenSwitchService.removeSwitch(this.accessory);
+    }
+
+    // Configure the Aurora switch (ambient screensaver on newer sets)
+    if (this.config.aurora?.enabled) {
+      this.auroraSwitchService.configureSwitch(this.accessory, sanitizeForHomeKit(this.config.name));
+    } else {
+      this.auroraSwitchService.removeSwitch(this.accessory);
+    }
+
+    // Configure parental controls (blocked apps, screen-time budget, Kids Mode switch)
+    if (this.config.parentalControls?.enabled) {
+      this.parentalControlService.configure(this.accessory, sanitizeForHomeKit(this.config.name));
+    } else {
+      this.parentalControlService.removeSwitch(this.accessory);
+    }
+
+    // Configure the sleep timer (turn the TV off after a chosen duration)
+    if (this.config.sleepTimer?.enabled) {
+      this.sleepTimerService.configureService(this.accessory, sanitizeForHomeKit(this.config.name));
+    } else {
+      this.sleepTimerService.removeService(this.accessory);
+    }
+
+    // Configure the Ambilight style switches (removes all when none are configured)
+    this.ambilightStyleSwitchService.configureSwitches(
+      this.accessory,
+      this.config.ambilightStyleSwitches ?? [],
+      sanitizeForHomeKit(this.config.name),
+    );
+
+    // Configure per-side Ambilight Lightbulbs (left/top/right/bottom)
+    if (this.config.ambilightSideLights) {
+      this.ambilightSideService.configureServices(this.accessory, sanitizeForHomeKit(this.config.name));
+    } else {
+      this.ambilightSideService.removeServices(this.accessory);
+    }
+
+    // Configure Ambilight animation switches (removes all when none are configured)
+    this.ambilightAnimationService.configureSwitches(
+      this.accessory,
+      this.config.ambilightAnimations ?? [],
+      sanitizeForHomeKit(this.config.name),
+    );
+
+    // Configure macro switches (removes all when none are configured)
+    this.macroService.configureSwitches(
+      this.accessory,
+      this.config.macros ?? [],
+      sanitizeForHomeKit(this.config.name),
+    );
+
+    // Configure the absolute volume slider (Speaker only offers up/down buttons)
+    const volumeSlider = this.config.volumeSlider ?? 'none';
+    if (volumeSlider !== 'none') {
+      this.volumeSliderService.configureService(this.accessory, this.tvService, sanitizeForHomeKit(this.config.name), volumeSlider);
+    } else {
+      this.volumeSliderService.removeService(this.accessory);
+    }
+
+    this.device = {
+      id: deviceIdFromMac(this.config.mac),
+      name: this.config.name,
+      tvClient: this.tvClient,
+      setPower: (on) => this.setPowerFromCommand(on),
+      getSnapshot: () => this.statePollManager.getSnapshot(),
+      refreshState: () => void this.statePollManager.refresh(),
+      subscribe: (listener) => {
+        this.stateListeners.add(listener);
+        return () => this.stateListeners.delete(listener);
+      },
+    };
+
     this.statePollManager.start();
   }
 
@@ -172,7 +387,7 @@ export class PhilipsAmbilightTVAccessory {
       .setCharacteristic(this.Characteristic.Name, displayName)
       .setCharacteristic(this.Characteristic.ConfiguredName, displayName)
       .setCharacteristic(this.Characteristic.SleepDiscoveryMode, this.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE)
-      .setCharacteristic(this.Characteristic.CurrentMediaState, this.Characteristic.CurrentMediaState.INTERRUPTED);
+      .setCharacteristic(this.Characteristic.CurrentMediaState, this.Characteristic.CurrentMediaState.STOP);
 
     service.getCharacteristic(this.Characteristic.Active)
       .onGet(() => this.handleGetPower())
@@ -230,6 +445,10 @@ export class PhilipsAmbilightTVAccessory {
   // ==========================================================================
 
   private handleGetPower(): CharacteristicValue {
+    // Without working credentials the power state is unknown; "No Response" points at the log
+    if (this.credentialsRejected) {
+      throw this.communicationError();
+    }
     return this.isPoweredOn
       ? this.Characteristic.Active.ACTIVE
       : this.Characteristic.Active.INACTIVE;
@@ -244,17 +463,20 @@ export class PhilipsAmbilightTVAccessory {
       return;
     }
 
+    if (shouldBeOn) {
+      return this.powerOn();
+    }
+
+    this.statePollManager.clearPowerExpectation();
     try {
-      const success = await this.tvClient.setPowerState(shouldBeOn);
+      const success = await this.tvClient.setPowerState(false);
       if (success) {
-        this.isPoweredOn = shouldBeOn;
+        this.isPoweredOn = false;
         // Reflect a power-off immediately instead of waiting for the next poll
         // (up to the polling interval away), so the source switches don't linger
         // ON for several seconds after the user turns the TV off from HomeKit.
-        if (!shouldBeOn) {
-          this.onPowerChange(false);
-        }
-        this.log('debug', `Power state changed to ${shouldBeOn ? 'ON' : 'OFF'}`);
+        this.onPowerChange(false);
+        this.log('debug', 'Power state changed to OFF');
       } else {
         throw this.communicationError();
       }
@@ -264,6 +486,76 @@ export class PhilipsAmbilightTVAccessory {
     }
   }
 
+  /**
+   * Run the client's power-on sequence (WoL, wait for the API, POST, confirm).
+   * A TV in soft standby confirms within the acknowledge window and the
+   * request completes normally. A TV in deep standby takes far longer, so
+   * HomeKit is acknowledged early and left showing On while the sequence
+   * finishes in the background; the poll manager is told to expect the
+   * transition so standby readings during boot don't flip it back.
+   */
+  private async powerOn(): Promise<void> {
+    this.statePollManager.expectPowerOn(POWER_ON_TIMEOUT_MS);
+    const sequence = this.tvClient.setPowerState(true).catch(() => false);
+
+    let ackTimer: ReturnType<typeof setTimeout> | undefined;
+    const acknowledge = new Promise<'acknowledge'>(resolve => {
+      ackTimer = setTimeout(() => resolve('acknowledge'), POWER_ON_ACK_MS);
+    });
+    const outcome = await Promise.race([sequence, acknowledge]);
+    clearTimeout(ackTimer);
+
+    if (outcome === 'acknowledge') {
+      this.log('info', 'TV is starting up, confirming power-on in the background');
+      this.isPoweredOn = true;
+      void sequence.then(success => this.finishPowerOn(success, true));
+      return;
+    }
+
+    this.finishPowerOn(outcome, false);
+    if (!outcome) {
+      throw this.communicationError();
+    }
+  }
+
+  private finishPowerOn(success: boolean, acknowledged: boolean): void {
+    if (success) {
+      this.isPoweredOn = true;
+      this.log('debug', 'Power state changed to ON');
+      return;
+    }
+
+    // Turned back off while booting — the power-off already updated HomeKit
+    if (acknowledged && !this.isPoweredOn) {
+      return;
+    }
+    this.statePollManager.clearPowerExpectation();
+    this.log('warn', 'Failed to change power state');
+    if (acknowledged) {
+      this.isPoweredOn = false;
+      this.tvService.updateCharacteristic(this.Characteristic.Active, this.Characteristic.Active.INACTIVE);
+    }
+  }
+
+  /** Turn the TV off on the plugin's own initiative (sleep timer, screen-time budget). */
+  private async powerOffFromPlugin(): Promise<void> {
+    await this.handleSetPower(this.Characteristic.Active.INACTIVE);
+    this.tvService.updateCharacteristic(this.Characteristic.Active, this.Characteristic.Active.INACTIVE);
+  }
+
+  /** Power command from a control surface (Control API, MQTT, macro, group); never throws. */
+  private async setPowerFromCommand(on: boolean): Promise<boolean> {
+    const { Active } = this.Characteristic;
+    const value = on ? Active.ACTIVE : Active.INACTIVE;
+    try {
+      await this.handleSetPower(value);
+    } catch {
+      return false;
+    }
+    this.tvService.updateCharacteristic(Active, value);
+    return true;
+  }
+
   // ==========================================================================
   // VOLUME HANDLERS
   // ==========================================================================
@@ -307,12 +599,21 @@ export class PhilipsAmbilightTVAccessory {
       isOn ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE,
     );
     this.stateSensorService.update('power', isOn);
+    this.updateMediaState();
+    this.emitState(isOn ? { power: true } : { power: false, source: null });
     if (!isOn) {
       this.ambilightService.reflectPowerOff();
       this.stateSensorService.update('ambilight', false);
       this.stateSensorService.update('mute', false);
       this.sourceSwitchService.resetAll();
       this.ambilightHueSwitchService.reset();
+      this.screenSwitchService.reset();
+      this.auroraSwitchService.reset();
+      this.volumeSliderService.reset();
+      this.ambilightStyleSwitchService.reset();
+      this.ambilightSideService.reset();
+      this.ambilightAnimationService.stop();
+      this.sleepTimerService.onTvPoweredOff();
     } else if (!isInitialSync) {
       // TV just powered on. A TV that was asleep at boot may not have reported
       // its apps yet, so reconcile the input list now that it is reachable —
@@ -326,9 +627,16 @@ export class PhilipsAmbilightTVAccessory {
         void this.ambilightService.startWithConfiguredMode();
       }
     }
+    this.parentalControlService.onPowerChange(isOn);
     this.log('debug', `Power state updated: ${isOn ? 'ON' : 'OFF'}`);
   }
 
+  /** Import favourite channels, then discover apps (favourites first so the input cap can't crowd them out). */
+  private async fetchInputsFromTV(): Promise<void> {
+    await this.inputSourceManager.fetchFavoriteChannelsFromTV();
+    await this.inputSourceManager.fetchAppsFromTV();
+  }
+
   /**
    * On power-on, reconcile the input list and then apply the TV's current
    * source right away. The source switches were just reset by the preceding
@@ -336,7 +644,7 @@ export class PhilipsAmbilightTVAccessory {
    * next poll cycle (up to the polling interval away).
    */
   private async syncActiveSourceOnPowerOn(): Promise<void> {
-    await this.inputSourceManager.fetchAppsFromTV();
+    await this.fetchInputsFromTV();
     try {
       const accepted = this.applyInputReport(await this.tvClient.getCurrentActivity());
       if (!accepted) {
@@ -361,20 +669,55 @@ export class PhilipsAmbilightTVAccessory {
    */
   private applyInputReport(app: string | null): string | null {
     const accepted = this.inputSourceManager.updateFromPoll(app, this.tvService);
+    void this.parentalControlService.checkForeground(app, accepted);
     if (accepted) {
       this.sourceSwitchService.updateFromPoll(accepted);
+      const source = this.inputSourceManager.getSources().find(s => s.id === accepted);
+      this.emitState({ source: { id: accepted, name: source?.name ?? accepted } });
     }
     return accepted;
   }
 
+  /**
+   * Track the tuned channel: select its channel input when there is one and
+   * reflect it in CurrentMediaState (PLAY while a channel is tuned).
+   */
+  private onChannelUpdate(channel: CurrentChannel | null): void {
+    this.currentChannel = channel;
+    const accepted = this.inputSourceManager.updateChannelFromPoll(channel, this.tvService);
+    if (accepted) {
+      this.sourceSwitchService.updateFromPoll(accepted);
+      const source = this.inputSourceManager.getSources().find(s => s.id === accepted);
+      this.emitState({ source: { id: accepted, name: source?.name ?? accepted } });
+    }
+    this.updateMediaState();
+  }
+
+  /** STOP in standby, PLAY while a channel is tuned, INTERRUPTED otherwise (apps/HDMI don't report playback). */
+  private updateMediaState(): void {
+    const { CurrentMediaState } = this.Characteristic;
+    const state = !this.isPoweredOn
+      ? CurrentMediaState.STOP
+      : this.currentChannel ? CurrentMediaState.PLAY : CurrentMediaState.INTERRUPTED;
+    this.tvService.updateCharacteristic(CurrentMediaState, state);
+  }
+
   private onAmbilightUpdate(style: AmbilightCached | null, fallback: boolean): void {
     this.ambilightService.updateFromPoll(style, fallback);
+    this.ambilightStyleSwitchService.updateFromPoll(style, fallback);
 
     // Update ambilight state sensor
     const ambilightOn = style
       ? style.styleName !== 'OFF'
       : fallback;
     this.stateSensorService.update('ambilight', ambilightOn);
+    this.emitState({ ambilight: { on: ambilightOn, style } });
+  }
+
+  private onVolumeUpdate(muted: boolean, volume: VolumeState): void {
+    this.onMuteChange(muted);
+    this.volumeSliderService.updateFromPoll(volume);
+    this.emitState({ volume: { ...volume, muted } });
   }
 
   private onMuteChange(muted: boolean): void {
@@ -386,6 +729,28 @@ export class PhilipsAmbilightTVAccessory {
     }
   }
 
+  // ==========================================================================
+  // ADDRESS RECOVERY
+  // ==========================================================================
+
+  /**
+   * The TV stopped answering — it may have been given a new DHCP lease. Look
+   * it up by MAC / mDNS name and, if it moved, repoint the API and long-poll
+   * clients in place so the accessory keeps working without a restart.
+   */
+  private async recoverAddress(): Promise<void> {
+    const ip = await this.deviceLocator.locate();
+    const previousIp = this.tvClient.ip;
+    if (!ip || ip === previousIp) {
+      return;
+    }
+
+    this.log('warn', `TV moved from ${previousIp} to ${ip}. Reserve a DHCP lease for it or update "ip" in the config to skip this lookup.`);
+    this.tvClient.setIp(ip);
+    this.statePollManager.setIp(ip);
+    void this.statePollManager.refresh();
+  }
+
   // ==========================================================================
   // UTILITIES
   // ==========================================================================
@@ -394,7 +759,18 @@ export class PhilipsAmbilightTVAccessory {
     this.platform.log[level](`[${this.config.name}] ${message}`);
   }
 
+  /** Forward a poll update to external listeners (e.g. the MQTT bridge). */
+  private emitState(update: DeviceStateUpdate): void {
+    for (const listener of this.stateListeners) {
+      listener(update);
+    }
+  }
+
   public cleanup(): void {
+    this.ambilightAnimationService.stop();
+    this.macroService.stop();
+    this.sleepTimerService.stop();
+    this.parentalControlService.stop();
     this.statePollManager.cleanup();
   }
 }
@@ -0,0 +1,336 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import { INTER_REQUEST_DELAY_MS } from '../api/PhilipsTVClient.js';
+import type { AmbilightAnimationConfig, AmbilightAnimationScene, AmbilightColor } from '../api/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AmbilightAnimationDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** One rendered animation frame */
+export interface AnimationFrame {
+  readonly color: AmbilightColor;
+  /** True once the animation has reached its end (the frame is the final color) */
+  readonly done: boolean;
+}
+
+/** A registered animation switch with its associated HomeKit service */
+interface AnimationSwitch {
+  readonly config: AmbilightAnimationConfig;
+  readonly service: Service;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBTYPE_PREFIX = 'ambilight-animation-';
+
+/**
+ * Time between frames (ms). Each frame is one Follow Color POST through the
+ * client's serialized queue, so this must leave room for the request itself
+ * plus the queue's inter-request delay — and for polls sharing the queue.
+ */
+export const FRAME_INTERVAL_MS = Math.max(400, INTER_REQUEST_DELAY_MS * 4);
+
+const SCENES: readonly AmbilightAnimationScene[] = ['sunrise', 'breathing', 'rainbow', 'alert'];
+
+const SCENE_LABELS: Readonly<Record<AmbilightAnimationScene, string>> = {
+  sunrise: 'Sunrise',
+  breathing: 'Breathing',
+  rainbow: 'Rainbow',
+  alert: 'Alert',
+};
+
+/** Default run time (seconds) for scenes that end on their own */
+const DEFAULT_SUNRISE_DURATION_S = 600;
+const DEFAULT_ALERT_DURATION_S = 10;
+
+/** Scene timing (ms) */
+const BREATHING_PERIOD_MS = 6000;
+const RAINBOW_PERIOD_MS = 60_000;
+const ALERT_FLASH_MS = 800;
+
+/** Default hues (HomeKit 0-360) */
+const DEFAULT_BREATHING_HUE = 210;
+const DEFAULT_ALERT_HUE = 0;
+
+/** Philips color range */
+const PHILIPS_COLOR_MAX = 255;
+
+// ============================================================================
+// FRAME RENDERING
+// ============================================================================
+
+const lerp = (from: number, to: number, progress: number): number =>
+  Math.round(from + (to - from) * progress);
+
+const toPhilipsHue = (hue: number): number =>
+  Math.round(((((hue % 360) + 360) % 360) / 360) * PHILIPS_COLOR_MAX);
+
+/** Scene run time in ms, or null when the scene loops until stopped. */
+export function animationDuration(config: AmbilightAnimationConfig): number | null {
+  if (config.duration && config.duration > 0) {
+    return config.duration * 1000;
+  }
+  switch (config.scene) {
+    case 'sunrise':
+      return DEFAULT_SUNRISE_DURATION_S * 1000;
+    case 'alert':
+      return DEFAULT_ALERT_DURATION_S * 1000;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Render the color of an animation `elapsedMs` after it started. Pure, so
+ * scenes can be tested without timers:
+ *  - sunrise: dim deep red ramping to bright warm white over the duration
+ *  - breathing: a slow brightness pulse on a single hue
+ *  - rainbow: a full hue cycle every minute
+ *  - alert: full-brightness flashes of a single hue
+ */
+export function renderAnimationFrame(config: AmbilightAnimationConfig, elapsedMs: number): AnimationFrame {
+  const duration = animationDuration(config);
+  const done = duration !== null && elapsedMs >= duration;
+  const t = duration !== null ? Math.min(elapsedMs, duration) : elapsedMs;
+
+  switch (config.scene) {
+    case 'sunrise': {
+      const progress = duration ? t / duration : 1;
+      return {
+        color: {
+          hue: lerp(0, 25, progress),
+          saturation: lerp(PHILIPS_COLOR_MAX, 80, progress),
+          brightness: lerp(10, PHILIPS_COLOR_MAX, progress),
+        },
+        done,
+      };
+    }
+    case 'breathing': {
+      const phase = (t % BREATHING_PERIOD_MS) / BREATHING_PERIOD_MS;
+      const level = 0.5 - 0.5 * Math.cos(2 * Math.PI * phase);
+      return {
+        color: {
+          hue: toPhilipsHue(config.hue ?? DEFAULT_BREATHING_HUE),
+          saturation: PHILIPS_COLOR_MAX,
+          brightness: lerp(20, PHILIPS_COLOR_MAX, level),
+        },
+        done,
+      };
+    }
+    case 'rainbow':
+      return {
+        color: {
+          hue: Math.round(((t % RAINBOW_PERIOD_MS) / RAINBOW_PERIOD_MS) * PHILIPS_COLOR_MAX),
+          saturation: PHILIPS_COLOR_MAX,
+          brightness: PHILIPS_COLOR_MAX,
+        },
+        done,
+      };
+    case 'alert': {
+      const lit = !done && Math.floor(t / ALERT_FLASH_MS) % 2 === 0;
+      return {
+        color: {
+          hue: toPhilipsHue(config.hue ?? DEFAULT_ALERT_HUE),
+          saturation: PHILIPS_COLOR_MAX,
+          brightness: lit ? PHILIPS_COLOR_MAX : 0,
+        },
+        done,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// AMBILIGHT ANIMATION SERVICE
+// ============================================================================
+
+/**
+ * Drives timed Ambilight color sequences from the plugin — something the TV's
+ * own Follow Color mode can't do beyond a single static color or its
+ * AUTOMATIC_HUE cycle. Each configured animation is a Switch; turning it on
+ * starts the scene, turning it off (or another animation starting, or the TV
+ * going to standby) stops it.
+ *
+ * Frames are sent one at a time through the client's request queue: the next
+ * frame is only scheduled once the previous POST has completed, so an
+ * animation can never pile up requests behind a slow TV.
+ */
+export class AmbilightAnimationService {
+  private switches: AnimationSwitch[] = [];
+  private running: AnimationSwitch | null = null;
+  private frameTimer?: ReturnType<typeof setTimeout>;
+  /** Bumped on every start/stop so a frame in flight can tell it was cancelled */
+  private generation = 0;
+
+  constructor(private readonly deps: AmbilightAnimationDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureSwitches(accessory: PlatformAccessory, animations: readonly AmbilightAnimationConfig[], tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+
+    // One switch per scene; later duplicates are ignored
+    const configs: AmbilightAnimationConfig[] = [];
+    for (const config of animations) {
+      if (!SCENES.includes(config.scene)) {
+        this.deps.log('warn', `Ignoring unknown Ambilight animation "${config.scene}"`);
+        continue;
+      }
+      if (!configs.some(c => c.scene === config.scene)) {
+        configs.push(config);
+      }
+    }
+
+    this.stop();
+    this.switches = [];
+
+    // Remove stale switch services that are no longer configured
+    const validSubtypes = new Set(configs.map(c => `${SUBTYPE_PREFIX}${c.scene}`));
+    accessory.services
+      .filter(s => s.UUID === Svc.Switch.UUID && s.subtype?.startsWith(SUBTYPE_PREFIX))
+      .forEach(s => {
+        if (!validSubtypes.has(s.subtype!)) {
+          accessory.removeService(s);
+        }
+      });
+
+    for (const config of configs) {
+      const subtype = `${SUBTYPE_PREFIX}${config.scene}`;
+      const label = config.name?.trim() || `Ambilight ${SCENE_LABELS[config.scene]}`;
+      const displayName = `${tvName} ${label}`;
+
+      let service = accessory.getServiceById(Svc.Switch, subtype);
+      if (!service) {
+        service = accessory.addService(Svc.Switch, displayName, subtype);
+        service.addOptionalCharacteristic(Char.ConfiguredName);
+        service.setCharacteristic(Char.ConfiguredName, label);
+        service.setCharacteristic(Char.Name, displayName);
+      }
+
+      const sw: AnimationSwitch = { config, service };
+      service.getCharacteristic(Char.On)
+        .onGet(() => this.running === sw)
+        .onSet((value) => this.handleSet(sw, value));
+
+      this.switches.push(sw);
+    }
+
+    if (configs.length > 0) {
+      this.deps.log('info', `Configured ${configs.length} Ambilight animation(s)`);
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSet(sw: AnimationSwitch, value: CharacteristicValue): Promise<void> {
+    if (!(value as boolean)) {
+      if (this.running === sw) {
+        this.stop();
+      }
+      return;
+    }
+
+    const label = SCENE_LABELS[sw.config.scene];
+    try {
+      const powerOn = await this.deps.tvClient.setAmbilightPower(true);
+      if (!powerOn) {
+        throw this.deps.communicationError();
+      }
+    } catch (error) {
+      this.deps.log('warn', `Failed to start Ambilight ${label} animation`);
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+
+    this.start(sw);
+  }
+
+  // ==========================================================================
+  // PLAYBACK
+  // ==========================================================================
+
+  /** Whether an animation is currently running. */
+  get isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /** Stop the running animation, if any (e.g. when the TV goes to standby). */
+  stop(): void {
+    const { Characteristic: Char } = this.deps;
+    this.generation++;
+    clearTimeout(this.frameTimer);
+    this.frameTimer = undefined;
+
+    const stopped = this.running;
+    this.running = null;
+    if (stopped) {
+      stopped.service.updateCharacteristic(Char.On, false);
+      this.deps.log('debug', `Ambilight ${SCENE_LABELS[stopped.config.scene]} animation stopped`);
+    }
+  }
+
+  private start(sw: AnimationSwitch): void {
+    const { Characteristic: Char } = this.deps;
+    this.stop();
+
+    this.running = sw;
+    sw.service.updateCharacteristic(Char.On, true);
+    this.deps.log('info', `Ambilight ${SCENE_LABELS[sw.config.scene]} animation started`);
+
+    const generation = this.generation;
+    const startedAt = Date.now();
+    let lastColor: AmbilightColor | null = null;
+    let failures = 0;
+
+    const step = async (): Promise<void> => {
+      const frameStart = Date.now();
+      const frame = renderAnimationFrame(sw.config, frameStart - startedAt);
+
+      // Skip identical frames (e.g. a finished sunrise holding its color)
+      const changed = !lastColor
+        || lastColor.hue !== frame.color.hue
+        || lastColor.saturation !== frame.color.saturation
+        || lastColor.brightness !== frame.color.brightness;
+
+      if (changed) {
+        const success = await this.deps.tvClient.setAmbilightFollowColor(frame.color).catch(() => false);
+        if (generation !== this.generation) {
+          return;
+        }
+        if (success) {
+          lastColor = frame.color;
+          failures = 0;
+        } else if (++failures >= 3) {
+          this.deps.log('warn', `Ambilight ${SCENE_LABELS[sw.config.scene]} animation stopped: TV not responding`);
+          this.stop();
+          return;
+        }
+      }
+
+      if (frame.done) {
+        this.stop();
+        return;
+      }
+
+      const wait = Math.max(INTER_REQUEST_DELAY_MS, FRAME_INTERVAL_MS - (Date.now() - frameStart));
+      this.frameTimer = setTimeout(() => void step(), wait);
+    };
+
+    void step();
+  }
+}
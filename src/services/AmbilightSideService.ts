@@ -0,0 +1,214 @@
+import type { Characteristic, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import type { AmbilightRgb, AmbilightSide } from '../api/types.js';
+import { hsbToRgb } from '../api/utils.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AmbilightSideDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** HomeKit state of one side's Lightbulb */
+interface SideState {
+  on: boolean;
+  hue: number;        // 0-360
+  saturation: number; // 0-100
+  brightness: number; // 0-100
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SIDES: readonly AmbilightSide[] = ['left', 'top', 'right', 'bottom'];
+
+const SIDE_LABELS: Readonly<Record<AmbilightSide, string>> = {
+  left: 'Left',
+  top: 'Top',
+  right: 'Right',
+  bottom: 'Bottom',
+};
+
+const SUBTYPE_PREFIX = 'ambilight-side-';
+
+/**
+ * Collect characteristic writes for this long before pushing pixels. The Home
+ * app sends Hue, Saturation and Brightness as separate writes, and a scene can
+ * touch all four sides at once — batching them saves a TV round-trip each.
+ */
+const PUSH_DEBOUNCE_MS = 50;
+
+const OFF: AmbilightRgb = { r: 0, g: 0, b: 0 };
+
+// ============================================================================
+// AMBILIGHT SIDE SERVICE
+// ============================================================================
+
+/**
+ * Exposes each edge of the TV (left/top/right/bottom) as its own color
+ * Lightbulb. Colors are written per pixel to `/ambilight/cached` in manual
+ * Ambilight mode, so each edge of the wall can be tinted independently.
+ *
+ * A side that is off is painted black. Turning the last side off, or selecting
+ * a style through the main Ambilight controls, hands the LEDs back to the TV.
+ */
+export class AmbilightSideService {
+  private readonly services = new Map<AmbilightSide, Service>();
+  private readonly state = new Map<AmbilightSide, SideState>(
+    SIDES.map(side => [side, { on: false, hue: 0, saturation: 0, brightness: 100 }]),
+  );
+
+  private pendingPush: Promise<void> | null = null;
+  /** Whether Ambilight has been powered on for manual control since the last reset */
+  private engaged = false;
+
+  constructor(private readonly deps: AmbilightSideDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureServices(accessory: PlatformAccessory, tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+
+    for (const side of SIDES) {
+      const subtype = `${SUBTYPE_PREFIX}${side}`;
+      const label = `Ambilight ${SIDE_LABELS[side]}`;
+      const displayName = `${tvName} ${label}`;
+
+      let service = accessory.getServiceById(Svc.Lightbulb, subtype);
+      if (!service) {
+        service = accessory.addService(Svc.Lightbulb, displayName, subtype);
+        service.addOptionalCharacteristic(Char.ConfiguredName);
+        service.setCharacteristic(Char.ConfiguredName, label);
+      }
+
+      service.setCharacteristic(Char.Name, displayName);
+
+      service.getCharacteristic(Char.On)
+        .onGet(() => this.sideState(side).on)
+        .onSet((value) => this.handleSet(side, { on: value as boolean }));
+      service.getCharacteristic(Char.Brightness)
+        .onGet(() => this.sideState(side).brightness)
+        .onSet((value) => this.handleSet(side, { brightness: value as number }));
+      service.getCharacteristic(Char.Hue)
+        .onGet(() => this.sideState(side).hue)
+        .onSet((value) => this.handleSet(side, { hue: value as number }));
+      service.getCharacteristic(Char.Saturation)
+        .onGet(() => this.sideState(side).saturation)
+        .onSet((value) => this.handleSet(side, { saturation: value as number }));
+
+      this.services.set(side, service);
+    }
+
+    this.deps.log('info', 'Configured Ambilight side lights');
+  }
+
+  /** Remove the side Lightbulbs if they exist (when the feature is disabled). */
+  removeServices(accessory: PlatformAccessory): void {
+    for (const side of SIDES) {
+      const service = accessory.getServiceById(this.deps.Service.Lightbulb, `${SUBTYPE_PREFIX}${side}`);
+      if (service) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSet(side: AmbilightSide, change: Partial<SideState>): Promise<void> {
+    Object.assign(this.sideState(side), change);
+
+    // Color changes on a side that is off are remembered for when it turns on
+    if (change.on === undefined && !this.sideState(side).on) {
+      return;
+    }
+
+    try {
+      await this.schedulePush();
+    } catch (error) {
+      this.deps.log('warn', `Failed to update Ambilight ${SIDE_LABELS[side].toLowerCase()} side`);
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  // ==========================================================================
+  // STATE UPDATES
+  // ==========================================================================
+
+  /** Show all sides as off (e.g. when the TV powers off). */
+  reset(): void {
+    const { Characteristic: Char } = this.deps;
+    this.engaged = false;
+    for (const side of SIDES) {
+      const state = this.sideState(side);
+      if (state.on) {
+        state.on = false;
+        this.services.get(side)?.updateCharacteristic(Char.On, false);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  private sideState(side: AmbilightSide): SideState {
+    return this.state.get(side)!;
+  }
+
+  /** Debounced push — all writes within the window share one request. */
+  private schedulePush(): Promise<void> {
+    if (!this.pendingPush) {
+      this.pendingPush = new Promise<void>((resolve, reject) => {
+        setTimeout(() => {
+          this.pendingPush = null;
+          this.pushColors().then(resolve, reject);
+        }, PUSH_DEBOUNCE_MS);
+      });
+    }
+    return this.pendingPush;
+  }
+
+  private async pushColors(): Promise<void> {
+    const { tvClient } = this.deps;
+    const colors = Object.fromEntries(SIDES.map(side => {
+      const { on, hue, saturation, brightness } = this.sideState(side);
+      return [side, on ? hsbToRgb(hue, saturation, brightness) : OFF];
+    })) as Record<AmbilightSide, AmbilightRgb>;
+
+    const anyOn = SIDES.some(side => this.sideState(side).on);
+    if (!anyOn) {
+      // Back to 'internal' mode so the TV's own style drives the LEDs again
+      this.engaged = false;
+      this.deps.log('debug', 'Ambilight sides: all off, returning to the TV style');
+      if (!await tvClient.setAmbilightMode('internal')) {
+        throw this.deps.communicationError();
+      }
+      return;
+    }
+    if (!this.engaged) {
+      const powerOn = await tvClient.setAmbilightPower(true);
+      if (!powerOn) {
+        throw this.deps.communicationError();
+      }
+      this.engaged = true;
+    }
+
+    this.deps.log('debug', `Ambilight sides: ${SIDES.map(side => `${side}=${colors[side].r},${colors[side].g},${colors[side].b}`).join(' ')}`);
+    const success = await tvClient.setAmbilightSides(colors);
+    if (!success) {
+      throw this.deps.communicationError();
+    }
+  }
+}
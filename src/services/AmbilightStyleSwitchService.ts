@@ -0,0 +1,272 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import { AMBILIGHT_LOUNGE_PRESETS } from '../api/PhilipsTVClient.js';
+import type { AmbilightCached, AmbilightColorStyle, AmbilightLoungeStyle, AmbilightStyleSwitchId } from '../api/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AmbilightStyleSwitchDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** A registered style switch with its associated HomeKit service */
+interface StyleSwitch {
+  readonly id: AmbilightStyleSwitchId;
+  readonly service: Service;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBTYPE_PREFIX = 'ambilight-style-';
+
+/** Ignore poll updates for this long after a user action (ms) */
+const USER_ACTION_COOLDOWN_MS = 10_000;
+
+/** Switch labels for every selectable style (also the set of valid ids) */
+export const AMBILIGHT_STYLE_LABELS: Readonly<Record<AmbilightStyleSwitchId, string>> = {
+  'FOLLOW_VIDEO/STANDARD': 'Standard',
+  'FOLLOW_VIDEO/NATURAL': 'Natural',
+  'FOLLOW_VIDEO/VIVID': 'Vivid',
+  'FOLLOW_VIDEO/GAME': 'Game',
+  'FOLLOW_VIDEO/COMFORT': 'Comfort',
+  'FOLLOW_VIDEO/RELAX': 'Relax',
+  'FOLLOW_VIDEO/FOOTBALL': 'Football',
+  'FOLLOW_AUDIO/ENERGY_ADAPTIVE_BRIGHTNESS': 'Energy Brightness',
+  'FOLLOW_AUDIO/ENERGY_ADAPTIVE_COLORS': 'Energy Colors',
+  'FOLLOW_AUDIO/VU_METER': 'VU Meter',
+  'FOLLOW_AUDIO/SPECTRUM_ANALYZER': 'Spectrum',
+  'FOLLOW_AUDIO/KNIGHT_RIDER_CLOCKWISE': 'Scanner',
+  'FOLLOW_AUDIO/KNIGHT_RIDER_ALTERNATING': 'Rhythm',
+  'FOLLOW_AUDIO/RANDOM_PIXEL_FLASH': 'Flash',
+  'FOLLOW_AUDIO/STROBE': 'Strobe',
+  'FOLLOW_AUDIO/PARTY': 'Party',
+  'LOUNGE/HOT_LAVA': 'Lounge Hot Lava',
+  'LOUNGE/DEEP_WATER': 'Lounge Deep Water',
+  'LOUNGE/FRESH_NATURE': 'Lounge Fresh Nature',
+  'LOUNGE/WARM_WHITE': 'Lounge Warm',
+  'LOUNGE/COOL_WHITE': 'Lounge Cool',
+};
+
+/** Lounge switch ids → the client's lounge preset names */
+const LOUNGE_PRESET_NAMES: Readonly<Record<AmbilightColorStyle, AmbilightLoungeStyle>> = {
+  HOT_LAVA: 'Hot lava',
+  DEEP_WATER: 'Deep water',
+  FRESH_NATURE: 'Fresh nature',
+  WARM_WHITE: 'Warm White',
+  COOL_WHITE: 'Cool white',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Identify which selectable style an `ambilight/currentconfiguration` report
+ * corresponds to. Lounge presets are applied as a static Follow Color, so they
+ * are recognised by their preset hue/saturation (brightness may be adjusted).
+ * Returns null for anything else (off, custom colors, unknown algorithms).
+ */
+export function matchAmbilightStyle(config: AmbilightCached): AmbilightStyleSwitchId | null {
+  const styleName = config.styleName?.toUpperCase();
+
+  if (styleName === 'FOLLOW_VIDEO' || styleName === 'FOLLOW_AUDIO') {
+    const setting = (config.algorithm ?? config.menuSetting ?? '').toUpperCase();
+    const id = `${styleName}/${setting}` as AmbilightStyleSwitchId;
+    return id in AMBILIGHT_STYLE_LABELS ? id : null;
+  }
+
+  if (styleName === 'FOLLOW_COLOR' && config.colorSettings?.color) {
+    const { hue, saturation } = config.colorSettings.color;
+    for (const [colorStyle, presetName] of Object.entries(LOUNGE_PRESET_NAMES)) {
+      const preset = AMBILIGHT_LOUNGE_PRESETS[presetName];
+      if (preset.hue === hue && preset.saturation === saturation) {
+        return `LOUNGE/${colorStyle as AmbilightColorStyle}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Power Ambilight on and switch it to a selectable style. Shared with the
+ * control API and MQTT bridge so every entry point applies styles the same way.
+ */
+export async function applyAmbilightStyle(tvClient: PhilipsTVClient, id: AmbilightStyleSwitchId): Promise<boolean> {
+  const [style, setting] = id.split('/');
+
+  const powerOn = await tvClient.setAmbilightPower(true);
+  if (!powerOn) {
+    return false;
+  }
+
+  switch (style) {
+    case 'FOLLOW_VIDEO':
+      return tvClient.setAmbilightFollowVideo(setting);
+    case 'FOLLOW_AUDIO':
+      return tvClient.setAmbilightFollowAudio(setting);
+    default:
+      return tvClient.setAmbilightLounge(LOUNGE_PRESET_NAMES[setting as AmbilightColorStyle]);
+  }
+}
+
+// ============================================================================
+// AMBILIGHT STYLE SWITCH SERVICE
+// ============================================================================
+
+/**
+ * Exposes a configurable set of Ambilight styles (Follow Video / Follow Audio
+ * sub-styles and Lounge presets) as mutually exclusive Switch services, so a
+ * scene can pick "Ambilight Game" or "Ambilight Party" rather than only the
+ * single configured `ambilightMode`.
+ *
+ * Only the style the TV currently reports is shown as on. Turning the active
+ * switch off turns Ambilight off.
+ */
+export class AmbilightStyleSwitchService {
+  private switches: StyleSwitch[] = [];
+  private activeId: AmbilightStyleSwitchId | null = null;
+  private lastUserAction = 0;
+
+  constructor(private readonly deps: AmbilightStyleSwitchDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureSwitches(accessory: PlatformAccessory, styleIds: readonly string[], tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+
+    const validIds: AmbilightStyleSwitchId[] = [];
+    for (const id of styleIds) {
+      if (!(id in AMBILIGHT_STYLE_LABELS)) {
+        this.deps.log('warn', `Ignoring unknown Ambilight style switch "${id}"`);
+        continue;
+      }
+      if (!validIds.includes(id as AmbilightStyleSwitchId)) {
+        validIds.push(id as AmbilightStyleSwitchId);
+      }
+    }
+
+    this.switches = [];
+
+    // Remove stale switch services that are no longer configured
+    const validSubtypes = new Set(validIds.map(id => this.subtypeFor(id)));
+    accessory.services
+      .filter(s => s.UUID === Svc.Switch.UUID && s.subtype?.startsWith(SUBTYPE_PREFIX))
+      .forEach(s => {
+        if (!validSubtypes.has(s.subtype!)) {
+          accessory.removeService(s);
+        }
+      });
+
+    for (const id of validIds) {
+      const subtype = this.subtypeFor(id);
+      const label = `Ambilight ${AMBILIGHT_STYLE_LABELS[id]}`;
+      const displayName = `${tvName} ${label}`;
+
+      let service = accessory.getServiceById(Svc.Switch, subtype);
+      if (!service) {
+        service = accessory.addService(Svc.Switch, displayName, subtype);
+        service.addOptionalCharacteristic(Char.ConfiguredName);
+        service.setCharacteristic(Char.ConfiguredName, label);
+        service.setCharacteristic(Char.Name, displayName);
+      }
+
+      service.getCharacteristic(Char.On)
+        .onGet(() => this.activeId === id)
+        .onSet((value) => this.handleSet(id, value));
+
+      this.switches.push({ id, service });
+    }
+
+    if (validIds.length > 0) {
+      this.deps.log('info', `Configured ${validIds.length} Ambilight style switch(es)`);
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSet(id: AmbilightStyleSwitchId, value: CharacteristicValue): Promise<void> {
+    const on = value as boolean;
+
+    // Turning off a style that isn't active changes nothing on the TV
+    if (!on && this.activeId !== id) {
+      return;
+    }
+
+    this.deps.log('info', `Ambilight style ${AMBILIGHT_STYLE_LABELS[id]}: ${on ? 'on' : 'off'}`);
+    this.lastUserAction = Date.now();
+
+    try {
+      const success = on ? await applyAmbilightStyle(this.deps.tvClient, id) : await this.deps.tvClient.setAmbilightOff();
+      if (!success) {
+        throw this.deps.communicationError();
+      }
+      this.setActive(on ? id : null);
+      this.lastUserAction = Date.now();
+    } catch (error) {
+      this.deps.log('warn', `Failed to ${on ? 'apply' : 'turn off'} Ambilight style ${AMBILIGHT_STYLE_LABELS[id]}`);
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  // ==========================================================================
+  // STATE UPDATES
+  // ==========================================================================
+
+  /** Reflect the style reported by the `ambilight/currentconfiguration` poll. */
+  updateFromPoll(style: AmbilightCached | null, powerFallback: boolean): void {
+    if (Date.now() - this.lastUserAction < USER_ACTION_COOLDOWN_MS) {
+      return;
+    }
+
+    if (!style) {
+      // Style unknown — only a confirmed power-off clears the switches
+      if (!powerFallback) {
+        this.setActive(null);
+      }
+      return;
+    }
+
+    this.setActive(matchAmbilightStyle(style));
+  }
+
+  /** Force all switches off (e.g. when the TV powers off). */
+  reset(): void {
+    this.setActive(null);
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  private setActive(id: AmbilightStyleSwitchId | null): void {
+    const { Characteristic: Char } = this.deps;
+    const configured = this.switches.some(sw => sw.id === id) ? id : null;
+
+    if (configured !== this.activeId) {
+      this.deps.log('debug', `Active Ambilight style: ${configured ? AMBILIGHT_STYLE_LABELS[configured] : 'none'}`);
+    }
+    this.activeId = configured;
+
+    for (const sw of this.switches) {
+      sw.service.updateCharacteristic(Char.On, sw.id === configured);
+    }
+  }
+
+  private subtypeFor(id: AmbilightStyleSwitchId): string {
+    return `${SUBTYPE_PREFIX}${id.toLowerCase().replace('/', '-')}`;
+  }
+}
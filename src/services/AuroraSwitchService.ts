@@ -0,0 +1,149 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuroraSwitchDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  /** Gallery to start with, by id or name (from the `aurora.gallery` config) */
+  readonly gallery?: string;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SWITCH_SUBTYPE = 'aurora-switch';
+
+// ============================================================================
+// AURORA SWITCH SERVICE
+// ============================================================================
+
+/**
+ * Exposes the Aurora ambient screensaver (newer Philips sets) as a Switch, so
+ * it can be started from an evening scene. Turning it on optionally selects
+ * the configured gallery in the same `/aurora/settings/update` request.
+ *
+ * The state poll reads `/aurora/settings/isopen`; if the TV never answers it
+ * the poll reports Aurora as unsupported and the switch refuses to turn on.
+ */
+export class AuroraSwitchService {
+  private service: Service | null = null;
+  private isOn = false;
+  private supported = true;
+  /** Configured gallery resolved to an id, looked up once */
+  private galleryId: string | undefined;
+
+  constructor(private readonly deps: AuroraSwitchDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureSwitch(accessory: PlatformAccessory, tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+    const displayName = `${tvName} Aurora`;
+
+    let service = accessory.getServiceById(Svc.Switch, SWITCH_SUBTYPE);
+    if (!service) {
+      service = accessory.addService(Svc.Switch, displayName, SWITCH_SUBTYPE);
+      service.addOptionalCharacteristic(Char.ConfiguredName);
+      service.setCharacteristic(Char.ConfiguredName, 'Aurora');
+    }
+
+    service.setCharacteristic(Char.Name, displayName);
+
+    service.getCharacteristic(Char.On)
+      .onGet(() => this.isOn)
+      .onSet((value) => this.handleSet(value));
+
+    this.service = service;
+    this.deps.log('info', 'Configured Aurora switch');
+  }
+
+  /** Remove the switch service if it exists (when the feature is disabled). */
+  removeSwitch(accessory: PlatformAccessory): void {
+    const service = accessory.getServiceById(this.deps.Service.Switch, SWITCH_SUBTYPE);
+    if (service) {
+      accessory.removeService(service);
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSet(value: CharacteristicValue): Promise<void> {
+    const on = value as boolean;
+    if (on && !this.supported) {
+      this.deps.log('warn', 'Aurora is not supported by this TV');
+      throw this.deps.communicationError();
+    }
+    this.deps.log('info', `Aurora: ${on ? 'on' : 'off'}`);
+
+    try {
+      const galleryId = on ? await this.resolveGallery() : undefined;
+      const success = await this.deps.tvClient.setAuroraOpen(on, galleryId);
+      if (success) {
+        this.isOn = on;
+      } else {
+        throw this.deps.communicationError();
+      }
+    } catch (error) {
+      this.deps.log('warn', `Failed to ${on ? 'start' : 'stop'} Aurora`);
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  /** Map the configured gallery (id or name) onto a gallery id the TV knows. */
+  private async resolveGallery(): Promise<string | undefined> {
+    const wanted = this.deps.gallery?.trim();
+    if (!wanted || this.galleryId) {
+      return this.galleryId;
+    }
+
+    const items = await this.deps.tvClient.getAuroraGallery();
+    const match = items.find(item => item.id === wanted)
+      ?? items.find(item => item.name?.toLowerCase() === wanted.toLowerCase());
+    if (!match) {
+      const available = items.map(item => item.name ?? item.id).join(', ') || 'none';
+      this.deps.log('warn', `Aurora gallery "${wanted}" not found (available: ${available}); using the TV's current gallery`);
+      return undefined;
+    }
+
+    this.galleryId = match.id;
+    return this.galleryId;
+  }
+
+  // ==========================================================================
+  // STATE UPDATES
+  // ==========================================================================
+
+  /** Apply the Aurora state read by the state poll. */
+  updateFromPoll(open: boolean): void {
+    this.supported = true;
+    if (open !== this.isOn) {
+      this.isOn = open;
+      this.service?.updateCharacteristic(this.deps.Characteristic.On, open);
+    }
+  }
+
+  /** The TV never reported an Aurora state — keep the switch off and refuse to turn it on. */
+  markUnsupported(): void {
+    this.supported = false;
+    this.reset();
+  }
+
+  /** Force the switch off (e.g. when the TV powers off). */
+  reset(): void {
+    this.isOn = false;
+    this.service?.updateCharacteristic(this.deps.Characteristic.On, false);
+  }
+}
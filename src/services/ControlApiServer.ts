@@ -0,0 +1,224 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+import type { ControlApiConfig } from '../api/types.js';
+import type { ControllableDevice } from './DeviceCommands.js';
+import { parseDeviceCommand, runDeviceCommand } from './DeviceCommands.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ControlApiDeps {
+  readonly config: ControlApiConfig;
+  readonly devices: readonly ControllableDevice[];
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** Thrown while reading a request body to short-circuit with a status code */
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_CONTROL_API_PORT = 8899;
+export const DEFAULT_CONTROL_API_HOST = '0.0.0.0';
+
+/** Command bodies are tiny — anything bigger is a mistake or abuse */
+const MAX_BODY_BYTES = 16 * 1024;
+
+const DEVICE_ROUTE = /^\/api\/devices\/([^/]+)(\/command)?$/;
+
+/** `Authorization: Bearer <token>`, case-insensitive scheme, any whitespace around the token */
+const BEARER_HEADER = /^Bearer\s+(\S+)\s*$/i;
+
+// ============================================================================
+// CONTROL API SERVER
+// ============================================================================
+
+/**
+ * Optional local HTTP/JSON API for scripts, Node-RED and Stream Deck buttons.
+ * Every request must carry `Authorization: Bearer <token>`. Commands run
+ * through each device's `PhilipsTVClient`, so they share the HomeKit request
+ * queue and pairing instead of talking to the TV directly.
+ *
+ *   GET  /api/devices              → all devices with their state snapshot and request queue stats
+ *   GET  /api/devices/:id          → one device (id = MAC without separators, or name)
+ *   POST /api/devices/:id/command  → run a command, e.g. `{"type":"power","on":true}`
+ */
+export class ControlApiServer {
+  private server: Server | null = null;
+  private readonly tokenDigest: Buffer;
+
+  constructor(private readonly deps: ControlApiDeps) {
+    this.tokenDigest = digest(deps.config.token);
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  /** Port the server is bound to (useful when configured with port 0). */
+  get port(): number | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? null;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const port = this.deps.config.port ?? DEFAULT_CONTROL_API_PORT;
+    const host = this.deps.config.host ?? DEFAULT_CONTROL_API_HOST;
+    const server = createServer((req, res) => void this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    server.on('error', (error) => this.deps.log('error', `Control API error: ${error.message}`));
+    this.server = server;
+    this.deps.log('info', `Control API listening on http://${host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    // Drop idle keep-alive connections, otherwise close() waits for them to time out
+    server.closeAllConnections();
+    await closed;
+  }
+
+  // ==========================================================================
+  // REQUEST HANDLING
+  // ==========================================================================
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '');
+
+    if (path === '/api/devices') {
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { success: false, error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, { success: true, data: this.deps.devices.map(describeDevice) });
+      return;
+    }
+
+    const match = DEVICE_ROUTE.exec(path);
+    if (!match) {
+      sendJson(res, 404, { success: false, error: 'Not found' });
+      return;
+    }
+
+    const device = this.findDevice(decodeURIComponent(match[1]));
+    if (!device) {
+      sendJson(res, 404, { success: false, error: `Unknown device "${match[1]}"` });
+      return;
+    }
+
+    const isCommand = match[2] !== undefined;
+    if (req.method !== (isCommand ? 'POST' : 'GET')) {
+      sendJson(res, 405, { success: false, error: 'Method not allowed' });
+      return;
+    }
+
+    if (!isCommand) {
+      sendJson(res, 200, { success: true, data: describeDevice(device) });
+      return;
+    }
+
+    try {
+      const parsed = parseDeviceCommand(await readJsonBody(req));
+      if (!parsed.success || !parsed.data) {
+        sendJson(res, 400, { success: false, error: parsed.error });
+        return;
+      }
+
+      this.deps.log('debug', `Control API: ${device.name} ← ${JSON.stringify(parsed.data)}`);
+      const success = await runDeviceCommand(device, parsed.data);
+      if (!success) {
+        sendJson(res, 502, { success: false, error: 'The TV did not accept the command' });
+        return;
+      }
+
+      device.refreshState();
+      sendJson(res, 200, { success: true });
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : 500;
+      sendJson(res, status, { success: false, error: error instanceof Error ? error.message : 'Internal error' });
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const token = BEARER_HEADER.exec(req.headers.authorization ?? '')?.[1];
+    if (!token) {
+      return false;
+    }
+    // Compare fixed-length digests so the check doesn't leak the token length
+    return timingSafeEqual(digest(token), this.tokenDigest);
+  }
+
+  private findDevice(idOrName: string): ControllableDevice | undefined {
+    const needle = idOrName.toLowerCase();
+    return this.deps.devices.find(d => d.id === needle.replace(/[:-]/g, ''))
+      ?? this.deps.devices.find(d => d.name.toLowerCase() === needle);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function describeDevice(device: ControllableDevice) {
+  return { id: device.id, name: device.name, state: device.getSnapshot(), queue: device.tvClient.queueStats };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestError(400, 'Request body must be valid JSON');
+  }
+}
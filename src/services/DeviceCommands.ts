@@ -0,0 +1,280 @@
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import { HDMI_SOURCES, HOME_URI, WATCH_TV_URI } from '../api/PhilipsTVClient.js';
+import type { AmbilightCached, AmbilightStyleSwitchId, ApiResult, RemoteKey, VolumeState } from '../api/types.js';
+import { AMBILIGHT_STYLE_LABELS, applyAmbilightStyle } from './AmbilightStyleSwitchService.js';
+import type { TVStateSnapshot } from './StatePollManager.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A command accepted by the external control surfaces (local HTTP API, MQTT).
+ * Each maps onto one or two `PhilipsTVClient` calls, so it goes through the
+ * same serialized, digest-authenticated request queue as HomeKit.
+ */
+export type DeviceCommand =
+  | { readonly type: 'power'; readonly on: boolean }
+  /** `level` is 0–100%, mapped onto the volume range the TV reports */
+  | { readonly type: 'volume'; readonly level: number }
+  | { readonly type: 'mute'; readonly muted: boolean }
+  | { readonly type: 'key'; readonly key: RemoteKey }
+  | { readonly type: 'app'; readonly packageName: string; readonly className?: string; readonly action?: string }
+  | { readonly type: 'source'; readonly source: string }
+  | { readonly type: 'channel'; readonly ccid: number; readonly channelListId?: string }
+  | { readonly type: 'channelNumber'; readonly number: string }
+  | { readonly type: 'text'; readonly text: string }
+  /** `ON` powers Ambilight on in whatever style the TV had last */
+  | { readonly type: 'ambilight'; readonly style: AmbilightStyleSwitchId | 'ON' | 'OFF' }
+  | { readonly type: 'ambilightColor'; readonly hue: number; readonly saturation: number; readonly brightness: number };
+
+export type DeviceCommandType = DeviceCommand['type'];
+
+/**
+ * A state change reported by the accessory's poll callbacks. Only the fields
+ * that changed source are present; the current app is the source id after
+ * `InputSourceManager` has resolved it (null when nothing is selected).
+ */
+export interface DeviceStateUpdate {
+  readonly power?: boolean;
+  readonly volume?: VolumeState;
+  readonly source?: { readonly id: string; readonly name: string } | null;
+  readonly ambilight?: { readonly on: boolean; readonly style: AmbilightCached | null };
+  readonly keyboard?: boolean;
+}
+
+/** A configured TV as seen by the external control surfaces */
+export interface ControllableDevice {
+  /** Stable id derived from the MAC address (lowercase hex, no separators) */
+  readonly id: string;
+  readonly name: string;
+  readonly tvClient: PhilipsTVClient;
+  /**
+   * Turn the TV on or off through the accessory's own power handler, so a
+   * power-on is tracked (and HomeKit updated) exactly as one from the Home app.
+   * Resolves to false when the TV did not change state; never throws.
+   */
+  setPower(on: boolean): Promise<boolean>;
+  getSnapshot(): TVStateSnapshot;
+  /** Re-read the TV state after a command so the snapshot catches up */
+  refreshState(): void;
+  /** Listen for state changes; returns an unsubscribe function */
+  subscribe(listener: (update: DeviceStateUpdate) => void): () => void;
+}
+
+/** What a command runs against: the client for most commands, the accessory for power */
+export type CommandTarget = Pick<ControllableDevice, 'tvClient' | 'setPower'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Source aliases accepted in addition to full source URIs (`watchtv`, `home`, `hdmi1`…) */
+const SOURCE_ALIASES: Readonly<Record<string, string>> = {
+  watchtv: WATCH_TV_URI,
+  home: HOME_URI,
+  ...Object.fromEntries(Object.entries(HDMI_SOURCES).map(([uri, name]) => [name.toLowerCase().replace(/\s+/g, ''), uri])),
+};
+
+const KEY_REGEX = /^[A-Za-z0-9]+$/;
+
+const CHANNEL_NUMBER_REGEX = /^\d{1,4}$/;
+
+/** Longest text accepted for the TV's text entry (a search query, not a document) */
+const MAX_TEXT_LENGTH = 255;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Device id for a MAC address: `AA:BB:CC:DD:EE:FF` → `aabbccddeeff`. */
+export function deviceIdFromMac(mac: string): string {
+  return mac.replace(/[^0-9A-Fa-f]/g, '').toLowerCase();
+}
+
+/** Source URI for a `source` command value: aliases are expanded, URIs pass through. */
+export function resolveSourceUri(source: string): string {
+  return SOURCE_ALIASES[source.toLowerCase()] ?? source;
+}
+
+/** Map a 0–100% volume onto the TV's own range (`min`/`max` differ between models). */
+export function volumePercentToLevel(percent: number, range: Pick<VolumeState, 'min' | 'max'>): number {
+  return Math.round(range.min + (percent / 100) * (range.max - range.min));
+}
+
+/** Map a TV volume level onto 0–100% of its range. */
+export function volumeLevelToPercent(level: number, range: Pick<VolumeState, 'min' | 'max'>): number {
+  if (range.max <= range.min) {
+    return 0;
+  }
+  const clamped = Math.max(range.min, Math.min(range.max, level));
+  return Math.round(((clamped - range.min) / (range.max - range.min)) * 100);
+}
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate an untrusted command payload (a parsed JSON body or MQTT message).
+ * Returns the typed command, or an error describing the first problem found.
+ */
+export function parseDeviceCommand(input: unknown): ApiResult<DeviceCommand> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { success: false, error: 'Command must be a JSON object' };
+  }
+
+  const body = input as Record<string, unknown>;
+  const invalid = (field: string, expected: string): ApiResult<DeviceCommand> =>
+    ({ success: false, error: `"${field}" must be ${expected}` });
+
+  switch (body.type) {
+    case 'power':
+      return typeof body.on === 'boolean'
+        ? { success: true, data: { type: 'power', on: body.on } }
+        : invalid('on', 'a boolean');
+    case 'volume':
+      return isNumberIn(body.level, 0, 100)
+        ? { success: true, data: { type: 'volume', level: Math.round(body.level) } }
+        : invalid('level', 'a number between 0 and 100');
+    case 'mute':
+      return typeof body.muted === 'boolean'
+        ? { success: true, data: { type: 'mute', muted: body.muted } }
+        : invalid('muted', 'a boolean');
+    case 'key':
+      return typeof body.key === 'string' && KEY_REGEX.test(body.key)
+        ? { success: true, data: { type: 'key', key: body.key as RemoteKey } }
+        : invalid('key', 'a remote key name');
+    case 'app':
+      if (!isNonEmptyString(body.packageName)) {
+        return invalid('packageName', 'a non-empty string');
+      }
+      return {
+        success: true,
+        data: {
+          type: 'app',
+          packageName: body.packageName,
+          className: isNonEmptyString(body.className) ? body.className : undefined,
+          action: isNonEmptyString(body.action) ? body.action : undefined,
+        },
+      };
+    case 'source':
+      return isNonEmptyString(body.source)
+        ? { success: true, data: { type: 'source', source: body.source } }
+        : invalid('source', 'a source URI or alias');
+    case 'channel':
+      if (!isNumberIn(body.ccid, 0, Number.MAX_SAFE_INTEGER)) {
+        return invalid('ccid', 'a channel id');
+      }
+      return {
+        success: true,
+        data: {
+          type: 'channel',
+          ccid: body.ccid,
+          channelListId: isNonEmptyString(body.channelListId) ? body.channelListId : undefined,
+        },
+      };
+    case 'channelNumber': {
+      const number = typeof body.number === 'number' ? String(body.number) : body.number;
+      return typeof number === 'string' && CHANNEL_NUMBER_REGEX.test(number)
+        ? { success: true, data: { type: 'channelNumber', number } }
+        : invalid('number', 'a channel number of 1-4 digits');
+    }
+    case 'text':
+      return typeof body.text === 'string' && body.text.length > 0 && body.text.length <= MAX_TEXT_LENGTH
+        ? { success: true, data: { type: 'text', text: body.text } }
+        : invalid('text', `a string of 1-${MAX_TEXT_LENGTH} characters`);
+    case 'ambilight':
+      return body.style === 'ON' || body.style === 'OFF' || (typeof body.style === 'string' && body.style in AMBILIGHT_STYLE_LABELS)
+        ? { success: true, data: { type: 'ambilight', style: body.style as AmbilightStyleSwitchId | 'ON' | 'OFF' } }
+        : invalid('style', `"ON", "OFF" or one of ${Object.keys(AMBILIGHT_STYLE_LABELS).join(', ')}`);
+    case 'ambilightColor':
+      if (!isNumberIn(body.hue, 0, 360)) {
+        return invalid('hue', 'a number between 0 and 360');
+      }
+      if (!isNumberIn(body.saturation, 0, 100)) {
+        return invalid('saturation', 'a number between 0 and 100');
+      }
+      if (body.brightness !== undefined && !isNumberIn(body.brightness, 0, 100)) {
+        return invalid('brightness', 'a number between 0 and 100');
+      }
+      return {
+        success: true,
+        data: {
+          type: 'ambilightColor',
+          hue: body.hue,
+          saturation: body.saturation,
+          brightness: (body.brightness as number | undefined) ?? 100,
+        },
+      };
+    default:
+      return { success: false, error: `Unknown command type "${String(body.type)}"` };
+  }
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/** Switch to a source given as a URI or alias (`watchtv` and `home` launch rather than select). */
+export async function switchToSource(tvClient: PhilipsTVClient, source: string): Promise<boolean> {
+  const uri = resolveSourceUri(source);
+  if (uri === WATCH_TV_URI) {
+    return tvClient.launchWatchTV();
+  }
+  if (uri === HOME_URI) {
+    return tvClient.launchHome();
+  }
+  return tvClient.setSource(uri);
+}
+
+/**
+ * Run a validated command against the TV. Resolves to false when the TV
+ * rejected or did not answer the request; never throws.
+ */
+export async function runDeviceCommand(target: CommandTarget, command: DeviceCommand): Promise<boolean> {
+  const { tvClient } = target;
+  try {
+    switch (command.type) {
+      case 'power':
+        return await target.setPower(command.on);
+      case 'volume': {
+        const volume = await tvClient.getVolume('user');
+        return volume !== null && await tvClient.setVolume(volumePercentToLevel(command.level, volume));
+      }
+      case 'mute':
+        return await tvClient.setMuted(command.muted);
+      case 'key':
+        return await tvClient.sendKey(command.key);
+      case 'app':
+        return await tvClient.launchApplication(command.packageName, command.className, command.action);
+      case 'source':
+        return await switchToSource(tvClient, command.source);
+      case 'channel':
+        return await tvClient.setChannel(command.ccid, command.channelListId);
+      case 'channelNumber':
+        return await tvClient.sendChannelNumber(command.number);
+      case 'text':
+        return await tvClient.sendText(command.text);
+      case 'ambilight':
+        if (command.style === 'ON') {
+          return await tvClient.setAmbilightPower(true);
+        }
+        return command.style === 'OFF'
+          ? await tvClient.setAmbilightOff()
+          : await applyAmbilightStyle(tvClient, command.style);
+      case 'ambilightColor': {
+        const powerOn = await tvClient.setAmbilightPower(true);
+        return powerOn && await tvClient.setAmbilightFollowColor({
+          hue: Math.round((command.hue / 360) * 255),
+          saturation: Math.round((command.saturation / 100) * 255),
+          brightness: Math.round((command.brightness / 100) * 255),
+        });
+      }
+    }
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,380 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import { POWER_ON_TIMEOUT_MS } from '../api/PhilipsTVClient.js';
+import type { AmbilightStyleSwitchId, DeviceGroupConfig } from '../api/types.js';
+import { sanitizeForHomeKit } from '../api/utils.js';
+import type { ControllableDevice, DeviceCommand, DeviceStateUpdate } from './DeviceCommands.js';
+import { resolveSourceUri, runDeviceCommand } from './DeviceCommands.js';
+import { RemoteKeyMapper } from './RemoteKeyMapper.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeviceGroupDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly config: DeviceGroupConfig;
+  /** Member TVs, already resolved from the configured names/MACs */
+  readonly members: readonly ControllableDevice[];
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** Outcome of sending one command to every member */
+export interface FanOutResult {
+  readonly succeeded: readonly ControllableDevice[];
+  readonly failed: readonly ControllableDevice[];
+}
+
+/** Last known state of one member, from its snapshot and state updates */
+interface MemberState {
+  power: boolean;
+  muted: boolean;
+  ambilight: boolean;
+  source: string | null;
+}
+
+interface GroupInput {
+  readonly identifier: number;
+  readonly name: string;
+  readonly uri: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_AMBILIGHT_STYLE: AmbilightStyleSwitchId = 'FOLLOW_VIDEO/STANDARD';
+
+const AMBILIGHT_SUBTYPE = 'group-ambilight';
+
+/**
+ * How long HomeKit waits for a group power-on before it is acknowledged and
+ * finished in the background (ms); members in deep standby take far longer.
+ */
+export const GROUP_POWER_ON_ACK_MS = 2500;
+
+// ============================================================================
+// DEVICE GROUP SERVICE
+// ============================================================================
+
+/**
+ * One Television accessory driving several TVs at once (e.g. a video wall).
+ * Power, input, volume, remote keys and Ambilight are sent to every member's
+ * client concurrently — each member keeps its own request queue — and a
+ * member that fails is named in the log without failing the others.
+ *
+ * The group's state is aggregated from the members' state updates: on when
+ * any (or, with `aggregate: "all"`, every) member is on, muted only when all
+ * members are, and on an input only while every powered member shows it.
+ */
+export class DeviceGroupService {
+  private tvService: Service | null = null;
+  private speakerService: Service | null = null;
+  private ambilightService: Service | null = null;
+
+  private readonly inputs: readonly GroupInput[];
+  private readonly states = new Map<string, MemberState>();
+  private readonly unsubscribers: (() => void)[] = [];
+  private readonly keyMapper = new RemoteKeyMapper({});
+
+  private isOn = false;
+  private isMuted = false;
+  private ambilightOn = false;
+  private activeIdentifier = 1;
+  /** Until when standby readings are ignored while members boot (epoch ms) */
+  private poweringOnUntil = 0;
+
+  constructor(private readonly deps: DeviceGroupDeps) {
+    this.inputs = (deps.config.inputs ?? []).map((input, index) => ({
+      identifier: index + 1,
+      name: input.name,
+      uri: resolveSourceUri(input.source),
+    }));
+
+    for (const member of deps.members) {
+      const snapshot = member.getSnapshot();
+      this.states.set(member.id, {
+        power: snapshot.power ?? false,
+        muted: snapshot.volume?.muted ?? false,
+        ambilight: snapshot.ambilight?.on ?? false,
+        source: null,
+      });
+    }
+  }
+
+  private get name(): string {
+    return this.deps.config.name;
+  }
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configure(accessory: PlatformAccessory): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+    const displayName = sanitizeForHomeKit(this.name);
+
+    accessory.getService(Svc.AccessoryInformation)!
+      .setCharacteristic(Char.Manufacturer, 'Philips')
+      .setCharacteristic(Char.Model, 'Ambilight TV Group')
+      .setCharacteristic(Char.SerialNumber, `group-${this.deps.members.map(m => m.id).join('-')}`.slice(0, 64));
+
+    const tvService = accessory.getService(Svc.Television) ?? accessory.addService(Svc.Television);
+    tvService
+      .setCharacteristic(Char.Active, Char.Active.INACTIVE)
+      .setCharacteristic(Char.ActiveIdentifier, this.activeIdentifier)
+      .setCharacteristic(Char.Name, displayName)
+      .setCharacteristic(Char.ConfiguredName, displayName)
+      .setCharacteristic(Char.SleepDiscoveryMode, Char.SleepDiscoveryMode.ALWAYS_DISCOVERABLE);
+
+    tvService.getCharacteristic(Char.Active)
+      .onGet(() => this.isOn ? Char.Active.ACTIVE : Char.Active.INACTIVE)
+      .onSet((value) => this.handleSetPower(value));
+
+    tvService.getCharacteristic(Char.ActiveIdentifier)
+      .onGet(() => this.activeIdentifier)
+      .onSet((value) => this.handleSetInput(value));
+
+    tvService.getCharacteristic(Char.RemoteKey)
+      .onSet((value) => this.handleRemoteKey(value));
+
+    for (const input of this.inputs) {
+      const subtype = `group-input-${input.identifier}`;
+      const inputName = sanitizeForHomeKit(input.name);
+      const service = accessory.getServiceById(Svc.InputSource, subtype)
+        ?? accessory.addService(Svc.InputSource, inputName, subtype);
+      service
+        .setCharacteristic(Char.ConfiguredName, inputName)
+        .setCharacteristic(Char.Name, inputName)
+        .setCharacteristic(Char.Identifier, input.identifier)
+        .setCharacteristic(Char.InputSourceType, Char.InputSourceType.HDMI)
+        .setCharacteristic(Char.IsConfigured, Char.IsConfigured.CONFIGURED)
+        .setCharacteristic(Char.CurrentVisibilityState, Char.CurrentVisibilityState.SHOWN)
+        .setCharacteristic(Char.TargetVisibilityState, Char.TargetVisibilityState.SHOWN);
+      tvService.addLinkedService(service);
+    }
+
+    const speaker = accessory.getService(Svc.TelevisionSpeaker) ?? accessory.addService(Svc.TelevisionSpeaker);
+    speaker
+      .setCharacteristic(Char.Active, Char.Active.ACTIVE)
+      .setCharacteristic(Char.VolumeControlType, Char.VolumeControlType.RELATIVE);
+    speaker.getCharacteristic(Char.VolumeSelector)
+      .onSet((value) => this.handleVolumeChange(value));
+    speaker.getCharacteristic(Char.Mute)
+      .onGet(() => this.isMuted)
+      .onSet((value) => this.handleSetMute(value));
+    tvService.addLinkedService(speaker);
+
+    const ambilightName = `${displayName} Ambilight`;
+    let ambilight = accessory.getServiceById(Svc.Switch, AMBILIGHT_SUBTYPE);
+    if (!ambilight) {
+      ambilight = accessory.addService(Svc.Switch, ambilightName, AMBILIGHT_SUBTYPE);
+      ambilight.addOptionalCharacteristic(Char.ConfiguredName);
+      ambilight.setCharacteristic(Char.ConfiguredName, 'Ambilight');
+    }
+    ambilight.setCharacteristic(Char.Name, ambilightName);
+    ambilight.getCharacteristic(Char.On)
+      .onGet(() => this.ambilightOn)
+      .onSet((value) => this.handleSetAmbilight(value));
+
+    this.tvService = tvService;
+    this.speakerService = speaker;
+    this.ambilightService = ambilight;
+
+    for (const member of this.deps.members) {
+      this.unsubscribers.push(member.subscribe((update) => this.onMemberUpdate(member, update)));
+    }
+    this.aggregate();
+
+    this.deps.log('info', `Configured group with ${this.deps.members.map(m => `"${m.name}"`).join(', ')}`);
+  }
+
+  /** Stop following the members' state. */
+  stop(): void {
+    this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  }
+
+  // ==========================================================================
+  // FAN-OUT
+  // ==========================================================================
+
+  /**
+   * Send a command to every member at once. Never throws: members that
+   * rejected it or did not answer are listed in the log and the result.
+   */
+  async fanOut(label: string, command: DeviceCommand): Promise<FanOutResult> {
+    const { members } = this.deps;
+    const results = await Promise.all(members.map(member => runDeviceCommand(member, command)));
+
+    const succeeded = members.filter((_, i) => results[i]);
+    const failed = members.filter((_, i) => !results[i]);
+    succeeded.forEach(member => member.refreshState());
+
+    if (failed.length === 0) {
+      this.deps.log('debug', `${label}: sent to ${members.length} TV(s)`);
+    } else {
+      const names = failed.map(member => `"${member.name}"`).join(', ');
+      this.deps.log('warn', `${label} failed on ${names} (${succeeded.length}/${members.length} succeeded)`);
+    }
+    return { succeeded, failed };
+  }
+
+  /** Fan a HomeKit write out; fails the write only when no member accepted it. */
+  private async send(label: string, command: DeviceCommand): Promise<void> {
+    const { succeeded } = await this.fanOut(label, command);
+    if (succeeded.length === 0) {
+      throw this.deps.communicationError();
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSetPower(value: CharacteristicValue): Promise<void> {
+    const on = value === this.deps.Characteristic.Active.ACTIVE;
+    this.deps.log('info', `Setting power to ${on ? 'ON' : 'OFF'}`);
+
+    if (!on) {
+      this.poweringOnUntil = 0;
+      await this.send('Power off', { type: 'power', on: false });
+      this.setPower(false);
+      return;
+    }
+
+    // Members in deep standby take up to POWER_ON_TIMEOUT_MS to boot: acknowledge
+    // HomeKit early and let the fan-out finish in the background
+    this.poweringOnUntil = Date.now() + POWER_ON_TIMEOUT_MS;
+    const fanOut = this.fanOut('Power on', { type: 'power', on: true });
+
+    let ackTimer: ReturnType<typeof setTimeout> | undefined;
+    const acknowledge = new Promise<'acknowledge'>(resolve => {
+      ackTimer = setTimeout(() => resolve('acknowledge'), GROUP_POWER_ON_ACK_MS);
+    });
+    const outcome = await Promise.race([fanOut, acknowledge]);
+    clearTimeout(ackTimer);
+
+    if (outcome === 'acknowledge') {
+      this.deps.log('info', 'TVs are starting up, confirming power-on in the background');
+      this.setPower(true);
+      void fanOut.then(result => this.finishPowerOn(result));
+      return;
+    }
+
+    this.finishPowerOn(outcome);
+    if (outcome.succeeded.length === 0) {
+      throw this.deps.communicationError();
+    }
+  }
+
+  private finishPowerOn(result: FanOutResult): void {
+    this.poweringOnUntil = 0;
+    if (result.succeeded.length > 0) {
+      this.setPower(true);
+    } else {
+      this.aggregate();
+    }
+  }
+
+  private async handleSetInput(value: CharacteristicValue): Promise<void> {
+    const input = this.inputs.find(i => i.identifier === value);
+    if (!input) {
+      throw this.deps.communicationError();
+    }
+
+    this.deps.log('info', `Switching to ${input.name}`);
+    await this.send(`Input "${input.name}"`, { type: 'source', source: input.uri });
+    this.activeIdentifier = input.identifier;
+  }
+
+  private async handleRemoteKey(value: CharacteristicValue): Promise<void> {
+    const key = await this.keyMapper.press(value as number);
+    if (key) {
+      await this.fanOut(`Remote key ${key}`, { type: 'key', key });
+    }
+  }
+
+  private async handleVolumeChange(value: CharacteristicValue): Promise<void> {
+    const key = value === this.deps.Characteristic.VolumeSelector.INCREMENT ? 'VolumeUp' : 'VolumeDown';
+    await this.fanOut(key, { type: 'key', key });
+  }
+
+  private async handleSetMute(value: CharacteristicValue): Promise<void> {
+    const muted = value as boolean;
+    await this.send(muted ? 'Mute' : 'Unmute', { type: 'mute', muted });
+    this.isMuted = muted;
+  }
+
+  private async handleSetAmbilight(value: CharacteristicValue): Promise<void> {
+    const on = value as boolean;
+    const style = on ? this.deps.config.ambilightStyle ?? DEFAULT_AMBILIGHT_STYLE : 'OFF';
+    await this.send(`Ambilight ${on ? 'on' : 'off'}`, { type: 'ambilight', style });
+    this.ambilightOn = on;
+  }
+
+  // ==========================================================================
+  // STATE AGGREGATION
+  // ==========================================================================
+
+  private onMemberUpdate(member: ControllableDevice, update: DeviceStateUpdate): void {
+    const state = this.states.get(member.id);
+    if (!state) {
+      return;
+    }
+    if (update.power !== undefined) {
+      state.power = update.power;
+    }
+    if (update.volume) {
+      state.muted = update.volume.muted;
+    }
+    if (update.ambilight) {
+      state.ambilight = update.ambilight.on;
+    }
+    if (update.source !== undefined) {
+      state.source = update.source?.id ?? null;
+    }
+    this.aggregate();
+  }
+
+  /** Recompute the group state from the members and push changes to HomeKit. */
+  private aggregate(): void {
+    const members = [...this.states.values()];
+    const combine = (pick: (state: MemberState) => boolean) =>
+      this.deps.config.aggregate === 'all' ? members.every(pick) : members.some(pick);
+
+    // Standby readings from members still booting don't turn the group off
+    if (combine(s => s.power) || Date.now() >= this.poweringOnUntil) {
+      this.setPower(combine(s => s.power));
+    }
+
+    const muted = members.every(s => s.muted);
+    if (muted !== this.isMuted) {
+      this.isMuted = muted;
+      this.speakerService?.updateCharacteristic(this.deps.Characteristic.Mute, muted);
+    }
+
+    const ambilightOn = combine(s => s.ambilight);
+    if (ambilightOn !== this.ambilightOn) {
+      this.ambilightOn = ambilightOn;
+      this.ambilightService?.updateCharacteristic(this.deps.Characteristic.On, ambilightOn);
+    }
+
+    const sources = new Set(members.filter(s => s.power).map(s => s.source));
+    const shared = sources.size === 1 ? this.inputs.find(i => sources.has(i.uri)) : undefined;
+    if (shared && shared.identifier !== this.activeIdentifier) {
+      this.activeIdentifier = shared.identifier;
+      this.tvService?.updateCharacteristic(this.deps.Characteristic.ActiveIdentifier, shared.identifier);
+    }
+  }
+
+  private setPower(on: boolean): void {
+    if (on === this.isOn) {
+      return;
+    }
+    this.isOn = on;
+    const { Active } = this.deps.Characteristic;
+    this.tvService?.updateCharacteristic(Active, on ? Active.ACTIVE : Active.INACTIVE);
+  }
+}
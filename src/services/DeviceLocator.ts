@@ -0,0 +1,86 @@
+import { discoverTVs, lookupArpMac, normalizeMac } from '../api/utils.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeviceLocatorDeps {
+  readonly mac: string;
+  /** Configured device name, matched against the mDNS service name as a fallback */
+  readonly name: string;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Minimum time between two lookups. A TV that is simply switched off at the
+ * wall looks exactly like one that moved, so don't browse on every poll.
+ */
+export const LOCATE_COOLDOWN_MS = 5 * 60_000;
+
+// ============================================================================
+// DEVICE LOCATOR
+// ============================================================================
+
+/**
+ * Finds the TV's current IP address after a DHCP lease change. Browses mDNS
+ * for Philips Android TVs and picks the one whose ARP entry matches the
+ * configured MAC; when ARP can't answer (e.g. Homebridge runs in a VM or on a
+ * different segment), falls back to a unique mDNS name match.
+ */
+export class DeviceLocator {
+  private pending: Promise<string | null> | null = null;
+  private lastAttempt = 0;
+
+  constructor(private readonly deps: DeviceLocatorDeps) {}
+
+  /**
+   * Resolve the TV's IP address. Concurrent callers share one lookup, and
+   * calls within the cooldown of the previous lookup resolve null straight away.
+   */
+  locate(): Promise<string | null> {
+    if (this.pending) {
+      return this.pending;
+    }
+    if (Date.now() - this.lastAttempt < LOCATE_COOLDOWN_MS) {
+      return Promise.resolve(null);
+    }
+
+    this.lastAttempt = Date.now();
+    this.pending = this.lookup()
+      .catch(() => null)
+      .finally(() => {
+        this.pending = null;
+      });
+    return this.pending;
+  }
+
+  private async lookup(): Promise<string | null> {
+    this.deps.log('debug', 'Searching the network for the TV (mDNS)');
+    const candidates = await discoverTVs();
+    if (candidates.length === 0) {
+      this.deps.log('debug', 'No TVs answered the mDNS browse');
+      return null;
+    }
+
+    const targetMac = normalizeMac(this.deps.mac);
+    for (const candidate of candidates) {
+      if (await lookupArpMac(candidate.host) === targetMac) {
+        return candidate.host;
+      }
+    }
+
+    const name = this.deps.name.trim().toLowerCase();
+    const byName = candidates.filter(c => c.name.trim().toLowerCase() === name);
+    if (byName.length === 1) {
+      this.deps.log('debug', `Matched TV by mDNS name "${byName[0].name}" (MAC could not be verified)`);
+      return byName[0].host;
+    }
+
+    this.deps.log('debug', `None of the ${candidates.length} TV(s) found matched ${this.deps.mac}`);
+    return null;
+  }
+}
@@ -5,8 +5,11 @@ import path from 'path';
 
 import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
 import { HDMI_SOURCES, HOME_URI, WATCH_TV_URI } from '../api/PhilipsTVClient.js';
-import type { CustomAppConfig, InputConfig, RemoteKey, SourceConfig } from '../api/types.js';
+import type {
+  ChannelFavoritesConfig, CurrentChannel, CustomAppConfig, InputConfig, RemoteKey, RemoteKeyMapConfig, SourceConfig,
+} from '../api/types.js';
 import { sanitizeForHomeKit } from '../api/utils.js';
+import { isHomeKitRemoteKey, RemoteKeyMapper } from './RemoteKeyMapper.js';
 
 // ============================================================================
 // CONSTANTS
@@ -99,20 +102,16 @@ const GENERIC_INPUT_NAMES = [
 ];
 const GENERIC_INPUT_NAME_RE = new RegExp(`^(?:${GENERIC_INPUT_NAMES.join('|')})\\s*\\d*$`, 'iu');
 
-/** HomeKit RemoteKey to Philips TV key mapping (base, without info key) */
-const HOMEKIT_TO_TV_KEY_BASE: Readonly<Record<number, RemoteKey>> = {
-  0: 'Rewind',
-  1: 'FastForward',
-  2: 'Next',
-  3: 'Previous',
-  4: 'CursorUp',
-  5: 'CursorDown',
-  6: 'CursorLeft',
-  7: 'CursorRight',
-  8: 'Confirm',
-  10: 'Home',
+/** Keys remapped while the tuner is on screen, so the iOS remote's
+ *  next/previous buttons zap through channels instead of doing nothing. */
+const TUNER_KEY_OVERRIDES: Readonly<Record<number, RemoteKey>> = {
+  2: 'ChannelStepUp',
+  3: 'ChannelStepDown',
 };
 
+/** Favourite channels imported onto the input wheel unless configured otherwise */
+const DEFAULT_MAX_FAVORITE_CHANNELS = 10;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -171,7 +170,9 @@ export interface InputSourceManagerDeps {
   readonly deviceId: string;
   readonly userInputs?: InputConfig[];
   readonly customApps?: CustomAppConfig[];
+  readonly channelFavorites?: ChannelFavoritesConfig;
   readonly sourceConfigs?: SourceConfig[];
+  readonly remoteKeys?: RemoteKeyMapConfig;
   readonly infoButtonKey?: RemoteKey;
   readonly backButtonKey?: RemoteKey;
   readonly playPauseButtonKey?: RemoteKey;
@@ -211,19 +212,19 @@ export class InputSourceManager {
   /** Source configs indexed by id for fast lookup */
   private sourceConfigMap: Map<string, SourceConfig>;
 
-  /** HomeKit RemoteKey mapping (info button key is configurable) */
-  private readonly remoteKeyMap: Readonly<Record<number, RemoteKey>>;
+  /** Translates HomeKit remote presses (incl. double/long presses) into TV keys */
+  private readonly keyMapper: RemoteKeyMapper;
 
   /** File path for persisted input configs (survives restarts for external accessories) */
   private readonly inputCachePath: string;
 
   constructor(private readonly deps: InputSourceManagerDeps) {
-    this.remoteKeyMap = {
-      ...HOMEKIT_TO_TV_KEY_BASE,
-      9: deps.backButtonKey ?? 'Back',
-      11: deps.playPauseButtonKey ?? 'PlayPause',
-      15: deps.infoButtonKey ?? 'Source',
-    };
+    this.keyMapper = new RemoteKeyMapper({
+      remoteKeys: deps.remoteKeys,
+      infoButtonKey: deps.infoButtonKey,
+      backButtonKey: deps.backButtonKey,
+      playPauseButtonKey: deps.playPauseButtonKey,
+    });
     this.sourceConfigMap = new Map(
       (deps.sourceConfigs ?? []).map(s => [s.id, s]),
     );
@@ -413,6 +414,63 @@ export class InputSourceManager {
     }
   }
 
+  /**
+   * Import a favourite channel list from the TV as channel inputs, capped at
+   * `channelFavorites.max`. Runs before app discovery so favourites keep
+   * their slots under MAX_INPUT_SOURCES. Skipped when the feature is off or
+   * the user manages an explicit inputs[] list.
+   */
+  async fetchFavoriteChannelsFromTV(): Promise<void> {
+    const favorites = this.deps.channelFavorites;
+    if (!favorites?.enabled || (this.deps.userInputs?.length ?? 0) > 0) {
+      return;
+    }
+
+    try {
+      const lists = await this.deps.tvClient.getFavoriteLists();
+      const wanted = favorites.list?.trim().toLowerCase();
+      const list = wanted
+        ? lists.find(l => l.id.toLowerCase() === wanted || l.name?.toLowerCase() === wanted)
+        : lists[0];
+      if (!list) {
+        const available = lists.map(l => l.name ?? l.id).join(', ') || 'none';
+        this.deps.log('debug', `Favourite list ${wanted ? `"${favorites.list}" ` : ''}not found (available: ${available})`);
+        return;
+      }
+
+      const max = favorites.max ?? DEFAULT_MAX_FAVORITE_CHANNELS;
+      const channels = (await this.deps.tvClient.getFavoriteChannels(list.id)).slice(0, max);
+      const existingIds = new Set(this.inputSources.map(s => s.id));
+      const newChannels = channels.filter(ch => !existingIds.has(String(ch.ccid)));
+      const available = MAX_INPUT_SOURCES - this.inputSources.length;
+      const toAdd = newChannels.slice(0, Math.max(0, available));
+      if (toAdd.length === 0) {
+        this.deps.log('debug', 'No new favourite channels to add');
+        return;
+      }
+
+      const cachedConfigs = this.getCachedInputConfigs();
+      for (const ch of toAdd) {
+        const input: InputData = {
+          id: String(ch.ccid),
+          name: ch.preset ? `${ch.preset} ${ch.name}` : ch.name,
+          type: 'channel',
+          channelListId: ch.channelListId,
+        };
+        const identifier = this.resolveIdentifier(input.id, cachedConfigs);
+        const cached = cachedConfigs.find(c => c.id === input.id);
+        this.inputSources.push(this.restoreOrCreateInputSource(input, identifier, cached, this.tvService!));
+      }
+
+      this.saveInputConfigs();
+      this.updateDisplayOrder();
+      this.deps.log('info', `Imported ${toAdd.length} favourite channel(s) from "${list.name ?? list.id}"`);
+      this.deps.onInputsChanged?.();
+    } catch {
+      this.deps.log('debug', 'TV not reachable for favourite channel import');
+    }
+  }
+
   /**
    * Replace package-id placeholder names with the real app labels the TV now
    * reports. A source registered before the TV was reachable is named after its
@@ -535,10 +593,14 @@ export class InputSourceManager {
   // ==========================================================================
 
   async handleRemoteKey(value: CharacteristicValue): Promise<void> {
-    const tvKey = this.remoteKeyMap[value as number];
+    if (!isHomeKitRemoteKey(value)) {
+      this.deps.log('debug', `Unknown remote key: ${value}`);
+      return;
+    }
 
+    const tvKey = await this.keyMapper.press(value, this.isTunerActive() ? TUNER_KEY_OVERRIDES : undefined);
     if (!tvKey) {
-      this.deps.log('debug', `Unknown remote key: ${value}`);
+      // Absorbed into a double/long press completed by a later press
       return;
     }
 
@@ -554,6 +616,12 @@ export class InputSourceManager {
     }
   }
 
+  /** True while Watch TV or a channel input is selected. */
+  isTunerActive(): boolean {
+    const current = this.inputSources.find(s => s.identifier === this.currentInputId);
+    return current?.type === 'channel' || current?.id === WATCH_TV_URI;
+  }
+
   // ==========================================================================
   // POLLING UPDATE
   // ==========================================================================
@@ -590,6 +658,29 @@ export class InputSourceManager {
       this.ambiguousReport = null;
     }
 
+    return this.applyReportedInput(inputSource, tvService);
+  }
+
+  /**
+   * Reconcile the wheel with the channel the tuner reports. A channel that
+   * is one of the inputs selects it; any other channel moves the wheel off a
+   * channel input onto Watch TV. Returns the accepted input-source id, or null
+   * when nothing changed hands (not tuned, or suppressed by a pending switch).
+   */
+  updateChannelFromPoll(channel: CurrentChannel | null, tvService: Service): string | null {
+    if (!channel) {
+      return null;
+    }
+    const current = this.inputSources.find(i => i.identifier === this.currentInputId);
+    const inputSource = this.inputSources.find(i => i.type === 'channel' && i.id === String(channel.ccid))
+      ?? (current?.type === 'channel' ? this.inputSources.find(i => i.id === WATCH_TV_URI) : undefined);
+    if (!inputSource) {
+      return null;
+    }
+    return this.applyReportedInput(inputSource, tvService);
+  }
+
+  private applyReportedInput(inputSource: InputSource, tvService: Service): string | null {
     // A manual switch is awaiting confirmation. Ignore polls that still report
     // the previous app so the wheel doesn't bounce off the user's selection;
     // once the TV reports the pending input (or the timeout runs out — the
@@ -624,10 +715,11 @@ export class InputSourceManager {
       return HOME_URI;
     }
     if (app === PLAYTV_PACKAGE) {
-      // playtv is ambiguous between Watch TV and HDMI 1-4: trust the current
-      // input when it already is one of those, otherwise assume Watch TV.
+      // playtv is ambiguous between Watch TV, a channel input and HDMI 1-4:
+      // trust the current input when it already is one of those (the tuned
+      // channel is tracked separately), otherwise assume Watch TV.
       const current = this.inputSources.find(i => i.identifier === this.currentInputId);
-      if (current && current.type === 'source' && current.id !== HOME_URI) {
+      if (current && (current.type === 'channel' || (current.type === 'source' && current.id !== HOME_URI))) {
         return current.id;
       }
       return WATCH_TV_URI;
@@ -757,7 +849,7 @@ export class InputSourceManager {
   /**
    * Returns the initial set of app inputs for startup:
    * 1. If user configured inputs[] → use those (explicit list, self-managed)
-   * 2. Else combine cached apps (previous TV fetch) + custom apps + every source
+   * 2. Else combine cached favourite channels and apps (previous TV fetch) + custom apps + every source
    *    the user marked visible in the sources config.
    *
    * Seeding from the visible sources config is what guarantees a selected source
@@ -778,9 +870,14 @@ export class InputSourceManager {
       return this.mergeCustomApps(inputs, customApps);
     }
 
-    // Base = cached apps from a previous session (apps discovered from TV)
-    const cachedApps = this.getCachedInputConfigs().filter(c => c.type === 'app');
-    const base = cachedApps.map(c => ({
+    // Base = cached apps from a previous session (apps discovered from TV),
+    // preceded by imported favourite channels so the cap doesn't drop them
+    const cached = this.getCachedInputConfigs();
+    const cachedChannels = this.deps.channelFavorites?.enabled
+      ? cached.filter(c => c.type === 'channel').slice(0, this.deps.channelFavorites.max ?? DEFAULT_MAX_FAVORITE_CHANNELS)
+      : [];
+    const cachedInputs = [...cachedChannels, ...cached.filter(c => c.type === 'app')];
+    const base = cachedInputs.map(c => ({
       id: c.id,
       name: c.name,
       type: c.type as InputType,
@@ -990,7 +1087,7 @@ export class InputSourceManager {
 
     const inputSourceType = input.type === 'source'
       ? Char.InputSourceType.HDMI
-      : Char.InputSourceType.APPLICATION;
+      : input.type === 'channel' ? Char.InputSourceType.TUNER : Char.InputSourceType.APPLICATION;
 
     // Resolve visibility and name from sources config / cache / defaults
     const visibility = this.resolveVisibility(input.id, cached);
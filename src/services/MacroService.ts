@@ -0,0 +1,329 @@
+import type { Characteristic, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import type { ApiResult, MacroConfig, MacroStepConfig } from '../api/types.js';
+import type { DeviceCommand } from './DeviceCommands.js';
+import { parseDeviceCommand, runDeviceCommand } from './DeviceCommands.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MacroServiceDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  /** Power through the accessory's handler, as for the other control surfaces */
+  readonly setPower: (on: boolean) => Promise<boolean>;
+  /** Re-read the TV state once a macro has finished, so HomeKit catches up */
+  readonly refreshState: () => void;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+export type MacroStep =
+  | { readonly type: 'command'; readonly command: DeviceCommand }
+  | { readonly type: 'delay'; readonly ms: number }
+  | { readonly type: 'waitForApp'; readonly app: string; readonly timeoutMs: number };
+
+/** A validated macro; each step already expanded by its `repeat` count */
+export interface Macro {
+  readonly name: string;
+  readonly steps: readonly MacroStep[];
+}
+
+/** A registered macro switch with its associated HomeKit service */
+interface MacroSwitch {
+  readonly macro: Macro;
+  readonly service: Service;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUBTYPE_PREFIX = 'macro-';
+
+/** How long a macro switch shows as on before flipping back (ms) */
+export const MACRO_SWITCH_RESET_MS = 1000;
+
+/** Longest `delay` step (ms) */
+const MAX_DELAY_MS = 60_000;
+
+/** `waitForApp` timeout when none is configured, and the longest allowed (ms) */
+const DEFAULT_WAIT_TIMEOUT_MS = 15_000;
+const MAX_WAIT_TIMEOUT_MS = 120_000;
+
+/** Time between `/activities/current` reads while waiting for an app (ms) */
+export const WAIT_POLL_INTERVAL_MS = 1000;
+
+const MAX_REPEAT = 20;
+
+/** Upper bound on the expanded step count, so a typo can't queue thousands of requests */
+const MAX_STEPS = 100;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+function parseStep(config: MacroStepConfig): ApiResult<MacroStep> {
+  switch (config.type) {
+    case 'delay':
+      return isIntegerIn(config.ms, 0, MAX_DELAY_MS)
+        ? { success: true, data: { type: 'delay', ms: config.ms } }
+        : { success: false, error: `"ms" must be a number of milliseconds up to ${MAX_DELAY_MS}` };
+    case 'waitForApp': {
+      if (typeof config.app !== 'string' || !config.app.trim()) {
+        return { success: false, error: '"app" must be a package name' };
+      }
+      const timeout = config.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+      return isIntegerIn(timeout, 0, MAX_WAIT_TIMEOUT_MS)
+        ? { success: true, data: { type: 'waitForApp', app: config.app.trim(), timeoutMs: timeout } }
+        : { success: false, error: `"timeout" must be a number of milliseconds up to ${MAX_WAIT_TIMEOUT_MS}` };
+    }
+    default: {
+      const parsed = parseDeviceCommand(config);
+      return parsed.success && parsed.data
+        ? { success: true, data: { type: 'command', command: parsed.data } }
+        : { success: false, error: parsed.error };
+    }
+  }
+}
+
+/**
+ * Validate a configured macro. Command steps accept exactly what the local
+ * control API accepts; the error names the first invalid step.
+ */
+export function parseMacro(config: MacroConfig): ApiResult<Macro> {
+  const name = typeof config.name === 'string' ? config.name.trim() : '';
+  if (!name) {
+    return { success: false, error: 'Macro needs a name' };
+  }
+  if (!Array.isArray(config.steps) || config.steps.length === 0) {
+    return { success: false, error: `Macro "${name}" has no steps` };
+  }
+
+  const steps: MacroStep[] = [];
+  for (const [index, stepConfig] of config.steps.entries()) {
+    const repeat = stepConfig?.repeat ?? 1;
+    if (!isIntegerIn(repeat, 1, MAX_REPEAT)) {
+      return { success: false, error: `Macro "${name}" step ${index + 1}: "repeat" must be between 1 and ${MAX_REPEAT}` };
+    }
+    const step = parseStep(stepConfig ?? { type: '' });
+    if (!step.success || !step.data) {
+      return { success: false, error: `Macro "${name}" step ${index + 1}: ${step.error}` };
+    }
+    for (let i = 0; i < repeat; i++) {
+      steps.push(step.data);
+    }
+  }
+  if (steps.length > MAX_STEPS) {
+    return { success: false, error: `Macro "${name}" has more than ${MAX_STEPS} steps` };
+  }
+
+  return { success: true, data: { name, steps } };
+}
+
+/** Switch subtype for a macro name: `Movie night` → `macro-movie-night`. */
+const macroSubtype = (name: string): string =>
+  `${SUBTYPE_PREFIX}${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+// ============================================================================
+// MACRO SERVICE
+// ============================================================================
+
+/**
+ * Runs user-defined macros — ordered key presses, app launches, source and
+ * channel changes, Ambilight styles, pauses and "wait until app X is open"
+ * conditions — each exposed as a stateless Switch, so "Movie night" is one tap.
+ *
+ * Steps run one after another on top of the client's request queue: the next
+ * step only starts once the previous request has completed. One macro runs at
+ * a time per TV; starting another cancels the one in progress.
+ */
+export class MacroService {
+  private switches: MacroSwitch[] = [];
+  private running: Macro | null = null;
+  /** Bumped whenever a macro starts or is stopped, so a cancelled run stops at its next step */
+  private generation = 0;
+  private waitTimer?: ReturnType<typeof setTimeout>;
+  private wakeWaiter?: () => void;
+
+  constructor(private readonly deps: MacroServiceDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureSwitches(accessory: PlatformAccessory, macros: readonly MacroConfig[], tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+
+    // Invalid macros are skipped; later duplicates of a name are ignored
+    const valid: Macro[] = [];
+    for (const config of macros) {
+      const parsed = parseMacro(config);
+      if (!parsed.success || !parsed.data) {
+        this.deps.log('warn', `Ignoring macro: ${parsed.error}`);
+        continue;
+      }
+      const macro = parsed.data;
+      if (!valid.some(m => macroSubtype(m.name) === macroSubtype(macro.name))) {
+        valid.push(macro);
+      }
+    }
+
+    this.stop();
+    this.switches = [];
+
+    // Remove stale switch services that are no longer configured
+    const validSubtypes = new Set(valid.map(m => macroSubtype(m.name)));
+    accessory.services
+      .filter(s => s.UUID === Svc.Switch.UUID && s.subtype?.startsWith(SUBTYPE_PREFIX))
+      .forEach(s => {
+        if (!validSubtypes.has(s.subtype!)) {
+          accessory.removeService(s);
+        }
+      });
+
+    for (const macro of valid) {
+      const subtype = macroSubtype(macro.name);
+      const displayName = `${tvName} ${macro.name}`;
+
+      let service = accessory.getServiceById(Svc.Switch, subtype);
+      if (!service) {
+        service = accessory.addService(Svc.Switch, displayName, subtype);
+        service.addOptionalCharacteristic(Char.ConfiguredName);
+        service.setCharacteristic(Char.ConfiguredName, macro.name);
+        service.setCharacteristic(Char.Name, displayName);
+      }
+
+      const sw: MacroSwitch = { macro, service };
+      service.getCharacteristic(Char.On)
+        .onGet(() => false)
+        .onSet((value) => this.handleSet(sw, value));
+
+      this.switches.push(sw);
+    }
+
+    if (valid.length > 0) {
+      this.deps.log('info', `Configured ${valid.length} macro(s)`);
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private handleSet(sw: MacroSwitch, value: CharacteristicValue): void {
+    if (!(value as boolean)) {
+      return;
+    }
+
+    // Stateless: flip back off on its own, whatever the macro does
+    setTimeout(() => sw.service.updateCharacteristic(this.deps.Characteristic.On, false), MACRO_SWITCH_RESET_MS);
+    void this.run(sw.macro);
+  }
+
+  // ==========================================================================
+  // SEQUENCER
+  // ==========================================================================
+
+  /** Whether a macro is currently running. */
+  get isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /** Cancel the running macro, if any. It stops before its next step. */
+  stop(): void {
+    this.generation++;
+    clearTimeout(this.waitTimer);
+    this.waitTimer = undefined;
+    this.wakeWaiter?.();
+    this.wakeWaiter = undefined;
+
+    if (this.running) {
+      this.deps.log('info', `Macro "${this.running.name}" cancelled`);
+      this.running = null;
+    }
+  }
+
+  /** Run a macro to completion. Resolves false when it failed or was cancelled. */
+  async run(macro: Macro): Promise<boolean> {
+    this.stop();
+    const generation = this.generation;
+    this.running = macro;
+    this.deps.log('info', `Macro "${macro.name}" started`);
+
+    try {
+      for (const [index, step] of macro.steps.entries()) {
+        const completed = await this.runStep(step, generation);
+        if (generation !== this.generation) {
+          return false;
+        }
+        if (!completed) {
+          this.deps.log('warn', `Macro "${macro.name}" stopped at step ${index + 1} (${describeStep(step)})`);
+          return false;
+        }
+      }
+      this.deps.log('info', `Macro "${macro.name}" finished`);
+      return true;
+    } finally {
+      if (generation === this.generation) {
+        this.running = null;
+        this.deps.refreshState();
+      }
+    }
+  }
+
+  private async runStep(step: MacroStep, generation: number): Promise<boolean> {
+    switch (step.type) {
+      case 'command':
+        return runDeviceCommand(this.deps, step.command);
+      case 'delay':
+        return this.wait(step.ms, generation);
+      case 'waitForApp': {
+        const deadline = Date.now() + step.timeoutMs;
+        for (;;) {
+          const app = await this.deps.tvClient.getCurrentActivity().catch(() => null);
+          if (generation !== this.generation) {
+            return false;
+          }
+          if (app === step.app) {
+            return true;
+          }
+          if (Date.now() + WAIT_POLL_INTERVAL_MS > deadline || !(await this.wait(WAIT_POLL_INTERVAL_MS, generation))) {
+            return false;
+          }
+        }
+      }
+    }
+  }
+
+  /** Sleep for `ms`; resolves false when the macro was cancelled meanwhile. */
+  private wait(ms: number, generation: number): Promise<boolean> {
+    return new Promise(resolve => {
+      this.wakeWaiter = () => resolve(false);
+      this.waitTimer = setTimeout(() => {
+        this.wakeWaiter = undefined;
+        resolve(generation === this.generation);
+      }, ms);
+    });
+  }
+}
+
+/** Short step description for logs: `key Home`, `delay 500ms`, `waitForApp com.netflix.ninja`. */
+function describeStep(step: MacroStep): string {
+  switch (step.type) {
+    case 'command': {
+      const { type, ...fields } = step.command;
+      const detail = Object.values(fields).filter(v => v !== undefined).join(' ');
+      return detail ? `${type} ${detail}` : type;
+    }
+    case 'delay':
+      return `delay ${step.ms}ms`;
+    case 'waitForApp':
+      return `waitForApp ${step.app}`;
+  }
+}
@@ -0,0 +1,302 @@
+import { connect } from 'mqtt';
+import type { MqttClient } from 'mqtt';
+
+import type { MqttConfig } from '../api/types.js';
+import { AMBILIGHT_STYLE_LABELS, matchAmbilightStyle } from './AmbilightStyleSwitchService.js';
+import type { ControllableDevice, DeviceCommand, DeviceStateUpdate } from './DeviceCommands.js';
+import { parseDeviceCommand, runDeviceCommand, volumeLevelToPercent } from './DeviceCommands.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MqttBridgeDeps {
+  readonly config: MqttConfig;
+  readonly devices: readonly ControllableDevice[];
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** Builds a command from a `<topic>/set` payload */
+type SetTopicParser = (payload: string) => unknown;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_MQTT_TOPIC_PREFIX = 'philips-ambilight-tv';
+export const DEFAULT_MQTT_DISCOVERY_PREFIX = 'homeassistant';
+
+const ON = 'ON';
+const OFF = 'OFF';
+
+/** Simple `<prefix>/<device>/<name>/set` topics and the command each maps to */
+const SET_TOPICS: Readonly<Record<string, SetTopicParser>> = {
+  power: (payload) => ({ type: 'power', on: payload.toUpperCase() === ON }),
+  volume: (payload) => ({ type: 'volume', level: Number(payload) }),
+  muted: (payload) => ({ type: 'mute', muted: payload.toUpperCase() === ON }),
+  key: (payload) => ({ type: 'key', key: payload }),
+  source: (payload) => ({ type: 'source', source: payload }),
+  app: (payload) => ({ type: 'app', packageName: payload }),
+  channel: (payload) => ({ type: 'channelNumber', number: payload }),
+  text: (payload) => ({ type: 'text', text: payload }),
+  ambilight: (payload) => ({ type: 'ambilight', style: payload }),
+};
+
+// ============================================================================
+// MQTT BRIDGE
+// ============================================================================
+
+/**
+ * Optional MQTT integration. State comes from the accessories' poll callbacks
+ * (so the TV is polled once, by the plugin) and is published as retained
+ * messages under `<prefix>/<deviceId>/…`:
+ *
+ *   power, muted  → `ON` / `OFF`
+ *   volume        → current volume, 0–100% of the range the TV reports
+ *   source        → name of the current input, as resolved by the input manager
+ *   ambilight     → style id (e.g. `FOLLOW_VIDEO/GAME`), `OFF`, or `ON` for styles without an id
+ *   keyboard      → `ON` while the TV's on-screen keyboard is showing
+ *
+ * Commands are accepted on `<name>/set` for each of the above but `keyboard`
+ * (plus `key`, `app`, `channel` and `text`), and as a full JSON command on `<prefix>/<deviceId>/command`. Home
+ * Assistant discovery payloads are published on every (re)connect.
+ */
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private readonly unsubscribers: (() => void)[] = [];
+  /** Last payload per topic, so unchanged poll results aren't republished */
+  private readonly published = new Map<string, string>();
+
+  constructor(private readonly deps: MqttBridgeDeps) {}
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  private get prefix(): string {
+    return this.deps.config.topicPrefix?.replace(/\/+$/, '') || DEFAULT_MQTT_TOPIC_PREFIX;
+  }
+
+  private get availabilityTopic(): string {
+    return `${this.prefix}/bridge/availability`;
+  }
+
+  start(): void {
+    if (this.client) {
+      return;
+    }
+
+    const { url, username, password } = this.deps.config;
+    const client = connect(url, {
+      username,
+      password,
+      will: { topic: this.availabilityTopic, payload: Buffer.from('offline'), retain: true, qos: 1 },
+    });
+    this.client = client;
+
+    let wasConnected = false;
+    client.on('connect', () => {
+      wasConnected = true;
+      this.deps.log('info', `MQTT connected to ${url}`);
+      this.onConnect();
+    });
+    client.on('offline', () => {
+      if (wasConnected) {
+        wasConnected = false;
+        this.deps.log('warn', 'MQTT broker connection lost, reconnecting');
+      }
+    });
+    client.on('error', (error) => this.deps.log('debug', `MQTT error: ${error.message}`));
+    client.on('message', (topic, payload) => void this.handleMessage(topic, payload.toString()));
+
+    for (const device of this.deps.devices) {
+      this.unsubscribers.push(device.subscribe((update) => this.publishState(device, update)));
+    }
+  }
+
+  async stop(): Promise<void> {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+    this.client = null;
+    this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+
+    if (client.connected) {
+      await client.publishAsync(this.availabilityTopic, 'offline', { retain: true, qos: 1 }).catch(() => undefined);
+    }
+    await client.endAsync();
+  }
+
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  private onConnect(): void {
+    // Subscribe first so "online" means commands are already being accepted
+    this.client?.subscribe([`${this.prefix}/+/+/set`, `${this.prefix}/+/command`], (error) => {
+      if (error) {
+        this.deps.log('warn', `MQTT subscribe failed: ${error.message}`);
+      }
+
+      // The broker may have restarted without persistence — republish everything
+      this.published.clear();
+      for (const device of this.deps.devices) {
+        if (this.deps.config.homeAssistantDiscovery !== false) {
+          this.publishDiscovery(device);
+        }
+
+        const snapshot = device.getSnapshot();
+        if (snapshot.power !== null) {
+          this.publishState(device, {
+            power: snapshot.power,
+            volume: snapshot.volume ?? undefined,
+          });
+        }
+      }
+      this.publish(this.availabilityTopic, 'online');
+    });
+  }
+
+  // ==========================================================================
+  // STATE
+  // ==========================================================================
+
+  private publishState(device: ControllableDevice, update: DeviceStateUpdate): void {
+    const base = `${this.prefix}/${device.id}`;
+
+    if (update.power !== undefined) {
+      this.publish(`${base}/power`, update.power ? ON : OFF);
+    }
+    if (update.volume) {
+      this.publish(`${base}/volume`, String(volumeLevelToPercent(update.volume.current, update.volume)));
+      this.publish(`${base}/muted`, update.volume.muted ? ON : OFF);
+    }
+    if (update.source !== undefined) {
+      this.publish(`${base}/source`, update.source?.name ?? '');
+    }
+    if (update.ambilight) {
+      const { on, style } = update.ambilight;
+      // Only values the Home Assistant select lists, so it never reads "unknown"
+      const payload = !on ? OFF : (style && matchAmbilightStyle(style)) || ON;
+      this.publish(`${base}/ambilight`, payload);
+    }
+    if (update.keyboard !== undefined) {
+      this.publish(`${base}/keyboard`, update.keyboard ? ON : OFF);
+    }
+  }
+
+  private publish(topic: string, payload: string): void {
+    if (!this.client?.connected || this.published.get(topic) === payload) {
+      return;
+    }
+    this.published.set(topic, payload);
+    this.client.publish(topic, payload, { retain: true });
+  }
+
+  // ==========================================================================
+  // COMMANDS
+  // ==========================================================================
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    if (!topic.startsWith(`${this.prefix}/`)) {
+      return;
+    }
+
+    const [deviceId, name, action] = topic.slice(this.prefix.length + 1).split('/');
+    const device = this.deps.devices.find(d => d.id === deviceId);
+    if (!device) {
+      return;
+    }
+
+    let input: unknown;
+    if (name === 'command' && action === undefined) {
+      try {
+        input = JSON.parse(payload);
+      } catch {
+        this.deps.log('warn', `MQTT: ignoring invalid JSON on ${topic}`);
+        return;
+      }
+    } else if (action === 'set' && SET_TOPICS[name]) {
+      input = SET_TOPICS[name](payload.trim());
+    } else {
+      return;
+    }
+
+    const parsed = parseDeviceCommand(input);
+    if (!parsed.success || !parsed.data) {
+      this.deps.log('warn', `MQTT: ignoring command on ${topic}: ${parsed.error}`);
+      return;
+    }
+
+    await this.runCommand(device, parsed.data);
+  }
+
+  private async runCommand(device: ControllableDevice, command: DeviceCommand): Promise<void> {
+    this.deps.log('debug', `MQTT: ${device.name} ← ${JSON.stringify(command)}`);
+    const success = await runDeviceCommand(device, command);
+    if (success) {
+      device.refreshState();
+    } else {
+      this.deps.log('warn', `MQTT: ${device.name} did not accept ${command.type} command`);
+    }
+  }
+
+  // ==========================================================================
+  // HOME ASSISTANT DISCOVERY
+  // ==========================================================================
+
+  private publishDiscovery(device: ControllableDevice): void {
+    const discoveryPrefix = this.deps.config.discoveryPrefix?.replace(/\/+$/, '') || DEFAULT_MQTT_DISCOVERY_PREFIX;
+    const base = `${this.prefix}/${device.id}`;
+    const common = {
+      availability_topic: this.availabilityTopic,
+      device: {
+        identifiers: [`philips_ambilight_tv_${device.id}`],
+        name: device.name,
+        manufacturer: 'Philips',
+        model: 'Ambilight TV',
+      },
+    };
+
+    const entities: [component: string, objectId: string, config: Record<string, unknown>][] = [
+      ['switch', 'power', {
+        name: 'Power', icon: 'mdi:television',
+        state_topic: `${base}/power`, command_topic: `${base}/power/set`,
+      }],
+      ['number', 'volume', {
+        name: 'Volume', icon: 'mdi:volume-high', min: 0, max: 100, mode: 'slider',
+        state_topic: `${base}/volume`, command_topic: `${base}/volume/set`,
+      }],
+      ['switch', 'muted', {
+        name: 'Mute', icon: 'mdi:volume-off',
+        state_topic: `${base}/muted`, command_topic: `${base}/muted/set`,
+      }],
+      ['sensor', 'source', {
+        name: 'Source', icon: 'mdi:import',
+        state_topic: `${base}/source`,
+      }],
+      ['select', 'ambilight', {
+        name: 'Ambilight', icon: 'mdi:television-ambient-light',
+        options: [OFF, ON, ...Object.keys(AMBILIGHT_STYLE_LABELS)],
+        state_topic: `${base}/ambilight`, command_topic: `${base}/ambilight/set`,
+      }],
+      ['binary_sensor', 'keyboard', {
+        name: 'On-screen keyboard', icon: 'mdi:keyboard-outline',
+        state_topic: `${base}/keyboard`,
+      }],
+      ['text', 'text', {
+        name: 'Text entry', icon: 'mdi:keyboard', max: 255,
+        command_topic: `${base}/text/set`,
+      }],
+    ];
+
+    for (const [component, objectId, config] of entities) {
+      const uniqueId = `philips_ambilight_tv_${device.id}_${objectId}`;
+      this.publish(
+        `${discoveryPrefix}/${component}/${device.id}/${objectId}/config`,
+        JSON.stringify({ ...config, unique_id: uniqueId, object_id: uniqueId, ...common }),
+      );
+    }
+  }
+}
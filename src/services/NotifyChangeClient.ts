@@ -33,7 +33,9 @@ const SUBSCRIBED_RESOURCES = {
   'ambilight/currentconfiguration': null,
   'ambilight/power': null,
   'audio/volume': null,
+  'input/onscreenkeyboard/visible': null,
   'powerstate': null,
+  'screenstate': null,
 };
 
 // ============================================================================
@@ -63,7 +65,7 @@ export class NotifyChangeClient extends EventEmitter {
   private readonly authSession: DigestAuthSession;
 
   constructor(
-    private readonly config: NotifyChangeClientConfig,
+    private config: NotifyChangeClientConfig,
     private readonly debug: (message: string) => void,
   ) {
     super();
@@ -92,6 +94,21 @@ export class NotifyChangeClient extends EventEmitter {
     }
   }
 
+  /**
+   * Switch to a new TV address without restarting the loop. The in-flight
+   * long-poll (held open against the old address) is aborted so the next
+   * iteration reconnects, probing both protocols again.
+   */
+  setIp(ip: string): void {
+    if (ip === this.config.ip) {
+      return;
+    }
+    this.config = { ...this.config, ip };
+    this.workingProtocol = null;
+    this.authSession.clear();
+    this.abortController?.abort();
+  }
+
   // ==========================================================================
   // POLL LOOP
   // ==========================================================================
@@ -0,0 +1,268 @@
+import type { Characteristic, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import fs from 'fs';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import type { ParentalControlsConfig } from '../api/types.js';
+import { resolveSourceUri, switchToSource } from './DeviceCommands.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ParentalControlDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly storagePath: string;
+  readonly deviceId: string;
+  readonly config: ParentalControlsConfig;
+  readonly isPoweredOn: () => boolean;
+  /** Turn the TV off through the accessory, so HomeKit and the other services follow */
+  readonly powerOff: () => Promise<void>;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** Screen time and switch state persisted per TV */
+interface ParentalState {
+  /** Local date the usage belongs to (`YYYY-MM-DD`) */
+  date: string;
+  usedMs: number;
+  kidsMode: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SWITCH_SUBTYPE = 'kids-mode';
+
+/** How often screen time is counted and persisted (ms) */
+export const SCREEN_TIME_TICK_MS = 60_000;
+
+/** Minimum time between two enforcements for the same app (ms), so a slow app switch isn't hammered */
+const ENFORCE_COOLDOWN_MS = 10_000;
+
+const TIME_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Minutes since midnight for an `HH:MM` string, or null when malformed. */
+export function parseClockTime(value: unknown): number | null {
+  const match = typeof value === 'string' ? TIME_REGEX.exec(value.trim()) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** Local calendar date, used to reset the budget at midnight. */
+const localDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// ============================================================================
+// PARENTAL CONTROL SERVICE
+// ============================================================================
+
+/**
+ * Parental mode for one TV. While it applies — inside the configured hours,
+ * or while the optional "Kids Mode" switch is on — a blocked app or source
+ * reported by the state poll is left straight away (Home, or the configured
+ * fallback source), and time with the TV on counts against a daily budget.
+ * Once the budget is used up the TV is turned off, and again whenever it is
+ * turned back on that day.
+ *
+ * Usage and the switch state are persisted in `storagePath`, so neither a
+ * restart nor a power cycle resets the day's budget.
+ */
+export class ParentalControlService {
+  private service: Service | null = null;
+  private state: ParentalState;
+  private tickTimer?: ReturnType<typeof setInterval>;
+  private readonly blocked: ReadonlySet<string>;
+  private readonly filePath: string;
+  private lastEnforced: { app: string; at: number } | null = null;
+  /** Set while a budget power-off is in flight, so it isn't sent twice */
+  private poweringOff = false;
+
+  constructor(private readonly deps: ParentalControlDeps) {
+    const safeId = deps.deviceId.replace(/[:-]/g, '').toLowerCase();
+    this.filePath = path.join(deps.storagePath, `philips-tv-parental-${safeId}.json`);
+    this.blocked = new Set((deps.config.blocked ?? []).flatMap(entry => [entry, resolveSourceUri(entry)]));
+    this.state = this.load();
+  }
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configure(accessory: PlatformAccessory, tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+
+    if (this.deps.config.kidsModeSwitch) {
+      const displayName = `${tvName} Kids Mode`;
+      let service = accessory.getServiceById(Svc.Switch, SWITCH_SUBTYPE);
+      if (!service) {
+        service = accessory.addService(Svc.Switch, displayName, SWITCH_SUBTYPE);
+        service.addOptionalCharacteristic(Char.ConfiguredName);
+        service.setCharacteristic(Char.ConfiguredName, 'Kids Mode');
+      }
+      service.setCharacteristic(Char.Name, displayName);
+      service.getCharacteristic(Char.On)
+        .onGet(() => this.state.kidsMode)
+        .onSet((value) => this.handleSetKidsMode(value));
+      this.service = service;
+    } else {
+      this.removeSwitch(accessory);
+    }
+
+    clearInterval(this.tickTimer);
+    this.tickTimer = setInterval(() => this.tick(), SCREEN_TIME_TICK_MS);
+    this.deps.log('info', 'Configured parental controls');
+  }
+
+  /** Remove the Kids Mode switch if it exists (when the feature or switch is disabled). */
+  removeSwitch(accessory: PlatformAccessory): void {
+    const service = accessory.getServiceById(this.deps.Service.Switch, SWITCH_SUBTYPE);
+    if (service) {
+      accessory.removeService(service);
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.tickTimer);
+    this.tickTimer = undefined;
+  }
+
+  private handleSetKidsMode(value: CharacteristicValue): void {
+    this.state.kidsMode = value as boolean;
+    this.deps.log('info', `Kids mode ${this.state.kidsMode ? 'on' : 'off'}`);
+    this.save();
+  }
+
+  // ==========================================================================
+  // MODE
+  // ==========================================================================
+
+  /** Whether parental mode applies right now. */
+  isActive(now = new Date()): boolean {
+    if (this.state.kidsMode) {
+      return true;
+    }
+    const start = parseClockTime(this.deps.config.hours?.start);
+    const end = parseClockTime(this.deps.config.hours?.end);
+    if (start === null || end === null || start === end) {
+      return false;
+    }
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /** Screen time left today (ms), or null without a budget. */
+  remainingBudgetMs(now = new Date()): number | null {
+    const budget = this.deps.config.dailyBudgetMinutes;
+    if (budget === undefined) {
+      return null;
+    }
+    this.rollOver(now);
+    return Math.max(0, budget * 60_000 - this.state.usedMs);
+  }
+
+  // ==========================================================================
+  // ENFORCEMENT
+  // ==========================================================================
+
+  /**
+   * Check the foreground reported by the state poll: the raw package or
+   * source, and the input it was resolved to. Leaves it when blocked.
+   */
+  async checkForeground(app: string | null, sourceId: string | null): Promise<void> {
+    const blocked = [app, sourceId].find((id): id is string => id !== null && this.blocked.has(id));
+    if (!this.deps.config.enabled || !blocked || !this.isActive()) {
+      return;
+    }
+
+    const now = Date.now();
+    if (this.lastEnforced?.app === blocked && now - this.lastEnforced.at < ENFORCE_COOLDOWN_MS) {
+      return;
+    }
+    this.lastEnforced = { app: blocked, at: now };
+
+    const fallback = this.deps.config.fallbackSource;
+    this.deps.log('info', `Parental controls: ${blocked} is blocked, switching to ${fallback ?? 'Home'}`);
+    const success = fallback
+      ? await switchToSource(this.deps.tvClient, fallback).catch(() => false)
+      : await this.deps.tvClient.sendKey('Home').catch(() => false);
+    if (!success) {
+      this.deps.log('warn', `Parental controls: failed to leave ${blocked}`);
+    }
+  }
+
+  /** The TV turned on or off. Turning it on with the budget used up turns it straight back off. */
+  onPowerChange(isOn: boolean): void {
+    if (!isOn) {
+      this.poweringOff = false;
+    } else if (this.deps.config.enabled) {
+      this.enforceBudget();
+    }
+  }
+
+  /** Count a minute of screen time and enforce the budget. */
+  private tick(): void {
+    const now = new Date();
+    this.rollOver(now);
+    if (!this.deps.isPoweredOn() || !this.isActive(now)) {
+      return;
+    }
+    this.state.usedMs += SCREEN_TIME_TICK_MS;
+    this.save();
+    this.enforceBudget();
+  }
+
+  private enforceBudget(): void {
+    if (this.poweringOff || !this.isActive() || this.remainingBudgetMs() !== 0) {
+      return;
+    }
+
+    this.poweringOff = true;
+    this.deps.log('info', `Parental controls: today's screen time (${this.deps.config.dailyBudgetMinutes} min) is used up, turning the TV off`);
+    this.deps.powerOff().catch(() => {
+      this.poweringOff = false;
+      this.deps.log('warn', 'Parental controls: failed to turn the TV off');
+    });
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  /** Start a fresh budget when the day changed. */
+  private rollOver(now: Date): void {
+    const today = localDate(now);
+    if (this.state.date !== today) {
+      this.state = { ...this.state, date: today, usedMs: 0 };
+      this.save();
+    }
+  }
+
+  private load(): ParentalState {
+    const fresh: ParentalState = { date: localDate(new Date()), usedMs: 0, kidsMode: false };
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<ParentalState>;
+      return {
+        date: typeof data.date === 'string' ? data.date : fresh.date,
+        usedMs: typeof data.usedMs === 'number' ? data.usedMs : 0,
+        kidsMode: data.kidsMode === true,
+      };
+    } catch {
+      return fresh; // Nothing tracked yet — normal on first run
+    }
+  }
+
+  private save(): void {
+    writeFile(this.filePath, JSON.stringify(this.state), 'utf-8')
+      .catch(() => this.deps.log('warn', 'Failed to persist parental control state to disk'));
+  }
+}
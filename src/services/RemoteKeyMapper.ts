@@ -0,0 +1,225 @@
+import { REMOTE_KEYS } from '../api/constants.js';
+import type { RemoteKey, RemoteKeyMapConfig } from '../api/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RemoteKeyMapperDeps {
+  /** Per-device remap table (`remoteKeys` config), validated at startup */
+  readonly remoteKeys?: RemoteKeyMapConfig;
+  /** Older single-button settings; `remoteKeys` wins when both are set */
+  readonly infoButtonKey?: RemoteKey;
+  readonly backButtonKey?: RemoteKey;
+  readonly playPauseButtonKey?: RemoteKey;
+}
+
+export type HomeKitRemoteKeyName = keyof typeof HOMEKIT_REMOTE_KEYS;
+
+/** How a HomeKit key was pressed: once, twice in a row, or three+ times (held) */
+export type RemoteKeyGesture = 'single' | 'double' | 'long';
+
+/** A gesture still collecting presses of one key */
+interface PendingGesture {
+  readonly value: number;
+  /** Key for a plain press, resolved when the gesture started */
+  readonly single: RemoteKey | null;
+  timer: ReturnType<typeof setTimeout>;
+  /** One per press so far, in order */
+  readonly resolvers: ((key: RemoteKey | null) => void)[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** HomeKit `RemoteKey` characteristic values, by the names used in the config */
+export const HOMEKIT_REMOTE_KEYS = {
+  REWIND: 0,
+  FAST_FORWARD: 1,
+  NEXT_TRACK: 2,
+  PREVIOUS_TRACK: 3,
+  ARROW_UP: 4,
+  ARROW_DOWN: 5,
+  ARROW_LEFT: 6,
+  ARROW_RIGHT: 7,
+  SELECT: 8,
+  BACK: 9,
+  EXIT: 10,
+  PLAY_PAUSE: 11,
+  INFORMATION: 15,
+} as const;
+
+/** TV key each HomeKit key sends when not remapped */
+const DEFAULT_KEY_MAP: Readonly<Record<number, RemoteKey>> = {
+  0: 'Rewind',
+  1: 'FastForward',
+  2: 'Next',
+  3: 'Previous',
+  4: 'CursorUp',
+  5: 'CursorDown',
+  6: 'CursorLeft',
+  7: 'CursorRight',
+  8: 'Confirm',
+  9: 'Back',
+  10: 'Home',
+  11: 'PlayPause',
+  15: 'Source',
+};
+
+const GESTURE_SUFFIXES: Readonly<Record<string, RemoteKeyGesture>> = {
+  _DOUBLE: 'double',
+  _LONG: 'long',
+};
+
+/**
+ * Presses of the same key closer together than this form one gesture (ms).
+ * Only keys with a double/long mapping wait for it; all others send at once.
+ */
+export const GESTURE_WINDOW_MS = 400;
+
+/** Presses in a row that count as a long press */
+const LONG_PRESS_COUNT = 3;
+
+const REMOTE_KEY_SET: ReadonlySet<string> = new Set(REMOTE_KEYS);
+const HOMEKIT_KEY_VALUES: ReadonlySet<unknown> = new Set(Object.values(HOMEKIT_REMOTE_KEYS));
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/** Whether a value is a key the TV accepts on `/input/key`. */
+export const isRemoteKey = (value: unknown): value is RemoteKey =>
+  typeof value === 'string' && REMOTE_KEY_SET.has(value);
+
+/** Whether a `RemoteKey` characteristic value is one HomeKit sends. */
+export const isHomeKitRemoteKey = (value: unknown): value is number => HOMEKIT_KEY_VALUES.has(value);
+
+/** Split a config entry name into its HomeKit key value and gesture (`SELECT_LONG` → 8, long). */
+function parseEntryName(name: string): { value: number; gesture: RemoteKeyGesture } | null {
+  for (const [suffix, gesture] of Object.entries(GESTURE_SUFFIXES)) {
+    if (name.endsWith(suffix)) {
+      const value = HOMEKIT_REMOTE_KEYS[name.slice(0, -suffix.length) as HomeKitRemoteKeyName];
+      return value === undefined ? null : { value, gesture };
+    }
+  }
+  const value = HOMEKIT_REMOTE_KEYS[name as HomeKitRemoteKeyName];
+  return value === undefined ? null : { value, gesture: 'single' };
+}
+
+/**
+ * Check a `remoteKeys` table: every name must be a HomeKit key (optionally
+ * `_DOUBLE`/`_LONG`) and every value one of `REMOTE_KEYS`. Returns the valid
+ * entries and one message per rejected entry.
+ */
+export function validateRemoteKeyMap(input: unknown): { readonly map: RemoteKeyMapConfig; readonly errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { map: {}, errors: input === undefined ? [] : ['remoteKeys must be an object'] };
+  }
+
+  const map: RemoteKeyMapConfig = {};
+  const errors: string[] = [];
+  for (const [name, key] of Object.entries(input)) {
+    if (!parseEntryName(name)) {
+      errors.push(`"${name}" is not a HomeKit remote key`);
+    } else if (!isRemoteKey(key)) {
+      errors.push(`"${name}": "${String(key)}" is not a TV key`);
+    } else {
+      map[name] = key;
+    }
+  }
+  return { map, errors };
+}
+
+// ============================================================================
+// REMOTE KEY MAPPER
+// ============================================================================
+
+/**
+ * Translates HomeKit remote presses into TV keys. HomeKit only reports
+ * presses — never releases — so double and long presses are recognised by
+ * timing: two presses of the same key within `GESTURE_WINDOW_MS` are a double
+ * press, three or more a long press. Keys without such a mapping are never
+ * delayed, so arrows stay responsive while scrolling.
+ */
+export class RemoteKeyMapper {
+  private readonly keys = new Map<string, RemoteKey>();
+  private pending: PendingGesture | null = null;
+
+  constructor(deps: RemoteKeyMapperDeps) {
+    const legacy: RemoteKeyMapConfig = {
+      BACK: deps.backButtonKey,
+      PLAY_PAUSE: deps.playPauseButtonKey,
+      INFORMATION: deps.infoButtonKey,
+    };
+    for (const [name, key] of Object.entries({ ...legacy, ...deps.remoteKeys })) {
+      const entry = key && parseEntryName(name);
+      if (entry) {
+        this.keys.set(`${entry.value}:${entry.gesture}`, key!);
+      }
+    }
+  }
+
+  /** Whether the user remapped the plain press of a HomeKit key. */
+  isRemapped(value: number): boolean {
+    return this.keys.has(`${value}:single`);
+  }
+
+  /**
+   * Resolve a press to the TV key to send. `fallback` supplies context keys
+   * (e.g. channel up/down on the tuner) that apply unless the user remapped
+   * the key. Resolves null for an unmapped key, or when the press became part
+   * of a gesture that a later press completes.
+   */
+  press(value: number, fallback?: Readonly<Record<number, RemoteKey>>): Promise<RemoteKey | null> {
+    const single = this.keys.get(`${value}:single`) ?? fallback?.[value] ?? DEFAULT_KEY_MAP[value] ?? null;
+
+    if (this.pending && this.pending.value !== value) {
+      this.flush();
+    }
+    if (!this.keys.has(`${value}:double`) && !this.keys.has(`${value}:long`)) {
+      return Promise.resolve(single);
+    }
+
+    return new Promise(resolve => {
+      const pending = this.pending;
+      if (pending) {
+        // Another press of the same key: the window starts over
+        clearTimeout(pending.timer);
+        pending.resolvers.push(resolve);
+        pending.timer = setTimeout(() => this.flush(), GESTURE_WINDOW_MS);
+        return;
+      }
+      this.pending = {
+        value,
+        single,
+        resolvers: [resolve],
+        timer: setTimeout(() => this.flush(), GESTURE_WINDOW_MS),
+      };
+    });
+  }
+
+  /**
+   * Finish the gesture in progress. A recognised gesture resolves its key on
+   * the last press and null on the others; presses that don't form a mapped
+   * gesture each resolve the plain key, so none are lost.
+   */
+  private flush(): void {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+    this.pending = null;
+    clearTimeout(pending.timer);
+
+    const presses = pending.resolvers.length;
+    const double = this.keys.get(`${pending.value}:double`);
+    const long = this.keys.get(`${pending.value}:long`);
+    const gesture = presses >= LONG_PRESS_COUNT ? long ?? double : presses === 2 ? double : undefined;
+    if (gesture) {
+      pending.resolvers.forEach((resolve, i) => resolve(i === presses - 1 ? gesture : null));
+    } else {
+      pending.resolvers.forEach(resolve => resolve(pending.single));
+    }
+  }
+}
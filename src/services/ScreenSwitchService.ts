@@ -0,0 +1,112 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScreenSwitchDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SWITCH_SUBTYPE = 'screen-switch';
+
+// ============================================================================
+// SCREEN SWITCH SERVICE
+// ============================================================================
+
+/**
+ * Exposes the panel as a "Screen" Switch. Turning it off blanks the screen
+ * while the TV keeps running, so music apps can play through the soundbar
+ * without lighting up the room.
+ *
+ * Backed by the JointSpace `/screenstate` endpoint ({"screenstate":"On"|"Off"}).
+ * The state poll only reads it while the switch is enabled.
+ */
+export class ScreenSwitchService {
+  private service: Service | null = null;
+  private isOn = false;
+
+  constructor(private readonly deps: ScreenSwitchDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureSwitch(accessory: PlatformAccessory, tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+    const displayName = `${tvName} Screen`;
+
+    let service = accessory.getServiceById(Svc.Switch, SWITCH_SUBTYPE);
+    if (!service) {
+      service = accessory.addService(Svc.Switch, displayName, SWITCH_SUBTYPE);
+      service.addOptionalCharacteristic(Char.ConfiguredName);
+      service.setCharacteristic(Char.ConfiguredName, 'Screen');
+    }
+
+    service.setCharacteristic(Char.Name, displayName);
+
+    service.getCharacteristic(Char.On)
+      .onGet(() => this.isOn)
+      .onSet((value) => this.handleSet(value));
+
+    this.service = service;
+    this.deps.log('info', 'Configured Screen switch');
+  }
+
+  /** Remove the switch service if it exists (when the feature is disabled). */
+  removeSwitch(accessory: PlatformAccessory): void {
+    const service = accessory.getServiceById(this.deps.Service.Switch, SWITCH_SUBTYPE);
+    if (service) {
+      accessory.removeService(service);
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSet(value: CharacteristicValue): Promise<void> {
+    const on = value as boolean;
+    this.deps.log('info', `Screen: ${on ? 'on' : 'off'}`);
+
+    try {
+      const success = await this.deps.tvClient.setScreenState(on);
+      if (success) {
+        this.isOn = on;
+      } else {
+        throw this.deps.communicationError();
+      }
+    } catch (error) {
+      this.deps.log('warn', 'Failed to change the screen state');
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  // ==========================================================================
+  // STATE UPDATES
+  // ==========================================================================
+
+  /** Apply the screen state read by the state poll. */
+  updateFromPoll(on: boolean): void {
+    if (on !== this.isOn) {
+      this.isOn = on;
+      this.service?.updateCharacteristic(this.deps.Characteristic.On, on);
+    }
+  }
+
+  /** Force the switch off (e.g. when the TV powers off). */
+  reset(): void {
+    this.isOn = false;
+    this.service?.updateCharacteristic(this.deps.Characteristic.On, false);
+  }
+}
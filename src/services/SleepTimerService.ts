@@ -0,0 +1,360 @@
+import type { Characteristic, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import fs from 'fs';
+import { rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SleepTimerDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly storagePath: string;
+  readonly deviceId: string;
+  /** Minutes before the deadline over which volume and Ambilight fade out (0 = no fade) */
+  readonly fadeMinutes?: number;
+  /** Turn the TV off through the accessory, so HomeKit and the other services follow */
+  readonly powerOff: () => Promise<void>;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+/** Timer state persisted next to the input cache, so a restart resumes it */
+interface PersistedTimer {
+  /** When the TV turns off (epoch ms) */
+  readonly deadline: number;
+  /** Duration that was set, in seconds */
+  readonly duration: number;
+  /** Levels before the fade started, restored once the TV is off */
+  readonly fadeFrom?: FadeLevels;
+}
+
+interface FadeLevels {
+  /** Null when unknown or muted — setting the level would also unmute the TV */
+  readonly volume: number | null;
+  readonly brightness: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VALVE_SUBTYPE = 'sleep-timer';
+
+/** Duration offered until the user picks one (s) */
+const DEFAULT_DURATION_S = 30 * 60;
+
+/** Longest timer the duration picker allows (s) */
+const MAX_DURATION_S = 4 * 60 * 60;
+
+const DEFAULT_FADE_MINUTES = 5;
+
+/** Time between two fade steps (ms) */
+export const FADE_STEP_MS = 20_000;
+
+/**
+ * A deadline that passed while Homebridge was down still turns the TV off if
+ * it is at most this old; an older one is dropped, as the TV may be in use again.
+ */
+const MISSED_DEADLINE_GRACE_MS = 10 * 60_000;
+
+// ============================================================================
+// SLEEP TIMER SERVICE
+// ============================================================================
+
+/**
+ * "Turn the TV off in 45 minutes", exposed as a Valve: the Home app shows its
+ * duration picker and a countdown. Over the last minutes the volume and the
+ * Ambilight brightness fade out; both are set back once the TV is off, so the
+ * next power-on isn't silent.
+ *
+ * The deadline is persisted in `storagePath`, so a Homebridge restart resumes
+ * the countdown. Turning the TV off by any other means cancels the timer.
+ */
+export class SleepTimerService {
+  private service: Service | null = null;
+  private duration = DEFAULT_DURATION_S;
+  private deadline: number | null = null;
+  private fadeFrom: FadeLevels | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+  private fadeTimer?: ReturnType<typeof setTimeout>;
+  /** Bumped whenever the timers are cleared, so a fade step still awaiting the TV knows it is stale */
+  private generation = 0;
+  /** The fade step in progress; levels are restored only once it has finished */
+  private fadeInFlight: Promise<void> = Promise.resolve();
+
+  /** File path for the persisted timer */
+  private readonly filePath: string;
+
+  constructor(private readonly deps: SleepTimerDeps) {
+    const safeId = deps.deviceId.replace(/[:-]/g, '').toLowerCase();
+    this.filePath = path.join(deps.storagePath, `philips-tv-sleeptimer-${safeId}.json`);
+  }
+
+  private get fadeMs(): number {
+    return (this.deps.fadeMinutes ?? DEFAULT_FADE_MINUTES) * 60_000;
+  }
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureService(accessory: PlatformAccessory, tvName: string): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+    const displayName = `${tvName} Sleep Timer`;
+
+    let service = accessory.getServiceById(Svc.Valve, VALVE_SUBTYPE);
+    if (!service) {
+      service = accessory.addService(Svc.Valve, displayName, VALVE_SUBTYPE);
+      service.addOptionalCharacteristic(Char.ConfiguredName);
+      service.setCharacteristic(Char.ConfiguredName, 'Sleep Timer');
+    }
+
+    service
+      .setCharacteristic(Char.Name, displayName)
+      .setCharacteristic(Char.ValveType, Char.ValveType.GENERIC_VALVE);
+
+    service.getCharacteristic(Char.Active)
+      .onGet(() => this.deadline !== null ? Char.Active.ACTIVE : Char.Active.INACTIVE)
+      .onSet((value) => this.handleSetActive(value));
+
+    service.getCharacteristic(Char.InUse)
+      .onGet(() => this.deadline !== null ? Char.InUse.IN_USE : Char.InUse.NOT_IN_USE);
+
+    service.getCharacteristic(Char.SetDuration)
+      .setProps({ maxValue: MAX_DURATION_S })
+      .onGet(() => this.duration)
+      .onSet((value) => {
+        this.duration = value as number;
+      });
+
+    service.getCharacteristic(Char.RemainingDuration)
+      .setProps({ maxValue: MAX_DURATION_S })
+      .onGet(() => this.remainingSeconds());
+
+    this.service = service;
+    this.restore();
+    this.deps.log('info', 'Configured sleep timer');
+  }
+
+  /** Remove the timer service and any persisted timer (when the feature is disabled). */
+  removeService(accessory: PlatformAccessory): void {
+    const service = accessory.getServiceById(this.deps.Service.Valve, VALVE_SUBTYPE);
+    if (service) {
+      accessory.removeService(service);
+    }
+    void rm(this.filePath, { force: true }).catch(() => undefined);
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private handleSetActive(value: CharacteristicValue): void {
+    if (value === this.deps.Characteristic.Active.ACTIVE) {
+      this.start(this.duration);
+    } else {
+      void this.cancel('cancelled');
+    }
+  }
+
+  /** Whether a countdown is running. */
+  get isRunning(): boolean {
+    return this.deadline !== null;
+  }
+
+  /** Start (or restart) the countdown. */
+  start(durationSeconds: number): void {
+    this.clearTimers();
+    this.duration = durationSeconds;
+    this.deadline = Date.now() + durationSeconds * 1000;
+    this.fadeFrom = null;
+    this.persist();
+    this.schedule();
+    this.deps.log('info', `Sleep timer: TV turns off in ${Math.round(durationSeconds / 60)} min`);
+    this.updateCharacteristics();
+  }
+
+  /** Stop the countdown and restore faded levels. The TV stays as it is. */
+  async cancel(reason: string): Promise<void> {
+    if (this.deadline === null) {
+      return;
+    }
+    this.clearTimers();
+    this.deadline = null;
+    this.deps.log('info', `Sleep timer ${reason}`);
+    this.updateCharacteristics();
+    void rm(this.filePath, { force: true }).catch(() => undefined);
+    await this.restoreLevels();
+  }
+
+  /** The TV went to standby: a running timer has nothing left to do. */
+  onTvPoweredOff(): void {
+    void this.cancel('cancelled: the TV was turned off');
+  }
+
+  /** Stop the timers without forgetting the deadline (Homebridge shutdown). */
+  stop(): void {
+    this.clearTimers();
+  }
+
+  // ==========================================================================
+  // COUNTDOWN
+  // ==========================================================================
+
+  private schedule(): void {
+    if (this.deadline === null) {
+      return;
+    }
+    const remaining = this.deadline - Date.now();
+    this.timer = setTimeout(() => void this.fire(), Math.max(0, remaining));
+
+    if (this.fadeMs > 0) {
+      this.fadeTimer = setTimeout(() => this.runFadeStep(), Math.max(0, remaining - this.fadeMs));
+    }
+  }
+
+  private async fire(): Promise<void> {
+    this.clearTimers();
+    this.deadline = null;
+    void rm(this.filePath, { force: true }).catch(() => undefined);
+    this.updateCharacteristics();
+
+    this.deps.log('info', 'Sleep timer: turning the TV off');
+    try {
+      await this.deps.powerOff();
+    } catch {
+      this.deps.log('warn', 'Sleep timer: failed to turn the TV off');
+    }
+    await this.restoreLevels();
+  }
+
+  private runFadeStep(): void {
+    this.fadeInFlight = this.fadeStep(this.generation);
+  }
+
+  /**
+   * Lower volume and Ambilight brightness in proportion to the time left.
+   * Gives up as soon as the timer is cancelled or restarted while it waits
+   * for the TV, so a late step never fades the levels just restored.
+   */
+  private async fadeStep(generation: number): Promise<void> {
+    const stale = () => generation !== this.generation || this.deadline === null;
+    if (stale()) {
+      return;
+    }
+
+    if (!this.fadeFrom) {
+      const [volume, brightness] = await Promise.all([
+        this.deps.tvClient.getVolume().catch(() => null),
+        this.deps.tvClient.getAmbilightBrightness().catch(() => null),
+      ]);
+      if (stale()) {
+        return;
+      }
+      this.fadeFrom = { volume: volume && !volume.muted ? volume.current : null, brightness };
+      this.persist();
+      const volumeLabel = volume?.muted ? 'muted' : `${volume?.current ?? '?'}`;
+      this.deps.log('debug', `Sleep timer: fading out from volume ${volumeLabel} and brightness ${brightness ?? '?'}`);
+    }
+
+    const fraction = Math.max(0, Math.min(1, (this.deadline! - Date.now()) / this.fadeMs));
+    const { volume, brightness } = this.fadeFrom;
+    if (volume !== null) {
+      await this.deps.tvClient.setVolume(Math.round(volume * fraction)).catch(() => false);
+      if (stale()) {
+        return;
+      }
+    }
+    if (brightness !== null) {
+      await this.deps.tvClient.setAmbilightBrightness(Math.round(brightness * fraction)).catch(() => false);
+      if (stale()) {
+        return;
+      }
+    }
+
+    if (this.deadline! - Date.now() > FADE_STEP_MS) {
+      this.fadeTimer = setTimeout(() => this.runFadeStep(), FADE_STEP_MS);
+    }
+  }
+
+  /** Put volume and Ambilight brightness back to their pre-fade levels. */
+  private async restoreLevels(): Promise<void> {
+    // A step still writing would otherwise land after the restore
+    await this.fadeInFlight;
+    const levels = this.fadeFrom;
+    this.fadeFrom = null;
+    if (!levels) {
+      return;
+    }
+    if (levels.volume !== null) {
+      await this.deps.tvClient.setVolume(levels.volume).catch(() => false);
+    }
+    if (levels.brightness !== null) {
+      await this.deps.tvClient.setAmbilightBrightness(levels.brightness).catch(() => false);
+    }
+  }
+
+  private clearTimers(): void {
+    this.generation++;
+    clearTimeout(this.timer);
+    clearTimeout(this.fadeTimer);
+    this.timer = undefined;
+    this.fadeTimer = undefined;
+  }
+
+  private remainingSeconds(): number {
+    return this.deadline === null ? 0 : Math.max(0, Math.round((this.deadline - Date.now()) / 1000));
+  }
+
+  private updateCharacteristics(): void {
+    const Char = this.deps.Characteristic;
+    const running = this.deadline !== null;
+    this.service?.updateCharacteristic(Char.Active, running ? Char.Active.ACTIVE : Char.Active.INACTIVE);
+    this.service?.updateCharacteristic(Char.InUse, running ? Char.InUse.IN_USE : Char.InUse.NOT_IN_USE);
+    this.service?.updateCharacteristic(Char.RemainingDuration, this.remainingSeconds());
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  private persist(): void {
+    if (this.deadline === null) {
+      return;
+    }
+    const data: PersistedTimer = { deadline: this.deadline, duration: this.duration, fadeFrom: this.fadeFrom ?? undefined };
+    writeFile(this.filePath, JSON.stringify(data), 'utf-8')
+      .catch(() => this.deps.log('warn', 'Failed to persist the sleep timer to disk'));
+  }
+
+  /** Resume a countdown that was running before Homebridge restarted. */
+  private restore(): void {
+    let data: PersistedTimer;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch {
+      return; // No timer running — the normal case
+    }
+    if (typeof data?.deadline !== 'number') {
+      return;
+    }
+
+    const overdue = Date.now() - data.deadline;
+    if (overdue > MISSED_DEADLINE_GRACE_MS) {
+      this.deps.log('debug', 'Dropping a sleep timer that expired while Homebridge was down');
+      void rm(this.filePath, { force: true }).catch(() => undefined);
+      return;
+    }
+
+    this.deadline = data.deadline;
+    this.duration = typeof data.duration === 'number' ? data.duration : DEFAULT_DURATION_S;
+    this.fadeFrom = data.fadeFrom ?? null;
+    this.schedule();
+    this.updateCharacteristics();
+    this.deps.log('info', `Sleep timer resumed: TV turns off in ${Math.ceil(this.remainingSeconds() / 60)} min`);
+  }
+}
@@ -1,5 +1,6 @@
 import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
-import type { TVDeviceConfig, AmbilightCached } from '../api/types.js';
+import type { TVDeviceConfig, AmbilightCached, CurrentChannel, VolumeState } from '../api/types.js';
+import { parseKeyboardVisible, parseTVActivity } from '../api/utils.js';
 import { NotifyChangeClient } from './NotifyChangeClient.js';
 
 // ============================================================================
@@ -15,6 +16,27 @@ const INITIAL_POLL_DELAY_MS = 5000;
 /** Retry long-poll after a transient failure while the TV is on */
 const LONG_POLL_RETRY_MS = 60_000;
 
+/** Polls (with the TV on) answered 404 for the Aurora state before Aurora is treated as unsupported */
+const AURORA_UNSUPPORTED_AFTER_MISSES = 3;
+
+/** Polls (with the TV on) answered 404 for the keyboard state before the poll stops asking */
+const KEYBOARD_UNSUPPORTED_AFTER_MISSES = 3;
+
+/** Unanswered requests in a row before the TV is reported unreachable */
+const UNREACHABLE_FAILURE_THRESHOLD = 3;
+
+/** Foreground package while the tuner (or an HDMI passthrough) is on screen */
+const TUNER_PACKAGE = 'org.droidtv.playtv';
+
+const KEYBOARD_RESOURCE = 'input/onscreenkeyboard/visible';
+
+/**
+ * Notification keys applied straight from their payload. activities/tv fires
+ * constantly (~every second), and neither changes anything a full poll reads,
+ * so they never trigger one.
+ */
+const DIRECT_RESOURCES = new Set(['activities/tv', KEYBOARD_RESOURCE]);
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -22,9 +44,46 @@ const LONG_POLL_RETRY_MS = 60_000;
 export interface PollCallbacks {
   onPowerChange: (isOn: boolean) => void;
   onAmbilightUpdate: (style: AmbilightCached | null, powerFallback: boolean) => void;
-  onVolumeUpdate: (muted: boolean) => void;
+  onVolumeUpdate: (muted: boolean, volume: VolumeState) => void;
   onInputUpdate: (currentApp: string | null) => void;
+  /** The tuned channel changed; null once the tuner is no longer on screen */
+  onChannelUpdate: (channel: CurrentChannel | null) => void;
+  /**
+   * Whether Watch TV or a channel is the selected input. HDMI passthrough
+   * also runs in the tuner package, and /activities/tv keeps reporting the
+   * last tuned channel there.
+   */
+  isTunerInputSelected: () => boolean;
+  onScreenUpdate: (screenOn: boolean) => void;
+  /** The on-screen keyboard opened or closed (a text field has focus) */
+  onKeyboardUpdate: (visible: boolean) => void;
+  onAuroraUpdate: (open: boolean) => void;
+  /** The TV never answered `/aurora/settings/isopen` — it has no Aurora support */
+  onAuroraUnsupported: () => void;
   onAppsReady: () => void;
+  /** The TV stopped answering at its address (repeated on every poll until it does) */
+  onUnreachable: () => void;
+  /** The TV started rejecting the credentials, or accepts them again */
+  onAuthChange: (authorized: boolean) => void;
+}
+
+/** Last polled TV state, as served to the local control API */
+export interface TVStateSnapshot {
+  /** Null until the first poll has completed */
+  readonly power: boolean | null;
+  readonly ambilight: {
+    readonly on: boolean;
+    readonly style: string | null;
+    readonly algorithm: string | null;
+  } | null;
+  readonly volume: VolumeState | null;
+  readonly currentApp: string | null;
+  /** Channel on screen while watching TV */
+  readonly currentChannel: CurrentChannel | null;
+  /** Whether the on-screen keyboard is showing; null when the TV doesn't report it */
+  readonly keyboardVisible: boolean | null;
+  /** ISO timestamp of the last successful poll */
+  readonly updatedAt: string | null;
 }
 
 // ============================================================================
@@ -38,11 +97,29 @@ export class StatePollManager {
   private lastMuted: boolean | null = null;
   private lastVolume: number | null = null;
   private lastApp: string | null = null;
+  private lastChannel: string | null = null;
+  private lastScreen: boolean | null = null;
+  private lastAurora: boolean | null = null;
+  private auroraMisses = 0;
+  private lastKeyboard: boolean | null = null;
+  private keyboardMisses = 0;
+  /** The long-poll pushes keyboard changes, so the poll no longer reads them while it runs */
+  private keyboardPushed = false;
+  private snapshot: TVStateSnapshot = {
+    power: null, ambilight: null, volume: null, currentApp: null, currentChannel: null, keyboardVisible: null, updatedAt: null,
+  };
+  /** The poll in progress, and the one queued behind it for callers that arrived meanwhile */
+  private inFlightPoll: Promise<void> | null = null;
+  private queuedPoll: Promise<void> | null = null;
   private startupTimer?: ReturnType<typeof setTimeout>;
   private pollingTimer?: ReturnType<typeof setInterval>;
   private longPollRetryTimer?: ReturnType<typeof setTimeout>;
   private notifyClient: NotifyChangeClient | null = null;
   private longPollConfirmed = false;
+  /** While a power-on is in progress, standby readings are expected and not reported */
+  private powerOnExpectedUntil = 0;
+  /** Whether the TV accepted the credentials at the last poll (null before the first) */
+  private lastAuthorized: boolean | null = null;
 
   constructor(
     private readonly tvClient: PhilipsTVClient,
@@ -78,6 +155,35 @@ export class StatePollManager {
     this.cancelLongPollRetry();
   }
 
+  /** The state as of the last poll. Fields the TV only reports while on are null in standby. */
+  getSnapshot(): TVStateSnapshot {
+    return this.snapshot;
+  }
+
+  /** Poll now instead of waiting for the next interval or notification (e.g. after an external command). */
+  refresh(): Promise<void> {
+    return this.pollState();
+  }
+
+  /**
+   * A power-on sequence has started: for up to `windowMs`, polls that still
+   * read standby are the TV booting, not a power-off, so they don't revert
+   * the optimistic On shown in HomeKit. Cleared by the first On reading.
+   */
+  expectPowerOn(windowMs: number): void {
+    this.powerOnExpectedUntil = Date.now() + windowMs;
+  }
+
+  /** The power-on sequence gave up — report standby readings again. */
+  clearPowerExpectation(): void {
+    this.powerOnExpectedUntil = 0;
+  }
+
+  /** Move the long-poll connection to the TV's new address (the client is updated by the caller). */
+  setIp(ip: string): void {
+    this.notifyClient?.setIp(ip);
+  }
+
   // ==========================================================================
   // LONG-POLL MODE
   // ==========================================================================
@@ -88,7 +194,7 @@ export class StatePollManager {
 
     this.notifyClient = new NotifyChangeClient(
       {
-        ip: this.config.ip,
+        ip: this.tvClient.ip,
         username: this.config.username,
         password: this.config.password,
       },
@@ -98,9 +204,21 @@ export class StatePollManager {
     this.notifyClient.on('notification', (data: Record<string, unknown>) => {
       const keys = Object.keys(data);
 
-      // activities/tv fires constantly (~every second) and is noise —
-      // only trigger a state poll for resources we actually care about
-      const actionableKeys = keys.filter(k => k !== 'activities/tv');
+      // activities/tv carries the tuned channel — apply it directly (only
+      // changes are reported) rather than polling for it
+      if (this.isPoweredOn && 'activities/tv' in data) {
+        this.applyChannel(this.isTunerOnScreen(this.lastApp) ? parseTVActivity(data['activities/tv']) : null);
+      }
+      if (this.isPoweredOn && KEYBOARD_RESOURCE in data) {
+        const visible = parseKeyboardVisible(data[KEYBOARD_RESOURCE]);
+        if (visible !== null) {
+          this.keyboardPushed = true;
+          this.applyKeyboard(visible);
+        }
+      }
+
+      // Only resources a full poll reads trigger one
+      const actionableKeys = keys.filter(k => !DIRECT_RESOURCES.has(k));
       if (actionableKeys.length === 0) {
         return;
       }
@@ -142,6 +260,8 @@ export class StatePollManager {
       this.notifyClient = null;
     }
     this.longPollConfirmed = false;
+    // Nothing pushes keyboard changes any more — the poll reads them again
+    this.keyboardPushed = false;
   }
 
   private scheduleLongPollRetry(): void {
@@ -183,9 +303,41 @@ export class StatePollManager {
   // FULL STATE POLL (initial sync and fallback)
   // ==========================================================================
 
-  private async pollState(): Promise<void> {
+  /**
+   * Run a full poll. While one is running, callers share a single follow-up
+   * poll behind it, so polls never overlap and each caller still sees state
+   * read after its call (e.g. after the command that triggered a refresh).
+   */
+  private pollState(): Promise<void> {
+    if (this.inFlightPoll) {
+      this.queuedPoll ??= this.inFlightPoll.then(() => {
+        this.queuedPoll = null;
+        return this.pollState();
+      });
+      return this.queuedPoll;
+    }
+    this.inFlightPoll = this.readState().finally(() => {
+      this.inFlightPoll = null;
+    });
+    return this.inFlightPoll;
+  }
+
+  private async readState(): Promise<void> {
     try {
       const isOn = await this.tvClient.getPowerState();
+      // A rejected login reads as standby — keep the last known state instead
+      if (!this.applyAuthorization()) {
+        return;
+      }
+      if (isOn) {
+        this.powerOnExpectedUntil = 0;
+      } else if (Date.now() < this.powerOnExpectedUntil) {
+        this.log('debug', 'Power: still booting');
+        return;
+      }
+      if (!isOn && this.tvClient.consecutiveFailures >= UNREACHABLE_FAILURE_THRESHOLD) {
+        this.callbacks.onUnreachable();
+      }
       const changed = isOn !== this.isPoweredOn;
       // Always report the very first observed state so consumers can establish
       // a baseline (otherwise a TV that is off at startup never reports until
@@ -210,6 +362,7 @@ export class StatePollManager {
       }
 
       if (isOn) {
+        let snapshotAmbilight: TVStateSnapshot['ambilight'];
         const ambilightStyle = await this.tvClient.getAmbilightStyle();
         if (ambilightStyle) {
           const ambilightKey = `${ambilightStyle.styleName}/${ambilightStyle.algorithm ?? ''}`;
@@ -218,6 +371,11 @@ export class StatePollManager {
             this.log('debug', `Ambilight: ${ambilightStyle.styleName}${ambilightStyle.algorithm ? ` (${ambilightStyle.algorithm})` : ''}`);
           }
           this.callbacks.onAmbilightUpdate(ambilightStyle, false);
+          snapshotAmbilight = {
+            on: ambilightStyle.styleName !== 'OFF',
+            style: ambilightStyle.styleName,
+            algorithm: ambilightStyle.algorithm ?? null,
+          };
         } else {
           const ambilightOn = await this.tvClient.getAmbilightPower();
           const ambilightKey = ambilightOn ? 'power:on' : 'power:off';
@@ -226,6 +384,7 @@ export class StatePollManager {
             this.log('debug', `Ambilight power: ${ambilightOn ? 'On' : 'Off'}`);
           }
           this.callbacks.onAmbilightUpdate(null, ambilightOn);
+          snapshotAmbilight = { on: ambilightOn, style: null, algorithm: null };
         }
 
         const volume = await this.tvClient.getVolume();
@@ -237,7 +396,24 @@ export class StatePollManager {
             this.lastVolume = current;
             this.log('debug', `Volume: ${current}${muted ? ' (muted)' : ''}`);
           }
-          this.callbacks.onVolumeUpdate(muted);
+          this.callbacks.onVolumeUpdate(muted, volume);
+        }
+
+        // Only read the screen state when the Screen switch is exposed — it's
+        // an extra request per poll that nothing else uses
+        if (this.config.screenSwitch) {
+          const screenOn = await this.tvClient.getScreenState();
+          if (screenOn !== null) {
+            if (screenOn !== this.lastScreen) {
+              this.lastScreen = screenOn;
+              this.log('debug', `Screen: ${screenOn ? 'On' : 'Off'}`);
+            }
+            this.callbacks.onScreenUpdate(screenOn);
+          }
+        }
+
+        if (this.config.aurora?.enabled && this.auroraMisses < AURORA_UNSUPPORTED_AFTER_MISSES) {
+          await this.pollAurora();
         }
 
         const currentApp = await this.tvClient.getCurrentActivity();
@@ -246,9 +422,137 @@ export class StatePollManager {
           this.log('debug', `Active app: ${currentApp ?? 'none'}`);
         }
         this.callbacks.onInputUpdate(currentApp);
+
+        // Only the tuner has a channel — skip the request for apps and HDMI
+        const channel = this.isTunerOnScreen(currentApp) ? await this.tvClient.getCurrentChannel() : null;
+        this.applyChannel(channel);
+
+        if (!this.keyboardPushed && this.keyboardMisses < KEYBOARD_UNSUPPORTED_AFTER_MISSES) {
+          await this.pollKeyboard();
+        }
+
+        this.snapshot = {
+          power: true,
+          ambilight: snapshotAmbilight,
+          volume: volume ?? this.snapshot.volume,
+          currentApp,
+          currentChannel: channel,
+          keyboardVisible: this.lastKeyboard,
+          updatedAt: new Date().toISOString(),
+        };
+      } else {
+        this.applyChannel(null);
+        if (this.lastKeyboard) {
+          this.applyKeyboard(false);
+        }
+        this.snapshot = {
+          power: false,
+          ambilight: null,
+          volume: null,
+          currentApp: null,
+          currentChannel: null,
+          keyboardVisible: null,
+          updatedAt: new Date().toISOString(),
+        };
       }
     } catch {
       // TV might be off or unreachable - this is expected
     }
   }
+
+  /**
+   * Follow whether the TV accepts the credentials, logging the change once.
+   * Returns false while it rejects them. The client then holds back requests
+   * on its own, and the long-poll is stopped, since it would only get 401s too.
+   */
+  private applyAuthorization(): boolean {
+    const authorized = !this.tvClient.isUnauthorized;
+    if (authorized === this.lastAuthorized) {
+      return authorized;
+    }
+
+    if (!authorized) {
+      this.log('error', 'The TV rejected the stored username and password. It was probably reset, or Homebridge was removed '
+        + 'from its paired devices. Pair the TV again in the plugin settings (the TV list shows a Re-pair button).');
+      this.stopLongPoll();
+      this.cancelLongPollRetry();
+    } else if (this.lastAuthorized === false) {
+      this.log('info', 'The TV accepts the credentials again');
+      if (this.isPoweredOn) {
+        this.startLongPoll();
+      }
+    }
+    this.lastAuthorized = authorized;
+    this.callbacks.onAuthChange(authorized);
+    return authorized;
+  }
+
+  /** The tuner is in front with Watch TV or a channel selected, not an HDMI input */
+  private isTunerOnScreen(currentApp: string | null): boolean {
+    return currentApp === TUNER_PACKAGE && this.callbacks.isTunerInputSelected();
+  }
+
+  private applyChannel(channel: CurrentChannel | null): void {
+    const key = channel ? `${channel.channelListId ?? ''}/${channel.ccid}` : null;
+    this.snapshot = { ...this.snapshot, currentChannel: channel };
+    if (key === this.lastChannel) {
+      return;
+    }
+    this.lastChannel = key;
+    if (channel) {
+      this.log('info', `Channel: ${channel.preset ? `${channel.preset} ` : ''}${channel.name}`);
+    }
+    this.callbacks.onChannelUpdate(channel);
+  }
+
+  private async pollKeyboard(): Promise<void> {
+    const visible = await this.tvClient.getKeyboardVisible();
+    if (visible === null) {
+      // No answer (timeout, booting) says nothing about support
+      return;
+    }
+    if (visible === 'unsupported') {
+      this.keyboardMisses++;
+      if (this.keyboardMisses === KEYBOARD_UNSUPPORTED_AFTER_MISSES) {
+        this.log('debug', 'TV does not report the on-screen keyboard — no longer polling it');
+      }
+      return;
+    }
+    this.keyboardMisses = 0;
+    this.applyKeyboard(visible);
+  }
+
+  private applyKeyboard(visible: boolean): void {
+    this.snapshot = { ...this.snapshot, keyboardVisible: visible };
+    if (visible === this.lastKeyboard) {
+      return;
+    }
+    this.lastKeyboard = visible;
+    this.log(visible ? 'info' : 'debug', `On-screen keyboard: ${visible ? 'shown' : 'hidden'}`);
+    this.callbacks.onKeyboardUpdate(visible);
+  }
+
+  private async pollAurora(): Promise<void> {
+    const open = await this.tvClient.getAuroraOpen();
+    if (open === null) {
+      // No answer (timeout, booting) says nothing about support
+      return;
+    }
+    if (open === 'unsupported') {
+      // Older sets 404 here — stop asking once it's clearly not a one-off
+      this.auroraMisses++;
+      if (this.auroraMisses === AURORA_UNSUPPORTED_AFTER_MISSES) {
+        this.log('info', 'TV does not report an Aurora state — Aurora appears unsupported, the switch will stay off');
+        this.callbacks.onAuroraUnsupported();
+      }
+      return;
+    }
+
+    this.auroraMisses = 0;
+    if (open !== this.lastAurora) {
+      this.lastAurora = open;
+      this.log('debug', `Aurora: ${open ? 'On' : 'Off'}`);
+    }
+    this.callbacks.onAuroraUpdate(open);
+  }
 }
@@ -0,0 +1,240 @@
+import type { Characteristic, CharacteristicValue, HapStatusError, PlatformAccessory, Service } from 'homebridge';
+
+import type { PhilipsTVClient } from '../api/PhilipsTVClient.js';
+import type { VolumeState } from '../api/types.js';
+import { volumeLevelToPercent, volumePercentToLevel } from './DeviceCommands.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** HomeKit service type used to expose the volume slider. */
+export type VolumeSliderType = 'lightbulb' | 'fan';
+
+export interface VolumeSliderDeps {
+  readonly Service: typeof Service;
+  readonly Characteristic: typeof Characteristic;
+  readonly tvClient: PhilipsTVClient;
+  readonly communicationError: () => HapStatusError;
+  readonly log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SLIDER_SUBTYPE = 'volume-slider';
+
+/** Fallback range until the TV has reported its own min/max */
+const DEFAULT_VOLUME_MIN = 0;
+const DEFAULT_VOLUME_MAX = 60;
+
+/** Ignore poll updates for this long after a user action (ms), so a slider
+ *  drag isn't bounced back by a poll that ran before the TV applied it. */
+const USER_ACTION_COOLDOWN_MS = 5_000;
+
+// ============================================================================
+// VOLUME SLIDER SERVICE
+// ============================================================================
+
+/**
+ * Exposes the TV's absolute volume as a 0–100% slider, either as a Lightbulb
+ * (Brightness = volume, On = unmuted) or a Fan (RotationSpeed = volume,
+ * Active = unmuted). The TelevisionSpeaker service only offers relative
+ * VolumeUp/VolumeDown buttons in the Home app, so this is what makes
+ * "set the TV volume to 20%" possible from Siri and scenes.
+ *
+ * The percentage is mapped onto the range the TV reports on `/audio/volume`
+ * (`min`/`max`), which differs between models.
+ */
+export class VolumeSliderService {
+  private service: Service | null = null;
+  private type: VolumeSliderType = 'lightbulb';
+
+  private percent = 0;
+  private muted = false;
+  private min = DEFAULT_VOLUME_MIN;
+  private max = DEFAULT_VOLUME_MAX;
+  private rangeKnown = false;
+  private lastUserAction = 0;
+
+  constructor(private readonly deps: VolumeSliderDeps) {}
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+
+  configureService(accessory: PlatformAccessory, tvService: Service, tvName: string, type: VolumeSliderType): void {
+    const { Service: Svc, Characteristic: Char } = this.deps;
+    const displayName = `${tvName} Volume`;
+
+    // Drop a slider of the other type left over from a previous configuration
+    const staleType = type === 'fan' ? Svc.Lightbulb : Svc.Fanv2;
+    const stale = accessory.getServiceById(staleType, SLIDER_SUBTYPE);
+    if (stale) {
+      accessory.removeService(stale);
+    }
+
+    const serviceType = type === 'fan' ? Svc.Fanv2 : Svc.Lightbulb;
+    let service = accessory.getServiceById(serviceType, SLIDER_SUBTYPE);
+    if (!service) {
+      service = accessory.addService(serviceType, displayName, SLIDER_SUBTYPE);
+      service.addOptionalCharacteristic(Char.ConfiguredName);
+      service.setCharacteristic(Char.ConfiguredName, 'Volume');
+    }
+
+    service.setCharacteristic(Char.Name, displayName);
+
+    if (type === 'fan') {
+      service.getCharacteristic(Char.Active)
+        .onGet(() => this.muted ? Char.Active.INACTIVE : Char.Active.ACTIVE)
+        .onSet((value) => this.handleSetMuted(value !== Char.Active.ACTIVE));
+      service.getCharacteristic(Char.RotationSpeed)
+        .onGet(() => this.percent)
+        .onSet((value) => this.handleSetLevel(value));
+    } else {
+      service.getCharacteristic(Char.On)
+        .onGet(() => !this.muted)
+        .onSet((value) => this.handleSetMuted(!(value as boolean)));
+      service.getCharacteristic(Char.Brightness)
+        .onGet(() => this.percent)
+        .onSet((value) => this.handleSetLevel(value));
+    }
+
+    tvService.addLinkedService(service);
+    this.service = service;
+    this.type = type;
+    this.deps.log('info', `Configured volume slider (${type})`);
+  }
+
+  /** Remove the slider service if it exists (when the feature is disabled). */
+  removeService(accessory: PlatformAccessory): void {
+    const { Service: Svc } = this.deps;
+    for (const serviceType of [Svc.Lightbulb, Svc.Fanv2]) {
+      const service = accessory.getServiceById(serviceType, SLIDER_SUBTYPE);
+      if (service) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private async handleSetLevel(value: CharacteristicValue): Promise<void> {
+    const percent = Math.max(0, Math.min(100, value as number));
+    this.lastUserAction = Date.now();
+
+    try {
+      if (!this.rangeKnown) {
+        // First write before any poll — learn the TV's range so 50% really is half.
+        const volume = await this.deps.tvClient.getVolume();
+        if (volume) {
+          this.applyRange(volume);
+        }
+      }
+
+      const level = this.percentToLevel(percent);
+      this.deps.log('debug', `Setting volume to ${percent}% (${level})`);
+      const success = await this.deps.tvClient.setVolume(level);
+      if (!success) {
+        throw this.deps.communicationError();
+      }
+      this.percent = percent;
+      // setVolume always unmutes
+      this.setMutedState(false);
+      this.lastUserAction = Date.now();
+    } catch (error) {
+      this.deps.log('warn', 'Failed to set volume');
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  private async handleSetMuted(muted: boolean): Promise<void> {
+    if (muted === this.muted) {
+      return;
+    }
+    this.lastUserAction = Date.now();
+
+    try {
+      const success = await this.deps.tvClient.setMuted(muted);
+      if (!success) {
+        throw this.deps.communicationError();
+      }
+      this.muted = muted;
+      this.lastUserAction = Date.now();
+    } catch (error) {
+      this.deps.log('warn', `Failed to ${muted ? 'mute' : 'unmute'} volume`);
+      throw error instanceof Error && 'hapStatus' in error ? error : this.deps.communicationError();
+    }
+  }
+
+  // ==========================================================================
+  // STATE UPDATES
+  // ==========================================================================
+
+  /** Reflect the volume reported by the state poll. */
+  updateFromPoll(volume: VolumeState): void {
+    this.applyRange(volume);
+
+    if (!this.service || Date.now() - this.lastUserAction < USER_ACTION_COOLDOWN_MS) {
+      return;
+    }
+
+    const percent = this.levelToPercent(volume.current ?? 0);
+    if (percent !== this.percent) {
+      this.percent = percent;
+      this.service.updateCharacteristic(this.levelCharacteristic, percent);
+    }
+    this.setMutedState(volume.muted ?? false);
+  }
+
+  /** Show the slider as off (e.g. when the TV powers off). */
+  reset(): void {
+    this.setMutedState(true);
+  }
+
+  // ==========================================================================
+  // PRIVATE
+  // ==========================================================================
+
+  private get levelCharacteristic() {
+    const { Characteristic: Char } = this.deps;
+    return this.type === 'fan' ? Char.RotationSpeed : Char.Brightness;
+  }
+
+  private setMutedState(muted: boolean): void {
+    const { Characteristic: Char } = this.deps;
+    if (muted === this.muted) {
+      return;
+    }
+    this.muted = muted;
+    if (!this.service) {
+      return;
+    }
+    if (this.type === 'fan') {
+      this.service.updateCharacteristic(Char.Active, muted ? Char.Active.INACTIVE : Char.Active.ACTIVE);
+    } else {
+      this.service.updateCharacteristic(Char.On, !muted);
+    }
+  }
+
+  private applyRange(volume: VolumeState): void {
+    if (typeof volume.min === 'number' && typeof volume.max === 'number' && volume.max > volume.min) {
+      this.min = volume.min;
+      this.max = volume.max;
+      this.rangeKnown = true;
+    }
+  }
+
+  /** Map a 0–100% slider value onto the TV's volume range. */
+  percentToLevel(percent: number): number {
+    return volumePercentToLevel(percent, { min: this.min, max: this.max });
+  }
+
+  /** Map a TV volume level onto a 0–100% slider value. */
+  levelToPercent(level: number): number {
+    return volumeLevelToPercent(level, { min: this.min, max: this.max });
+  }
+}
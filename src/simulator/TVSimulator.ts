@@ -0,0 +1,813 @@
+/**
+ * Philips TV Simulator
+ * A local JointSpace server (HTTPS on 1926, HTTP on 1925) that behaves like
+ * a paired Android TV: digest authentication, PIN pairing, power, volume,
+ * apps, sources, channels, Ambilight, menu settings and a blocking
+ * `/notifychange`. Faults (latency, expired nonces, dropped connections,
+ * deep standby, revoked pairing) can be switched on at any time, so the
+ * clients can be tested end to end without a TV.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { Socket } from 'net';
+
+import { TV_API_HTTP_PORT, TV_API_PORT, TV_API_VERSION } from '../api/constants.js';
+import { WATCH_TV_URI } from '../api/PhilipsTVClient.js';
+import type {
+  AmbilightCached,
+  AmbilightControlMode,
+  AmbilightPixelData,
+  AmbilightRgb,
+  AmbilightSide,
+  TVChannel,
+  VolumeState,
+} from '../api/types.js';
+import { hmacSignature, md5, parseWwwAuthenticate } from '../api/utils.js';
+import { DEFAULT_CATALOG, HOME_PACKAGE, menuStructure, TUNER_CLASS, TUNER_PACKAGE } from './catalog.js';
+import type { SimulatorCatalog } from './catalog.js';
+import { SIMULATOR_TLS_CERT, SIMULATOR_TLS_KEY } from './certificate.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Everything on the simulated TV that can change */
+export interface SimulatedTVState {
+  power: 'On' | 'Standby';
+  screen: 'On' | 'Off';
+  volume: VolumeState;
+  /** Foreground app (`NA` on the home screen, the tuner package for TV and HDMI) */
+  activity: { packageName: string; className: string };
+  /** Channel on screen while the tuner shows one */
+  channel: { ccid: number; preset: string; name: string; listId: string } | null;
+  keyboardVisible: boolean;
+  /** Last text sent to `/input/textentry` */
+  typedText: string | null;
+  ambilight: {
+    power: 'On' | 'Off';
+    configuration: AmbilightCached;
+    mode: AmbilightControlMode;
+    /** Colors last written to `/ambilight/cached` */
+    cached: AmbilightPixelData;
+  };
+  hueLamp: 'On' | 'Off';
+  /** Menu setting values by node id */
+  settings: Record<number, number>;
+}
+
+/** Misbehaviour switched on at runtime. All off by default. */
+export interface SimulatorFaults {
+  /** Added before every response (ms) */
+  latencyMs: number;
+  /** Upcoming requests to drop by resetting the connection without an answer */
+  dropRequests: number;
+  /** Drop every request: the TV is in deep standby or off the network */
+  unreachable: boolean;
+  /** Answer 401 to every credential, as after a factory reset */
+  rejectCredentials: boolean;
+}
+
+export interface TVSimulatorOptions {
+  /** Address to listen on (default 127.0.0.1) */
+  readonly host?: string;
+  readonly httpsPort?: number;
+  readonly httpPort?: number;
+  /** PIN "shown on the TV" during pairing (default 1234) */
+  readonly pin?: string;
+  /** Credentials accepted without pairing first */
+  readonly credentials?: ReadonlyArray<{ readonly username: string; readonly password: string }>;
+  /** How long `/notifychange` is held open without a change (ms) */
+  readonly longPollHoldMs?: number;
+  readonly catalog?: Partial<SimulatorCatalog>;
+  readonly state?: Partial<SimulatedTVState>;
+  /** Called for every request, e.g. to print them */
+  readonly onRequest?: (request: SimulatorRequest) => void;
+}
+
+/** A request the simulator received, for assertions */
+export interface SimulatorRequest {
+  readonly method: string;
+  /** Endpoint without the API version (`/powerstate`) */
+  readonly endpoint: string;
+  /** Status answered, or 0 when the connection was dropped */
+  readonly status: number;
+  /** Whether the request carried valid digest credentials */
+  readonly authenticated: boolean;
+}
+
+interface Reply {
+  readonly status: number;
+  readonly body?: unknown;
+}
+
+interface PendingPairing {
+  readonly authKey: string;
+  readonly timestamp: number;
+}
+
+interface LongPollWaiter {
+  readonly username: string;
+  readonly resources: ReadonlySet<string>;
+  readonly respond: (body: Record<string, unknown>) => void;
+  /** Answers `{}` once the hold time is up */
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const REALM = 'XTV';
+
+const DEFAULT_PIN = '1234';
+
+/** Below the client's 60 s long-poll timeout, like a real TV */
+const DEFAULT_LONG_POLL_HOLD_MS = 20_000;
+
+/** Endpoints a real TV serves without credentials */
+const PUBLIC_ENDPOINTS = new Set(['/system', '/pair/request']);
+
+const API_PREFIX = `/${TV_API_VERSION}`;
+
+const SIDES: readonly AmbilightSide[] = ['left', 'top', 'right', 'bottom'];
+
+function defaultState(catalog: SimulatorCatalog): SimulatedTVState {
+  return {
+    power: 'On',
+    screen: 'On',
+    volume: { current: 15, min: 0, max: 60, muted: false },
+    activity: { packageName: HOME_PACKAGE, className: HOME_PACKAGE },
+    channel: null,
+    keyboardVisible: false,
+    typedText: null,
+    ambilight: {
+      power: 'On',
+      configuration: { styleName: 'FOLLOW_VIDEO', isExpert: false, menuSetting: 'STANDARD' },
+      mode: 'internal',
+      cached: {},
+    },
+    hueLamp: 'Off',
+    settings: Object.fromEntries(Object.values(catalog.menuNodes).map(nodeId => [nodeId, 10])),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(text ? JSON.parse(text) : null);
+      } catch {
+        resolve(undefined); // Malformed JSON — answered with 400
+      }
+    });
+    req.on('error', () => resolve(undefined));
+  });
+}
+
+/** The same color on every LED of the topology, as `/ambilight/measured` reports it. */
+function uniformPixels(catalog: SimulatorCatalog, color: AmbilightRgb): AmbilightPixelData {
+  const layers: AmbilightPixelData = {};
+  for (let layer = 1; layer <= catalog.topology.layers; layer++) {
+    layers[`layer${layer}`] = Object.fromEntries(SIDES
+      .filter(side => catalog.topology[side] > 0)
+      .map(side => [side, Object.fromEntries(Array.from({ length: catalog.topology[side] }, (_, i) => [String(i), color]))]));
+  }
+  return layers;
+}
+
+const ok = (body: unknown = {}): Reply => ({ status: 200, body });
+const NOT_FOUND: Reply = { status: 404, body: { error: 'Not Found' } };
+const BAD_REQUEST: Reply = { status: 400, body: { error: 'Bad Request' } };
+
+// ============================================================================
+// TV SIMULATOR
+// ============================================================================
+
+/**
+ * A simulated TV. `start()` listens on the API ports; the clients reach it at
+ * `host` like a real TV. Tests change its state with `update()` (as if the
+ * remote was used) and read what the clients did from `state` and `requests`.
+ *
+ * `/notifychange` answers as soon as a subscribed resource changed since that
+ * user's previous long-poll, otherwise it is held for `longPollHoldMs` and
+ * answered with `{}`.
+ */
+export class TVSimulator {
+  readonly faults: SimulatorFaults = { latencyMs: 0, dropRequests: 0, unreachable: false, rejectCredentials: false };
+  readonly requests: SimulatorRequest[] = [];
+  readonly catalog: SimulatorCatalog;
+  readonly host: string;
+  readonly pin: string;
+
+  private current: SimulatedTVState;
+  private readonly credentials = new Map<string, string>();
+  private readonly pendingPairings = new Map<string, PendingPairing>();
+  private readonly nonces = new Set<string>();
+  private readonly servers: Server[];
+  private readonly sockets = new Set<Socket>();
+
+  /** Change counter; each resource remembers the count at its last change */
+  private version = 0;
+  private readonly changedAt = new Map<string, number>();
+  /** Per user, the change count their last long-poll answer covered */
+  private readonly deliveredTo = new Map<string, number>();
+  private waiters: LongPollWaiter[] = [];
+
+  constructor(private readonly options: TVSimulatorOptions = {}) {
+    this.catalog = { ...DEFAULT_CATALOG, ...options.catalog };
+    this.current = { ...defaultState(this.catalog), ...options.state };
+    this.host = options.host ?? '127.0.0.1';
+    this.pin = options.pin ?? DEFAULT_PIN;
+    for (const { username, password } of options.credentials ?? []) {
+      this.credentials.set(username, password);
+    }
+
+    const handler = (req: IncomingMessage, res: ServerResponse) => void this.handle(req, res);
+    this.servers = [
+      https.createServer({ key: SIMULATOR_TLS_KEY, cert: SIMULATOR_TLS_CERT }, handler),
+      http.createServer(handler),
+    ];
+    for (const server of this.servers) {
+      server.on('connection', (socket: Socket) => {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+      });
+    }
+  }
+
+  // ==========================================================================
+  // LIFECYCLE
+  // ==========================================================================
+
+  async start(): Promise<void> {
+    const ports = [this.options.httpsPort ?? TV_API_PORT, this.options.httpPort ?? TV_API_HTTP_PORT];
+    await Promise.all(this.servers.map((server, i) => new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(ports[i], this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    })));
+  }
+
+  async stop(): Promise<void> {
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.expiry);
+    }
+    this.waiters = [];
+    this.dropConnections();
+    await Promise.all(this.servers.map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+  }
+
+  // ==========================================================================
+  // STATE AND FAULTS
+  // ==========================================================================
+
+  get state(): Readonly<SimulatedTVState> {
+    return this.current;
+  }
+
+  /** Change the TV's state as if from its own remote; long-polls see the change. */
+  update(patch: Partial<SimulatedTVState>): void {
+    this.mutate(() => {
+      this.current = { ...this.current, ...patch };
+    });
+  }
+
+  /** Usernames the TV accepts (configured and paired). */
+  get pairedUsers(): string[] {
+    return [...this.credentials.keys()];
+  }
+
+  /** `/notifychange` requests currently held open, waiting for a change. */
+  get heldLongPolls(): number {
+    return this.waiters.length;
+  }
+
+  /** Forget every issued nonce: the next authenticated request gets a fresh (stale) challenge. */
+  expireNonces(): void {
+    this.nonces.clear();
+  }
+
+  /** Reset every open connection, including held long-polls and keep-alive sockets. */
+  dropConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  // ==========================================================================
+  // REQUEST HANDLING
+  // ==========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://simulator').pathname;
+    const endpoint = path.startsWith(`${API_PREFIX}/`) ? path.slice(API_PREFIX.length) : path;
+
+    if (this.faults.unreachable || this.faults.dropRequests > 0) {
+      if (!this.faults.unreachable) {
+        this.faults.dropRequests--;
+      }
+      this.record({ method, endpoint, status: 0, authenticated: false });
+      req.socket.destroy();
+      return;
+    }
+
+    const body = await readBody(req);
+    if (this.faults.latencyMs > 0) {
+      await sleep(this.faults.latencyMs);
+    }
+
+    const username = this.authenticate(req, method, endpoint, body);
+    let reply: Reply;
+    if (!path.startsWith(`${API_PREFIX}/`)) {
+      reply = NOT_FOUND;
+    } else if (username === null && !PUBLIC_ENDPOINTS.has(endpoint)) {
+      reply = this.challenge(req);
+    } else if (body === undefined) {
+      reply = BAD_REQUEST;
+    } else if (method === 'POST' && endpoint === '/notifychange') {
+      reply = await this.longPoll(username!, body);
+    } else {
+      reply = this.route(method, endpoint, body);
+    }
+
+    this.record({ method, endpoint, status: reply.status, authenticated: username !== null });
+    if (res.destroyed) {
+      return;
+    }
+    // No keep-alive: a pooled socket would outlive a stopped simulator and fail the next one's first request
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Connection': 'close' };
+    if (reply.status === 401) {
+      headers['WWW-Authenticate'] = this.issueChallenge(reply.body === 'stale');
+    }
+    res.writeHead(reply.status, headers);
+    res.end(reply.status === 401 ? '' : JSON.stringify(reply.body ?? {}));
+  }
+
+  private record(request: SimulatorRequest): void {
+    this.requests.push(request);
+    this.options.onRequest?.(request);
+  }
+
+  // ==========================================================================
+  // DIGEST AUTHENTICATION
+  // ==========================================================================
+
+  private issueChallenge(stale: boolean): string {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    this.nonces.add(nonce);
+    return `Digest realm="${REALM}", qop="auth", nonce="${nonce}"${stale ? ', stale=true' : ''}`;
+  }
+
+  /** 401, flagged stale when the request was signed correctly but with a forgotten nonce. */
+  private challenge(req: IncomingMessage): Reply {
+    const header = req.headers.authorization;
+    const nonce = header?.toLowerCase().startsWith('digest') ? parseWwwAuthenticate(header).nonce : '';
+    return { status: 401, body: nonce && !this.nonces.has(nonce) ? 'stale' : undefined };
+  }
+
+  /** The digest username when the request is signed with a known password and a live nonce. */
+  private authenticate(req: IncomingMessage, method: string, endpoint: string, body: unknown): string | null {
+    const header = req.headers.authorization;
+    if (!header?.toLowerCase().startsWith('digest') || this.faults.rejectCredentials) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (const match of header.matchAll(/(\w+)=(?:"([^"]*)"|([^,\s]*))/g)) {
+      params[match[1]] = match[2] ?? match[3];
+    }
+    const { username, nonce, uri, response, qop, nc, cnonce } = params;
+    if (!username || !this.nonces.has(nonce) || uri !== `${API_PREFIX}${endpoint}`) {
+      return null;
+    }
+
+    // The grant is signed with the auth key handed out by /pair/request
+    const grantDevice = endpoint === '/pair/grant' ? (body as { device?: { id?: string } } | null)?.device?.id : undefined;
+    const password = grantDevice === username
+      ? this.pendingPairings.get(username)?.authKey
+      : this.credentials.get(username);
+    if (password === undefined) {
+      return null;
+    }
+
+    const ha1 = md5(`${username}:${REALM}:${password}`);
+    const ha2 = md5(`${method}:${uri}`);
+    const expected = qop
+      ? md5(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+      : md5(`${ha1}:${nonce}:${ha2}`);
+    return expected === response ? username : null;
+  }
+
+  // ==========================================================================
+  // ROUTES
+  // ==========================================================================
+
+  private route(method: string, endpoint: string, body: unknown): Reply {
+    const data = (body ?? {}) as Record<string, unknown>;
+    const state = this.current;
+    const key = `${method} ${endpoint}`;
+
+    switch (key) {
+      case 'GET /system':
+        return ok(this.catalog.system);
+      case 'POST /pair/request':
+        return this.pairRequest(data);
+      case 'POST /pair/grant':
+        return this.pairGrant(data);
+
+      case 'GET /powerstate':
+        return ok({ powerstate: state.power });
+      case 'POST /powerstate':
+        return data.powerstate === 'On' || data.powerstate === 'Standby'
+          ? this.apply(() => this.setPower(data.powerstate as 'On' | 'Standby'))
+          : BAD_REQUEST;
+      case 'GET /screenstate':
+        return ok({ screenstate: state.screen });
+      case 'POST /screenstate':
+        return data.screenstate === 'On' || data.screenstate === 'Off'
+          ? this.apply(() => this.current.screen = data.screenstate as 'On' | 'Off')
+          : BAD_REQUEST;
+
+      case 'GET /audio/volume':
+        return ok(state.volume);
+      case 'POST /audio/volume':
+        return this.apply(() => {
+          const { volume } = this.current;
+          this.current.volume = {
+            ...volume,
+            current: typeof data.current === 'number' ? clamp(Math.round(data.current), volume.min, volume.max) : volume.current,
+            muted: typeof data.muted === 'boolean' ? data.muted : volume.muted,
+          };
+        });
+
+      case 'GET /activities/current':
+        return ok({ component: state.activity });
+      case 'POST /activities/launch':
+        return this.launch(data);
+      case 'GET /activities/tv':
+        return ok(state.channel
+          ? { channel: { ccid: state.channel.ccid, preset: state.channel.preset, name: state.channel.name }, channelList: { id: state.channel.listId, version: '1' } }
+          : {});
+      case 'POST /activities/tv': {
+        const ccid = (data.channel as { ccid?: number } | undefined)?.ccid;
+        const listId = (data.channelList as { id?: string } | undefined)?.id ?? 'allcab';
+        const channel = this.catalog.channelLists[listId]?.find(c => c.ccid === ccid);
+        return channel ? this.apply(() => this.tune(channel, listId)) : NOT_FOUND;
+      }
+
+      case 'GET /applications':
+        return ok({ version: 1, applications: this.catalog.applications });
+      case 'GET /sources':
+        return ok({ sources: this.catalog.sources });
+      case 'GET /channeldb/tv':
+        return ok({
+          channelLists: Object.keys(this.catalog.channelLists).map(id => ({ id, version: 1 })),
+          favoriteLists: this.catalog.favoriteLists.map(({ ccids: _ccids, ...list }) => list),
+        });
+
+      case 'POST /input/key':
+        return typeof data.key === 'string' ? this.apply(() => this.pressKey(data.key as string)) : BAD_REQUEST;
+      case 'POST /input/textentry':
+        return typeof data.textentry === 'string' ? this.apply(() => this.current.typedText = data.textentry as string) : BAD_REQUEST;
+      case 'GET /input/onscreenkeyboard/visible':
+        return ok({ visible: state.keyboardVisible });
+
+      case 'GET /ambilight/power':
+        return ok({ power: state.ambilight.power });
+      case 'POST /ambilight/power':
+        return data.power === 'On' || data.power === 'Off'
+          ? this.apply(() => this.current.ambilight = { ...this.current.ambilight, power: data.power as 'On' | 'Off' })
+          : BAD_REQUEST;
+      case 'GET /ambilight/currentconfiguration':
+        return ok(state.ambilight.configuration);
+      case 'POST /ambilight/currentconfiguration':
+        return typeof data.styleName === 'string' ? this.apply(() => this.configureAmbilight(data)) : BAD_REQUEST;
+      case 'GET /ambilight/mode':
+        return ok({ current: state.ambilight.mode });
+      case 'POST /ambilight/mode':
+        return typeof data.current === 'string'
+          ? this.apply(() => this.current.ambilight = { ...this.current.ambilight, mode: data.current as AmbilightControlMode })
+          : BAD_REQUEST;
+      case 'GET /ambilight/topology':
+        return ok(this.catalog.topology);
+      case 'GET /ambilight/measured':
+      case 'GET /ambilight/processed':
+        return ok(uniformPixels(this.catalog, { r: 128, g: 128, b: 128 }));
+      case 'GET /ambilight/cached':
+        return ok(state.ambilight.cached);
+      case 'POST /ambilight/cached':
+        return this.apply(() => this.current.ambilight = { ...this.current.ambilight, cached: data as AmbilightPixelData });
+
+      case 'GET /HueLamp/power':
+        return ok({ power: state.hueLamp });
+      case 'POST /HueLamp/power':
+        return data.power === 'On' || data.power === 'Off'
+          ? this.apply(() => this.current.hueLamp = data.power as 'On' | 'Off')
+          : BAD_REQUEST;
+
+      case 'GET /menuitems/settings/structure':
+        return ok(menuStructure(this.catalog));
+      case 'POST /menuitems/settings/current':
+        return this.readSettings(data);
+      case 'POST /menuitems/settings/update':
+        return this.updateSettings(data);
+    }
+
+    const channelList = /^GET \/channeldb\/tv\/channelLists\/([^/]+)$/.exec(key);
+    if (channelList) {
+      const channels = this.catalog.channelLists[decodeURIComponent(channelList[1])];
+      return channels ? ok({ version: 1, Channel: channels }) : NOT_FOUND;
+    }
+    const favoriteList = /^GET \/channeldb\/tv\/favoriteLists\/([^/]+)$/.exec(key);
+    if (favoriteList) {
+      const list = this.catalog.favoriteLists.find(l => l.id === decodeURIComponent(favoriteList[1]));
+      if (!list) {
+        return NOT_FOUND;
+      }
+      const channels = list.ccids.map(ccid => this.findChannel(ccid)).filter(c => c !== undefined);
+      return ok({ id: list.id, parentId: list.parentId, channels: channels.map(c => ({ ccid: c.ccid, preset: c.preset })) });
+    }
+    return NOT_FOUND;
+  }
+
+  /** Run a state change and answer 200, notifying long-polls of what changed. */
+  private apply(change: () => void): Reply {
+    this.mutate(change);
+    return ok();
+  }
+
+  // ==========================================================================
+  // BEHAVIOUR
+  // ==========================================================================
+
+  private setPower(power: 'On' | 'Standby'): void {
+    this.current.power = power;
+    this.current.screen = power === 'On' ? 'On' : 'Off';
+    if (power === 'Standby') {
+      this.current.activity = { packageName: HOME_PACKAGE, className: HOME_PACKAGE };
+      this.current.channel = null;
+    }
+  }
+
+  private findChannel(ccid: number): TVChannel | undefined {
+    return Object.values(this.catalog.channelLists).flat().find(c => c.ccid === ccid);
+  }
+
+  private tune(channel: TVChannel, listId: string): void {
+    this.current.activity = { packageName: TUNER_PACKAGE, className: TUNER_CLASS };
+    this.current.channel = { ccid: channel.ccid, preset: channel.preset ?? '', name: channel.name, listId };
+  }
+
+  /**
+   * Launch an intent. Like the firmware, an app only starts with its real
+   * launch activity; the tuner component also takes source URIs.
+   */
+  private launch(data: Record<string, unknown>): Reply {
+    const intent = data.intent as { component?: { packageName?: string; className?: string }; extras?: { uri?: string } } | undefined;
+    const packageName = intent?.component?.packageName;
+    const className = intent?.component?.className;
+
+    if (packageName === TUNER_PACKAGE) {
+      const uri = intent?.extras?.uri;
+      return this.apply(() => {
+        if (!uri || uri === WATCH_TV_URI) {
+          this.watchTV();
+        } else {
+          this.current.activity = { packageName: TUNER_PACKAGE, className: TUNER_CLASS };
+          this.current.channel = null;
+        }
+      });
+    }
+
+    const app = this.catalog.applications.find(a =>
+      a.intent?.component?.packageName === packageName && a.intent?.component?.className === className);
+    if (!app || !packageName || !className) {
+      return NOT_FOUND;
+    }
+    return this.apply(() => {
+      this.current.activity = { packageName, className };
+      this.current.channel = null;
+    });
+  }
+
+  private watchTV(): void {
+    const [listId, channels] = Object.entries(this.catalog.channelLists)[0] ?? [];
+    const channel = this.current.channel ? this.findChannel(this.current.channel.ccid) : channels?.[0];
+    if (channel && listId) {
+      this.tune(channel, this.current.channel?.listId ?? listId);
+    } else {
+      this.current.activity = { packageName: TUNER_PACKAGE, className: TUNER_CLASS };
+    }
+  }
+
+  /** The effect of a remote key. In standby only the power keys do anything. */
+  private pressKey(key: string): void {
+    const state = this.current;
+    if (key === 'Standby') {
+      this.setPower(state.power === 'On' ? 'Standby' : 'On');
+      return;
+    }
+    if (key === 'PowerOn' || key === 'PowerOff') {
+      this.setPower(key === 'PowerOn' ? 'On' : 'Standby');
+      return;
+    }
+    if (state.power !== 'On') {
+      return;
+    }
+
+    const { volume } = state;
+    switch (key) {
+      case 'VolumeUp':
+      case 'VolumeDown':
+        state.volume = { ...volume, muted: false, current: clamp(volume.current + (key === 'VolumeUp' ? 1 : -1), volume.min, volume.max) };
+        break;
+      case 'Mute':
+        state.volume = { ...volume, muted: !volume.muted };
+        break;
+      case 'Home':
+        state.activity = { packageName: HOME_PACKAGE, className: HOME_PACKAGE };
+        state.channel = null;
+        break;
+      case 'WatchTV':
+        this.watchTV();
+        break;
+      case 'ChannelStepUp':
+      case 'ChannelStepDown': {
+        const list = state.channel ? this.catalog.channelLists[state.channel.listId] : undefined;
+        const index = list?.findIndex(c => c.ccid === state.channel?.ccid) ?? -1;
+        if (list && index >= 0) {
+          const next = list[(index + (key === 'ChannelStepUp' ? 1 : list.length - 1)) % list.length];
+          this.tune(next, state.channel!.listId);
+        }
+        break;
+      }
+      case 'AmbilightOnOff':
+        state.ambilight = { ...state.ambilight, power: state.ambilight.power === 'On' ? 'Off' : 'On' };
+        break;
+    }
+  }
+
+  /** `styleName: OFF` turns Ambilight off; any other style turns it on with that configuration. */
+  private configureAmbilight(data: Record<string, unknown>): void {
+    const off = data.styleName === 'OFF';
+    this.current.ambilight = {
+      ...this.current.ambilight,
+      power: off ? 'Off' : 'On',
+      configuration: off ? this.current.ambilight.configuration : data as unknown as AmbilightCached,
+    };
+  }
+
+  private readSettings(data: Record<string, unknown>): Reply {
+    const nodes = Array.isArray(data.nodes) ? data.nodes as { nodeid?: number }[] : [];
+    const known = nodes.filter(n => typeof n.nodeid === 'number' && n.nodeid in this.current.settings);
+    if (known.length === 0) {
+      return NOT_FOUND;
+    }
+    return ok({
+      version: 1,
+      values: known.map(n => ({ value: { Nodeid: n.nodeid, Controllable: true, Available: true, data: { value: this.current.settings[n.nodeid!] } } })),
+    });
+  }
+
+  private updateSettings(data: Record<string, unknown>): Reply {
+    const values = Array.isArray(data.values) ? data.values as { value?: { Nodeid?: number; data?: { value?: unknown } } }[] : [];
+    const updates = values.map(v => v.value).filter(v => typeof v?.Nodeid === 'number' && v.Nodeid in this.current.settings && typeof v.data?.value === 'number');
+    if (updates.length === 0) {
+      return NOT_FOUND;
+    }
+    return this.apply(() => {
+      this.current.settings = { ...this.current.settings };
+      for (const update of updates) {
+        this.current.settings[update!.Nodeid!] = update!.data!.value as number;
+      }
+    });
+  }
+
+  // ==========================================================================
+  // PAIRING
+  // ==========================================================================
+
+  private pairRequest(data: Record<string, unknown>): Reply {
+    const deviceId = (data.device as { id?: unknown } | undefined)?.id;
+    if (typeof deviceId !== 'string' || !deviceId) {
+      return BAD_REQUEST;
+    }
+    const pairing: PendingPairing = {
+      authKey: crypto.randomBytes(32).toString('hex'),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+    this.pendingPairings.set(deviceId, pairing);
+    return ok({ error_id: 'SUCCESS', error_text: 'Authorization required', auth_key: pairing.authKey, timestamp: pairing.timestamp, timeout: 60 });
+  }
+
+  /** Reached only with a digest signed by the device id and auth key of a pending pairing. */
+  private pairGrant(data: Record<string, unknown>): Reply {
+    const deviceId = (data.device as { id?: string } | undefined)?.id ?? '';
+    const pairing = this.pendingPairings.get(deviceId);
+    const auth = data.auth as { auth_timestamp?: number; auth_signature?: string; pin?: string } | undefined;
+    if (!pairing) {
+      return ok({ error_id: 'INVALID_DEVICE', error_text: 'No pairing in progress' });
+    }
+    if (auth?.pin !== this.pin || auth.auth_signature !== hmacSignature(String(pairing.timestamp), this.pin)) {
+      return ok({ error_id: 'INVALID_PIN', error_text: 'Invalid pin' });
+    }
+    this.pendingPairings.delete(deviceId);
+    this.credentials.set(deviceId, pairing.authKey);
+    return ok({ error_id: 'SUCCESS', error_text: 'Pairing completed' });
+  }
+
+  // ==========================================================================
+  // NOTIFY CHANGE
+  // ==========================================================================
+
+  /** Current value of each resource `/notifychange` reports. */
+  private resources(): Record<string, unknown> {
+    const state = this.current;
+    return {
+      'powerstate': { powerstate: state.power },
+      'screenstate': { screenstate: state.screen },
+      'audio/volume': state.volume,
+      'activities/current': { component: state.activity },
+      'activities/tv': state.channel ? { channel: { ccid: state.channel.ccid, preset: state.channel.preset, name: state.channel.name }, channelList: { id: state.channel.listId } } : {},
+      'ambilight/power': { power: state.ambilight.power },
+      'ambilight/currentconfiguration': state.ambilight.configuration,
+      'input/onscreenkeyboard/visible': { visible: state.keyboardVisible },
+    };
+  }
+
+  /** Run `change`, then record and push every resource whose value changed. */
+  private mutate(change: () => void): void {
+    const before = this.resources();
+    change();
+    const after = this.resources();
+
+    const changed = Object.keys(after).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+    if (changed.length === 0) {
+      return;
+    }
+    this.version++;
+    for (const key of changed) {
+      this.changedAt.set(key, this.version);
+    }
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      this.answerOrWait(waiter);
+    }
+  }
+
+  private longPoll(username: string, body: unknown): Promise<Reply> {
+    const subscribed = Object.keys((body as { notification?: Record<string, unknown> } | null)?.notification ?? {});
+    if (!this.deliveredTo.has(username)) {
+      this.deliveredTo.set(username, this.version);
+    }
+
+    return new Promise((resolve) => {
+      const waiter: LongPollWaiter = {
+        username,
+        resources: new Set(subscribed),
+        respond: changes => resolve(ok(changes)),
+      };
+      waiter.expiry = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        this.deliveredTo.set(username, this.version);
+        resolve(ok({}));
+      }, this.options.longPollHoldMs ?? DEFAULT_LONG_POLL_HOLD_MS);
+      this.answerOrWait(waiter);
+    });
+  }
+
+  /** Answer with the subscribed resources that changed since the user's last answer, or keep waiting. */
+  private answerOrWait(waiter: LongPollWaiter): void {
+    const since = this.deliveredTo.get(waiter.username) ?? this.version;
+    const current = this.resources();
+    const changes = Object.fromEntries([...waiter.resources]
+      .filter(key => (this.changedAt.get(key) ?? 0) > since)
+      .map(key => [key, current[key]]));
+
+    if (Object.keys(changes).length === 0) {
+      this.waiters.push(waiter);
+      return;
+    }
+    clearTimeout(waiter.expiry);
+    this.deliveredTo.set(waiter.username, this.version);
+    waiter.respond(changes);
+  }
+}
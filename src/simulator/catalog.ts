@@ -0,0 +1,120 @@
+/**
+ * What the simulated TV has installed and tuned: apps, sources, channels,
+ * menu settings. Modelled on a 2022 OLED on firmware with API version 6.
+ */
+
+import { HDMI_SOURCES, WATCH_TV_URI } from '../api/PhilipsTVClient.js';
+import type {
+  AmbilightTopology,
+  MenuStructure,
+  SystemInfo,
+  TVApplication,
+  TVChannel,
+  TVFavoriteList,
+  TVSource,
+} from '../api/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The simulated TV's static content; every field can be replaced per simulator */
+export interface SimulatorCatalog {
+  readonly system: SystemInfo;
+  readonly applications: readonly TVApplication[];
+  readonly sources: readonly TVSource[];
+  /** Channels per channel list id (`allcab`, `allter`, `allsat`) */
+  readonly channelLists: Readonly<Record<string, readonly TVChannel[]>>;
+  /** Favourite lists with the ccids they contain, in order */
+  readonly favoriteLists: ReadonlyArray<TVFavoriteList & { readonly ccids: readonly number[] }>;
+  readonly topology: AmbilightTopology;
+  /** Menu setting node ids by context, as listed in `/menuitems/settings/structure` */
+  readonly menuNodes: Readonly<Record<string, number>>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Package the tuner, HDMI inputs and the channel list run in */
+export const TUNER_PACKAGE = 'org.droidtv.playtv';
+export const TUNER_CLASS = 'org.droidtv.playtv.PlayTvActivity';
+
+/** What `/activities/current` reports on the home screen */
+export const HOME_PACKAGE = 'NA';
+
+const app = (label: string, packageName: string, className: string): TVApplication => ({
+  id: `${packageName}-${className}`,
+  label,
+  intent: { component: { packageName, className }, action: 'android.intent.action.MAIN' },
+  type: 'app',
+});
+
+const channel = (ccid: number, preset: string, name: string): TVChannel => ({ ccid, preset, name });
+
+// Node ids differ from the client's fallbacks, so the structure lookup is what makes settings work
+export const DEFAULT_CATALOG: SimulatorCatalog = {
+  system: {
+    name: 'Simulated TV',
+    country: 'Netherlands',
+    model: '55OLED807/12',
+    serialnumber: 'SIM0000001',
+    softwareversion: 'TPM221E_R.101.001.234.001',
+    api_version: { Major: 6, Minor: 2, Patch: 0 },
+  },
+  applications: [
+    app('Netflix', 'com.netflix.ninja', 'com.netflix.ninja.MainActivity'),
+    app('YouTube', 'com.google.android.youtube.tv', 'com.google.android.apps.youtube.tv.activity.ShellActivity'),
+    app('Disney+', 'com.disney.disneyplus', 'com.bamtechmedia.dominguez.main.MainActivity'),
+    app('Spotify', 'com.spotify.tv.android', 'com.spotify.tv.android.SpotifyTVActivity'),
+  ],
+  sources: [
+    { id: WATCH_TV_URI, name: 'Watch TV' },
+    ...Object.entries(HDMI_SOURCES).map(([id, name]) => ({ id, name })),
+  ],
+  channelLists: {
+    allcab: [
+      channel(101, '1', 'NPO 1 HD'),
+      channel(102, '2', 'NPO 2 HD'),
+      channel(103, '3', 'NPO 3 HD'),
+      channel(104, '4', 'RTL 4 HD'),
+      channel(105, '5', 'RTL 5 HD'),
+    ],
+  },
+  favoriteLists: [
+    { id: '1', name: 'Favourites', parentId: 'allcab', version: 1, ccids: [104, 101] },
+  ],
+  topology: { layers: 1, left: 4, top: 9, right: 4, bottom: 0 },
+  menuNodes: {
+    ambilight_brightness: 2131230800,
+    ambilight_saturation: 2131230801,
+  },
+};
+
+/** `/menuitems/settings/structure` for the catalog's menu nodes. */
+export function menuStructure(catalog: SimulatorCatalog): MenuStructure {
+  return {
+    version: 1,
+    node: {
+      node_id: 2131230720,
+      type: 'PARENT_NODE',
+      string_id: 'org.droidtv.ui.strings.R.string.MAIN_SETTINGS',
+      data: {
+        nodes: [{
+          node_id: 2131230760,
+          type: 'PARENT_NODE',
+          string_id: 'org.droidtv.ui.strings.R.string.MAIN_AMBILIGHT',
+          context: 'ambilight',
+          data: {
+            nodes: Object.entries(catalog.menuNodes).map(([context, nodeId]) => ({
+              node_id: nodeId,
+              type: 'SLIDER',
+              context,
+              data: { slider_data: { min: 0, max: 10, step_size: 1 } },
+            })),
+          },
+        }],
+      },
+    },
+  };
+}
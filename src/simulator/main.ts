@@ -0,0 +1,44 @@
+/**
+ * Runs the TV simulator on this machine, for trying the plugin, the CLI or
+ * the custom UI without a TV: `npm run simulator -- --latency 200`.
+ */
+
+import { parseArgs } from 'node:util';
+
+import { PLATFORM_NAME } from '../settings.js';
+import { TVSimulator } from './TVSimulator.js';
+
+const { values } = parseArgs({
+  options: {
+    host: { type: 'string', default: '127.0.0.1' },
+    pin: { type: 'string', default: '1234' },
+    username: { type: 'string', default: 'simulator' },
+    password: { type: 'string', default: 'simulator' },
+    latency: { type: 'string', default: '0' },
+    verbose: { type: 'boolean', short: 'v', default: false },
+  },
+});
+
+const simulator = new TVSimulator({
+  host: values.host,
+  pin: values.pin,
+  credentials: [{ username: values.username, password: values.password }],
+  onRequest: values.verbose
+    ? ({ method, endpoint, status }) => process.stdout.write(`${status || 'dropped'} ${method} ${endpoint}\n`)
+    : undefined,
+});
+simulator.faults.latencyMs = Number(values.latency) || 0;
+
+await simulator.start();
+
+const device = { name: 'Simulated TV', ip: values.host, mac: '00:00:00:00:00:00', username: values.username, password: values.password, wakeOnLanEnabled: false };
+process.stdout.write([
+  `Simulated TV listening on ${values.host} (HTTPS 1926, HTTP 1925). Pairing PIN: ${values.pin}`,
+  'Add it to the Homebridge config:',
+  JSON.stringify({ platform: PLATFORM_NAME, devices: [device] }, null, 2),
+  '',
+].join('\n'));
+
+process.once('SIGINT', () => {
+  void simulator.stop().then(() => process.exit(0));
+});
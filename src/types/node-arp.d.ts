@@ -0,0 +1,10 @@
+/**
+ * Minimal typings for `node-arp` (ships without declarations).
+ * The callback's first argument is `true` on failure, `false` on success.
+ */
+declare module 'node-arp' {
+  export function getMAC(ip: string, callback: (error: boolean, mac: string) => void): void;
+
+  const arp: { getMAC: typeof getMAC };
+  export default arp;
+}
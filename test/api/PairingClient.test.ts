@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MAX_PIN_ATTEMPTS, PAIRING_SESSION_TTL_MS, PairingClient } from '../../src/api/PairingClient.js';
+import type * as UtilsModule from '../../src/api/utils.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+vi.mock('../../src/api/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof UtilsModule>();
+  return { ...actual, postToTv: vi.fn() };
+});
+
+import { hmacSignature, postToTv } from '../../src/api/utils.js';
+
+const mockPost = vi.mocked(postToTv);
+
+function mockResponse(body: unknown, status = 200, headers: Record<string, string> = {}): ReturnType<typeof postToTv> {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    text: () => Promise.resolve(body ? JSON.stringify(body) : ''),
+    json: () => Promise.resolve(body),
+  } as Awaited<ReturnType<typeof postToTv>>);
+}
+
+const IP = '192.168.1.100';
+const DIGEST_CHALLENGE = { 'www-authenticate': 'Digest realm="XTV", nonce="abc", qop="auth"' };
+
+/** Answer the pair request with an auth key, then the grants in order */
+function mockPairing(...grants: ReturnType<typeof postToTv>[]) {
+  mockPost.mockReturnValueOnce(mockResponse({ auth_key: 'secret-key', timestamp: 1234567 }));
+  for (const grant of grants) {
+    mockPost.mockReturnValueOnce(grant);
+  }
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('PairingClient', () => {
+  let client: PairingClient;
+
+  beforeEach(() => {
+    client = new PairingClient();
+    mockPost.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('request', () => {
+    it('should open a session with the auth key and timestamp', async () => {
+      mockPairing();
+
+      const result = await client.request(IP, 'Living Room');
+
+      expect(result).toMatchObject({ success: true, auth_key: 'secret-key', timestamp: 1234567 });
+      expect(client.hasSession(IP)).toBe(true);
+      const body = mockPost.mock.calls[0][2] as { access: { scope: string[] }; device: { device_name: string } };
+      expect(mockPost.mock.calls[0][1]).toBe('/pair/request');
+      expect(body.access.scope).toEqual(['read', 'write', 'control']);
+      expect(body.device.device_name).toBe('Living Room');
+    });
+
+    it('should report an unreachable TV', async () => {
+      mockPost.mockRejectedValueOnce(new Error('connect ETIMEDOUT'));
+
+      const result = await client.request(IP);
+
+      expect(result).toEqual({ success: false, code: 'unreachable', error: `Cannot reach TV at ${IP}: connect ETIMEDOUT` });
+      expect(client.hasSession(IP)).toBe(false);
+    });
+
+    it('should report a rejected request with the TV\'s reason', async () => {
+      mockPost.mockReturnValueOnce(mockResponse({ error_id: 'CONCURRENT_PAIRING' }));
+
+      const result = await client.request(IP);
+
+      expect(result).toMatchObject({ success: false, code: 'rejected', error: 'Pairing failed: CONCURRENT_PAIRING' });
+    });
+  });
+
+  describe('grant', () => {
+    it('should return the credentials when the TV accepts the PIN', async () => {
+      mockPairing(mockResponse({ error_id: 'SUCCESS' }));
+      const { timestamp } = await client.request(IP);
+
+      const result = await client.grant(IP, '1234');
+
+      expect(result).toMatchObject({ success: true, password: 'secret-key' });
+      expect(result.username).toMatch(/^[0-9a-f]{16}$/);
+      expect(mockPost.mock.calls[1][2]).toMatchObject({
+        auth: { auth_timestamp: timestamp, auth_signature: hmacSignature(String(timestamp), '1234'), pin: '1234' },
+      });
+      expect(client.hasSession(IP)).toBe(false);
+    });
+
+    it('should answer a digest challenge signed with the auth key', async () => {
+      mockPairing(mockResponse(null, 401, DIGEST_CHALLENGE), mockResponse({ error_id: 'SUCCESS' }));
+      await client.request(IP);
+
+      const result = await client.grant(IP, '1234');
+
+      expect(result.success).toBe(true);
+      const retry = mockPost.mock.calls[2][3] as { headers: Record<string, string> };
+      expect(retry.headers.Authorization).toMatch(/^Digest username="[0-9a-f]{16}", realm="XTV".*uri="\/6\/pair\/grant"/);
+    });
+
+    it('should allow another attempt after a wrong PIN', async () => {
+      mockPairing(
+        mockResponse(null, 401, DIGEST_CHALLENGE),
+        mockResponse(null, 401),
+        mockResponse({ error_id: 'SUCCESS' }),
+      );
+      await client.request(IP);
+
+      const wrong = await client.grant(IP, '0000');
+      expect(wrong).toMatchObject({ success: false, code: 'invalid-pin', attemptsLeft: MAX_PIN_ATTEMPTS - 1 });
+      expect(client.hasSession(IP)).toBe(true);
+
+      expect((await client.grant(IP, '1234')).success).toBe(true);
+    });
+
+    it('should end the session after too many wrong PINs', async () => {
+      mockPairing(...Array.from({ length: MAX_PIN_ATTEMPTS }, () => mockResponse({ error_id: 'INVALID_PIN' })));
+      await client.request(IP);
+
+      const results = [];
+      for (let i = 0; i < MAX_PIN_ATTEMPTS; i++) {
+        results.push(await client.grant(IP, '0000'));
+      }
+
+      expect(results.at(-1)).toMatchObject({ success: false, code: 'too-many-attempts' });
+      expect(client.hasSession(IP)).toBe(false);
+      expect(await client.grant(IP, '1234')).toMatchObject({ code: 'no-session' });
+    });
+
+    it('should refuse a PIN once the session expired', async () => {
+      vi.useFakeTimers();
+      mockPairing();
+      await client.request(IP);
+
+      vi.advanceTimersByTime(PAIRING_SESSION_TTL_MS);
+      const result = await client.grant(IP, '1234');
+
+      expect(result).toMatchObject({ success: false, code: 'session-expired' });
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the session when the TV can\'t be reached', async () => {
+      mockPairing();
+      mockPost.mockRejectedValueOnce(new Error('socket hang up'));
+      await client.request(IP);
+
+      const result = await client.grant(IP, '1234');
+
+      expect(result).toMatchObject({ success: false, code: 'unreachable' });
+      expect(client.hasSession(IP)).toBe(true);
+    });
+
+    it('should report no session for a TV that was never asked', async () => {
+      expect(await client.grant(IP, '1234')).toMatchObject({ success: false, code: 'no-session' });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { PhilipsTVClient } from '../../src/api/PhilipsTVClient.js';
+import { AUTH_RETRY_INTERVAL_MS, MENU_STRUCTURE_RETRY_INTERVAL_MS, PhilipsTVClient } from '../../src/api/PhilipsTVClient.js';
 import type * as UtilsModule from '../../src/api/utils.js';
 
 // ============================================================================
@@ -100,7 +100,46 @@ describe('PhilipsTVClient', () => {
       await vi.runAllTimersAsync();
       await promise;
 
-      expect(mockWol).toHaveBeenCalledWith('AA:BB:CC:DD:EE:FF');
+      expect(mockWol).toHaveBeenCalledWith('AA:BB:CC:DD:EE:FF', expect.objectContaining({ unicastAddress: undefined }));
+    });
+
+    it('should pass the configured Wake-on-LAN target, unicasting to the TV IP when asked', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+      client = new PhilipsTVClient({
+        ...TEST_CONFIG,
+        wakeOnLan: { broadcastAddress: '192.168.1.255', port: 7, interface: 'eth1', unicast: true },
+      });
+
+      const promise = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(mockWol).toHaveBeenCalledWith('AA:BB:CC:DD:EE:FF', {
+        broadcastAddress: '192.168.1.255',
+        port: 7,
+        interface: 'eth1',
+        unicastAddress: '192.168.1.100',
+      });
+    });
+
+    it('should not send WOL packet when Wake-on-LAN is disabled', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+      client = new PhilipsTVClient({ ...TEST_CONFIG, wakeOnLanEnabled: false });
+
+      const promise = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(mockWol).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    it('should not wake the TV on request when Wake-on-LAN is disabled', async () => {
+      client = new PhilipsTVClient({ ...TEST_CONFIG, wakeOnLanEnabled: false });
+
+      await client.wakeUp();
+
+      expect(mockWol).not.toHaveBeenCalled();
     });
 
     it('should not send WOL packet when turning off', async () => {
@@ -139,6 +178,62 @@ describe('PhilipsTVClient', () => {
       expect(result).toBe(false);
     });
 
+    it('should wait for a deep-standby TV to come up, then confirm it reads On', async () => {
+      let systemChecks = 0;
+      let powerReads = 0;
+      mockFetch.mockImplementation((url) => {
+        if (String(url).endsWith('/system')) {
+          // API down for the first two checks while the TV boots
+          return ++systemChecks <= 2 ? Promise.reject(new Error('EHOSTUNREACH')) : mockResponse({ name: 'TV' });
+        }
+        if (String(url).endsWith('/powerstate')) {
+          return mockResponse({ powerstate: ++powerReads <= 2 ? 'Standby' : 'On' });
+        }
+        return mockResponse({});
+      });
+
+      const promise = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(systemChecks).toBe(3);
+      // WoL repeated while the API was down
+      expect(mockWol).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/powerstate'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ powerstate: 'On' }) }),
+        expect.any(Number),
+      );
+    });
+
+    it('should give up when the TV never reports On', async () => {
+      mockFetch.mockImplementation((url) =>
+        mockResponse(String(url).endsWith('/powerstate') ? { powerstate: 'Standby' } : { name: 'TV' }));
+
+      const promise = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(false);
+    });
+
+    it('should abandon a power-on that a power-off superseded', async () => {
+      mockFetch.mockImplementation((url) =>
+        String(url).endsWith('/system') ? Promise.reject(new Error('EHOSTUNREACH')) : mockResponse({}));
+
+      const on = client.setPowerState(true);
+      await vi.advanceTimersByTimeAsync(1500);
+      const off = client.setPowerState(false);
+      await vi.runAllTimersAsync();
+
+      expect(await on).toBe(false);
+      expect(await off).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('/powerstate'),
+        expect.objectContaining({ body: JSON.stringify({ powerstate: 'On' }) }),
+        expect.any(Number),
+      );
+    });
+
     it('should POST correct powerstate body', async () => {
       mockFetch.mockReturnValue(mockResponse({}));
 
@@ -157,6 +252,101 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  // ==========================================================================
+  // SCREEN
+  // ==========================================================================
+
+  describe('screen state', () => {
+    it('should read the screen state', async () => {
+      mockFetch.mockReturnValue(mockResponse({ screenstate: 'Off' }));
+
+      const promise = client.getScreenState();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(false);
+    });
+
+    it('should return null when the TV does not report a screen state', async () => {
+      mockFetch.mockReturnValue(mockResponse(null, 404));
+
+      const promise = client.getScreenState();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBeNull();
+    });
+
+    it('should POST the screen state', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+
+      const promise = client.setScreenState(false);
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/screenstate'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ screenstate: 'Off' }) }),
+        expect.any(Number),
+      );
+    });
+  });
+
+  // ==========================================================================
+  // AURORA
+  // ==========================================================================
+
+  describe('aurora', () => {
+    it('should read whether Aurora is showing', async () => {
+      mockFetch.mockReturnValue(mockResponse({ isopen: true }));
+
+      const promise = client.getAuroraOpen();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/aurora/settings/isopen'), expect.anything(), expect.any(Number));
+    });
+
+    it('should report TVs without Aurora as unsupported', async () => {
+      mockFetch.mockReturnValue(mockResponse(null, 404));
+
+      const promise = client.getAuroraOpen();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe('unsupported');
+    });
+
+    it('should return null when the TV does not answer', async () => {
+      mockFetch.mockRejectedValue(new Error('timeout'));
+
+      const promise = client.getAuroraOpen();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBeNull();
+    });
+
+    it('should start Aurora with a gallery in one update', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+
+      const promise = client.setAuroraOpen(true, 'nature');
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/aurora/settings/update'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ isopen: true, galleryId: 'nature' }) }),
+        expect.any(Number),
+      );
+    });
+
+    it('should list gallery items', async () => {
+      mockFetch.mockReturnValue(mockResponse({ gallery: [{ id: 'nature', name: 'Nature' }] }));
+
+      const promise = client.getAuroraGallery();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual([{ id: 'nature', name: 'Nature' }]);
+    });
+  });
+
   // ==========================================================================
   // VOLUME
   // ==========================================================================
@@ -226,6 +416,106 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  describe('text entry', () => {
+    it('should POST text to the focused field', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+
+      const promise = client.sendText('stranger things');
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/input/textentry'),
+        expect.objectContaining({ body: JSON.stringify({ textentry: 'stranger things' }) }),
+        expect.any(Number),
+      );
+    });
+
+    it('should not send empty text', async () => {
+      expect(await client.sendText('')).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should read the on-screen keyboard visibility', async () => {
+      mockFetch.mockReturnValue(mockResponse({ visible: true }));
+
+      const promise = client.getKeyboardVisible();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      expect(mockFetch.mock.calls[0][0]).toContain('/input/onscreenkeyboard/visible');
+    });
+  });
+
+  describe('sendChannelNumber', () => {
+    it('should send each digit, then Confirm', async () => {
+      mockFetch.mockReturnValue(mockResponse({}));
+
+      const promise = client.sendChannelNumber('105');
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(true);
+      const keys = mockFetch.mock.calls.map(([, init]) => JSON.parse(String(init?.body)).key);
+      expect(keys).toEqual(['Digit1', 'Digit0', 'Digit5', 'Confirm']);
+    });
+
+    it('should reject anything but 1-4 digits without contacting the TV', async () => {
+      expect(await client.sendChannelNumber('12a')).toBe(false);
+      expect(await client.sendChannelNumber('12345')).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // CHANNELS
+  // ==========================================================================
+
+  describe('getFavoriteChannels', () => {
+    it('should resolve favourite ccids to named channels of the parent list', async () => {
+      mockFetch.mockImplementation((url) => {
+        const path = String(url);
+        if (path.endsWith('/channeldb/tv/favoriteLists/1')) {
+          return mockResponse({ id: '1', parentId: 'allsat', channels: [{ ccid: 30, preset: '1' }, { ccid: 99, preset: '2' }, { ccid: 10, preset: '3' }] });
+        }
+        if (path.endsWith('/channelLists/allcab')) {
+          return mockResponse({ Channel: [{ ccid: 10, name: 'BBC One', preset: '1' }] });
+        }
+        if (path.endsWith('/channelLists/allsat')) {
+          return mockResponse({ Channel: [{ ccid: 10, name: 'BBC One HD', preset: '101' }, { ccid: 30, name: 'Arte', preset: '130' }] });
+        }
+        return mockResponse(null, 404);
+      });
+
+      const promise = client.getFavoriteChannels('1');
+      await vi.runAllTimersAsync();
+
+      // ccid 99 has no channel any more and is dropped
+      expect(await promise).toEqual([
+        { ccid: 30, name: 'Arte', preset: '1', channelListId: 'allsat' },
+        { ccid: 10, name: 'BBC One HD', preset: '3', channelListId: 'allsat' },
+      ]);
+    });
+
+    it('should list the favourite lists from the channel database', async () => {
+      mockFetch.mockReturnValue(mockResponse({ favoriteLists: [{ id: '1', name: 'Favourites 1', parentId: 'allcab' }] }));
+
+      const promise = client.getFavoriteLists();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual([{ id: '1', name: 'Favourites 1', parentId: 'allcab' }]);
+    });
+
+    it('should read the tuned channel from the current activity', async () => {
+      mockFetch.mockReturnValue(mockResponse({ channel: { ccid: 10, preset: '101', name: 'BBC One HD' }, channelList: { id: 'allsat' } }));
+
+      const promise = client.getCurrentChannel();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toEqual({ ccid: 10, name: 'BBC One HD', preset: '101', channelListId: 'allsat' });
+      expect(mockFetch.mock.calls[0][0]).toContain('/activities/tv');
+    });
+  });
+
   // ==========================================================================
   // AMBILIGHT
   // ==========================================================================
@@ -357,6 +647,160 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  describe('setAmbilightSides', () => {
+    it('should switch to manual mode and write every pixel from the topology', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith('/ambilight/topology')
+          ? mockResponse({ layers: 1, left: 2, top: 1, right: 2, bottom: 0 })
+          : mockResponse({}));
+
+      const promise = client.setAmbilightSides({ left: { r: 255, g: 0, b: 0 } });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result).toBe(true);
+      const posts = mockFetch.mock.calls.filter(([, init]) => init.method === 'POST');
+      expect(posts.map(([url]) => String(url).replace(/^.*\/6/, ''))).toEqual(['/ambilight/mode', '/ambilight/cached']);
+      expect(JSON.parse(String(posts[0][1].body))).toEqual({ current: 'manual' });
+      expect(JSON.parse(String(posts[1][1].body))).toEqual({
+        layer1: { left: { 0: { r: 255, g: 0, b: 0 }, 1: { r: 255, g: 0, b: 0 } } },
+      });
+    });
+
+    it('should not write pixels when manual mode is rejected', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith('/ambilight/mode') ? mockResponse(null, 500) : mockResponse({}));
+
+      const promise = client.setAmbilightSides({ top: { r: 0, g: 0, b: 255 } });
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result).toBe(false);
+      expect(mockFetch.mock.calls.some(([url]) => String(url).endsWith('/ambilight/cached'))).toBe(false);
+    });
+  });
+
+  describe('menu node resolution', () => {
+    const STRUCTURE = {
+      node: {
+        node_id: 1,
+        data: {
+          nodes: [
+            { node_id: 2131230900, context: 'ambilight_brightness' },
+            { node_id: 2131230901, context: 'ambilight_saturation' },
+          ],
+        },
+      },
+    };
+
+    function respondWith(structure: unknown) {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith('/menuitems/settings/structure') ? mockResponse(structure) : mockResponse({}));
+    }
+
+    function updatedNodeIds(): unknown[] {
+      return mockFetch.mock.calls
+        .filter(([url]) => String(url).endsWith('/menuitems/settings/update'))
+        .map(([, init]) => JSON.parse(String(init.body)).values[0].value.Nodeid);
+    }
+
+    it('should use the node IDs reported by the TV', async () => {
+      respondWith(STRUCTURE);
+
+      const promise = Promise.all([client.setAmbilightBrightness(5), client.setAmbilightSaturation(5)]);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(updatedNodeIds()).toEqual([2131230900, 2131230901]);
+    });
+
+    it('should fetch the menu structure only once', async () => {
+      respondWith(STRUCTURE);
+
+      let promise: Promise<unknown> = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+      promise = client.setAmbilightBrightness(6);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      const structureCalls = mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/menuitems/settings/structure'));
+      expect(structureCalls).toHaveLength(1);
+    });
+
+    it('should fall back to the known node IDs when the structure has no match', async () => {
+      respondWith({ node: { node_id: 1 } });
+
+      const promise = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(updatedNodeIds()).toEqual([2131230769]);
+    });
+
+    it('should retry resolution only a while after a failed structure fetch', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith('/menuitems/settings/structure') ? mockResponse(null, 500) : mockResponse({}));
+
+      let promise: Promise<unknown> = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+      expect(updatedNodeIds()).toEqual([2131230769]);
+
+      respondWith(STRUCTURE);
+      promise = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+      expect(updatedNodeIds()).toEqual([2131230769, 2131230769]);
+
+      vi.advanceTimersByTime(MENU_STRUCTURE_RETRY_INTERVAL_MS);
+      promise = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(updatedNodeIds()).toEqual([2131230769, 2131230769, 2131230900]);
+    });
+
+    it('should retry resolution after a power-on', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith('/menuitems/settings/structure') ? mockResponse(null, 500) : mockResponse({}));
+
+      let promise: Promise<unknown> = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      mockFetch.mockImplementation((url: string) =>
+        mockResponse(url.endsWith('/menuitems/settings/structure') ? STRUCTURE : { powerstate: 'On' }));
+      promise = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+      await expect(promise).resolves.toBe(true);
+      promise = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(updatedNodeIds()).toEqual([2131230769, 2131230900]);
+    });
+
+    it('should read the current brightness by resolved node ID', async () => {
+      mockFetch.mockImplementation((url: string) => {
+        if (url.endsWith('/menuitems/settings/structure')) {
+          return mockResponse(STRUCTURE);
+        }
+        return mockResponse({ values: [{ value: { Nodeid: 2131230900, data: { value: 7 } } }] });
+      });
+
+      const promise = client.getAmbilightBrightness();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe(7);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/menuitems/settings/current'),
+        expect.objectContaining({ body: JSON.stringify({ nodes: [{ nodeid: 2131230900 }] }) }),
+        expect.any(Number),
+      );
+    });
+  });
+
   // ==========================================================================
   // DIGEST AUTH
   // ==========================================================================
@@ -480,6 +924,58 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  // ==========================================================================
+  // REJECTED CREDENTIALS
+  // ==========================================================================
+
+  describe('rejected credentials', () => {
+    const challenge = () => mockResponse(null, 401, {
+      'www-authenticate': 'Digest realm="tv", nonce="abc123", qop="auth"',
+    });
+
+    it('should flag credentials rejected after a fresh challenge', async () => {
+      mockFetch.mockReturnValueOnce(challenge()).mockReturnValueOnce(mockResponse(null, 401));
+
+      const promise = client.checkCredentials();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe('unauthorized');
+      expect(client.isUnauthorized).toBe(true);
+      expect(client.consecutiveFailures).toBe(0);
+    });
+
+    it('should not send requests until the retry interval has passed', async () => {
+      mockFetch.mockReturnValueOnce(challenge()).mockReturnValueOnce(mockResponse(null, 401));
+      const first = client.getPowerState();
+      await vi.runAllTimersAsync();
+      await first;
+      mockFetch.mockClear();
+
+      const skipped = client.getVolume();
+      await vi.runAllTimersAsync();
+      expect(await skipped).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(AUTH_RETRY_INTERVAL_MS);
+      mockFetch.mockReturnValueOnce(challenge()).mockReturnValueOnce(mockResponse({ powerstate: 'On' }));
+      const probe = client.checkCredentials();
+      await vi.runAllTimersAsync();
+
+      expect(await probe).toBe('authorized');
+      expect(client.isUnauthorized).toBe(false);
+    });
+
+    it('should tell an unreachable TV apart from rejected credentials', async () => {
+      mockFetch.mockRejectedValue(new Error('ETIMEDOUT'));
+
+      const promise = client.checkCredentials();
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe('unreachable');
+      expect(client.isUnauthorized).toBe(false);
+    });
+  });
+
   // ==========================================================================
   // REQUEST SERIALIZATION
   // ==========================================================================
@@ -520,6 +1016,168 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  // ==========================================================================
+  // REQUEST QUEUE
+  // ==========================================================================
+
+  describe('request queue', () => {
+    const sentRequests = () => mockFetch.mock.calls.map(([url, init]) => `${init.method} ${new URL(url as string).pathname}`);
+    const sentBodies = (endpoint: string) => mockFetch.mock.calls
+      .filter(([url]) => String(url).endsWith(endpoint))
+      .map(([, init]) => JSON.parse(String(init.body)));
+
+    beforeEach(() => {
+      mockFetch.mockReturnValue(mockResponse({ powerstate: 'On' }));
+    });
+
+    it('should send user actions ahead of queued background reads', async () => {
+      const requests = [client.getPowerState(), client.getVolume(), client.getAmbilightPower(), client.sendKey('Home')];
+      await vi.runAllTimersAsync();
+      await Promise.all(requests);
+
+      expect(sentRequests()).toEqual([
+        'GET /6/powerstate',
+        'POST /6/input/key',
+        'GET /6/audio/volume',
+        'GET /6/ambilight/power',
+      ]);
+    });
+
+    it('should coalesce pending writes to the same setter, last write wins', async () => {
+      const inFlight = client.getPowerState();
+      const writes = [0, 120, 240].map(hue => client.setAmbilightFollowColor({ hue, saturation: 255, brightness: 255 }));
+      await vi.runAllTimersAsync();
+      await inFlight;
+
+      expect(await Promise.all(writes)).toEqual([true, true, true]);
+      expect(sentBodies('/ambilight/currentconfiguration').map(body => body.colorSettings.color.hue)).toEqual([240]);
+      expect(client.queueStats.coalesced).toBe(2);
+    });
+
+    it('should keep a coalesced write in its queue position and age', async () => {
+      const inFlight = client.getPowerState();
+      const first = client.setAmbilightFollowColor({ hue: 0, saturation: 255, brightness: 255 });
+      const key = client.sendKey('Home');
+      await vi.advanceTimersByTimeAsync(50);
+      const second = client.setAmbilightFollowColor({ hue: 240, saturation: 255, brightness: 255 });
+      await vi.runAllTimersAsync();
+      await Promise.all([inFlight, first, key, second]);
+
+      expect(sentRequests()).toEqual(['GET /6/powerstate', 'POST /6/ambilight/currentconfiguration', 'POST /6/input/key']);
+      expect(sentBodies('/ambilight/currentconfiguration')[0].colorSettings.color.hue).toBe(240);
+    });
+
+    it('should not restart the queue timeout of a write when a newer one replaces it', async () => {
+      mockFetch.mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve(mockResponse({ powerstate: 'On' })), 7_950)));
+      const slow = client.getPowerState();
+      const first = client.setAmbilightFollowColor({ hue: 0, saturation: 255, brightness: 255 });
+      await vi.advanceTimersByTimeAsync(7_900);
+      const second = client.setAmbilightFollowColor({ hue: 240, saturation: 255, brightness: 255 });
+      await vi.runAllTimersAsync();
+      await slow;
+
+      expect(await Promise.all([first, second])).toEqual([false, false]);
+      expect(sentBodies('/ambilight/currentconfiguration')).toHaveLength(0);
+      expect(client.queueStats.dropped).toBe(2);
+    });
+
+    it('should keep writes to different settings of a shared endpoint apart', async () => {
+      const inFlight = client.getPowerState();
+      const writes = [client.setVolume(20), client.setMuted(true), client.setVolume(25)];
+      await vi.runAllTimersAsync();
+      await Promise.all([inFlight, ...writes]);
+
+      expect(sentBodies('/audio/volume')).toEqual([{ current: 25, muted: false }, { muted: true }]);
+    });
+
+    it('should not coalesce remote keys', async () => {
+      const inFlight = client.getPowerState();
+      const keys = [client.sendKey('VolumeUp'), client.sendKey('VolumeUp')];
+      await vi.runAllTimersAsync();
+      await Promise.all([inFlight, ...keys]);
+
+      expect(sentBodies('/input/key')).toHaveLength(2);
+    });
+
+    it('should answer identical reads with one request', async () => {
+      const first = client.getPowerState();
+      const queued = [client.getVolume(), client.getVolume()];
+      const joined = client.getPowerState();
+      await vi.runAllTimersAsync();
+
+      expect(await first).toBe(true);
+      expect(await joined).toBe(true);
+      await Promise.all(queued);
+      expect(sentRequests()).toEqual(['GET /6/powerstate', 'GET /6/audio/volume']);
+      expect(client.queueStats.deduplicated).toBe(2);
+    });
+
+    it('should send the reads of a power-on ahead of background polling', async () => {
+      const polls = [client.getPowerState(), client.getVolume(), client.getAmbilightPower()];
+      const powerOn = client.setPowerState(true);
+      await vi.runAllTimersAsync();
+      await Promise.all([...polls, powerOn]);
+
+      expect(sentRequests().slice(0, 4)).toEqual(['GET /6/powerstate', 'GET /6/system', 'POST /6/powerstate', 'GET /6/powerstate']);
+    });
+
+    it('should keep menu setting reads in the background lane', async () => {
+      const structure = { node: { node_id: 1, data: { nodes: [{ node_id: 2131230900, context: 'ambilight_brightness' }] } } };
+      mockFetch.mockImplementation((url: string) =>
+        mockResponse(url.endsWith('/menuitems/settings/structure') ? structure : { powerstate: 'On' }));
+      let primed: Promise<unknown> = client.setAmbilightBrightness(5);
+      await vi.runAllTimersAsync();
+      await primed;
+      mockFetch.mockClear();
+
+      const inFlight = client.getPowerState();
+      const read = client.getAmbilightBrightness();
+      await vi.advanceTimersByTimeAsync(0);
+      primed = client.sendKey('Home');
+      await vi.runAllTimersAsync();
+      await Promise.all([inFlight, read, primed]);
+
+      expect(sentRequests()).toEqual(['GET /6/powerstate', 'POST /6/input/key', 'POST /6/menuitems/settings/current']);
+    });
+
+    it('should not join a read that may answer after the caller\'s timeout', async () => {
+      const inFlight = client.getPowerState();
+      const slow = client.getSources(5000);
+      const quick = client.getSources(1000);
+      await vi.runAllTimersAsync();
+      await Promise.all([inFlight, slow, quick]);
+
+      expect(sentRequests()).toEqual(['GET /6/powerstate', 'GET /6/sources', 'GET /6/sources']);
+      expect(client.queueStats.deduplicated).toBe(0);
+    });
+
+    it('should keep the queue deadline of a caller joining an older read', async () => {
+      mockFetch.mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve(mockResponse({ powerstate: 'On' })), 7_950)));
+      const slow = client.getPowerState();
+      const early = client.getVolume();
+      await vi.advanceTimersByTimeAsync(7_900);
+      const late = client.getVolume();
+      await vi.runAllTimersAsync();
+      await slow;
+
+      expect(await early).toBeNull();
+      expect(await late).not.toBeNull();
+      expect(sentRequests()).toEqual(['GET /6/powerstate', 'GET /6/audio/volume']);
+      expect(client.queueStats).toMatchObject({ deduplicated: 1, dropped: 1 });
+    });
+
+    it('should report queue depth and wait times', async () => {
+      const requests = [client.getPowerState(), client.getVolume(), client.getAmbilightPower()];
+      expect(client.queueStats.pending).toEqual({ user: 0, background: 2 });
+
+      await vi.runAllTimersAsync();
+      await Promise.all(requests);
+
+      expect(client.queueStats).toMatchObject({ pending: { user: 0, background: 0 }, peakDepth: 2, sent: 3, dropped: 0 });
+      expect(client.queueStats.maxWaitMs).toBeGreaterThanOrEqual(200);
+    });
+  });
+
   // ==========================================================================
   // SYSTEM
   // ==========================================================================
@@ -559,6 +1217,36 @@ describe('PhilipsTVClient', () => {
     });
   });
 
+  describe('connection', () => {
+    it('should count requests that get no response and reset on any HTTP response', async () => {
+      mockFetch.mockRejectedValue(new Error('connect EHOSTUNREACH'));
+
+      const failing = Promise.all([client.getPowerState(), client.getVolume()]);
+      await vi.runAllTimersAsync();
+      await failing;
+      expect(client.consecutiveFailures).toBe(2);
+
+      mockFetch.mockReset().mockReturnValue(mockResponse(null, 500));
+      const answered = client.getPowerState();
+      await vi.runAllTimersAsync();
+      await answered;
+      expect(client.consecutiveFailures).toBe(0);
+    });
+
+    it('should send requests to the new address after setIp', async () => {
+      mockFetch.mockReturnValue(mockResponse({ powerstate: 'On' }));
+
+      client.setIp('192.168.1.150');
+      const promise = client.getPowerState();
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(client.ip).toBe('192.168.1.150');
+      expect(mockFetch.mock.calls[0][0]).toContain('192.168.1.150');
+      expect(TEST_CONFIG.ip).toBe('192.168.1.100');
+    });
+  });
+
   // ==========================================================================
   // APPLICATIONS
   // ==========================================================================
@@ -16,7 +16,14 @@ import {
   createDigestAuth,
   parseErrorResponse,
   extractIpv4,
+  normalizeMac,
+  hsbToRgb,
+  buildAmbilightSidePixels,
+  mapMenuNodesByContext,
+  parseKeyboardVisible,
+  parseTVActivity,
   sendWakeOnLan,
+  subnetBroadcast,
   sanitizeForHomeKit,
   createDeviceInfo,
 } from '../../src/api/utils.js';
@@ -256,10 +263,160 @@ describe('extractIpv4', () => {
   });
 });
 
+// ============================================================================
+// normalizeMac
+// ============================================================================
+
+describe('normalizeMac', () => {
+  it('should lowercase and use colon separators', () => {
+    expect(normalizeMac('AA-BB-CC-DD-EE-FF')).toBe('aa:bb:cc:dd:ee:ff');
+  });
+
+  it('should pad unpadded octets', () => {
+    expect(normalizeMac('0:1a:2:3b:4:f')).toBe('00:1a:02:3b:04:0f');
+  });
+
+  it('should return null for anything else', () => {
+    expect(normalizeMac('(incomplete)')).toBeNull();
+    expect(normalizeMac('aa:bb:cc')).toBeNull();
+  });
+});
+
+// ============================================================================
+// hsbToRgb
+// ============================================================================
+
+describe('hsbToRgb', () => {
+  it('should convert primary and secondary hues at full saturation', () => {
+    expect(hsbToRgb(0, 100, 100)).toEqual({ r: 255, g: 0, b: 0 });
+    expect(hsbToRgb(120, 100, 100)).toEqual({ r: 0, g: 255, b: 0 });
+    expect(hsbToRgb(240, 100, 100)).toEqual({ r: 0, g: 0, b: 255 });
+    expect(hsbToRgb(60, 100, 100)).toEqual({ r: 255, g: 255, b: 0 });
+  });
+
+  it('should produce grey levels without saturation', () => {
+    expect(hsbToRgb(200, 0, 100)).toEqual({ r: 255, g: 255, b: 255 });
+    expect(hsbToRgb(200, 0, 50)).toEqual({ r: 128, g: 128, b: 128 });
+    expect(hsbToRgb(200, 80, 0)).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it('should wrap hue and clamp out-of-range values', () => {
+    expect(hsbToRgb(360, 100, 100)).toEqual({ r: 255, g: 0, b: 0 });
+    expect(hsbToRgb(-120, 150, 100)).toEqual({ r: 0, g: 0, b: 255 });
+  });
+});
+
+// ============================================================================
+// buildAmbilightSidePixels
+// ============================================================================
+
+describe('buildAmbilightSidePixels', () => {
+  const RED = { r: 255, g: 0, b: 0 };
+  const BLUE = { r: 0, g: 0, b: 255 };
+
+  it('should address every pixel of every layer from the topology', () => {
+    const data = buildAmbilightSidePixels(
+      { left: RED, top: BLUE },
+      { layers: 2, left: 2, top: 3, right: 2, bottom: 0 },
+    );
+
+    expect(Object.keys(data)).toEqual(['layer1', 'layer2']);
+    expect(data.layer1).toEqual({
+      left: { 0: RED, 1: RED },
+      top: { 0: BLUE, 1: BLUE, 2: BLUE },
+    });
+  });
+
+  it('should send side-level colors without a topology', () => {
+    expect(buildAmbilightSidePixels({ right: RED })).toEqual({ layer1: { right: RED } });
+  });
+});
+
+// ============================================================================
+// mapMenuNodesByContext
+// ============================================================================
+
+describe('mapMenuNodesByContext', () => {
+  it('should map nested nodes by their context string', () => {
+    const nodeIds = mapMenuNodesByContext({
+      node: {
+        node_id: 1,
+        context: 'settings',
+        data: {
+          nodes: [
+            {
+              node_id: 10,
+              context: 'ambilight',
+              data: {
+                nodes: [
+                  { node_id: 2131230800, context: 'ambilight_brightness' },
+                  { node_id: 2131230802, context: 'ambilight_saturation' },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    });
+
+    expect(nodeIds.get('ambilight_brightness')).toBe(2131230800);
+    expect(nodeIds.get('ambilight_saturation')).toBe(2131230802);
+    expect(nodeIds.get('settings')).toBe(1);
+  });
+
+  it('should keep the first node for a duplicated context', () => {
+    const nodeIds = mapMenuNodesByContext({
+      nodes: [
+        { node_id: 5, context: 'ambilight_style' },
+        { node_id: 6, context: 'ambilight_style' },
+      ],
+    });
+
+    expect(nodeIds.get('ambilight_style')).toBe(5);
+  });
+
+  it('should skip nodes without a context or numeric id', () => {
+    const nodeIds = mapMenuNodesByContext({
+      node: { node_id: 1, data: { nodes: [{ node_id: 'x' as never, context: 'bad' }] } },
+    });
+
+    expect(nodeIds.size).toBe(0);
+  });
+});
+
 // ============================================================================
 // sendWakeOnLan
 // ============================================================================
 
+describe('parseTVActivity', () => {
+  it('should map the tuned channel and its list', () => {
+    expect(parseTVActivity({ channel: { ccid: 42, preset: '7', name: 'Arte' }, channelList: { id: 'allsat', version: '3' } }))
+      .toEqual({ ccid: 42, name: 'Arte', preset: '7', channelListId: 'allsat' });
+  });
+
+  it('should fall back to the preset for unnamed channels', () => {
+    expect(parseTVActivity({ channel: { ccid: 42, preset: '7' } })?.name).toBe('Channel 7');
+  });
+
+  it('should return null when nothing is tuned', () => {
+    expect(parseTVActivity(null)).toBeNull();
+    expect(parseTVActivity({ channel: { ccid: 0 } })).toBeNull();
+    expect(parseTVActivity({})).toBeNull();
+  });
+});
+
+describe('parseKeyboardVisible', () => {
+  it('should accept the object and bare boolean forms', () => {
+    expect(parseKeyboardVisible({ visible: true })).toBe(true);
+    expect(parseKeyboardVisible(false)).toBe(false);
+  });
+
+  it('should return null when the visibility is missing', () => {
+    expect(parseKeyboardVisible(null)).toBeNull();
+    expect(parseKeyboardVisible({ visible: 'yes' })).toBeNull();
+  });
+});
+
 describe('sendWakeOnLan', () => {
   it('should reject invalid MAC format', async () => {
     await expect(sendWakeOnLan('invalid')).rejects.toThrow('Invalid MAC address');
@@ -289,6 +446,22 @@ describe('sendWakeOnLan', () => {
       expect((error as Error).message).not.toContain('Invalid MAC address');
     }
   });
+
+  it('should reject an unknown interface instead of using the default route', async () => {
+    await expect(sendWakeOnLan('AA:BB:CC:DD:EE:FF', { interface: 'no-such-nic0' }))
+      .rejects.toThrow('Unknown network interface "no-such-nic0"');
+  });
+});
+
+// ============================================================================
+// subnetBroadcast
+// ============================================================================
+
+describe('subnetBroadcast', () => {
+  it('should compute the subnet-directed broadcast address', () => {
+    expect(subnetBroadcast('192.168.20.14', '255.255.255.0')).toBe('192.168.20.255');
+    expect(subnetBroadcast('10.1.2.3', '255.255.240.0')).toBe('10.1.15.255');
+  });
 });
 
 // ============================================================================
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fileURLToPath } from 'url';
+import type * as PhilipsTVClientModule from '../../src/api/PhilipsTVClient.js';
+import type * as UtilsModule from '../../src/api/utils.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mocks = vi.hoisted(() => ({
+  tvClient: {
+    setPowerState: vi.fn(),
+    sendKey: vi.fn(),
+    setSource: vi.fn(),
+    getApplications: vi.fn(),
+    launchApplication: vi.fn(),
+    setAmbilightPower: vi.fn(),
+    setAmbilightFollowVideo: vi.fn(),
+    setAmbilightFollowColor: vi.fn(),
+    setAmbilightOff: vi.fn(),
+    getSystemInfo: vi.fn(),
+    checkCredentials: vi.fn(),
+    getPowerState: vi.fn(),
+  },
+  clientConfigs: [] as unknown[],
+  request: vi.fn(),
+  grant: vi.fn(),
+  discoverTVs: vi.fn(),
+  notify: null as { emit: (event: string, ...args: unknown[]) => boolean; start: () => void; stop: () => void } | null,
+}));
+
+vi.mock('../../src/api/PhilipsTVClient.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof PhilipsTVClientModule>();
+  return {
+    ...actual,
+    PhilipsTVClient: class {
+      constructor(config: unknown) {
+        mocks.clientConfigs.push(config);
+        return mocks.tvClient;
+      }
+    },
+  };
+});
+
+vi.mock('../../src/api/PairingClient.js', () => ({
+  PairingClient: class {
+    request = mocks.request;
+    grant = mocks.grant;
+  },
+}));
+
+vi.mock('../../src/api/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof UtilsModule>();
+  return { ...actual, discoverTVs: mocks.discoverTVs };
+});
+
+vi.mock('../../src/services/NotifyChangeClient.js', async () => {
+  const { EventEmitter } = await import('events');
+  return {
+    NotifyChangeClient: class extends EventEmitter {
+      start = vi.fn();
+      stop = vi.fn();
+      constructor() {
+        super();
+        mocks.notify = this;
+      }
+    },
+  };
+});
+
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, runCli } from '../../src/cli/commands.js';
+import { HDMI_SOURCES } from '../../src/api/PhilipsTVClient.js';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Sample config with a single TV at 192.168.1.100 */
+const CONFIG = ['--config', fileURLToPath(new URL('../hbConfig/config.sample.json', import.meta.url))];
+
+function createIO(answers: string[] = []) {
+  const controller = new AbortController();
+  const io = {
+    out: vi.fn(),
+    err: vi.fn(),
+    prompt: vi.fn(() => Promise.resolve(answers.shift() ?? '')),
+    signal: controller.signal,
+  };
+  const lines = (fn: typeof io.out) => fn.mock.calls.map(call => call[0] as string).join('\n');
+  return { io, controller, stdout: () => lines(io.out), stderr: () => lines(io.err) };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('runCli', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.clientConfigs = [];
+    for (const fn of Object.values(mocks.tvClient)) {
+      fn.mockResolvedValue(true);
+    }
+  });
+
+  describe('usage', () => {
+    it('should list the commands with --help', async () => {
+      const { io, stdout } = createIO();
+
+      expect(await runCli(['--help'], io)).toBe(EXIT_OK);
+      expect(stdout()).toMatch(/Usage: philips-tv <command>/);
+      expect(stdout()).toMatch(/watch\s+Stream state changes/);
+    });
+
+    it('should reject unknown commands and options', async () => {
+      const first = createIO();
+      expect(await runCli(['reboot'], first.io)).toBe(EXIT_USAGE);
+      expect(first.stderr()).toMatch(/Unknown command "reboot"/);
+
+      const second = createIO();
+      expect(await runCli(['info', '--colour'], second.io)).toBe(EXIT_USAGE);
+    });
+
+    it('should explain a missing target', async () => {
+      const { io, stderr } = createIO();
+
+      expect(await runCli(['info', '--config', fileURLToPath(new URL('./missing.json', import.meta.url))], io)).toBe(EXIT_USAGE);
+      expect(stderr()).toMatch(/Cannot read Homebridge config/);
+    });
+  });
+
+  describe('control', () => {
+    it('should send a remote key with its canonical name', async () => {
+      const { io, stdout } = createIO();
+
+      expect(await runCli(['key', 'volumeup', ...CONFIG], io)).toBe(EXIT_OK);
+      expect(mocks.tvClient.sendKey).toHaveBeenCalledWith('VolumeUp');
+      expect(stdout()).toBe('Sent VolumeUp');
+      expect(mocks.clientConfigs[0]).toMatchObject({ ip: '192.168.1.100', username: 'your-username' });
+    });
+
+    it('should refuse a key the TV doesn\'t know', async () => {
+      const { io, stderr } = createIO();
+
+      expect(await runCli(['key', 'Eject', ...CONFIG], io)).toBe(EXIT_USAGE);
+      expect(stderr()).toMatch(/Unknown key "Eject"/);
+      expect(mocks.tvClient.sendKey).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the TV doesn\'t accept the command', async () => {
+      mocks.tvClient.setPowerState.mockResolvedValue(false);
+      const { io, stderr } = createIO();
+
+      expect(await runCli(['power', 'off', ...CONFIG], io)).toBe(EXIT_FAILURE);
+      expect(mocks.tvClient.setPowerState).toHaveBeenCalledWith(false);
+      expect(stderr()).toMatch(/did not accept/);
+    });
+
+    it('should launch a source alias or an app by label', async () => {
+      mocks.tvClient.getApplications.mockResolvedValue([
+        { id: 'netflix', label: 'Netflix', intent: { component: { packageName: 'com.netflix.ninja' } } },
+      ]);
+
+      expect(await runCli(['launch', 'hdmi1', ...CONFIG], createIO().io)).toBe(EXIT_OK);
+      expect(mocks.tvClient.setSource).toHaveBeenCalledWith(Object.keys(HDMI_SOURCES)[0]);
+
+      const { io, stdout } = createIO();
+      expect(await runCli(['launch', 'netflix', ...CONFIG], io)).toBe(EXIT_OK);
+      expect(mocks.tvClient.launchApplication).toHaveBeenCalledWith('com.netflix.ninja');
+      expect(stdout()).toBe('Launched Netflix');
+    });
+
+    it('should set an Ambilight style by label and a fixed color', async () => {
+      expect(await runCli(['ambilight', 'style', 'vivid', ...CONFIG], createIO().io)).toBe(EXIT_OK);
+      expect(mocks.tvClient.setAmbilightFollowVideo).toHaveBeenCalledWith('VIVID');
+
+      expect(await runCli(['ambilight', 'color', '0', '100', ...CONFIG], createIO().io)).toBe(EXIT_OK);
+      expect(mocks.tvClient.setAmbilightFollowColor).toHaveBeenCalledWith({ hue: 0, saturation: 255, brightness: 255 });
+
+      expect(await runCli(['ambilight', 'color', '400', '100', ...CONFIG], createIO().io)).toBe(EXIT_USAGE);
+    });
+  });
+
+  describe('setup', () => {
+    it('should list discovered TVs as JSON', async () => {
+      mocks.discoverTVs.mockResolvedValue([{ name: 'Living Room', host: '192.168.1.20', port: 6466, addresses: [], type: 'x' }]);
+      const { io, stdout } = createIO();
+
+      expect(await runCli(['discover', '--json', '--timeout', '1'], io)).toBe(EXIT_OK);
+      expect(mocks.discoverTVs).toHaveBeenCalledWith(1000);
+      expect(JSON.parse(stdout())).toEqual([{ name: 'Living Room', ip: '192.168.1.20', port: 6466 }]);
+    });
+
+    it('should pair, asking again after a wrong PIN', async () => {
+      mocks.request.mockResolvedValue({ success: true });
+      mocks.grant
+        .mockResolvedValueOnce({ success: false, code: 'invalid-pin', error: 'Invalid PIN', attemptsLeft: 2 })
+        .mockResolvedValueOnce({ success: true, username: 'device-id', password: 'auth-key' });
+      const { io, stdout, stderr } = createIO(['0000', '1234']);
+
+      expect(await runCli(['pair', '--ip', '10.0.0.5', '--name', 'Laptop', ...CONFIG], io)).toBe(EXIT_OK);
+      expect(mocks.request).toHaveBeenCalledWith('10.0.0.5', 'Laptop');
+      expect(mocks.grant).toHaveBeenLastCalledWith('10.0.0.5', '1234');
+      expect(stderr()).toMatch(/Wrong PIN, 2 attempts left/);
+      expect(stdout()).toMatch(/"username": "device-id"/);
+    });
+
+    it('should stop pairing when the session is over', async () => {
+      mocks.request.mockResolvedValue({ success: true });
+      mocks.grant.mockResolvedValue({ success: false, code: 'too-many-attempts', error: 'Too many wrong PINs.' });
+      const { io, stderr } = createIO(['0000']);
+
+      expect(await runCli(['pair', ...CONFIG], io)).toBe(EXIT_FAILURE);
+      expect(stderr()).toMatch(/Too many wrong PINs/);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should show the model and fail when the credentials are rejected', async () => {
+      mocks.tvClient.getSystemInfo.mockResolvedValue({ name: '55OLED806', model: '55OLED806/12' });
+      mocks.tvClient.checkCredentials.mockResolvedValue('unauthorized');
+      const { io, stdout } = createIO();
+
+      expect(await runCli(['info', ...CONFIG], io)).toBe(EXIT_FAILURE);
+      expect(stdout()).toMatch(/Model:\s+55OLED806\/12/);
+      expect(stdout()).toMatch(/Credentials:\s+unauthorized/);
+      expect(mocks.tvClient.getPowerState).not.toHaveBeenCalled();
+    });
+
+    it('should stream notifications until interrupted', async () => {
+      const { io, controller, stdout } = createIO();
+
+      const running = runCli(['watch', '--json', ...CONFIG], io);
+      await vi.waitFor(() => expect(mocks.notify?.start).toHaveBeenCalled());
+      mocks.notify!.emit('notification', { powerstate: { powerstate: 'On' } });
+      controller.abort();
+
+      expect(await running).toBe(EXIT_OK);
+      expect(JSON.parse(stdout())).toMatchObject({ powerstate: { powerstate: 'On' } });
+      expect(mocks.notify!.stop).toHaveBeenCalled();
+    });
+
+    it('should end the watch when the connection is lost', async () => {
+      const { io, stderr } = createIO();
+
+      const running = runCli(['watch', ...CONFIG], io);
+      await vi.waitFor(() => expect(mocks.notify?.start).toHaveBeenCalled());
+      mocks.notify!.emit('failed');
+
+      expect(await running).toBe(EXIT_FAILURE);
+      expect(stderr()).toMatch(/Lost the connection to 192.168.1.100/);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfiguredTvs, resolveTarget } from '../../src/cli/config.js';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+let dir: string;
+
+function writeConfig(devices: unknown[]): string {
+  const file = path.join(dir, 'config.json');
+  fs.writeFileSync(file, JSON.stringify({
+    platforms: [
+      { platform: 'config', name: 'Config' },
+      { platform: 'PhilipsAmbilightTV', devices },
+    ],
+  }));
+  return file;
+}
+
+const LIVING_ROOM = { name: 'Living Room', ip: '192.168.1.10', mac: 'AA:BB:CC:DD:EE:01', username: 'u1', password: 'p1' };
+const BEDROOM = { name: 'Bedroom', ip: '192.168.1.11', mac: 'AA:BB:CC:DD:EE:02', username: 'u2', password: 'p2' };
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('CLI target resolution', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'philips-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read only the plugin\'s devices from the Homebridge config', () => {
+    const result = loadConfiguredTvs(writeConfig([LIVING_ROOM, BEDROOM]));
+
+    expect(result.data?.map(d => d.name)).toEqual(['Living Room', 'Bedroom']);
+  });
+
+  it('should report an explicit config path that can\'t be read', () => {
+    expect(loadConfiguredTvs(path.join(dir, 'missing.json'))).toMatchObject({ success: false });
+  });
+
+  it('should use the only configured TV', () => {
+    const result = resolveTarget({ config: writeConfig([LIVING_ROOM]) });
+
+    expect(result.data).toMatchObject({ name: 'Living Room', ip: '192.168.1.10', username: 'u1', password: 'p1' });
+  });
+
+  it('should pick a TV by name, IP or MAC and refuse to guess between several', () => {
+    const config = writeConfig([LIVING_ROOM, BEDROOM]);
+
+    expect(resolveTarget({ config, tv: 'bedroom' }).data?.ip).toBe('192.168.1.11');
+    expect(resolveTarget({ config, tv: '192.168.1.10' }).data?.name).toBe('Living Room');
+    expect(resolveTarget({ config, tv: 'aa-bb-cc-dd-ee-02' }).data?.name).toBe('Bedroom');
+    expect(resolveTarget({ config }).error).toMatch(/Several TVs are configured.*Living Room, Bedroom/);
+    expect(resolveTarget({ config, tv: 'Kitchen' }).error).toMatch(/No configured TV matches "Kitchen"/);
+  });
+
+  it('should let flags override or replace the configured device', () => {
+    const config = writeConfig([LIVING_ROOM, BEDROOM]);
+
+    expect(resolveTarget({ config, ip: '192.168.1.11' }).data).toMatchObject({ name: 'Bedroom', username: 'u2' });
+    expect(resolveTarget({ config, tv: 'Bedroom', ip: '10.0.0.5', password: 'new' }).data)
+      .toMatchObject({ ip: '10.0.0.5', username: 'u2', password: 'new' });
+    expect(resolveTarget({ config, ip: '10.0.0.9', username: 'a', password: 'b' }).data)
+      .toMatchObject({ name: '10.0.0.9', ip: '10.0.0.9', mac: '', device: undefined });
+  });
+
+  it('should require credentials unless the command doesn\'t sign in', () => {
+    const config = writeConfig([]);
+
+    expect(resolveTarget({ config, ip: '10.0.0.9' }).error).toMatch(/No credentials for 10.0.0.9/);
+    expect(resolveTarget({ config, ip: '10.0.0.9' }, false).success).toBe(true);
+    expect(resolveTarget({ config }).error).toMatch(/pass --ip/);
+  });
+});
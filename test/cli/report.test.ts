@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildReport, REPORT_ENDPOINTS } from '../../src/cli/report.js';
+import type * as UtilsModule from '../../src/api/utils.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+vi.mock('../../src/api/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof UtilsModule>();
+  return { ...actual, getFromTv: vi.fn() };
+});
+
+import { getFromTv } from '../../src/api/utils.js';
+
+const mockGet = vi.mocked(getFromTv);
+
+function mockResponse(body: unknown, status = 200, headers: Record<string, string> = {}): ReturnType<typeof getFromTv> {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    text: () => Promise.resolve(text),
+    json: () => Promise.resolve(JSON.parse(text)),
+  });
+}
+
+const TARGET = { name: 'Living Room', ip: '192.168.1.100', mac: 'aa:bb:cc:dd:ee:ff', username: 'user', password: 'pass' };
+const DIGEST_CHALLENGE = { 'www-authenticate': 'Digest realm="XTV", nonce="abc", qop="auth"' };
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('buildReport', () => {
+  beforeEach(() => {
+    mockGet.mockReset();
+  });
+
+  it('should read every endpoint and record the responses', async () => {
+    mockGet.mockImplementation((_ip, endpoint, options) => {
+      if (endpoint === '/system') {
+        return mockResponse({ name: '55OLED806' });
+      }
+      return options?.headers?.Authorization
+        ? mockResponse({ ok: true })
+        : mockResponse('', 401, DIGEST_CHALLENGE);
+    });
+
+    const report = await buildReport(TARGET);
+
+    expect(report.tv).toEqual({ name: 'Living Room', ip: '192.168.1.100', mac: 'aa:bb:cc:dd:ee:ff' });
+    expect(report.results).toHaveLength(REPORT_ENDPOINTS.length);
+    expect(report.results[0]).toMatchObject({ endpoint: '/system', responseStatus: 200, authType: 'none', responseBody: { name: '55OLED806' } });
+    expect(report.results[1]).toMatchObject({ endpoint: '/powerstate', responseStatus: 200, authType: 'digest', error: null });
+    expect(mockGet.mock.calls[2][2]?.headers?.Authorization).toMatch(/^Digest username="user", realm="XTV".*uri="\/6\/powerstate"/);
+  });
+
+  it('should record rejected credentials and unreachable endpoints without stopping', async () => {
+    mockGet
+      .mockReturnValueOnce(mockResponse('', 401, DIGEST_CHALLENGE))
+      .mockReturnValueOnce(mockResponse('', 401))
+      .mockRejectedValue(new Error('connect ETIMEDOUT'));
+
+    const report = await buildReport(TARGET);
+
+    expect(report.results[0]).toMatchObject({ responseStatus: 401, authType: 'failed', error: 'Credentials rejected' });
+    expect(report.results.at(-1)).toMatchObject({ responseStatus: null, error: 'connect ETIMEDOUT' });
+  });
+});
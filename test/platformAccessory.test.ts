@@ -14,12 +14,20 @@ const mocks = vi.hoisted(() => ({
   reflectPowerOff: vi.fn(),
   sensorUpdate: vi.fn(),
   hueReset: vi.fn(),
+  animationStop: vi.fn(),
+  sleepTimerPoweredOff: vi.fn(),
   getVisibleSources: vi.fn().mockReturnValue([]),
   setPowerState: vi.fn().mockResolvedValue(true),
   getCurrentActivity: vi.fn().mockResolvedValue(null),
   fetchAppsFromTV: vi.fn().mockResolvedValue(undefined),
   inputUpdateFromPoll: vi.fn(),
+  channelUpdateFromPoll: vi.fn(),
   switchUpdateFromPoll: vi.fn(),
+  locate: vi.fn().mockResolvedValue(null),
+  clientSetIp: vi.fn(),
+  pollSetIp: vi.fn(),
+  expectPowerOn: vi.fn(),
+  clearPowerExpectation: vi.fn(),
 }));
 
 /** Holder for the poll callbacks the accessory hands to StatePollManager,
@@ -28,13 +36,16 @@ const capture = vi.hoisted(() => ({ pollCallbacks: null as unknown, inputManager
 
 vi.mock('../src/api/PhilipsTVClient.js', () => ({
   PhilipsTVClient: class {
+    ip = '192.168.1.100';
     setPowerState = mocks.setPowerState;
     getCurrentActivity = mocks.getCurrentActivity;
+    setIp = mocks.clientSetIp;
   },
   // Re-exported URI constants used elsewhere; unused here but keep the shape.
   HDMI_SOURCES: {},
   HOME_URI: 'home',
   WATCH_TV_URI: 'watchtv',
+  POWER_ON_TIMEOUT_MS: 30_000,
 }));
 
 vi.mock('../src/services/AmbilightService.js', () => ({
@@ -50,12 +61,15 @@ vi.mock('../src/services/InputSourceManager.js', () => ({
   InputSourceManager: class {
     configureInputSources = vi.fn();
     getVisibleSources = mocks.getVisibleSources;
+    getSources = vi.fn().mockReturnValue([{ id: 'com.netflix.ninja', name: 'Netflix' }]);
     handleGetInput = vi.fn();
     handleSetInput = vi.fn();
     handleRemoteKey = vi.fn();
     updateFromPoll = mocks.inputUpdateFromPoll;
+    updateChannelFromPoll = mocks.channelUpdateFromPoll;
     setActiveInputById = vi.fn();
     fetchAppsFromTV = mocks.fetchAppsFromTV;
+    fetchFavoriteChannelsFromTV = vi.fn().mockResolvedValue(undefined);
     constructor(deps: unknown) {
       capture.inputManagerDeps = deps;
     }
@@ -85,17 +99,104 @@ vi.mock('../src/services/AmbilightHueSwitchService.js', () => ({
   },
 }));
 
+vi.mock('../src/services/VolumeSliderService.js', () => ({
+  VolumeSliderService: class {
+    configureService = vi.fn();
+    removeService = vi.fn();
+    updateFromPoll = vi.fn();
+    reset = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/AmbilightStyleSwitchService.js', () => ({
+  AmbilightStyleSwitchService: class {
+    configureSwitches = vi.fn();
+    updateFromPoll = vi.fn();
+    reset = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/AmbilightSideService.js', () => ({
+  AmbilightSideService: class {
+    configureServices = vi.fn();
+    removeServices = vi.fn();
+    reset = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/AmbilightAnimationService.js', () => ({
+  AmbilightAnimationService: class {
+    configureSwitches = vi.fn();
+    stop = mocks.animationStop;
+  },
+}));
+
+vi.mock('../src/services/MacroService.js', () => ({
+  MacroService: class {
+    configureSwitches = vi.fn();
+    stop = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/SleepTimerService.js', () => ({
+  SleepTimerService: class {
+    configureService = vi.fn();
+    removeService = vi.fn();
+    onTvPoweredOff = mocks.sleepTimerPoweredOff;
+    stop = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/ParentalControlService.js', () => ({
+  ParentalControlService: class {
+    configure = vi.fn();
+    removeSwitch = vi.fn();
+    checkForeground = vi.fn().mockResolvedValue(undefined);
+    onPowerChange = vi.fn();
+    stop = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/ScreenSwitchService.js', () => ({
+  ScreenSwitchService: class {
+    configureSwitch = vi.fn();
+    removeSwitch = vi.fn();
+    updateFromPoll = vi.fn();
+    reset = vi.fn();
+  },
+}));
+
+vi.mock('../src/services/AuroraSwitchService.js', () => ({
+  AuroraSwitchService: class {
+    configureSwitch = vi.fn();
+    removeSwitch = vi.fn();
+    updateFromPoll = vi.fn();
+    markUnsupported = vi.fn();
+    reset = vi.fn();
+  },
+}));
+
 vi.mock('../src/services/StatePollManager.js', () => ({
   StatePollManager: class {
     start = vi.fn();
     stop = vi.fn();
     cleanup = vi.fn();
+    refresh = vi.fn().mockResolvedValue(undefined);
+    setIp = mocks.pollSetIp;
+    expectPowerOn = mocks.expectPowerOn;
+    clearPowerExpectation = mocks.clearPowerExpectation;
     constructor(_client: unknown, _config: unknown, callbacks: unknown) {
       capture.pollCallbacks = callbacks;
     }
   },
 }));
 
+vi.mock('../src/services/DeviceLocator.js', () => ({
+  DeviceLocator: class {
+    locate = mocks.locate;
+  },
+}));
+
 import { PhilipsAmbilightTVAccessory } from '../src/platformAccessory.js';
 
 // ============================================================================
@@ -105,6 +206,7 @@ import { PhilipsAmbilightTVAccessory } from '../src/platformAccessory.js';
 interface MockCharacteristic {
   onGet: (fn: () => unknown) => MockCharacteristic;
   onSet: (fn: (v: unknown) => void | Promise<void>) => MockCharacteristic;
+  _onGet?: () => unknown;
   _onSet?: (v: unknown) => void | Promise<void>;
 }
 
@@ -117,7 +219,10 @@ function createMockService() {
     getCharacteristic: vi.fn().mockImplementation((key: unknown) => {
       if (!chars.has(key)) {
         const char: MockCharacteristic = {
-          onGet: () => char,
+          onGet: (fn) => {
+            char._onGet = fn;
+            return char;
+          },
           onSet: (fn) => {
             char._onSet = fn;
             return char;
@@ -138,7 +243,7 @@ const Characteristic = {
   Name: {},
   ConfiguredName: {},
   SleepDiscoveryMode: { ALWAYS_DISCOVERABLE: 1 },
-  CurrentMediaState: { INTERRUPTED: 0 },
+  CurrentMediaState: { PLAY: 0, STOP: 2, INTERRUPTED: 4 },
   RemoteKey: {},
   VolumeControlType: { ABSOLUTE: 3 },
   VolumeSelector: {},
@@ -268,6 +373,76 @@ describe('PhilipsAmbilightTVAccessory power handling', () => {
     expect(mocks.resetAll).not.toHaveBeenCalled();
   });
 
+  describe('power-on from deep standby', () => {
+    it('tells the poll manager to expect the transition', async () => {
+      const { platform, accessory, services } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+
+      await setPower(services, true);
+
+      expect(mocks.expectPowerOn).toHaveBeenCalled();
+      expect(mocks.clearPowerExpectation).not.toHaveBeenCalled();
+    });
+
+    it('fails the request when the TV refuses within the acknowledge window', async () => {
+      mocks.setPowerState.mockResolvedValue(false);
+      const { platform, accessory, services } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+
+      await expect(setPower(services, true)).rejects.toThrow();
+      expect(mocks.clearPowerExpectation).toHaveBeenCalled();
+    });
+
+    it('acknowledges HomeKit early and reverts if the TV never comes up', async () => {
+      vi.useFakeTimers();
+      try {
+        let finish!: (success: boolean) => void;
+        mocks.setPowerState.mockReturnValue(new Promise<boolean>(resolve => {
+          finish = resolve;
+        }));
+        const { platform, accessory, services } = createMocks();
+        new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+        const tvService = services.get(Service.Television)!;
+
+        const request = setPower(services, true);
+        await vi.advanceTimersByTimeAsync(2500);
+        await expect(request).resolves.toBeUndefined();
+        expect(tvService.updateCharacteristic).not.toHaveBeenCalledWith(Characteristic.Active, Characteristic.Active.INACTIVE);
+
+        finish(false);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(tvService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.Active, Characteristic.Active.INACTIVE);
+        expect(mocks.clearPowerExpectation).toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  it('stops a running Ambilight animation when the TV goes to standby', () => {
+    const { platform, accessory } = createMocks();
+    new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+    const cb = capture.pollCallbacks as { onPowerChange: (on: boolean) => void };
+
+    cb.onPowerChange(true);
+    expect(mocks.animationStop).not.toHaveBeenCalled();
+
+    cb.onPowerChange(false);
+    expect(mocks.animationStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the sleep timer when the TV goes to standby', () => {
+    const { platform, accessory } = createMocks();
+    new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+    const cb = capture.pollCallbacks as { onPowerChange: (on: boolean) => void };
+
+    cb.onPowerChange(true);
+    cb.onPowerChange(false);
+
+    expect(mocks.sleepTimerPoweredOff).toHaveBeenCalledTimes(1);
+  });
+
   describe('active-source sync on power-on', () => {
     /** Build the accessory and return the poll callbacks it registered. */
     function build() {
@@ -357,4 +532,120 @@ describe('PhilipsAmbilightTVAccessory power handling', () => {
       expect(mocks.switchUpdateFromPoll).toHaveBeenCalledWith('com.netflix.ninja');
     });
   });
+
+  describe('channel reports', () => {
+    it('selects the channel input and reports playback while a channel is tuned', () => {
+      mocks.channelUpdateFromPoll.mockReturnValue('30');
+      const { platform, accessory, services } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const cb = capture.pollCallbacks as {
+        onPowerChange: (on: boolean) => void;
+        onChannelUpdate: (channel: { ccid: number; name: string } | null) => void;
+      };
+      const tvService = services.get(Service.Television)!;
+
+      cb.onPowerChange(true);
+      expect(tvService.updateCharacteristic).toHaveBeenLastCalledWith(Characteristic.CurrentMediaState, Characteristic.CurrentMediaState.INTERRUPTED);
+
+      cb.onChannelUpdate({ ccid: 30, name: 'Arte' });
+      expect(mocks.switchUpdateFromPoll).toHaveBeenCalledWith('30');
+      expect(tvService.updateCharacteristic).toHaveBeenLastCalledWith(Characteristic.CurrentMediaState, Characteristic.CurrentMediaState.PLAY);
+
+      cb.onPowerChange(false);
+      expect(tvService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.CurrentMediaState, Characteristic.CurrentMediaState.STOP);
+    });
+  });
+
+  describe('external state listeners', () => {
+    it('reports resolved inputs and power changes to subscribers', () => {
+      const { platform, accessory } = createMocks();
+      const tv = new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const cb = capture.pollCallbacks as { onPowerChange: (on: boolean) => void; onInputUpdate: (app: string | null) => void };
+      const listener = vi.fn();
+      const unsubscribe = tv.device.subscribe(listener);
+
+      cb.onInputUpdate('com.netflix.ninja');
+      cb.onPowerChange(false);
+
+      expect(listener).toHaveBeenCalledWith({ source: { id: 'com.netflix.ninja', name: 'Netflix' } });
+      expect(listener).toHaveBeenCalledWith({ power: false, source: null });
+
+      unsubscribe();
+      cb.onPowerChange(true);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('identifies the device by its MAC address', () => {
+      const { platform, accessory } = createMocks();
+      const tv = new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+
+      expect(tv.device.id).toBe('aabbccddeeff');
+      expect(tv.device.name).toBe('Living Room TV');
+    });
+
+    it('powers on through the accessory so the poll manager expects the transition', async () => {
+      const { platform, accessory, services } = createMocks();
+      const tv = new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const tvService = services.get(Service.Television)!;
+
+      await expect(tv.device.setPower(true)).resolves.toBe(true);
+
+      expect(mocks.setPowerState).toHaveBeenLastCalledWith(true);
+      expect(mocks.expectPowerOn).toHaveBeenCalled();
+      expect(tvService.updateCharacteristic).toHaveBeenCalledWith(Characteristic.Active, Characteristic.Active.ACTIVE);
+    });
+
+    it('reports a refused power change instead of throwing', async () => {
+      mocks.setPowerState.mockResolvedValue(false);
+      const { platform, accessory } = createMocks();
+      const tv = new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+
+      await expect(tv.device.setPower(true)).resolves.toBe(false);
+    });
+  });
+
+  describe('address recovery', () => {
+    it('repoints the clients when the TV is found at a new address', async () => {
+      const { platform, accessory } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const cb = capture.pollCallbacks as { onUnreachable: () => void };
+      mocks.locate.mockResolvedValueOnce('192.168.1.150');
+
+      cb.onUnreachable();
+      await flush();
+
+      expect(mocks.clientSetIp).toHaveBeenCalledWith('192.168.1.150');
+      expect(mocks.pollSetIp).toHaveBeenCalledWith('192.168.1.150');
+      expect(platform.log.warn).toHaveBeenCalledWith(expect.stringContaining('192.168.1.100 to 192.168.1.150'));
+    });
+
+    it('leaves the clients alone when the TV is not found or has not moved', async () => {
+      const { platform, accessory } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const cb = capture.pollCallbacks as { onUnreachable: () => void };
+      mocks.locate.mockResolvedValueOnce(null).mockResolvedValueOnce('192.168.1.100');
+
+      cb.onUnreachable();
+      cb.onUnreachable();
+      await flush();
+
+      expect(mocks.clientSetIp).not.toHaveBeenCalled();
+      expect(mocks.pollSetIp).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejected credentials', () => {
+    it('reports no response for power while the TV rejects the credentials', () => {
+      const { platform, accessory, services } = createMocks();
+      new PhilipsAmbilightTVAccessory(platform as never, accessory as never);
+      const cb = capture.pollCallbacks as { onAuthChange: (authorized: boolean) => void };
+      const active = services.get(Service.Television)!.getCharacteristic(Characteristic.Active) as unknown as MockCharacteristic;
+
+      cb.onAuthChange(false);
+      expect(() => active._onGet!()).toThrow();
+
+      cb.onAuthChange(true);
+      expect(active._onGet!()).toBe(Characteristic.Active.INACTIVE);
+    });
+  });
 });
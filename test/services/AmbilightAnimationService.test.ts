@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AmbilightAnimationService,
+  FRAME_INTERVAL_MS,
+  animationDuration,
+  renderAnimationFrame,
+} from '../../src/services/AmbilightAnimationService.js';
+import type { AmbilightAnimationDeps } from '../../src/services/AmbilightAnimationService.js';
+import { INTER_REQUEST_DELAY_MS } from '../../src/api/PhilipsTVClient.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'switch-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<AmbilightAnimationDeps['tvClient']> = {}): AmbilightAnimationDeps {
+  return {
+    Service: {
+      Switch: { UUID: 'switch-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      setAmbilightPower: vi.fn().mockResolvedValue(true),
+      setAmbilightFollowColor: vi.fn().mockResolvedValue(true),
+      ...overrides,
+    } as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+function setup(overrides: Partial<AmbilightAnimationDeps['tvClient']> = {}) {
+  const deps = createMockDeps(overrides);
+  const service = new AmbilightAnimationService(deps);
+  const accessory = createMockAccessory();
+  service.configureSwitches(accessory as never, [
+    { scene: 'rainbow' },
+    { scene: 'alert', duration: 2 },
+    { scene: 'sunrise', name: 'Wake Up', duration: 60 },
+  ], 'TV');
+
+  const handlers = (scene: string) => {
+    const sw = accessory.services.find(s => s.subtype === `ambilight-animation-${scene}`)!;
+    const onChar = sw.getCharacteristic({ UUID: 'on' });
+    return {
+      sw,
+      onGet: onChar.onGet.mock.calls[0][0] as () => unknown,
+      onSet: onChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+    };
+  };
+
+  return { deps, service, accessory, handlers };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('renderAnimationFrame', () => {
+  it('should ramp a sunrise from dim red to bright warm white', () => {
+    const config = { scene: 'sunrise' as const, duration: 100 };
+
+    const start = renderAnimationFrame(config, 0);
+    const end = renderAnimationFrame(config, 100_000);
+
+    expect(start.color).toEqual({ hue: 0, saturation: 255, brightness: 10 });
+    expect(start.done).toBe(false);
+    expect(end.color).toEqual({ hue: 25, saturation: 80, brightness: 255 });
+    expect(end.done).toBe(true);
+  });
+
+  it('should pulse breathing brightness on a fixed hue', () => {
+    const config = { scene: 'breathing' as const, hue: 120 };
+
+    expect(renderAnimationFrame(config, 0).color.brightness).toBe(20);
+    expect(renderAnimationFrame(config, 3000).color.brightness).toBe(255);
+    expect(renderAnimationFrame(config, 3000).color.hue).toBe(85);
+    expect(renderAnimationFrame(config, 3000).done).toBe(false);
+  });
+
+  it('should cycle the rainbow hue', () => {
+    const config = { scene: 'rainbow' as const };
+
+    expect(renderAnimationFrame(config, 0).color.hue).toBe(0);
+    expect(renderAnimationFrame(config, 30_000).color.hue).toBe(128);
+    expect(renderAnimationFrame(config, 60_000).color.hue).toBe(0);
+  });
+
+  it('should flash the alert and end dark', () => {
+    const config = { scene: 'alert' as const, duration: 4 };
+
+    expect(renderAnimationFrame(config, 0).color.brightness).toBe(255);
+    expect(renderAnimationFrame(config, 900).color.brightness).toBe(0);
+    expect(renderAnimationFrame(config, 4000)).toEqual({
+      color: { hue: 0, saturation: 255, brightness: 0 },
+      done: true,
+    });
+  });
+
+  it('should default sunrise and alert durations and loop the others', () => {
+    expect(animationDuration({ scene: 'sunrise' })).toBe(600_000);
+    expect(animationDuration({ scene: 'alert' })).toBe(10_000);
+    expect(animationDuration({ scene: 'rainbow' })).toBeNull();
+    expect(animationDuration({ scene: 'breathing', duration: 30 })).toBe(30_000);
+  });
+});
+
+describe('AmbilightAnimationService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should never schedule frames faster than the request queue delay', () => {
+    expect(FRAME_INTERVAL_MS).toBeGreaterThanOrEqual(INTER_REQUEST_DELAY_MS);
+  });
+
+  describe('configureSwitches', () => {
+    it('should create one switch per scene, using custom names', () => {
+      const { accessory } = setup();
+
+      expect(accessory.addService).toHaveBeenCalledTimes(3);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Rainbow', 'ambilight-animation-rainbow');
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Wake Up', 'ambilight-animation-sunrise');
+    });
+
+    it('should skip unknown scenes and duplicates', () => {
+      const deps = createMockDeps();
+      const service = new AmbilightAnimationService(deps);
+      const accessory = createMockAccessory();
+
+      service.configureSwitches(accessory as never, [
+        { scene: 'rainbow' },
+        { scene: 'rainbow', name: 'Again' },
+        { scene: 'disco' as never },
+      ], 'TV');
+
+      expect(accessory.addService).toHaveBeenCalledTimes(1);
+      expect(deps.log).toHaveBeenCalledWith('warn', expect.stringContaining('disco'));
+    });
+  });
+
+  describe('playback', () => {
+    it('should power Ambilight on and send frames at the frame interval', async () => {
+      const { deps, service, handlers } = setup();
+
+      await handlers('rainbow').onSet(true);
+      await vi.advanceTimersByTimeAsync(FRAME_INTERVAL_MS * 3 + 10);
+
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledWith(true);
+      expect(vi.mocked(deps.tvClient.setAmbilightFollowColor).mock.calls.length).toBe(4);
+      expect(service.isRunning).toBe(true);
+      expect(handlers('rainbow').onGet()).toBe(true);
+    });
+
+    it('should wait for a slow frame before scheduling the next one', async () => {
+      let resolveFrame: (ok: boolean) => void = () => {};
+      const { deps, handlers } = setup({
+        setAmbilightFollowColor: vi.fn().mockImplementation(() => new Promise<boolean>(r => {
+          resolveFrame = r;
+        })),
+      });
+
+      await handlers('rainbow').onSet(true);
+      await vi.advanceTimersByTimeAsync(FRAME_INTERVAL_MS * 5);
+
+      expect(deps.tvClient.setAmbilightFollowColor).toHaveBeenCalledTimes(1);
+
+      resolveFrame(true);
+      await vi.advanceTimersByTimeAsync(FRAME_INTERVAL_MS);
+      expect(deps.tvClient.setAmbilightFollowColor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop on its own when a timed scene finishes', async () => {
+      const { service, handlers } = setup();
+
+      await handlers('alert').onSet(true);
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(service.isRunning).toBe(false);
+      expect(handlers('alert').sw.updateCharacteristic).toHaveBeenLastCalledWith({ UUID: 'on' }, false);
+    });
+
+    it('should run only one animation at a time', async () => {
+      const { handlers } = setup();
+
+      await handlers('rainbow').onSet(true);
+      await handlers('sunrise').onSet(true);
+
+      expect(handlers('rainbow').onGet()).toBe(false);
+      expect(handlers('sunrise').onGet()).toBe(true);
+    });
+
+    it('should stop sending frames when stopped', async () => {
+      const { deps, service, handlers } = setup();
+
+      await handlers('rainbow').onSet(true);
+      await vi.advanceTimersByTimeAsync(10);
+      service.stop();
+      const sent = vi.mocked(deps.tvClient.setAmbilightFollowColor).mock.calls.length;
+      await vi.advanceTimersByTimeAsync(FRAME_INTERVAL_MS * 5);
+
+      expect(deps.tvClient.setAmbilightFollowColor).toHaveBeenCalledTimes(sent);
+      expect(handlers('rainbow').onGet()).toBe(false);
+    });
+
+    it('should give up after repeated frame failures', async () => {
+      const { deps, service, handlers } = setup({ setAmbilightFollowColor: vi.fn().mockResolvedValue(false) });
+
+      await handlers('rainbow').onSet(true);
+      await vi.advanceTimersByTimeAsync(FRAME_INTERVAL_MS * 5);
+
+      expect(deps.tvClient.setAmbilightFollowColor).toHaveBeenCalledTimes(3);
+      expect(service.isRunning).toBe(false);
+    });
+
+    it('should throw a communication error when Ambilight cannot be powered on', async () => {
+      const { service, handlers } = setup({ setAmbilightPower: vi.fn().mockResolvedValue(false) });
+
+      await expect(handlers('rainbow').onSet(true)).rejects.toThrow('comm error');
+      expect(service.isRunning).toBe(false);
+    });
+  });
+});
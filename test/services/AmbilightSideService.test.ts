@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AmbilightSideService } from '../../src/services/AmbilightSideService.js';
+import type { AmbilightSideDeps } from '../../src/services/AmbilightSideService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'lightbulb-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<AmbilightSideDeps['tvClient']> = {}): AmbilightSideDeps {
+  return {
+    Service: {
+      Lightbulb: { UUID: 'lightbulb-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+      Brightness: { UUID: 'brightness' },
+      Hue: { UUID: 'hue' },
+      Saturation: { UUID: 'saturation' },
+    } as never,
+    tvClient: {
+      setAmbilightPower: vi.fn().mockResolvedValue(true),
+      setAmbilightSides: vi.fn().mockResolvedValue(true),
+      setAmbilightMode: vi.fn().mockResolvedValue(true),
+      ...overrides,
+    } as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+function setup(overrides: Partial<AmbilightSideDeps['tvClient']> = {}) {
+  const deps = createMockDeps(overrides);
+  const service = new AmbilightSideService(deps);
+  const accessory = createMockAccessory();
+  service.configureServices(accessory as never, 'TV');
+
+  const handler = (side: string, char: string) => {
+    const bulb = accessory.services.find(s => s.subtype === `ambilight-side-${side}`)!;
+    const c = bulb.getCharacteristic({ UUID: char });
+    return {
+      bulb,
+      get: c.onGet.mock.calls[0][0] as () => unknown,
+      set: c.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+    };
+  };
+
+  return { deps, service, accessory, handler };
+}
+
+/** Run a set of characteristic writes and let the debounce timer fire */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('AmbilightSideService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('configureServices', () => {
+    it('should create a Lightbulb for each side', () => {
+      const { accessory } = setup();
+
+      expect(accessory.addService).toHaveBeenCalledTimes(4);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Left', 'ambilight-side-left');
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Bottom', 'ambilight-side-bottom');
+    });
+  });
+
+  describe('removeServices', () => {
+    it('should remove existing side Lightbulbs', () => {
+      const service = new AmbilightSideService(createMockDeps());
+      const accessory = createMockAccessory();
+      const existing = createMockService('ambilight-side-top');
+      accessory.getServiceById = vi.fn().mockImplementation((_svc: unknown, subtype: string) =>
+        subtype === 'ambilight-side-top' ? existing : null);
+
+      service.removeServices(accessory as never);
+
+      expect(accessory.removeService).toHaveBeenCalledTimes(1);
+      expect(accessory.removeService).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('handlers', () => {
+    it('should power Ambilight on and paint the lit side, others black', async () => {
+      const { deps, handler } = setup();
+
+      await settle(Promise.all([
+        handler('left', 'hue').set(0),
+        handler('left', 'saturation').set(100),
+        handler('left', 'on').set(true),
+      ]));
+
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledWith(true);
+      expect(deps.tvClient.setAmbilightSides).toHaveBeenCalledTimes(1);
+      expect(deps.tvClient.setAmbilightSides).toHaveBeenCalledWith({
+        left: { r: 255, g: 0, b: 0 },
+        top: { r: 0, g: 0, b: 0 },
+        right: { r: 0, g: 0, b: 0 },
+        bottom: { r: 0, g: 0, b: 0 },
+      });
+    });
+
+    it('should only power Ambilight on once while engaged', async () => {
+      const { deps, handler } = setup();
+
+      await settle(handler('left', 'on').set(true));
+      await settle(handler('right', 'on').set(true));
+
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledTimes(1);
+      expect(deps.tvClient.setAmbilightSides).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hand the LEDs back to the TV once every side is off', async () => {
+      const { deps, handler } = setup();
+      await settle(handler('left', 'on').set(true));
+      await settle(handler('top', 'on').set(true));
+
+      await settle(handler('left', 'on').set(false));
+      expect(deps.tvClient.setAmbilightMode).not.toHaveBeenCalled();
+
+      await settle(handler('top', 'on').set(false));
+      expect(deps.tvClient.setAmbilightMode).toHaveBeenCalledWith('internal');
+      expect(deps.tvClient.setAmbilightSides).toHaveBeenCalledTimes(3);
+
+      await settle(handler('right', 'on').set(true));
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remember color changes on a side that is off without pushing', async () => {
+      const { deps, handler } = setup();
+
+      await settle(handler('top', 'hue').set(240));
+
+      expect(deps.tvClient.setAmbilightSides).not.toHaveBeenCalled();
+      expect(handler('top', 'hue').get()).toBe(240);
+    });
+
+    it('should throw a communication error when the write fails', async () => {
+      const { handler } = setup({ setAmbilightSides: vi.fn().mockResolvedValue(false) });
+
+      const result = handler('bottom', 'on').set(true);
+      const assertion = expect(result).rejects.toThrow('comm error');
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+  });
+
+  describe('reset', () => {
+    it('should show all sides off and re-power on next use', async () => {
+      const { deps, service, handler } = setup();
+      await settle(handler('left', 'on').set(true));
+
+      service.reset();
+
+      expect(handler('left', 'on').get()).toBe(false);
+      expect(handler('left', 'on').bulb.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, false);
+
+      await settle(handler('left', 'on').set(true));
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AmbilightStyleSwitchService, matchAmbilightStyle } from '../../src/services/AmbilightStyleSwitchService.js';
+import type { AmbilightStyleSwitchDeps } from '../../src/services/AmbilightStyleSwitchService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'switch-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<AmbilightStyleSwitchDeps['tvClient']> = {}): AmbilightStyleSwitchDeps {
+  return {
+    Service: {
+      Switch: { UUID: 'switch-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      setAmbilightPower: vi.fn().mockResolvedValue(true),
+      setAmbilightFollowVideo: vi.fn().mockResolvedValue(true),
+      setAmbilightFollowAudio: vi.fn().mockResolvedValue(true),
+      setAmbilightLounge: vi.fn().mockResolvedValue(true),
+      setAmbilightOff: vi.fn().mockResolvedValue(true),
+      ...overrides,
+    } as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+const STYLE_IDS = ['FOLLOW_VIDEO/GAME', 'FOLLOW_AUDIO/PARTY', 'LOUNGE/WARM_WHITE'];
+
+function setup(overrides: Partial<AmbilightStyleSwitchDeps['tvClient']> = {}) {
+  const deps = createMockDeps(overrides);
+  const service = new AmbilightStyleSwitchService(deps);
+  const accessory = createMockAccessory();
+  service.configureSwitches(accessory as never, STYLE_IDS, 'TV');
+
+  const handlers = (subtype: string) => {
+    const sw = accessory.services.find(s => s.subtype === subtype)!;
+    const onChar = sw.getCharacteristic({ UUID: 'on' });
+    return {
+      sw,
+      onGet: onChar.onGet.mock.calls[0][0] as () => unknown,
+      onSet: onChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+    };
+  };
+
+  return { deps, service, accessory, handlers };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('matchAmbilightStyle', () => {
+  it('should match Follow Video and Follow Audio by algorithm', () => {
+    expect(matchAmbilightStyle({ styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'GAME' })).toBe('FOLLOW_VIDEO/GAME');
+    expect(matchAmbilightStyle({ styleName: 'FOLLOW_AUDIO', isExpert: true, algorithm: 'PARTY' })).toBe('FOLLOW_AUDIO/PARTY');
+  });
+
+  it('should fall back to menuSetting for non-expert reports', () => {
+    expect(matchAmbilightStyle({ styleName: 'FOLLOW_VIDEO', isExpert: false, menuSetting: 'NATURAL' })).toBe('FOLLOW_VIDEO/NATURAL');
+  });
+
+  it('should recognise a lounge preset from its Follow Color hue and saturation', () => {
+    expect(matchAmbilightStyle({
+      styleName: 'FOLLOW_COLOR',
+      isExpert: true,
+      algorithm: 'MANUAL_HUE',
+      colorSettings: { color: { hue: 30, saturation: 80, brightness: 120 }, colorDelta: { hue: 0, saturation: 0, brightness: 0 }, speed: 0 },
+    })).toBe('LOUNGE/WARM_WHITE');
+  });
+
+  it('should return null for custom colors, off and unknown algorithms', () => {
+    expect(matchAmbilightStyle({
+      styleName: 'FOLLOW_COLOR',
+      isExpert: true,
+      colorSettings: { color: { hue: 12, saturation: 34, brightness: 255 }, colorDelta: { hue: 0, saturation: 0, brightness: 0 }, speed: 0 },
+    })).toBeNull();
+    expect(matchAmbilightStyle({ styleName: 'OFF', isExpert: false })).toBeNull();
+    expect(matchAmbilightStyle({ styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'UNKNOWN' })).toBeNull();
+  });
+});
+
+describe('AmbilightStyleSwitchService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('configureSwitches', () => {
+    it('should create one labelled switch per configured style', () => {
+      const { accessory } = setup();
+
+      expect(accessory.addService).toHaveBeenCalledTimes(3);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Game', 'ambilight-style-follow_video-game');
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Party', 'ambilight-style-follow_audio-party');
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Ambilight Lounge Warm', 'ambilight-style-lounge-warm_white');
+    });
+
+    it('should skip unknown style ids with a warning', () => {
+      const deps = createMockDeps();
+      const service = new AmbilightStyleSwitchService(deps);
+      const accessory = createMockAccessory();
+
+      service.configureSwitches(accessory as never, ['FOLLOW_VIDEO/GAME', 'DISCO'], 'TV');
+
+      expect(accessory.addService).toHaveBeenCalledTimes(1);
+      expect(deps.log).toHaveBeenCalledWith('warn', expect.stringContaining('DISCO'));
+    });
+
+    it('should remove switches for styles no longer configured', () => {
+      const service = new AmbilightStyleSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+      const stale = createMockService('ambilight-style-follow_video-relax');
+      accessory.services.push(stale);
+
+      service.configureSwitches(accessory as never, ['FOLLOW_VIDEO/GAME'], 'TV');
+
+      expect(accessory.removeService).toHaveBeenCalledWith(stale);
+    });
+  });
+
+  describe('switch handlers', () => {
+    it('should power Ambilight on and apply a Follow Video style', async () => {
+      const { deps, handlers } = setup();
+
+      await handlers('ambilight-style-follow_video-game').onSet(true);
+
+      expect(deps.tvClient.setAmbilightPower).toHaveBeenCalledWith(true);
+      expect(deps.tvClient.setAmbilightFollowVideo).toHaveBeenCalledWith('GAME');
+    });
+
+    it('should apply Follow Audio and lounge styles', async () => {
+      const { deps, handlers } = setup();
+
+      await handlers('ambilight-style-follow_audio-party').onSet(true);
+      await handlers('ambilight-style-lounge-warm_white').onSet(true);
+
+      expect(deps.tvClient.setAmbilightFollowAudio).toHaveBeenCalledWith('PARTY');
+      expect(deps.tvClient.setAmbilightLounge).toHaveBeenCalledWith('Warm White');
+    });
+
+    it('should keep the switches mutually exclusive', async () => {
+      const { handlers } = setup();
+      const game = handlers('ambilight-style-follow_video-game');
+      const party = handlers('ambilight-style-follow_audio-party');
+
+      await game.onSet(true);
+      await party.onSet(true);
+
+      expect(game.onGet()).toBe(false);
+      expect(party.onGet()).toBe(true);
+      expect(game.sw.updateCharacteristic).toHaveBeenLastCalledWith({ UUID: 'on' }, false);
+    });
+
+    it('should turn Ambilight off when the active switch is turned off', async () => {
+      const { deps, handlers } = setup();
+      const game = handlers('ambilight-style-follow_video-game');
+
+      await game.onSet(true);
+      await game.onSet(false);
+
+      expect(deps.tvClient.setAmbilightOff).toHaveBeenCalled();
+      expect(game.onGet()).toBe(false);
+    });
+
+    it('should ignore turning off an inactive switch', async () => {
+      const { deps, handlers } = setup();
+
+      await handlers('ambilight-style-follow_video-game').onSet(false);
+
+      expect(deps.tvClient.setAmbilightOff).not.toHaveBeenCalled();
+    });
+
+    it('should throw a communication error when the style is rejected', async () => {
+      const { handlers } = setup({ setAmbilightFollowVideo: vi.fn().mockResolvedValue(false) });
+
+      await expect(handlers('ambilight-style-follow_video-game').onSet(true)).rejects.toThrow('comm error');
+    });
+  });
+
+  describe('updateFromPoll', () => {
+    it('should show only the reported style as on', () => {
+      const { service, handlers } = setup();
+
+      service.updateFromPoll({ styleName: 'FOLLOW_AUDIO', isExpert: true, algorithm: 'PARTY' }, true);
+
+      expect(handlers('ambilight-style-follow_audio-party').onGet()).toBe(true);
+      expect(handlers('ambilight-style-follow_video-game').onGet()).toBe(false);
+    });
+
+    it('should clear all switches for an unconfigured style', () => {
+      const { service, handlers } = setup();
+      service.updateFromPoll({ styleName: 'FOLLOW_AUDIO', isExpert: true, algorithm: 'PARTY' }, true);
+
+      service.updateFromPoll({ styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'RELAX' }, true);
+
+      expect(handlers('ambilight-style-follow_audio-party').onGet()).toBe(false);
+    });
+
+    it('should ignore polls right after a user change', async () => {
+      vi.useFakeTimers();
+      const { service, handlers } = setup();
+      const game = handlers('ambilight-style-follow_video-game');
+      await game.onSet(true);
+
+      service.updateFromPoll({ styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'NATURAL' }, true);
+      expect(game.onGet()).toBe(true);
+
+      vi.advanceTimersByTime(11_000);
+      service.updateFromPoll({ styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'NATURAL' }, true);
+      expect(game.onGet()).toBe(false);
+    });
+  });
+
+  describe('reset', () => {
+    it('should force all switches off', async () => {
+      const { service, handlers } = setup();
+      const game = handlers('ambilight-style-follow_video-game');
+      await game.onSet(true);
+
+      service.reset();
+
+      expect(game.onGet()).toBe(false);
+      expect(game.sw.updateCharacteristic).toHaveBeenLastCalledWith({ UUID: 'on' }, false);
+    });
+  });
+});
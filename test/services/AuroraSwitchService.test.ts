@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AuroraSwitchService } from '../../src/services/AuroraSwitchService.js';
+import type { AuroraSwitchDeps } from '../../src/services/AuroraSwitchService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'switch-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<AuroraSwitchDeps['tvClient']> = {}, gallery?: string): AuroraSwitchDeps {
+  return {
+    Service: {
+      Switch: { UUID: 'switch-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      setAuroraOpen: vi.fn().mockResolvedValue(true),
+      getAuroraGallery: vi.fn().mockResolvedValue([{ id: 'g-nature', name: 'Nature' }, { id: 'g-art', name: 'Art' }]),
+      ...overrides,
+    } as never,
+    gallery,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+function getOnHandlers(accessory: ReturnType<typeof createMockAccessory>) {
+  const sw = accessory.services.find(s => s.subtype === 'aurora-switch')!;
+  const onChar = sw.getCharacteristic({ UUID: 'on' });
+  return {
+    sw,
+    onGet: onChar.onGet.mock.calls[0][0] as () => unknown,
+    onSet: onChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('AuroraSwitchService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function setup(deps = createMockDeps()) {
+    const service = new AuroraSwitchService(deps);
+    const accessory = createMockAccessory();
+    service.configureSwitch(accessory as never, 'TV');
+    return { deps, service, accessory, ...getOnHandlers(accessory) };
+  }
+
+  describe('configureSwitch', () => {
+    it('should create a single Aurora switch', () => {
+      const { accessory } = setup();
+
+      expect(accessory.addService).toHaveBeenCalledTimes(1);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Aurora', 'aurora-switch');
+    });
+
+    it('should remove the switch when it exists', () => {
+      const service = new AuroraSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+      const existing = createMockService('aurora-switch');
+      accessory.getServiceById = vi.fn().mockReturnValue(existing);
+
+      service.removeSwitch(accessory as never);
+
+      expect(accessory.removeService).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('switch handlers', () => {
+    it('should start Aurora on the TV\'s current gallery when none is configured', async () => {
+      const { deps, onSet, onGet } = setup();
+
+      await onSet(true);
+
+      expect(deps.tvClient.setAuroraOpen).toHaveBeenCalledWith(true, undefined);
+      expect(deps.tvClient.getAuroraGallery).not.toHaveBeenCalled();
+      expect(onGet()).toBe(true);
+    });
+
+    it('should resolve the configured gallery by name once', async () => {
+      const { deps, onSet } = setup(createMockDeps({}, 'art'));
+
+      await onSet(true);
+      await onSet(false);
+      await onSet(true);
+
+      expect(deps.tvClient.setAuroraOpen).toHaveBeenNthCalledWith(1, true, 'g-art');
+      expect(deps.tvClient.setAuroraOpen).toHaveBeenNthCalledWith(2, false, undefined);
+      expect(deps.tvClient.setAuroraOpen).toHaveBeenNthCalledWith(3, true, 'g-art');
+      expect(deps.tvClient.getAuroraGallery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the current gallery when the configured one is missing', async () => {
+      const { deps, onSet } = setup(createMockDeps({}, 'Space'));
+
+      await onSet(true);
+
+      expect(deps.tvClient.setAuroraOpen).toHaveBeenCalledWith(true, undefined);
+      expect(deps.log).toHaveBeenCalledWith('warn', expect.stringContaining('Nature, Art'));
+    });
+
+    it('should throw a communication error when the write fails', async () => {
+      const { onSet } = setup(createMockDeps({ setAuroraOpen: vi.fn().mockResolvedValue(false) }));
+
+      await expect(onSet(true)).rejects.toThrow('comm error');
+    });
+  });
+
+  describe('state updates', () => {
+    it('should push polled changes to HomeKit', () => {
+      const { service, sw, onGet } = setup();
+
+      service.updateFromPoll(true);
+
+      expect(sw.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, true);
+      expect(onGet()).toBe(true);
+    });
+
+    it('should refuse to turn on once Aurora is known to be unsupported', async () => {
+      const { deps, service, onSet, onGet } = setup();
+
+      service.markUnsupported();
+
+      await expect(onSet(true)).rejects.toThrow('comm error');
+      expect(deps.tvClient.setAuroraOpen).not.toHaveBeenCalled();
+      expect(onGet()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ControlApiServer } from '../../src/services/ControlApiServer.js';
+import type { ControllableDevice } from '../../src/services/DeviceCommands.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const TOKEN = 'test-token-0123456789';
+
+function createMockDevice(): ControllableDevice {
+  return {
+    id: 'aabbccddeeff',
+    name: 'Living Room',
+    tvClient: {
+      sendKey: vi.fn().mockResolvedValue(false),
+      queueStats: { pending: { user: 0, background: 1 }, peakDepth: 3, sent: 42, averageWaitMs: 120 },
+    } as never,
+    setPower: vi.fn().mockResolvedValue(true),
+    getSnapshot: vi.fn().mockReturnValue({
+      power: true,
+      ambilight: { on: true, style: 'FOLLOW_VIDEO', algorithm: 'GAME' },
+      volume: { current: 12, min: 0, max: 60, muted: false },
+      currentApp: 'com.netflix.ninja',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }),
+    refreshState: vi.fn(),
+    subscribe: vi.fn().mockReturnValue(() => undefined),
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('ControlApiServer', () => {
+  let server: ControlApiServer;
+  let device: ControllableDevice;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+  beforeEach(async () => {
+    device = createMockDevice();
+    server = new ControlApiServer({
+      config: { enabled: true, token: TOKEN, port: 0, host: '127.0.0.1' },
+      devices: [device],
+      log: vi.fn(),
+    });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('authentication', () => {
+    it('should reject requests without the bearer token', async () => {
+      const missing = await request('/api/devices', {}, null);
+      const wrong = await request('/api/devices', {}, 'nope');
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should accept the token with a lowercase scheme and extra whitespace', async () => {
+      const res = await fetch(`${baseUrl}/api/devices`, { headers: { Authorization: `bearer \t  ${TOKEN}` } });
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('state', () => {
+    it('should list devices with their snapshot', async () => {
+      const res = await request('/api/devices');
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({ id: 'aabbccddeeff', name: 'Living Room', state: { power: true, currentApp: 'com.netflix.ninja' } });
+      expect(body.data[0].queue).toMatchObject({ pending: { user: 0, background: 1 }, sent: 42 });
+    });
+
+    it('should find a device by MAC or by name', async () => {
+      expect((await request('/api/devices/AA:BB:CC:DD:EE:FF')).status).toBe(200);
+      expect((await request('/api/devices/living%20room')).status).toBe(200);
+      expect((await request('/api/devices/kitchen')).status).toBe(404);
+    });
+
+    it('should 404 unknown routes and 405 wrong methods', async () => {
+      expect((await request('/api/nope')).status).toBe(404);
+      expect((await request('/api/devices', { method: 'DELETE' })).status).toBe(405);
+      expect((await request('/api/devices/aabbccddeeff/command')).status).toBe(405);
+    });
+  });
+
+  describe('commands', () => {
+    it('should run a command and refresh the device state', async () => {
+      const res = await request('/api/devices/aabbccddeeff/command', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'power', on: true }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ success: true });
+      expect(device.setPower).toHaveBeenCalledWith(true);
+      expect(device.refreshState).toHaveBeenCalled();
+    });
+
+    it('should reject invalid JSON and invalid commands', async () => {
+      const badJson = await request('/api/devices/aabbccddeeff/command', { method: 'POST', body: '{' });
+      const badCommand = await request('/api/devices/aabbccddeeff/command', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'volume', level: 'loud' }),
+      });
+
+      expect(badJson.status).toBe(400);
+      expect(badCommand.status).toBe(400);
+      expect((await badCommand.json()).error).toContain('"level"');
+    });
+
+    it('should report 502 when the TV rejects the command', async () => {
+      const res = await request('/api/devices/aabbccddeeff/command', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'key', key: 'Home' }),
+      });
+
+      expect(res.status).toBe(502);
+      expect(device.refreshState).not.toHaveBeenCalled();
+    });
+
+    it('should reject oversized bodies', async () => {
+      const res = await request('/api/devices/aabbccddeeff/command', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'key', key: 'x'.repeat(20_000) }),
+      });
+
+      expect(res.status).toBe(413);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deviceIdFromMac, parseDeviceCommand, runDeviceCommand } from '../../src/services/DeviceCommands.js';
+import type { DeviceCommand } from '../../src/services/DeviceCommands.js';
+import type { PhilipsTVClient } from '../../src/api/PhilipsTVClient.js';
+import { HOME_URI, WATCH_TV_URI } from '../../src/api/PhilipsTVClient.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockTVClient(overrides: Partial<Record<keyof PhilipsTVClient, unknown>> = {}) {
+  return {
+    setPowerState: vi.fn().mockResolvedValue(true),
+    getVolume: vi.fn().mockResolvedValue({ current: 10, min: 0, max: 60, muted: false }),
+    setVolume: vi.fn().mockResolvedValue(true),
+    setMuted: vi.fn().mockResolvedValue(true),
+    sendKey: vi.fn().mockResolvedValue(true),
+    launchApplication: vi.fn().mockResolvedValue(true),
+    launchWatchTV: vi.fn().mockResolvedValue(true),
+    launchHome: vi.fn().mockResolvedValue(true),
+    setSource: vi.fn().mockResolvedValue(true),
+    setChannel: vi.fn().mockResolvedValue(true),
+    sendChannelNumber: vi.fn().mockResolvedValue(true),
+    sendText: vi.fn().mockResolvedValue(true),
+    setAmbilightPower: vi.fn().mockResolvedValue(true),
+    setAmbilightFollowVideo: vi.fn().mockResolvedValue(true),
+    setAmbilightFollowColor: vi.fn().mockResolvedValue(true),
+    setAmbilightOff: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  } as unknown as PhilipsTVClient;
+}
+
+function createMockTarget(client: PhilipsTVClient) {
+  return { tvClient: client, setPower: vi.fn().mockResolvedValue(true) };
+}
+
+function parse(input: unknown): DeviceCommand {
+  const result = parseDeviceCommand(input);
+  expect(result.error).toBeUndefined();
+  return result.data!;
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('deviceIdFromMac', () => {
+  it('should strip separators and lowercase', () => {
+    expect(deviceIdFromMac('AA:BB:CC:DD:EE:0F')).toBe('aabbccddee0f');
+    expect(deviceIdFromMac('aa-bb-cc-dd-ee-0f')).toBe('aabbccddee0f');
+  });
+});
+
+describe('parseDeviceCommand', () => {
+  it('should accept well-formed commands', () => {
+    expect(parse({ type: 'power', on: true })).toEqual({ type: 'power', on: true });
+    expect(parse({ type: 'volume', level: 12.4 })).toEqual({ type: 'volume', level: 12 });
+    expect(parse({ type: 'key', key: 'Home' })).toEqual({ type: 'key', key: 'Home' });
+    expect(parse({ type: 'ambilight', style: 'FOLLOW_VIDEO/GAME' })).toEqual({ type: 'ambilight', style: 'FOLLOW_VIDEO/GAME' });
+    expect(parse({ type: 'channelNumber', number: 101 })).toEqual({ type: 'channelNumber', number: '101' });
+    expect(parse({ type: 'text', text: 'the office' })).toEqual({ type: 'text', text: 'the office' });
+    expect(parse({ type: 'ambilightColor', hue: 120, saturation: 50 }))
+      .toEqual({ type: 'ambilightColor', hue: 120, saturation: 50, brightness: 100 });
+  });
+
+  it('should reject non-objects and unknown types', () => {
+    expect(parseDeviceCommand('power').error).toBe('Command must be a JSON object');
+    expect(parseDeviceCommand([]).success).toBe(false);
+    expect(parseDeviceCommand({ type: 'reboot' }).error).toBe('Unknown command type "reboot"');
+  });
+
+  it('should reject invalid fields with the field name', () => {
+    expect(parseDeviceCommand({ type: 'power', on: 'yes' }).error).toContain('"on"');
+    expect(parseDeviceCommand({ type: 'volume', level: 101 }).error).toContain('"level"');
+    expect(parseDeviceCommand({ type: 'key', key: '../input' }).error).toContain('"key"');
+    expect(parseDeviceCommand({ type: 'app' }).error).toContain('"packageName"');
+    expect(parseDeviceCommand({ type: 'channelNumber', number: '1-2' }).error).toContain('"number"');
+    expect(parseDeviceCommand({ type: 'text', text: '' }).error).toContain('"text"');
+    expect(parseDeviceCommand({ type: 'text', text: 'x'.repeat(256) }).error).toContain('"text"');
+    expect(parseDeviceCommand({ type: 'ambilight', style: 'DISCO' }).error).toContain('"style"');
+    expect(parseDeviceCommand({ type: 'ambilightColor', hue: 400, saturation: 0 }).error).toContain('"hue"');
+  });
+});
+
+describe('runDeviceCommand', () => {
+  it('should map simple commands onto client calls', async () => {
+    const client = createMockTVClient();
+    const target = createMockTarget(client);
+
+    await runDeviceCommand(target, { type: 'channel', ccid: 7 });
+    await runDeviceCommand(target, { type: 'channelNumber', number: '12' });
+    await runDeviceCommand(target, { type: 'text', text: 'cats' });
+
+    expect(client.setChannel).toHaveBeenCalledWith(7, undefined);
+    expect(client.sendChannelNumber).toHaveBeenCalledWith('12');
+    expect(client.sendText).toHaveBeenCalledWith('cats');
+  });
+
+  it('should power through the target rather than the raw client', async () => {
+    const client = createMockTVClient();
+    const target = createMockTarget(client);
+    target.setPower.mockResolvedValue(false);
+
+    await expect(runDeviceCommand(target, { type: 'power', on: true })).resolves.toBe(false);
+
+    expect(target.setPower).toHaveBeenCalledWith(true);
+    expect(client.setPowerState).not.toHaveBeenCalled();
+  });
+
+  it('should map the volume percentage onto the range the TV reports', async () => {
+    const client = createMockTVClient();
+
+    await runDeviceCommand(createMockTarget(client), { type: 'volume', level: 50 });
+    await runDeviceCommand(createMockTarget(client), { type: 'volume', level: 100 });
+
+    expect(client.setVolume).toHaveBeenNthCalledWith(1, 30);
+    expect(client.setVolume).toHaveBeenNthCalledWith(2, 60);
+  });
+
+  it('should not set the volume when the TV does not report its range', async () => {
+    const client = createMockTVClient({ getVolume: vi.fn().mockResolvedValue(null) });
+
+    await expect(runDeviceCommand(createMockTarget(client), { type: 'volume', level: 50 })).resolves.toBe(false);
+    expect(client.setVolume).not.toHaveBeenCalled();
+  });
+
+  it('should resolve source aliases', async () => {
+    const client = createMockTVClient();
+
+    await runDeviceCommand(createMockTarget(client), { type: 'source', source: 'watchtv' });
+    await runDeviceCommand(createMockTarget(client), { type: 'source', source: HOME_URI });
+    await runDeviceCommand(createMockTarget(client), { type: 'source', source: 'HDMI2' });
+
+    expect(client.launchWatchTV).toHaveBeenCalled();
+    expect(client.launchHome).toHaveBeenCalled();
+    expect(client.setSource).toHaveBeenCalledWith(expect.stringMatching(/HW6$/));
+    expect(client.setSource).not.toHaveBeenCalledWith(WATCH_TV_URI);
+  });
+
+  it('should apply Ambilight styles and colors', async () => {
+    const client = createMockTVClient();
+
+    await runDeviceCommand(createMockTarget(client), { type: 'ambilight', style: 'FOLLOW_VIDEO/GAME' });
+    await runDeviceCommand(createMockTarget(client), { type: 'ambilight', style: 'OFF' });
+    await runDeviceCommand(createMockTarget(client), { type: 'ambilightColor', hue: 180, saturation: 100, brightness: 50 });
+
+    expect(client.setAmbilightFollowVideo).toHaveBeenCalledWith('GAME');
+    expect(client.setAmbilightOff).toHaveBeenCalled();
+    expect(client.setAmbilightFollowColor).toHaveBeenCalledWith({ hue: 128, saturation: 255, brightness: 128 });
+  });
+
+  it('should power Ambilight on in its last style', async () => {
+    const client = createMockTVClient();
+
+    await runDeviceCommand(createMockTarget(client), { type: 'ambilight', style: 'ON' });
+
+    expect(client.setAmbilightPower).toHaveBeenCalledWith(true);
+    expect(client.setAmbilightFollowVideo).not.toHaveBeenCalled();
+  });
+
+  it('should resolve false instead of throwing when the client fails', async () => {
+    const client = createMockTVClient({ sendKey: vi.fn().mockRejectedValue(new Error('timeout')) });
+
+    await expect(runDeviceCommand(createMockTarget(client), { type: 'key', key: 'Home' })).resolves.toBe(false);
+  });
+});
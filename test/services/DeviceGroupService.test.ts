@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DeviceGroupService, GROUP_POWER_ON_ACK_MS } from '../../src/services/DeviceGroupService.js';
+import type { DeviceGroupDeps } from '../../src/services/DeviceGroupService.js';
+import type { DeviceGroupConfig } from '../../src/api/types.js';
+import type { DeviceStateUpdate } from '../../src/services/DeviceCommands.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const Characteristic = {
+  Manufacturer: { UUID: 'manufacturer' },
+  Model: { UUID: 'model' },
+  SerialNumber: { UUID: 'serial' },
+  Name: { UUID: 'name' },
+  ConfiguredName: { UUID: 'configured-name' },
+  Active: { UUID: 'active', ACTIVE: 1, INACTIVE: 0 },
+  ActiveIdentifier: { UUID: 'active-identifier' },
+  SleepDiscoveryMode: { UUID: 'sleep-discovery', ALWAYS_DISCOVERABLE: 1 },
+  RemoteKey: { UUID: 'remote-key' },
+  Identifier: { UUID: 'identifier' },
+  InputSourceType: { UUID: 'input-source-type', HDMI: 3 },
+  IsConfigured: { UUID: 'is-configured', CONFIGURED: 1 },
+  CurrentVisibilityState: { UUID: 'current-visibility', SHOWN: 0 },
+  TargetVisibilityState: { UUID: 'target-visibility', SHOWN: 0 },
+  VolumeControlType: { UUID: 'volume-control-type', RELATIVE: 1 },
+  VolumeSelector: { UUID: 'volume-selector', INCREMENT: 0, DECREMENT: 1 },
+  Mute: { UUID: 'mute' },
+  On: { UUID: 'on' },
+};
+
+function createMockService(uuid: string, subtype?: string) {
+  const handlers = new Map<string, { get?: () => unknown; set?: (v: unknown) => Promise<void> }>();
+  const service = {
+    UUID: uuid,
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    addLinkedService: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID: string }) => {
+      const entry = handlers.get(char.UUID) ?? {};
+      handlers.set(char.UUID, entry);
+      const chain = {
+        onGet: (fn: () => unknown) => {
+          entry.get = fn;
+          return chain;
+        },
+        onSet: (fn: (v: unknown) => Promise<void>) => {
+          entry.set = fn;
+          return chain;
+        },
+      };
+      return chain;
+    }),
+    handlers,
+  };
+  return service;
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [createMockService('info')];
+  const find = (svc: { UUID: string }, subtype?: string) =>
+    services.find(s => s.UUID === svc.UUID && s.subtype === subtype);
+  return {
+    services,
+    getService: vi.fn().mockImplementation((svc: { UUID: string }) => find(svc)),
+    getServiceById: vi.fn().mockImplementation((svc: { UUID: string }, subtype: string) => find(svc, subtype)),
+    addService: vi.fn().mockImplementation((svc: { UUID: string }, _name?: string, subtype?: string) => {
+      const service = createMockService(svc.UUID, subtype);
+      services.push(service);
+      return service;
+    }),
+  };
+}
+
+function createMockMember(name: string, id: string, result = true) {
+  const listeners = new Set<(update: DeviceStateUpdate) => void>();
+  return {
+    id,
+    name,
+    tvClient: {
+      setSource: vi.fn().mockResolvedValue(result),
+      sendKey: vi.fn().mockResolvedValue(result),
+      setMuted: vi.fn().mockResolvedValue(result),
+      setAmbilightOff: vi.fn().mockResolvedValue(result),
+    },
+    setPower: vi.fn().mockResolvedValue(result),
+    getSnapshot: vi.fn().mockReturnValue({ power: false, ambilight: null, volume: null }),
+    refreshState: vi.fn(),
+    subscribe: vi.fn().mockImplementation((listener: (update: DeviceStateUpdate) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }),
+    emit: (update: DeviceStateUpdate) => listeners.forEach(listener => listener(update)),
+  };
+}
+
+type MockMember = ReturnType<typeof createMockMember>;
+
+function createGroup(members: MockMember[], config: Partial<DeviceGroupConfig> = {}) {
+  const deps: DeviceGroupDeps = {
+    Service: {
+      AccessoryInformation: { UUID: 'info' },
+      Television: { UUID: 'television' },
+      InputSource: { UUID: 'input-source' },
+      TelevisionSpeaker: { UUID: 'speaker' },
+      Switch: { UUID: 'switch' },
+    } as never,
+    Characteristic: Characteristic as never,
+    config: { name: 'Wall', members: members.map(m => m.name), ...config },
+    members: members as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+  const group = new DeviceGroupService(deps);
+  const accessory = createMockAccessory();
+  group.configure(accessory as never);
+
+  const service = (uuid: string, subtype?: string) => accessory.services.find(s => s.UUID === uuid && s.subtype === subtype)!;
+  const handler = (uuid: string, char: { UUID: string }, subtype?: string) => service(uuid, subtype).handlers.get(char.UUID)!;
+  return { group, deps, accessory, service, handler };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('DeviceGroupService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('configure', () => {
+    it('should create a Television service with the configured inputs', () => {
+      const { accessory } = createGroup([createMockMember('A', 'a1')], {
+        inputs: [{ name: 'Signage', source: 'hdmi1' }, { name: 'TV', source: 'watchtv' }],
+      });
+
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'input-source' }, 'Signage', 'group-input-1');
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'input-source' }, 'TV', 'group-input-2');
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'switch' }, 'Wall Ambilight', 'group-ambilight');
+    });
+  });
+
+  describe('fan-out', () => {
+    it('should send input changes to every member', async () => {
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2')];
+      const { handler } = createGroup(members, { inputs: [{ name: 'Signage', source: 'hdmi1' }] });
+
+      await handler('television', Characteristic.ActiveIdentifier).set!(1);
+
+      for (const member of members) {
+        expect(member.tvClient.setSource).toHaveBeenCalledWith(expect.stringMatching(/HW5$/));
+        expect(member.refreshState).toHaveBeenCalled();
+      }
+    });
+
+    it('should name failed members in the log without failing the write', async () => {
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2', false)];
+      const { deps, handler } = createGroup(members);
+
+      await handler('speaker', Characteristic.Mute).set!(true);
+
+      expect(deps.log).toHaveBeenCalledWith('warn', 'Mute failed on "B" (1/2 succeeded)');
+      expect(handler('speaker', Characteristic.Mute).get!()).toBe(true);
+    });
+
+    it('should fail the write when every member fails', async () => {
+      const members = [createMockMember('A', 'a1', false), createMockMember('B', 'b2', false)];
+      const { handler } = createGroup(members);
+
+      await expect(handler('switch', Characteristic.On, 'group-ambilight').set!(false)).rejects.toThrow('comm error');
+    });
+
+    it('should acknowledge a slow power-on and finish it in the background', async () => {
+      vi.useFakeTimers();
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2')];
+      let finish!: (ok: boolean) => void;
+      members[1].setPower.mockReturnValue(new Promise(resolve => {
+        finish = resolve;
+      }));
+      const { handler } = createGroup(members);
+      const active = handler('television', Characteristic.Active);
+
+      const write = active.set!(1);
+      await vi.advanceTimersByTimeAsync(GROUP_POWER_ON_ACK_MS);
+      await write;
+      expect(active.get!()).toBe(1);
+
+      // Still booting: a standby reading must not turn the group off
+      members[1].emit({ power: false });
+      expect(active.get!()).toBe(1);
+
+      finish(true);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(members[1].refreshState).toHaveBeenCalled();
+    });
+  });
+
+  describe('state aggregation', () => {
+    it('should be on when any member is on by default', () => {
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2')];
+      const { handler, service } = createGroup(members);
+
+      members[0].emit({ power: true });
+
+      expect(handler('television', Characteristic.Active).get!()).toBe(1);
+      expect(service('television').updateCharacteristic).toHaveBeenCalledWith(Characteristic.Active, 1);
+    });
+
+    it('should only be on when all members are on with aggregate "all"', () => {
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2')];
+      const { handler } = createGroup(members, { aggregate: 'all' });
+      const active = handler('television', Characteristic.Active);
+
+      members[0].emit({ power: true });
+      expect(active.get!()).toBe(0);
+
+      members[1].emit({ power: true });
+      expect(active.get!()).toBe(1);
+    });
+
+    it('should select an input only when every powered member shows it', () => {
+      const members = [createMockMember('A', 'a1'), createMockMember('B', 'b2')];
+      const { handler } = createGroup(members, {
+        inputs: [{ name: 'TV', source: 'watchtv' }, { name: 'Home', source: 'home' }],
+      });
+      const input = handler('television', Characteristic.ActiveIdentifier);
+      members.forEach(m => m.emit({ power: true }));
+
+      members[0].emit({ source: { id: 'virtual:home', name: 'Home' } });
+      expect(input.get!()).toBe(1);
+
+      members[1].emit({ source: { id: 'virtual:home', name: 'Home' } });
+      expect(input.get!()).toBe(2);
+    });
+
+    it('should stop following members after stop', () => {
+      const members = [createMockMember('A', 'a1')];
+      const { group, handler } = createGroup(members);
+
+      group.stop();
+      members[0].emit({ power: true });
+
+      expect(handler('television', Characteristic.Active).get!()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeviceLocator, LOCATE_COOLDOWN_MS } from '../../src/services/DeviceLocator.js';
+import type { DiscoveredDevice } from '../../src/api/types.js';
+import type * as UtilsModule from '../../src/api/utils.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const arpTable = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('node-arp', () => ({
+  default: {
+    getMAC: (ip: string, callback: (error: boolean, mac: string) => void) => {
+      const mac = arpTable.get(ip);
+      callback(mac === undefined, mac ?? 'Could not find ip in arp table');
+    },
+  },
+}));
+
+vi.mock('../../src/api/utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof UtilsModule>();
+  return { ...actual, discoverTVs: vi.fn() };
+});
+
+import { discoverTVs } from '../../src/api/utils.js';
+
+const mockDiscover = vi.mocked(discoverTVs);
+
+function tv(name: string, host: string): DiscoveredDevice {
+  return { name, host, addresses: [host], port: 6466, type: 'androidtvremote2' };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('DeviceLocator', () => {
+  let locator: DeviceLocator;
+  const log = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    arpTable.clear();
+    mockDiscover.mockReset().mockResolvedValue([]);
+    log.mockReset();
+    locator = new DeviceLocator({ mac: 'AA:BB:CC:DD:EE:0F', name: 'Living Room', log });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pick the TV whose ARP entry matches the configured MAC', async () => {
+    mockDiscover.mockResolvedValue([tv('Bedroom', '192.168.1.20'), tv('Philips TV', '192.168.1.150')]);
+    arpTable.set('192.168.1.20', '11:22:33:44:55:66');
+    // macOS `arp` drops leading zeros
+    arpTable.set('192.168.1.150', 'aa:bb:cc:dd:ee:f');
+
+    expect(await locator.locate()).toBe('192.168.1.150');
+  });
+
+  it('should fall back to a unique mDNS name match when ARP has no entry', async () => {
+    mockDiscover.mockResolvedValue([tv('Bedroom', '192.168.1.20'), tv('living room', '192.168.1.150')]);
+
+    expect(await locator.locate()).toBe('192.168.1.150');
+  });
+
+  it('should resolve null when no TV matches', async () => {
+    mockDiscover.mockResolvedValue([tv('Bedroom', '192.168.1.20')]);
+    arpTable.set('192.168.1.20', '11:22:33:44:55:66');
+
+    expect(await locator.locate()).toBeNull();
+  });
+
+  it('should share a lookup in progress and wait out the cooldown before browsing again', async () => {
+    const first = locator.locate();
+    const second = locator.locate();
+    await Promise.all([first, second]);
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+
+    expect(await locator.locate()).toBeNull();
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(LOCATE_COOLDOWN_MS);
+    await locator.locate();
+    expect(mockDiscover).toHaveBeenCalledTimes(2);
+  });
+});
@@ -101,7 +101,7 @@ function createMockDeps(overrides?: Partial<InputSourceManagerDeps>): InputSourc
     ConfiguredName: { UUID: 'configured-name' },
     CurrentVisibilityState: { UUID: 'current-visibility', SHOWN: 0, HIDDEN: 1 },
     TargetVisibilityState: { UUID: 'target-visibility' },
-    InputSourceType: { UUID: 'input-source-type', HDMI: 3, APPLICATION: 10 },
+    InputSourceType: { UUID: 'input-source-type', TUNER: 2, HDMI: 3, APPLICATION: 10 },
     IsConfigured: { UUID: 'is-configured', CONFIGURED: 1 },
     Name: { UUID: 'name' },
     Identifier: { UUID: 'identifier' },
@@ -121,6 +121,8 @@ function createMockDeps(overrides?: Partial<InputSourceManagerDeps>): InputSourc
       launchApplication: vi.fn().mockResolvedValue(true),
       setSource: vi.fn().mockResolvedValue(true),
       setChannel: vi.fn().mockResolvedValue(true),
+      getFavoriteLists: vi.fn().mockResolvedValue([]),
+      getFavoriteChannels: vi.fn().mockResolvedValue([]),
       sendKey: vi.fn().mockResolvedValue(true),
       launchWatchTV: vi.fn().mockResolvedValue(true),
       launchHome: vi.fn().mockResolvedValue(true),
@@ -778,6 +780,116 @@ describe('InputSourceManager', () => {
       await manager.handleRemoteKey(11);
       expect(deps.tvClient.sendKey).toHaveBeenCalledWith('Source');
     });
+
+    it('should send the key from the remoteKeys table over the legacy setting', async () => {
+      const deps = createMockDeps({ backButtonKey: 'Home', remoteKeys: { BACK: 'Exit' } });
+      const manager = new InputSourceManager(deps);
+
+      await manager.handleRemoteKey(9);
+      expect(deps.tvClient.sendKey).toHaveBeenCalledWith('Exit');
+    });
+
+    it('should zap channels with next/previous while the tuner is selected', async () => {
+      const deps = createMockDeps();
+      const manager = new InputSourceManager(deps);
+      manager.configureInputSources(createMockService() as never);
+
+      manager.setActiveInputById('content://android.media.tv/channel');
+      await manager.handleRemoteKey(2);
+      await manager.handleRemoteKey(3);
+      expect(deps.tvClient.sendKey).toHaveBeenNthCalledWith(1, 'ChannelStepUp');
+      expect(deps.tvClient.sendKey).toHaveBeenNthCalledWith(2, 'ChannelStepDown');
+
+      manager.setActiveInputById('virtual:home');
+      await manager.handleRemoteKey(2);
+      expect(deps.tvClient.sendKey).toHaveBeenLastCalledWith('Next');
+    });
+  });
+
+  // ==========================================================================
+  // FAVOURITE CHANNELS
+  // ==========================================================================
+
+  describe('fetchFavoriteChannelsFromTV', () => {
+    const favorites = [
+      { ccid: 30, name: 'Arte', preset: '1', channelListId: 'allsat' },
+      { ccid: 10, name: 'BBC One', preset: '2', channelListId: 'allsat' },
+      { ccid: 11, name: 'BBC Two', preset: '3', channelListId: 'allsat' },
+    ];
+
+    function createFavoriteDeps(overrides?: Partial<InputSourceManagerDeps>) {
+      const deps = createMockDeps(overrides);
+      (deps.tvClient.getFavoriteLists as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { id: '1', name: 'Favourites 1' },
+        { id: '2', name: 'Kids' },
+      ]);
+      (deps.tvClient.getFavoriteChannels as ReturnType<typeof vi.fn>).mockResolvedValue(favorites);
+      return deps;
+    }
+
+    it('should add the chosen list as tuner inputs, capped at max', async () => {
+      const deps = createFavoriteDeps({ channelFavorites: { enabled: true, list: 'kids', max: 2 } });
+      const manager = new InputSourceManager(deps);
+      manager.configureInputSources(createMockService() as never);
+
+      await manager.fetchFavoriteChannelsFromTV();
+
+      expect(deps.tvClient.getFavoriteChannels).toHaveBeenCalledWith('2');
+      const channels = manager.getSources().filter(s => s.type === 'channel');
+      expect(channels.map(c => [c.id, c.name, c.channelListId])).toEqual([
+        ['30', '1 Arte', 'allsat'],
+        ['10', '2 BBC One', 'allsat'],
+      ]);
+      expect(channels[0].service.setCharacteristic).toHaveBeenCalledWith(expect.objectContaining({ UUID: 'input-source-type' }), 2);
+    });
+
+    it('should tune the channel through its list when selected', async () => {
+      const deps = createFavoriteDeps({ channelFavorites: { enabled: true } });
+      const manager = new InputSourceManager(deps);
+      manager.configureInputSources(createMockService() as never);
+      await manager.fetchFavoriteChannelsFromTV();
+      const arte = manager.getSources().find(s => s.id === '30')!;
+
+      await manager.handleSetInput(arte.identifier);
+
+      expect(deps.tvClient.launchWatchTV).toHaveBeenCalled();
+      expect(deps.tvClient.setChannel).toHaveBeenCalledWith(30, 'allsat');
+    });
+
+    it('should do nothing when disabled or when inputs[] is configured', async () => {
+      for (const overrides of [
+        {},
+        { channelFavorites: { enabled: true }, userInputs: [{ identifier: 'com.test', name: 'Test', type: 'app' as const }] },
+      ]) {
+        const deps = createFavoriteDeps(overrides);
+        const manager = new InputSourceManager(deps);
+        manager.configureInputSources(createMockService() as never);
+
+        await manager.fetchFavoriteChannelsFromTV();
+
+        expect(deps.tvClient.getFavoriteLists).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should follow the tuned channel on the wheel', async () => {
+      const deps = createFavoriteDeps({ channelFavorites: { enabled: true } });
+      const manager = new InputSourceManager(deps);
+      const tvService = createMockService();
+      manager.configureInputSources(tvService as never);
+      await manager.fetchFavoriteChannelsFromTV();
+      const bbc = manager.getSources().find(s => s.id === '10')!;
+
+      expect(manager.updateChannelFromPoll({ ccid: 10, name: 'BBC One' }, tvService as never)).toBe('10');
+      expect(manager.currentId).toBe(bbc.identifier);
+
+      // Still on the tuner: playtv must not knock the wheel off the channel input
+      manager.updateFromPoll('org.droidtv.playtv', tvService as never);
+      expect(manager.currentId).toBe(bbc.identifier);
+
+      // Zapped to a channel that isn't an input — back to Watch TV
+      expect(manager.updateChannelFromPoll({ ccid: 77, name: 'Other' }, tvService as never)).toBe('content://android.media.tv/channel');
+      expect(manager.updateChannelFromPoll(null, tvService as never)).toBeNull();
+    });
   });
 
   // ==========================================================================
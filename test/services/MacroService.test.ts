@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MACRO_SWITCH_RESET_MS, MacroService, WAIT_POLL_INTERVAL_MS, parseMacro } from '../../src/services/MacroService.js';
+import type { MacroServiceDeps } from '../../src/services/MacroService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'switch-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<MacroServiceDeps['tvClient']> = {}): MacroServiceDeps {
+  return {
+    Service: {
+      Switch: { UUID: 'switch-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      sendKey: vi.fn().mockResolvedValue(true),
+      launchApplication: vi.fn().mockResolvedValue(true),
+      getCurrentActivity: vi.fn().mockResolvedValue('com.netflix.ninja'),
+      ...overrides,
+    } as never,
+    setPower: vi.fn().mockResolvedValue(true),
+    refreshState: vi.fn(),
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+const MOVIE_NIGHT = {
+  name: 'Movie night',
+  steps: [
+    { type: 'app', packageName: 'com.netflix.ninja' },
+    { type: 'waitForApp', app: 'com.netflix.ninja', timeout: 5000 },
+    { type: 'delay', ms: 500 },
+    { type: 'key', key: 'CursorDown', repeat: 2 },
+    { type: 'key', key: 'Confirm' },
+  ],
+};
+
+function macro(config: Parameters<typeof parseMacro>[0]) {
+  return parseMacro(config).data!;
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('parseMacro', () => {
+  it('should expand repeats and keep command steps as control API commands', () => {
+    const parsed = parseMacro(MOVIE_NIGHT);
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data!.steps.map(s => s.type)).toEqual(['command', 'waitForApp', 'delay', 'command', 'command', 'command']);
+    expect(parsed.data!.steps[3]).toEqual({ type: 'command', command: { type: 'key', key: 'CursorDown' } });
+  });
+
+  it('should name the first invalid step', () => {
+    expect(parseMacro({ name: 'Bad', steps: [{ type: 'key', key: 'Home' }, { type: 'volume', level: 500 }] }).error)
+      .toBe('Macro "Bad" step 2: "level" must be a number between 0 and 100');
+    expect(parseMacro({ name: 'Bad', steps: [{ type: 'delay', ms: -1 }] }).error).toContain('"ms"');
+    expect(parseMacro({ name: 'Bad', steps: [{ type: 'key', key: 'Home', repeat: 50 }] }).error).toContain('"repeat"');
+    expect(parseMacro({ name: 'Empty', steps: [] }).error).toBe('Macro "Empty" has no steps');
+    expect(parseMacro({ name: ' ', steps: [{ type: 'key', key: 'Home' }] }).error).toBe('Macro needs a name');
+  });
+});
+
+describe('MacroService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('configureSwitches', () => {
+    it('should add one switch per valid macro and skip invalid ones', () => {
+      const deps = createMockDeps();
+      const service = new MacroService(deps);
+      const accessory = createMockAccessory();
+
+      service.configureSwitches(accessory as never, [
+        MOVIE_NIGHT,
+        { name: 'Broken', steps: [{ type: 'reboot' }] },
+        { name: 'movie  night', steps: [{ type: 'key', key: 'Home' }] },
+      ], 'TV');
+
+      expect(accessory.addService).toHaveBeenCalledTimes(1);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Movie night', 'macro-movie-night');
+      expect(deps.log).toHaveBeenCalledWith('warn', 'Ignoring macro: Macro "Broken" step 1: Unknown command type "reboot"');
+    });
+
+    it('should remove switches of macros that are no longer configured', () => {
+      const service = new MacroService(createMockDeps());
+      const accessory = createMockAccessory();
+      const stale = createMockService('macro-old');
+      accessory.services.push(stale);
+
+      service.configureSwitches(accessory as never, [], 'TV');
+
+      expect(accessory.removeService).toHaveBeenCalledWith(stale);
+    });
+  });
+
+  describe('switch', () => {
+    it('should run the macro and flip back off', async () => {
+      const deps = createMockDeps();
+      const service = new MacroService(deps);
+      const accessory = createMockAccessory();
+      service.configureSwitches(accessory as never, [{ name: 'Home', steps: [{ type: 'key', key: 'Home' }] }], 'TV');
+      const sw = accessory.services[0];
+      const onChar = sw.getCharacteristic({ UUID: 'on' });
+
+      onChar.onSet.mock.calls[0][0](true);
+      await vi.advanceTimersByTimeAsync(MACRO_SWITCH_RESET_MS);
+
+      expect(deps.tvClient.sendKey).toHaveBeenCalledWith('Home');
+      expect(sw.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, false);
+      expect(onChar.onGet.mock.calls[0][0]()).toBe(false);
+      expect(deps.refreshState).toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('should run the steps in order, waiting for the app', async () => {
+      const getCurrentActivity = vi.fn()
+        .mockResolvedValueOnce('org.droidtv.playtv')
+        .mockResolvedValue('com.netflix.ninja');
+      const deps = createMockDeps({ getCurrentActivity });
+      const service = new MacroService(deps);
+
+      const result = service.run(macro(MOVIE_NIGHT));
+      await vi.advanceTimersByTimeAsync(WAIT_POLL_INTERVAL_MS + 500);
+
+      expect(await result).toBe(true);
+      expect(getCurrentActivity).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(deps.tvClient.sendKey).mock.calls).toEqual([['CursorDown'], ['CursorDown'], ['Confirm']]);
+      expect(service.isRunning).toBe(false);
+    });
+
+    it('should stop when the app does not open in time', async () => {
+      const deps = createMockDeps({ getCurrentActivity: vi.fn().mockResolvedValue('org.droidtv.playtv') });
+      const service = new MacroService(deps);
+
+      const result = service.run(macro(MOVIE_NIGHT));
+      await vi.advanceTimersByTimeAsync(6000);
+
+      expect(await result).toBe(false);
+      expect(deps.tvClient.sendKey).not.toHaveBeenCalled();
+      expect(deps.log).toHaveBeenCalledWith('warn', 'Macro "Movie night" stopped at step 2 (waitForApp com.netflix.ninja)');
+    });
+
+    it('should stop at a step the TV rejects', async () => {
+      const deps = createMockDeps({ sendKey: vi.fn().mockResolvedValue(false) });
+      const service = new MacroService(deps);
+
+      const result = await service.run(macro({ name: 'Keys', steps: [{ type: 'key', key: 'Home', repeat: 3 }] }));
+
+      expect(result).toBe(false);
+      expect(deps.tvClient.sendKey).toHaveBeenCalledTimes(1);
+      expect(deps.log).toHaveBeenCalledWith('warn', 'Macro "Keys" stopped at step 1 (key Home)');
+    });
+
+    it('should cancel a running macro when another starts', async () => {
+      const deps = createMockDeps();
+      const service = new MacroService(deps);
+
+      const first = service.run(macro({ name: 'Slow', steps: [{ type: 'delay', ms: 10_000 }, { type: 'key', key: 'Home' }] }));
+      const second = service.run(macro({ name: 'Quick', steps: [{ type: 'key', key: 'Back' }] }));
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(await first).toBe(false);
+      expect(await second).toBe(true);
+      expect(vi.mocked(deps.tvClient.sendKey).mock.calls).toEqual([['Back']]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'net';
+import type { AddressInfo, Server } from 'net';
+import { Aedes } from 'aedes';
+import { connectAsync } from 'mqtt';
+import type { MqttClient } from 'mqtt';
+import { MqttBridge } from '../../src/services/MqttBridge.js';
+import type { ControllableDevice, DeviceStateUpdate } from '../../src/services/DeviceCommands.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const DEVICE_ID = 'aabbccddeeff';
+const PREFIX = 'tv-test';
+
+function createMockDevice() {
+  const listeners = new Set<(update: DeviceStateUpdate) => void>();
+  const device = {
+    id: DEVICE_ID,
+    name: 'Living Room',
+    tvClient: {
+      getVolume: vi.fn().mockResolvedValue({ current: 12, min: 0, max: 60, muted: false }),
+      setVolume: vi.fn().mockResolvedValue(true),
+      sendKey: vi.fn().mockResolvedValue(true),
+      sendText: vi.fn().mockResolvedValue(true),
+    } as never,
+    setPower: vi.fn().mockResolvedValue(true),
+    getSnapshot: vi.fn().mockReturnValue({
+      power: true,
+      ambilight: null,
+      volume: { current: 12, min: 0, max: 60, muted: false },
+      currentApp: null,
+      currentChannel: null,
+      keyboardVisible: null,
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }),
+    refreshState: vi.fn(),
+    subscribe: vi.fn().mockImplementation((listener: (update: DeviceStateUpdate) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }),
+    emit: (update: DeviceStateUpdate) => listeners.forEach(l => l(update)),
+    listenerCount: () => listeners.size,
+  };
+  return device satisfies ControllableDevice;
+}
+
+/** Poll until the assertion passes (MQTT delivery is asynchronous). */
+async function eventually(assertion: () => void, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      assertion();
+      return;
+    } catch (error) {
+      if (Date.now() > deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('MqttBridge', () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let observer: MqttClient;
+  let received: Map<string, string>;
+  let device: ReturnType<typeof createMockDevice>;
+  let bridge: MqttBridge;
+  const log = vi.fn();
+
+  const startBridge = (overrides: { homeAssistantDiscovery?: boolean } = {}) => {
+    bridge = new MqttBridge({
+      config: { enabled: true, url, topicPrefix: PREFIX, ...overrides },
+      devices: [device],
+      log,
+    });
+    bridge.start();
+  };
+
+  beforeEach(async () => {
+    broker = await Aedes.createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    received = new Map();
+    observer = await connectAsync(url);
+    observer.on('message', (topic, payload) => received.set(topic, payload.toString()));
+    await observer.subscribeAsync(['#']);
+
+    device = createMockDevice();
+    log.mockReset();
+  });
+
+  afterEach(async () => {
+    await bridge?.stop();
+    await observer.endAsync();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  describe('state', () => {
+    it('should announce availability and publish the snapshot on connect', async () => {
+      startBridge();
+
+      await eventually(() => {
+        expect(received.get(`${PREFIX}/bridge/availability`)).toBe('online');
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/power`)).toBe('ON');
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/volume`)).toBe('20');
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/muted`)).toBe('OFF');
+      });
+    });
+
+    it('should publish poll updates, mapping Ambilight to style ids', async () => {
+      startBridge();
+      await eventually(() => expect(received.get(`${PREFIX}/bridge/availability`)).toBe('online'));
+
+      device.emit({ source: { id: 'com.netflix.ninja', name: 'Netflix' } });
+      device.emit({ ambilight: { on: true, style: { styleName: 'FOLLOW_VIDEO', isExpert: true, algorithm: 'GAME' } } });
+
+      await eventually(() => {
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/source`)).toBe('Netflix');
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/ambilight`)).toBe('FOLLOW_VIDEO/GAME');
+      });
+
+      // A style without an id still reads as one of the select's options
+      device.emit({ ambilight: { on: true, style: { styleName: 'FOLLOW_FLAG', isExpert: false } } });
+      await eventually(() => expect(received.get(`${PREFIX}/${DEVICE_ID}/ambilight`)).toBe('ON'));
+
+      device.emit({ keyboard: true });
+      await eventually(() => expect(received.get(`${PREFIX}/${DEVICE_ID}/keyboard`)).toBe('ON'));
+
+      device.emit({ power: false, source: null });
+      await eventually(() => {
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/power`)).toBe('OFF');
+        expect(received.get(`${PREFIX}/${DEVICE_ID}/source`)).toBe('');
+      });
+    });
+
+    it('should mark the bridge offline when stopped', async () => {
+      startBridge();
+      await eventually(() => expect(received.get(`${PREFIX}/bridge/availability`)).toBe('online'));
+
+      await bridge.stop();
+
+      await eventually(() => expect(received.get(`${PREFIX}/bridge/availability`)).toBe('offline'));
+      expect(device.listenerCount()).toBe(0);
+    });
+  });
+
+  describe('discovery', () => {
+    it('should publish Home Assistant entities for the device', async () => {
+      startBridge();
+
+      await eventually(() => expect(received.has(`homeassistant/select/${DEVICE_ID}/ambilight/config`)).toBe(true));
+      const power = JSON.parse(received.get(`homeassistant/switch/${DEVICE_ID}/power/config`)!);
+      const ambilight = JSON.parse(received.get(`homeassistant/select/${DEVICE_ID}/ambilight/config`)!);
+
+      expect(power).toMatchObject({
+        command_topic: `${PREFIX}/${DEVICE_ID}/power/set`,
+        availability_topic: `${PREFIX}/bridge/availability`,
+        device: { identifiers: [`philips_ambilight_tv_${DEVICE_ID}`], name: 'Living Room' },
+      });
+      expect(ambilight.options).toContain('OFF');
+      expect(ambilight.options).toContain('ON');
+      expect(ambilight.options).toContain('FOLLOW_AUDIO/PARTY');
+    });
+
+    it('should skip discovery when disabled', async () => {
+      startBridge({ homeAssistantDiscovery: false });
+
+      await eventually(() => expect(received.get(`${PREFIX}/${DEVICE_ID}/power`)).toBe('ON'));
+      expect([...received.keys()].some(t => t.startsWith('homeassistant/'))).toBe(false);
+    });
+  });
+
+  describe('commands', () => {
+    it('should map set topics onto client calls and refresh state', async () => {
+      startBridge();
+      await eventually(() => expect(received.get(`${PREFIX}/bridge/availability`)).toBe('online'));
+
+      await observer.publishAsync(`${PREFIX}/${DEVICE_ID}/power/set`, 'OFF');
+      await observer.publishAsync(`${PREFIX}/${DEVICE_ID}/volume/set`, '25');
+      await observer.publishAsync(`${PREFIX}/${DEVICE_ID}/text/set`, 'stranger things');
+
+      await eventually(() => {
+        expect(device.setPower).toHaveBeenCalledWith(false);
+        expect(device.tvClient.setVolume).toHaveBeenCalledWith(15);
+        expect(device.tvClient.sendText).toHaveBeenCalledWith('stranger things');
+        expect(device.refreshState).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    it('should accept JSON commands and ignore invalid ones', async () => {
+      startBridge();
+      await eventually(() => expect(received.get(`${PREFIX}/bridge/availability`)).toBe('online'));
+
+      await observer.publishAsync(`${PREFIX}/${DEVICE_ID}/command`, JSON.stringify({ type: 'key', key: 'Home' }));
+      await observer.publishAsync(`${PREFIX}/${DEVICE_ID}/volume/set`, 'loud');
+
+      await eventually(() => {
+        expect(device.tvClient.sendKey).toHaveBeenCalledWith('Home');
+        expect(log).toHaveBeenCalledWith('warn', expect.stringContaining('"level"'));
+      });
+      expect(device.tvClient.setVolume).not.toHaveBeenCalled();
+    });
+  });
+});
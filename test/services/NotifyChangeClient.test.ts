@@ -147,6 +147,21 @@ describe('NotifyChangeClient', () => {
     });
   });
 
+  describe('setIp', () => {
+    it('should reconnect to the new address', async () => {
+      mockFetch.mockReturnValue(mockResponse({ test: true }));
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(100);
+      client.setIp('192.168.1.150');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      const lastUrl = mockFetch.mock.calls.at(-1)![0] as string;
+      expect(lastUrl).toContain('://192.168.1.150:');
+      expect(TEST_CONFIG.ip).toBe('192.168.1.100');
+    });
+  });
+
   // ==========================================================================
   // ERROR HANDLING
   // ==========================================================================
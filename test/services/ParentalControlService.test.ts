@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseClockTime, ParentalControlService, SCREEN_TIME_TICK_MS } from '../../src/services/ParentalControlService.js';
+import type { ParentalControlDeps } from '../../src/services/ParentalControlService.js';
+import type { ParentalControlsConfig } from '../../src/api/types.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService() {
+  const handlers = new Map<string, { get?: () => unknown; set?: (v: unknown) => unknown }>();
+  return {
+    handlers,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID: string }) => {
+      const entry = handlers.get(char.UUID) ?? {};
+      handlers.set(char.UUID, entry);
+      const chain = {
+        onGet: (fn: () => unknown) => {
+          entry.get = fn;
+          return chain;
+        },
+        onSet: (fn: (v: unknown) => unknown) => {
+          entry.set = fn;
+          return chain;
+        },
+      };
+      return chain;
+    }),
+  };
+}
+
+function createMockAccessory() {
+  const service = createMockService();
+  return {
+    service,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockReturnValue(service),
+    removeService: vi.fn(),
+  };
+}
+
+let storagePath: string;
+
+function createMockDeps(config: ParentalControlsConfig, poweredOn = true): ParentalControlDeps {
+  return {
+    Service: { Switch: { UUID: 'switch' } } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      sendKey: vi.fn().mockResolvedValue(true),
+      setSource: vi.fn().mockResolvedValue(true),
+    } as never,
+    storagePath,
+    deviceId: 'AA:BB:CC:DD:EE:FF',
+    config: { enabled: true, ...config },
+    isPoweredOn: () => poweredOn,
+    powerOff: vi.fn().mockResolvedValue(undefined),
+    log: vi.fn(),
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('ParentalControlService', () => {
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'parental-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should parse HH:MM times', () => {
+    expect(parseClockTime('07:30')).toBe(450);
+    expect(parseClockTime('7:05')).toBe(425);
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime(undefined)).toBeNull();
+  });
+
+  describe('isActive', () => {
+    it('should apply within the configured hours, including across midnight', () => {
+      const daytime = new ParentalControlService(createMockDeps({ hours: { start: '07:00', end: '19:00' } }));
+      const overnight = new ParentalControlService(createMockDeps({ hours: { start: '21:00', end: '06:30' } }));
+
+      expect(daytime.isActive(new Date(2026, 0, 1, 12, 0))).toBe(true);
+      expect(daytime.isActive(new Date(2026, 0, 1, 19, 0))).toBe(false);
+      expect(overnight.isActive(new Date(2026, 0, 1, 23, 0))).toBe(true);
+      expect(overnight.isActive(new Date(2026, 0, 1, 6, 0))).toBe(true);
+      expect(overnight.isActive(new Date(2026, 0, 1, 12, 0))).toBe(false);
+    });
+
+    it('should apply while the Kids Mode switch is on and remember it', async () => {
+      const deps = createMockDeps({ kidsModeSwitch: true });
+      const parental = new ParentalControlService(deps);
+      const accessory = createMockAccessory();
+      parental.configure(accessory as never, 'TV');
+
+      accessory.service.handlers.get('on')!.set!(true);
+      parental.stop();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(parental.isActive()).toBe(true);
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'switch' }, 'TV Kids Mode', 'kids-mode');
+      expect(new ParentalControlService(createMockDeps({})).isActive()).toBe(true);
+    });
+  });
+
+  describe('checkForeground', () => {
+    it('should press Home when a blocked app appears', async () => {
+      const deps = createMockDeps({ blocked: ['com.google.android.youtube.tv'], hours: { start: '00:00', end: '23:59' } });
+      const parental = new ParentalControlService(deps);
+
+      await parental.checkForeground('com.google.android.youtube.tv', null);
+      await parental.checkForeground('com.google.android.youtube.tv', null);
+
+      expect(deps.tvClient.sendKey).toHaveBeenCalledTimes(1);
+      expect(deps.tvClient.sendKey).toHaveBeenCalledWith('Home');
+    });
+
+    it('should switch to the fallback source for a blocked source alias', async () => {
+      const deps = createMockDeps({ blocked: ['hdmi2'], fallbackSource: 'watchtv', hours: { start: '00:00', end: '23:59' } });
+      const parental = new ParentalControlService(deps);
+      deps.tvClient.launchWatchTV = vi.fn().mockResolvedValue(true);
+
+      await parental.checkForeground(null, 'content://android.media.tv/passthrough/com.mediatek.tvinput%2F.hdmi.HDMIInputService%2FHW6');
+
+      expect(deps.tvClient.launchWatchTV).toHaveBeenCalled();
+    });
+
+    it('should leave blocked apps alone outside the configured hours', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2026, 0, 1, 20, 0));
+      const deps = createMockDeps({ blocked: ['com.netflix.ninja'], hours: { start: '07:00', end: '19:00' } });
+
+      await new ParentalControlService(deps).checkForeground('com.netflix.ninja', null);
+
+      expect(deps.tvClient.sendKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('screen-time budget', () => {
+    it('should turn the TV off once the daily budget is used up, and again on power-on', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+      vi.setSystemTime(new Date(2026, 0, 1, 10, 0));
+      const deps = createMockDeps({ dailyBudgetMinutes: 2, hours: { start: '08:00', end: '20:00' } });
+      const parental = new ParentalControlService(deps);
+      parental.configure(createMockAccessory() as never, 'TV');
+
+      await vi.advanceTimersByTimeAsync(SCREEN_TIME_TICK_MS);
+      expect(deps.powerOff).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(SCREEN_TIME_TICK_MS);
+      expect(deps.powerOff).toHaveBeenCalledTimes(1);
+      expect(parental.remainingBudgetMs()).toBe(0);
+
+      parental.onPowerChange(false);
+      parental.onPowerChange(true);
+      expect(deps.powerOff).toHaveBeenCalledTimes(2);
+      parental.stop();
+    });
+
+    it('should start a fresh budget on a new day', () => {
+      fs.writeFileSync(
+        path.join(storagePath, 'philips-tv-parental-aabbccddeeff.json'),
+        JSON.stringify({ date: '2000-01-01', usedMs: 3_600_000, kidsMode: false }),
+      );
+
+      const parental = new ParentalControlService(createMockDeps({ dailyBudgetMinutes: 60 }));
+
+      expect(parental.remainingBudgetMs()).toBe(3_600_000);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  GESTURE_WINDOW_MS, isHomeKitRemoteKey, isRemoteKey, RemoteKeyMapper, validateRemoteKeyMap,
+} from '../../src/services/RemoteKeyMapper.js';
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('RemoteKeyMapper', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('validation', () => {
+    it('should recognise TV keys and HomeKit key values', () => {
+      expect(isRemoteKey('Options')).toBe(true);
+      expect(isRemoteKey('Options2')).toBe(false);
+      expect(isRemoteKey(8)).toBe(false);
+      expect(isHomeKitRemoteKey(15)).toBe(true);
+      expect(isHomeKitRemoteKey(12)).toBe(false);
+    });
+
+    it('should keep valid entries and report invalid ones', () => {
+      const { map, errors } = validateRemoteKeyMap({
+        SELECT_LONG: 'Options',
+        BACK_DOUBLE: 'Home',
+        MENU: 'Home',
+        SELECT_TRIPLE: 'Home',
+        ARROW_UP: 'Upward',
+      });
+
+      expect(map).toEqual({ SELECT_LONG: 'Options', BACK_DOUBLE: 'Home' });
+      expect(errors).toEqual([
+        '"MENU" is not a HomeKit remote key',
+        '"SELECT_TRIPLE" is not a HomeKit remote key',
+        '"ARROW_UP": "Upward" is not a TV key',
+      ]);
+    });
+
+    it('should reject a table that is not an object', () => {
+      expect(validateRemoteKeyMap(undefined).errors).toEqual([]);
+      expect(validateRemoteKeyMap(['Home']).errors).toEqual(['remoteKeys must be an object']);
+    });
+  });
+
+  describe('single presses', () => {
+    it('should use the default mapping', async () => {
+      const mapper = new RemoteKeyMapper({});
+
+      await expect(mapper.press(8)).resolves.toBe('Confirm');
+      await expect(mapper.press(15)).resolves.toBe('Source');
+      await expect(mapper.press(99)).resolves.toBeNull();
+    });
+
+    it('should let remoteKeys override the older button settings', async () => {
+      const mapper = new RemoteKeyMapper({
+        infoButtonKey: 'Info',
+        backButtonKey: 'Home',
+        remoteKeys: { BACK: 'Exit', EXIT: 'Back' },
+      });
+
+      await expect(mapper.press(15)).resolves.toBe('Info');
+      await expect(mapper.press(9)).resolves.toBe('Exit');
+      await expect(mapper.press(10)).resolves.toBe('Back');
+      expect(mapper.isRemapped(10)).toBe(true);
+      expect(mapper.isRemapped(8)).toBe(false);
+    });
+
+    it('should prefer a user remap over the context fallback', async () => {
+      const mapper = new RemoteKeyMapper({ remoteKeys: { NEXT_TRACK: 'FastForward' } });
+      const tuner = { 2: 'ChannelStepUp', 3: 'ChannelStepDown' } as const;
+
+      await expect(mapper.press(2, tuner)).resolves.toBe('FastForward');
+      await expect(mapper.press(3, tuner)).resolves.toBe('ChannelStepDown');
+    });
+  });
+
+  describe('gestures', () => {
+    const remoteKeys = { SELECT_LONG: 'Options', BACK_DOUBLE: 'Home' } as const;
+
+    it('should send the plain key once the gesture window passes', async () => {
+      vi.useFakeTimers();
+      const mapper = new RemoteKeyMapper({ remoteKeys });
+
+      const press = mapper.press(8);
+      await vi.advanceTimersByTimeAsync(GESTURE_WINDOW_MS);
+
+      await expect(press).resolves.toBe('Confirm');
+    });
+
+    it('should detect a double press', async () => {
+      vi.useFakeTimers();
+      const mapper = new RemoteKeyMapper({ remoteKeys });
+
+      const first = mapper.press(9);
+      const second = mapper.press(9);
+      await vi.advanceTimersByTimeAsync(GESTURE_WINDOW_MS);
+
+      await expect(first).resolves.toBeNull();
+      await expect(second).resolves.toBe('Home');
+    });
+
+    it('should detect a long press and fall back when only a double is mapped', async () => {
+      vi.useFakeTimers();
+      const mapper = new RemoteKeyMapper({ remoteKeys });
+
+      const select = [mapper.press(8), mapper.press(8), mapper.press(8)];
+      await vi.advanceTimersByTimeAsync(GESTURE_WINDOW_MS);
+      const back = [mapper.press(9), mapper.press(9), mapper.press(9)];
+      await vi.advanceTimersByTimeAsync(GESTURE_WINDOW_MS);
+
+      expect(await Promise.all(select)).toEqual([null, null, 'Options']);
+      expect(await Promise.all(back)).toEqual([null, null, 'Home']);
+    });
+
+    it('should send the plain key for every press when no gesture matches', async () => {
+      vi.useFakeTimers();
+      const mapper = new RemoteKeyMapper({ remoteKeys });
+
+      const select = [mapper.press(8), mapper.press(8)];
+      await vi.advanceTimersByTimeAsync(GESTURE_WINDOW_MS);
+
+      expect(await Promise.all(select)).toEqual(['Confirm', 'Confirm']);
+    });
+
+    it('should finish a pending gesture when another key is pressed', async () => {
+      vi.useFakeTimers();
+      const mapper = new RemoteKeyMapper({ remoteKeys });
+
+      const select = mapper.press(8);
+      const up = mapper.press(4);
+
+      await expect(select).resolves.toBe('Confirm');
+      await expect(up).resolves.toBe('CursorUp');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ScreenSwitchService } from '../../src/services/ScreenSwitchService.js';
+import type { ScreenSwitchDeps } from '../../src/services/ScreenSwitchService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: 'switch-uuid',
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<ScreenSwitchDeps['tvClient']> = {}): ScreenSwitchDeps {
+  return {
+    Service: {
+      Switch: { UUID: 'switch-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+    } as never,
+    tvClient: {
+      setScreenState: vi.fn().mockResolvedValue(true),
+      ...overrides,
+    } as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((_svc: unknown, _name: string, subtype: string) => {
+      const service = createMockService(subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+function getOnHandlers(accessory: ReturnType<typeof createMockAccessory>) {
+  const sw = accessory.services.find(s => s.subtype === 'screen-switch')!;
+  const onChar = sw.getCharacteristic({ UUID: 'on' });
+  return {
+    sw,
+    onGet: onChar.onGet.mock.calls[0][0] as () => unknown,
+    onSet: onChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('ScreenSwitchService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('configureSwitch', () => {
+    it('should create a single Screen switch', () => {
+      const service = new ScreenSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+
+      service.configureSwitch(accessory as never, 'TV');
+
+      expect(accessory.addService).toHaveBeenCalledTimes(1);
+      expect(accessory.addService).toHaveBeenCalledWith(expect.anything(), 'TV Screen', 'screen-switch');
+    });
+
+    it('should remove the switch when it exists', () => {
+      const service = new ScreenSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+      const existing = createMockService('screen-switch');
+      accessory.getServiceById = vi.fn().mockReturnValue(existing);
+
+      service.removeSwitch(accessory as never);
+
+      expect(accessory.removeService).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('switch handlers', () => {
+    it('should blank the screen when turned off', async () => {
+      const deps = createMockDeps();
+      const service = new ScreenSwitchService(deps);
+      const accessory = createMockAccessory();
+      service.configureSwitch(accessory as never, 'TV');
+
+      const { onGet, onSet } = getOnHandlers(accessory);
+      await onSet(true);
+      await onSet(false);
+
+      expect(deps.tvClient.setScreenState).toHaveBeenLastCalledWith(false);
+      expect(onGet()).toBe(false);
+    });
+
+    it('should throw a communication error when the write fails', async () => {
+      const deps = createMockDeps({ setScreenState: vi.fn().mockResolvedValue(false) });
+      const service = new ScreenSwitchService(deps);
+      const accessory = createMockAccessory();
+      service.configureSwitch(accessory as never, 'TV');
+
+      const { onSet } = getOnHandlers(accessory);
+      await expect(onSet(false)).rejects.toThrow('comm error');
+    });
+  });
+
+  describe('state updates', () => {
+    it('should push polled changes to HomeKit once', () => {
+      const service = new ScreenSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+      service.configureSwitch(accessory as never, 'TV');
+      const { sw, onGet } = getOnHandlers(accessory);
+
+      service.updateFromPoll(true);
+      service.updateFromPoll(true);
+
+      expect(sw.updateCharacteristic).toHaveBeenCalledTimes(1);
+      expect(sw.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, true);
+      expect(onGet()).toBe(true);
+    });
+
+    it('should force the switch off on reset', () => {
+      const service = new ScreenSwitchService(createMockDeps());
+      const accessory = createMockAccessory();
+      service.configureSwitch(accessory as never, 'TV');
+      const { sw, onGet } = getOnHandlers(accessory);
+      service.updateFromPoll(true);
+
+      service.reset();
+
+      expect(sw.updateCharacteristic).toHaveBeenLastCalledWith({ UUID: 'on' }, false);
+      expect(onGet()).toBe(false);
+    });
+  });
+});
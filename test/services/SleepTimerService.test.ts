@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FADE_STEP_MS, SleepTimerService } from '../../src/services/SleepTimerService.js';
+import type { SleepTimerDeps } from '../../src/services/SleepTimerService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const Characteristic = {
+  Name: { UUID: 'name' },
+  ConfiguredName: { UUID: 'configured-name' },
+  ValveType: { UUID: 'valve-type', GENERIC_VALVE: 0 },
+  Active: { UUID: 'active', ACTIVE: 1, INACTIVE: 0 },
+  InUse: { UUID: 'in-use', IN_USE: 1, NOT_IN_USE: 0 },
+  SetDuration: { UUID: 'set-duration' },
+  RemainingDuration: { UUID: 'remaining-duration' },
+};
+
+function createMockService() {
+  const handlers = new Map<string, { get?: () => unknown; set?: (v: unknown) => unknown }>();
+  return {
+    handlers,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID: string }) => {
+      const entry = handlers.get(char.UUID) ?? {};
+      handlers.set(char.UUID, entry);
+      const chain = {
+        setProps: () => chain,
+        onGet: (fn: () => unknown) => {
+          entry.get = fn;
+          return chain;
+        },
+        onSet: (fn: (v: unknown) => unknown) => {
+          entry.set = fn;
+          return chain;
+        },
+      };
+      return chain;
+    }),
+  };
+}
+
+function createMockAccessory() {
+  const service = createMockService();
+  return {
+    service,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockReturnValue(service),
+    removeService: vi.fn(),
+  };
+}
+
+let storagePath: string;
+
+function createMockDeps(overrides: Partial<SleepTimerDeps> = {}): SleepTimerDeps {
+  return {
+    Service: { Valve: { UUID: 'valve' } } as never,
+    Characteristic: Characteristic as never,
+    tvClient: {
+      getVolume: vi.fn().mockResolvedValue({ current: 30, min: 0, max: 60, muted: false }),
+      setVolume: vi.fn().mockResolvedValue(true),
+      getAmbilightBrightness: vi.fn().mockResolvedValue(8),
+      setAmbilightBrightness: vi.fn().mockResolvedValue(true),
+    } as never,
+    storagePath,
+    deviceId: 'AA:BB:CC:DD:EE:FF',
+    fadeMinutes: 1,
+    powerOff: vi.fn().mockResolvedValue(undefined),
+    log: vi.fn(),
+    ...overrides,
+  };
+}
+
+const timerFile = () => path.join(storagePath, 'philips-tv-sleeptimer-aabbccddeeff.json');
+
+/** Wait for the fire-and-forget file writes to land. */
+const flushWrites = () => new Promise(resolve => setTimeout(resolve, 50));
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('SleepTimerService', () => {
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sleep-timer-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should create a Valve service', () => {
+    const timer = new SleepTimerService(createMockDeps());
+    const accessory = createMockAccessory();
+
+    timer.configureService(accessory as never, 'TV');
+
+    expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'valve' }, 'TV Sleep Timer', 'sleep-timer');
+    expect(accessory.service.setCharacteristic).toHaveBeenCalledWith(Characteristic.ValveType, 0);
+  });
+
+  it('should start with the chosen duration and turn the TV off at the deadline', async () => {
+    vi.useFakeTimers();
+    const deps = createMockDeps({ fadeMinutes: 0 });
+    const timer = new SleepTimerService(deps);
+    const accessory = createMockAccessory();
+    timer.configureService(accessory as never, 'TV');
+    const { handlers } = accessory.service;
+
+    handlers.get('set-duration')!.set!(600);
+    handlers.get('active')!.set!(1);
+    expect(timer.isRunning).toBe(true);
+    expect(handlers.get('remaining-duration')!.get!()).toBe(600);
+
+    await vi.advanceTimersByTimeAsync(600_000);
+
+    expect(deps.powerOff).toHaveBeenCalledTimes(1);
+    expect(timer.isRunning).toBe(false);
+    expect(handlers.get('active')!.get!()).toBe(0);
+  });
+
+  it('should fade volume and brightness over the final minutes, then restore them', async () => {
+    vi.useFakeTimers();
+    const deps = createMockDeps();
+    const timer = new SleepTimerService(deps);
+    timer.configureService(createMockAccessory() as never, 'TV');
+
+    timer.start(120);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(deps.tvClient.setVolume).toHaveBeenLastCalledWith(30);
+
+    await vi.advanceTimersByTimeAsync(FADE_STEP_MS);
+    expect(deps.tvClient.setVolume).toHaveBeenLastCalledWith(20);
+    expect(deps.tvClient.setAmbilightBrightness).toHaveBeenLastCalledWith(5);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(deps.powerOff).toHaveBeenCalled();
+    expect(deps.tvClient.setVolume).toHaveBeenLastCalledWith(30);
+    expect(deps.tvClient.setAmbilightBrightness).toHaveBeenLastCalledWith(8);
+  });
+
+  it('should not fade after being cancelled while reading the levels to fade from', async () => {
+    vi.useFakeTimers();
+    let answerVolume: (volume: unknown) => void = () => undefined;
+    const deps = createMockDeps();
+    (deps.tvClient.getVolume as ReturnType<typeof vi.fn>).mockReturnValue(new Promise(resolve => {
+      answerVolume = resolve;
+    }));
+    const timer = new SleepTimerService(deps);
+    timer.configureService(createMockAccessory() as never, 'TV');
+
+    timer.start(120);
+    await vi.advanceTimersByTimeAsync(60_000);
+    const cancelled = timer.cancel('cancelled');
+    answerVolume({ current: 30, min: 0, max: 60, muted: false });
+    await cancelled;
+    await vi.advanceTimersByTimeAsync(FADE_STEP_MS);
+
+    expect(deps.tvClient.setVolume).not.toHaveBeenCalled();
+    expect(deps.tvClient.setAmbilightBrightness).not.toHaveBeenCalled();
+  });
+
+  it('should restore the levels only after a fade step still writing', async () => {
+    vi.useFakeTimers();
+    let finishWrite: (ok: boolean) => void = () => undefined;
+    const deps = createMockDeps();
+    (deps.tvClient.setVolume as ReturnType<typeof vi.fn>).mockReturnValueOnce(new Promise(resolve => {
+      finishWrite = resolve;
+    }));
+    const timer = new SleepTimerService(deps);
+    timer.configureService(createMockAccessory() as never, 'TV');
+
+    timer.start(120);
+    await vi.advanceTimersByTimeAsync(60_000);
+    const cancelled = timer.cancel('cancelled');
+    finishWrite(true);
+    await cancelled;
+
+    expect(deps.tvClient.setVolume).toHaveBeenLastCalledWith(30);
+    expect(deps.tvClient.setAmbilightBrightness).toHaveBeenLastCalledWith(8);
+    expect(deps.tvClient.setAmbilightBrightness).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave a muted TV muted while fading', async () => {
+    vi.useFakeTimers();
+    const deps = createMockDeps();
+    (deps.tvClient.getVolume as ReturnType<typeof vi.fn>).mockResolvedValue({ current: 30, min: 0, max: 60, muted: true });
+    const timer = new SleepTimerService(deps);
+    timer.configureService(createMockAccessory() as never, 'TV');
+
+    timer.start(120);
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(deps.powerOff).toHaveBeenCalled();
+    expect(deps.tvClient.setAmbilightBrightness).toHaveBeenLastCalledWith(8);
+    expect(deps.tvClient.setVolume).not.toHaveBeenCalled();
+  });
+
+  it('should cancel itself when the TV is turned off', async () => {
+    vi.useFakeTimers();
+    const deps = createMockDeps();
+    const timer = new SleepTimerService(deps);
+    const accessory = createMockAccessory();
+    timer.configureService(accessory as never, 'TV');
+
+    timer.start(600);
+    timer.onTvPoweredOff();
+    await vi.advanceTimersByTimeAsync(600_000);
+
+    expect(timer.isRunning).toBe(false);
+    expect(deps.powerOff).not.toHaveBeenCalled();
+    expect(accessory.service.updateCharacteristic).toHaveBeenLastCalledWith(Characteristic.RemainingDuration, 0);
+  });
+
+  it('should persist the deadline and resume it after a restart', async () => {
+    const first = new SleepTimerService(createMockDeps());
+    first.configureService(createMockAccessory() as never, 'TV');
+    first.start(900);
+    first.stop();
+    await flushWrites();
+
+    const persisted = JSON.parse(fs.readFileSync(timerFile(), 'utf-8'));
+    expect(persisted.duration).toBe(900);
+
+    const second = new SleepTimerService(createMockDeps());
+    const accessory = createMockAccessory();
+    second.configureService(accessory as never, 'TV');
+
+    expect(second.isRunning).toBe(true);
+    expect(accessory.service.handlers.get('remaining-duration')!.get!()).toBeGreaterThan(890);
+    second.stop();
+  });
+
+  it('should drop a deadline that expired long before the restart', () => {
+    fs.writeFileSync(timerFile(), JSON.stringify({ deadline: Date.now() - 60 * 60_000, duration: 600 }));
+
+    const deps = createMockDeps();
+    const timer = new SleepTimerService(deps);
+    timer.configureService(createMockAccessory() as never, 'TV');
+
+    expect(timer.isRunning).toBe(false);
+    expect(deps.powerOff).not.toHaveBeenCalled();
+  });
+});
@@ -8,12 +8,17 @@ import type { PhilipsTVClient } from '../../src/api/PhilipsTVClient.js';
 // MOCKS
 // ============================================================================
 
-let notifyInstances: (EventEmitter & { start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn> })[] = [];
+let notifyInstances: (EventEmitter & {
+  start: ReturnType<typeof vi.fn>;
+  stop: ReturnType<typeof vi.fn>;
+  setIp: ReturnType<typeof vi.fn>;
+})[] = [];
 
 vi.mock('../../src/services/NotifyChangeClient.js', () => ({
   NotifyChangeClient: class MockNotifyChangeClient extends EventEmitter {
     start = vi.fn();
     stop = vi.fn();
+    setIp = vi.fn();
     constructor() {
       super();
       notifyInstances.push(this as MockNotifyChangeClient);
@@ -23,11 +28,18 @@ vi.mock('../../src/services/NotifyChangeClient.js', () => ({
 
 function createMockTVClient(): PhilipsTVClient {
   return {
+    ip: '192.168.1.100',
+    consecutiveFailures: 0,
+    isUnauthorized: false,
     getPowerState: vi.fn().mockResolvedValue(false),
     getAmbilightStyle: vi.fn().mockResolvedValue(null),
     getAmbilightPower: vi.fn().mockResolvedValue(false),
     getVolume: vi.fn().mockResolvedValue(null),
     getCurrentActivity: vi.fn().mockResolvedValue(null),
+    getScreenState: vi.fn().mockResolvedValue(true),
+    getAuroraOpen: vi.fn().mockResolvedValue(false),
+    getCurrentChannel: vi.fn().mockResolvedValue(null),
+    getKeyboardVisible: vi.fn().mockResolvedValue(null),
   } as unknown as PhilipsTVClient;
 }
 
@@ -37,7 +49,15 @@ function createMockCallbacks(): PollCallbacks {
     onAmbilightUpdate: vi.fn(),
     onVolumeUpdate: vi.fn(),
     onInputUpdate: vi.fn(),
+    onChannelUpdate: vi.fn(),
+    isTunerInputSelected: vi.fn().mockReturnValue(true),
+    onScreenUpdate: vi.fn(),
+    onKeyboardUpdate: vi.fn(),
+    onAuroraUpdate: vi.fn(),
+    onAuroraUnsupported: vi.fn(),
     onAppsReady: vi.fn(),
+    onUnreachable: vi.fn(),
+    onAuthChange: vi.fn(),
   };
 }
 
@@ -129,6 +149,15 @@ describe('StatePollManager', () => {
       expect(callbacks.onPowerChange).toHaveBeenCalledWith(true);
     });
 
+    it('should queue one poll behind a running one instead of overlapping them', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+
+      await Promise.all([manager.refresh(), manager.refresh(), manager.refresh()]);
+
+      expect(tvClient.getPowerState).toHaveBeenCalledTimes(2);
+    });
+
     it('should report the initial state once, then not re-notify when unchanged', async () => {
       (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
       manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
@@ -211,7 +240,7 @@ describe('StatePollManager', () => {
   // ==========================================================================
 
   describe('volume polling', () => {
-    it('should report mute state changes', async () => {
+    it('should report mute state and the full volume reading', async () => {
       (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
       (tvClient.getAmbilightStyle as ReturnType<typeof vi.fn>).mockResolvedValue(null);
       (tvClient.getAmbilightPower as ReturnType<typeof vi.fn>).mockResolvedValue(false);
@@ -222,7 +251,7 @@ describe('StatePollManager', () => {
 
       await vi.advanceTimersByTimeAsync(5100);
 
-      expect(callbacks.onVolumeUpdate).toHaveBeenCalledWith(true);
+      expect(callbacks.onVolumeUpdate).toHaveBeenCalledWith(true, { current: 25, muted: true });
     });
   });
 
@@ -378,6 +407,401 @@ describe('StatePollManager', () => {
     });
   });
 
+  // ==========================================================================
+  // CURRENT CHANNEL
+  // ==========================================================================
+
+  describe('channel tracking', () => {
+    const NPO1 = { ccid: 1234, name: 'NPO 1', preset: '1', channelListId: 'allter' };
+
+    it('should read the channel only while the tuner is the current app', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('com.netflix.ninja');
+      (tvClient.getCurrentChannel as ReturnType<typeof vi.fn>).mockResolvedValue(NPO1);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(tvClient.getCurrentChannel).not.toHaveBeenCalled();
+
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('org.droidtv.playtv');
+      await manager.refresh();
+
+      expect(callbacks.onChannelUpdate).toHaveBeenLastCalledWith(NPO1);
+      expect(manager.getSnapshot().currentChannel).toEqual(NPO1);
+      expect(debugLog).toHaveBeenCalledWith('info', 'Channel: 1 NPO 1');
+    });
+
+    it('should apply channel changes pushed by the long-poll', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('org.droidtv.playtv');
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      notifyInstances[0].emit('notification', {
+        'activities/tv': { channel: { ccid: 1234, preset: '1', name: 'NPO 1' }, channelList: { id: 'allter' } },
+      });
+
+      expect(callbacks.onChannelUpdate).toHaveBeenLastCalledWith(NPO1);
+    });
+
+    it('should not report the last tuned channel while an HDMI input is in front', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('org.droidtv.playtv');
+      (tvClient.getCurrentChannel as ReturnType<typeof vi.fn>).mockResolvedValue(NPO1);
+      (callbacks.isTunerInputSelected as ReturnType<typeof vi.fn>).mockReturnValue(false);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      notifyInstances[0].emit('notification', {
+        'activities/tv': { channel: { ccid: 1234, preset: '1', name: 'NPO 1' }, channelList: { id: 'allter' } },
+      });
+
+      expect(tvClient.getCurrentChannel).not.toHaveBeenCalled();
+      expect(callbacks.onChannelUpdate).not.toHaveBeenCalledWith(NPO1);
+      expect(manager.getSnapshot().currentChannel).toBeNull();
+    });
+
+    it('should ignore pushed channels while an app is in front', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('com.netflix.ninja');
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      notifyInstances[0].emit('notification', {
+        'activities/tv': { channel: { ccid: 1234, preset: '1', name: 'NPO 1' }, channelList: { id: 'allter' } },
+      });
+
+      expect(callbacks.onChannelUpdate).not.toHaveBeenCalledWith(NPO1);
+    });
+
+    it('should clear the channel when the TV goes to standby', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('org.droidtv.playtv');
+      (tvClient.getCurrentChannel as ReturnType<typeof vi.fn>).mockResolvedValue(NPO1);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      await manager.refresh();
+
+      expect(callbacks.onChannelUpdate).toHaveBeenLastCalledWith(null);
+      expect(manager.getSnapshot().currentChannel).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // ON-SCREEN KEYBOARD
+  // ==========================================================================
+
+  describe('keyboard tracking', () => {
+    it('should report the keyboard opening and closing from polls', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getKeyboardVisible as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(callbacks.onKeyboardUpdate).toHaveBeenLastCalledWith(true);
+      expect(manager.getSnapshot().keyboardVisible).toBe(true);
+      expect(debugLog).toHaveBeenCalledWith('info', 'On-screen keyboard: shown');
+
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      await manager.refresh();
+
+      expect(callbacks.onKeyboardUpdate).toHaveBeenLastCalledWith(false);
+    });
+
+    it('should stop asking a TV that never reports the keyboard', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getKeyboardVisible as ReturnType<typeof vi.fn>).mockResolvedValue('unsupported');
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100 + 10_000 * 4);
+
+      expect(tvClient.getKeyboardVisible).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep asking when the keyboard reads only fail', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100 + 10_000 * 4);
+
+      expect(tvClient.getKeyboardVisible).toHaveBeenCalledTimes(5);
+    });
+
+    it('should take keyboard changes from the long-poll without a full poll', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getKeyboardVisible as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+      const polls = (tvClient.getPowerState as ReturnType<typeof vi.fn>).mock.calls.length;
+
+      notifyInstances[0].emit('notification', { 'input/onscreenkeyboard/visible': { visible: true } });
+
+      expect(callbacks.onKeyboardUpdate).toHaveBeenLastCalledWith(true);
+      expect(tvClient.getPowerState).toHaveBeenCalledTimes(polls);
+
+      // Pushed from now on — the poll no longer reads it
+      await manager.refresh();
+      expect(tvClient.getKeyboardVisible).toHaveBeenCalledTimes(1);
+    });
+
+    it('should poll the keyboard again once the long-poll stops', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getKeyboardVisible as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+      notifyInstances[0].emit('notification', { 'input/onscreenkeyboard/visible': { visible: true } });
+
+      notifyInstances[0].emit('failed');
+      await manager.refresh();
+
+      expect(tvClient.getKeyboardVisible).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ==========================================================================
+  // SCREEN STATE
+  // ==========================================================================
+
+  describe('screen polling', () => {
+    it('should report the screen state while the TV is on when the switch is enabled', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getScreenState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      manager = new StatePollManager(tvClient, { ...TEST_CONFIG, screenSwitch: true }, callbacks, debugLog);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(callbacks.onScreenUpdate).toHaveBeenCalledWith(false);
+    });
+
+    it('should not read the screen state when the switch is disabled', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(tvClient.getScreenState).not.toHaveBeenCalled();
+      expect(callbacks.onScreenUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aurora polling', () => {
+    it('should report the Aurora state when the switch is enabled', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getAuroraOpen as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, { ...TEST_CONFIG, aurora: { enabled: true } }, callbacks, debugLog);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(callbacks.onAuroraUpdate).toHaveBeenCalledWith(true);
+    });
+
+    it('should stop asking once the TV repeatedly reports no Aurora state', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getAuroraOpen as ReturnType<typeof vi.fn>).mockResolvedValue('unsupported');
+      manager = new StatePollManager(tvClient, { ...TEST_CONFIG, aurora: { enabled: true } }, callbacks, debugLog);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(5100);
+      await manager.refresh();
+      await manager.refresh();
+      await manager.refresh();
+
+      expect(tvClient.getAuroraOpen).toHaveBeenCalledTimes(3);
+      expect(callbacks.onAuroraUnsupported).toHaveBeenCalledTimes(1);
+      expect(callbacks.onAuroraUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not give up on Aurora when the TV only fails to answer', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getAuroraOpen as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      manager = new StatePollManager(tvClient, { ...TEST_CONFIG, aurora: { enabled: true } }, callbacks, debugLog);
+      manager.start();
+
+      await vi.advanceTimersByTimeAsync(5100);
+      await manager.refresh();
+      await manager.refresh();
+      await manager.refresh();
+
+      expect(tvClient.getAuroraOpen).toHaveBeenCalledTimes(4);
+      expect(callbacks.onAuroraUnsupported).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // POWER-ON EXPECTATION
+  // ==========================================================================
+
+  describe('expected power-on', () => {
+    it('should not report standby or unreachable readings while a power-on is expected', async () => {
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.expectPowerOn(30_000);
+      (tvClient as { consecutiveFailures: number }).consecutiveFailures = 3;
+
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(callbacks.onPowerChange).not.toHaveBeenCalled();
+      expect(callbacks.onUnreachable).not.toHaveBeenCalled();
+
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      await manager.refresh();
+
+      expect(callbacks.onPowerChange).toHaveBeenCalledWith(true);
+    });
+
+    it('should report standby again once the expectation is cleared or expires', async () => {
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.expectPowerOn(30_000);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      manager.clearPowerExpectation();
+      await manager.refresh();
+      expect(callbacks.onPowerChange).toHaveBeenCalledWith(false);
+
+      manager.expectPowerOn(1000);
+      (tvClient as { consecutiveFailures: number }).consecutiveFailures = 3;
+      await vi.advanceTimersByTimeAsync(10_100);
+      expect(callbacks.onUnreachable).toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // UNREACHABLE TV
+  // ==========================================================================
+
+  describe('unreachable TV', () => {
+    it('should report the TV unreachable once requests stop getting answers', async () => {
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      // Standby TVs still answer — that is not "unreachable"
+      expect(callbacks.onUnreachable).not.toHaveBeenCalled();
+
+      (tvClient as { consecutiveFailures: number }).consecutiveFailures = 3;
+      await vi.advanceTimersByTimeAsync(10_100);
+
+      expect(callbacks.onUnreachable).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move the long-poll client to a new address', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      manager.setIp('192.168.1.150');
+
+      expect(notifyInstances[0].setIp).toHaveBeenCalledWith('192.168.1.150');
+    });
+  });
+
+  // ==========================================================================
+  // REJECTED CREDENTIALS
+  // ==========================================================================
+
+  describe('rejected credentials', () => {
+    const setUnauthorized = (value: boolean) => {
+      (tvClient as { isUnauthorized: boolean }).isUnauthorized = value;
+    };
+
+    it('should report rejected credentials once and keep the last power state', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+      debugLog.mockClear();
+
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      setUnauthorized(true);
+      await vi.advanceTimersByTimeAsync(30_100);
+
+      expect(callbacks.onAuthChange).toHaveBeenLastCalledWith(false);
+      expect(debugLog.mock.calls.filter(([level]) => level === 'error')).toHaveLength(1);
+      expect(callbacks.onPowerChange).not.toHaveBeenCalledWith(false);
+      expect(notifyInstances[0].stop).toHaveBeenCalled();
+    });
+
+    it('should resume, long-poll included, once the credentials are accepted again', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+      setUnauthorized(true);
+      await manager.refresh();
+
+      setUnauthorized(false);
+      await manager.refresh();
+
+      expect(callbacks.onAuthChange).toHaveBeenLastCalledWith(true);
+      expect(debugLog).toHaveBeenCalledWith('info', 'The TV accepts the credentials again');
+      expect(notifyInstances).toHaveLength(2);
+    });
+  });
+
+  // ==========================================================================
+  // SNAPSHOT
+  // ==========================================================================
+
+  describe('getSnapshot', () => {
+    it('should be empty before the first poll', () => {
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+
+      expect(manager.getSnapshot()).toEqual({
+        power: null, ambilight: null, volume: null, currentApp: null, currentChannel: null, keyboardVisible: null, updatedAt: null,
+      });
+    });
+
+    it('should reflect the last poll while the TV is on', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getAmbilightStyle as ReturnType<typeof vi.fn>).mockResolvedValue({ styleName: 'FOLLOW_VIDEO', algorithm: 'GAME' });
+      (tvClient.getVolume as ReturnType<typeof vi.fn>).mockResolvedValue({ current: 25, min: 0, max: 60, muted: false });
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('com.netflix.ninja');
+
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+
+      expect(manager.getSnapshot()).toMatchObject({
+        power: true,
+        ambilight: { on: true, style: 'FOLLOW_VIDEO', algorithm: 'GAME' },
+        volume: { current: 25, muted: false },
+        currentApp: 'com.netflix.ninja',
+      });
+      expect(manager.getSnapshot().updatedAt).not.toBeNull();
+    });
+
+    it('should clear on-only fields once the TV is in standby', async () => {
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getAmbilightPower as ReturnType<typeof vi.fn>).mockResolvedValue(true);
+      (tvClient.getCurrentActivity as ReturnType<typeof vi.fn>).mockResolvedValue('com.netflix.ninja');
+
+      manager = new StatePollManager(tvClient, TEST_CONFIG, callbacks, debugLog);
+      manager.start();
+      await vi.advanceTimersByTimeAsync(5100);
+      expect(manager.getSnapshot().ambilight).toEqual({ on: true, style: null, algorithm: null });
+
+      (tvClient.getPowerState as ReturnType<typeof vi.fn>).mockResolvedValue(false);
+      await manager.refresh();
+
+      expect(manager.getSnapshot()).toMatchObject({ power: false, ambilight: null, currentApp: null });
+    });
+  });
+
   // ==========================================================================
   // CLEANUP
   // ==========================================================================
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { VolumeSliderService } from '../../src/services/VolumeSliderService.js';
+import type { VolumeSliderDeps } from '../../src/services/VolumeSliderService.js';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+function createMockService(uuid: string, subtype?: string) {
+  const characteristics = new Map<string, { value: unknown; onGet: ReturnType<typeof vi.fn>; onSet: ReturnType<typeof vi.fn> }>();
+
+  const service = {
+    UUID: uuid,
+    subtype,
+    setCharacteristic: vi.fn().mockReturnThis(),
+    addOptionalCharacteristic: vi.fn(),
+    getCharacteristic: vi.fn().mockImplementation((char: { UUID?: string } | string) => {
+      const key = typeof char === 'string' ? char : char?.UUID ?? 'unknown';
+      if (!characteristics.has(key)) {
+        characteristics.set(key, {
+          value: null as unknown,
+          onGet: vi.fn().mockReturnThis(),
+          onSet: vi.fn().mockReturnThis(),
+        });
+      }
+      return characteristics.get(key)!;
+    }),
+    updateCharacteristic: vi.fn().mockReturnThis(),
+  };
+
+  return service;
+}
+
+function createMockDeps(overrides: Partial<VolumeSliderDeps['tvClient']> = {}): VolumeSliderDeps {
+  return {
+    Service: {
+      Lightbulb: { UUID: 'lightbulb-uuid' },
+      Fanv2: { UUID: 'fan-uuid' },
+    } as never,
+    Characteristic: {
+      Name: { UUID: 'name' },
+      ConfiguredName: { UUID: 'configured-name' },
+      On: { UUID: 'on' },
+      Brightness: { UUID: 'brightness' },
+      Active: { UUID: 'active', ACTIVE: 1, INACTIVE: 0 },
+      RotationSpeed: { UUID: 'rotation-speed' },
+    } as never,
+    tvClient: {
+      getVolume: vi.fn().mockResolvedValue({ current: 30, min: 0, max: 60, muted: false }),
+      setVolume: vi.fn().mockResolvedValue(true),
+      setMuted: vi.fn().mockResolvedValue(true),
+      ...overrides,
+    } as never,
+    communicationError: () => new Error('comm error') as never,
+    log: vi.fn(),
+  };
+}
+
+function createMockAccessory() {
+  const services: ReturnType<typeof createMockService>[] = [];
+  return {
+    services,
+    getServiceById: vi.fn().mockReturnValue(null),
+    addService: vi.fn().mockImplementation((svc: { UUID: string }, _name: string, subtype: string) => {
+      const service = createMockService(svc.UUID, subtype);
+      services.push(service);
+      return service;
+    }),
+    removeService: vi.fn(),
+  };
+}
+
+function createMockTvService() {
+  return { addLinkedService: vi.fn() };
+}
+
+function getHandlers(accessory: ReturnType<typeof createMockAccessory>, onKey: string, levelKey: string) {
+  const slider = accessory.services.find(s => s.subtype === 'volume-slider')!;
+  const onChar = slider.getCharacteristic({ UUID: onKey });
+  const levelChar = slider.getCharacteristic({ UUID: levelKey });
+  return {
+    slider,
+    getOn: onChar.onGet.mock.calls[0][0] as () => unknown,
+    setOn: onChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+    getLevel: levelChar.onGet.mock.calls[0][0] as () => unknown,
+    setLevel: levelChar.onSet.mock.calls[0][0] as (v: unknown) => Promise<void>,
+  };
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('VolumeSliderService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('configureService', () => {
+    it('should create a linked Lightbulb slider', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      const tvService = createMockTvService();
+
+      service.configureService(accessory as never, tvService as never, 'TV', 'lightbulb');
+
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'lightbulb-uuid' }, 'TV Volume', 'volume-slider');
+      expect(tvService.addLinkedService).toHaveBeenCalledWith(accessory.services[0]);
+    });
+
+    it('should create a Fan slider and drop a leftover Lightbulb slider', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      const stale = createMockService('lightbulb-uuid', 'volume-slider');
+      accessory.getServiceById = vi.fn().mockImplementation((svc: { UUID: string }) =>
+        svc.UUID === 'lightbulb-uuid' ? stale : null);
+
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'fan');
+
+      expect(accessory.removeService).toHaveBeenCalledWith(stale);
+      expect(accessory.addService).toHaveBeenCalledWith({ UUID: 'fan-uuid' }, 'TV Volume', 'volume-slider');
+    });
+  });
+
+  describe('removeService', () => {
+    it('should remove an existing slider of either type', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      const existing = createMockService('fan-uuid', 'volume-slider');
+      accessory.getServiceById = vi.fn().mockImplementation((svc: { UUID: string }) =>
+        svc.UUID === 'fan-uuid' ? existing : null);
+
+      service.removeService(accessory as never);
+
+      expect(accessory.removeService).toHaveBeenCalledTimes(1);
+      expect(accessory.removeService).toHaveBeenCalledWith(existing);
+    });
+  });
+
+  describe('range mapping', () => {
+    it('should map percentages onto the TV-reported range', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      service.updateFromPoll({ current: 0, min: 10, max: 110, muted: false });
+
+      expect(service.percentToLevel(0)).toBe(10);
+      expect(service.percentToLevel(20)).toBe(30);
+      expect(service.percentToLevel(100)).toBe(110);
+      expect(service.levelToPercent(60)).toBe(50);
+    });
+
+    it('should clamp levels outside the reported range', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      service.updateFromPoll({ current: 0, min: 0, max: 60, muted: false });
+
+      expect(service.levelToPercent(80)).toBe(100);
+      expect(service.levelToPercent(-5)).toBe(0);
+    });
+  });
+
+  describe('slider handlers', () => {
+    it('should set the absolute volume from the slider', async () => {
+      const deps = createMockDeps();
+      const service = new VolumeSliderService(deps);
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+      service.updateFromPoll({ current: 30, min: 0, max: 60, muted: false });
+
+      const { setLevel, getLevel } = getHandlers(accessory, 'on', 'brightness');
+      await setLevel(20);
+
+      expect(deps.tvClient.setVolume).toHaveBeenCalledWith(12);
+      expect(getLevel()).toBe(20);
+    });
+
+    it('should fetch the range first when no poll has reported it yet', async () => {
+      const deps = createMockDeps({
+        getVolume: vi.fn().mockResolvedValue({ current: 5, min: 0, max: 100, muted: false }),
+      });
+      const service = new VolumeSliderService(deps);
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+
+      const { setLevel } = getHandlers(accessory, 'on', 'brightness');
+      await setLevel(20);
+
+      expect(deps.tvClient.getVolume).toHaveBeenCalled();
+      expect(deps.tvClient.setVolume).toHaveBeenCalledWith(20);
+    });
+
+    it('should mute when the Lightbulb is turned off', async () => {
+      const deps = createMockDeps();
+      const service = new VolumeSliderService(deps);
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+
+      const { setOn, getOn } = getHandlers(accessory, 'on', 'brightness');
+      await setOn(false);
+
+      expect(deps.tvClient.setMuted).toHaveBeenCalledWith(true);
+      expect(getOn()).toBe(false);
+    });
+
+    it('should drive RotationSpeed and Active for the Fan type', async () => {
+      const deps = createMockDeps();
+      const service = new VolumeSliderService(deps);
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'fan');
+      service.updateFromPoll({ current: 30, min: 0, max: 60, muted: false });
+
+      const { setLevel, setOn } = getHandlers(accessory, 'active', 'rotation-speed');
+      await setLevel(50);
+      await setOn(0);
+
+      expect(deps.tvClient.setVolume).toHaveBeenCalledWith(30);
+      expect(deps.tvClient.setMuted).toHaveBeenCalledWith(true);
+    });
+
+    it('should throw a communication error when the write fails', async () => {
+      const deps = createMockDeps({ setVolume: vi.fn().mockResolvedValue(false) });
+      const service = new VolumeSliderService(deps);
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+
+      const { setLevel } = getHandlers(accessory, 'on', 'brightness');
+      await expect(setLevel(40)).rejects.toThrow('comm error');
+    });
+  });
+
+  describe('updateFromPoll', () => {
+    it('should reflect the polled volume and mute state', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+      const { slider } = getHandlers(accessory, 'on', 'brightness');
+
+      service.updateFromPoll({ current: 15, min: 0, max: 60, muted: true });
+
+      expect(slider.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'brightness' }, 25);
+      expect(slider.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, false);
+    });
+
+    it('should ignore polls right after a user change', async () => {
+      vi.useFakeTimers();
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+      service.updateFromPoll({ current: 30, min: 0, max: 60, muted: false });
+      const { slider, setLevel, getLevel } = getHandlers(accessory, 'on', 'brightness');
+
+      await setLevel(80);
+      slider.updateCharacteristic.mockClear();
+      service.updateFromPoll({ current: 30, min: 0, max: 60, muted: false });
+
+      expect(slider.updateCharacteristic).not.toHaveBeenCalled();
+      expect(getLevel()).toBe(80);
+
+      vi.advanceTimersByTime(6000);
+      service.updateFromPoll({ current: 30, min: 0, max: 60, muted: false });
+
+      expect(getLevel()).toBe(50);
+    });
+  });
+
+  describe('reset', () => {
+    it('should show the slider as off', () => {
+      const service = new VolumeSliderService(createMockDeps());
+      const accessory = createMockAccessory();
+      service.configureService(accessory as never, createMockTvService() as never, 'TV', 'lightbulb');
+      const { slider } = getHandlers(accessory, 'on', 'brightness');
+
+      service.reset();
+
+      expect(slider.updateCharacteristic).toHaveBeenCalledWith({ UUID: 'on' }, false);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhilipsTVClient } from '../../src/api/PhilipsTVClient.js';
+import { PairingClient } from '../../src/api/PairingClient.js';
+import { NotifyChangeClient } from '../../src/services/NotifyChangeClient.js';
+import { StatePollManager } from '../../src/services/StatePollManager.js';
+import { TVSimulator } from '../../src/simulator/TVSimulator.js';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const HOST = '127.0.0.1';
+const CREDENTIALS = { username: 'homebridge', password: 'secret' };
+const TV_CONFIG = { name: 'Simulated TV', ip: HOST, mac: '00:00:00:00:00:00', ...CREDENTIALS, wakeOnLanEnabled: false };
+
+function createClient(credentials = CREDENTIALS): PhilipsTVClient {
+  return new PhilipsTVClient({ ...TV_CONFIG, ...credentials });
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe('TVSimulator', () => {
+  let simulator: TVSimulator;
+
+  beforeEach(async () => {
+    simulator = new TVSimulator({ host: HOST, credentials: [CREDENTIALS], longPollHoldMs: 1_000 });
+    await simulator.start();
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  // ==========================================================================
+  // PHILIPS TV CLIENT
+  // ==========================================================================
+
+  describe('with PhilipsTVClient', () => {
+    it('should serve reads over digest auth', async () => {
+      const client = createClient();
+
+      expect(await client.getPowerState()).toBe(true);
+      expect(await client.getVolume()).toEqual({ current: 15, min: 0, max: 60, muted: false });
+      expect((await client.getApplications()).map(app => app.label)).toContain('Netflix');
+      expect((await client.getFavoriteChannels('1')).map(ch => ch.name)).toEqual(['RTL 4 HD', 'NPO 1 HD']);
+      expect(simulator.requests[0]).toMatchObject({ endpoint: '/powerstate', status: 401, authenticated: false });
+      expect(simulator.requests[1]).toMatchObject({ endpoint: '/powerstate', status: 200, authenticated: true });
+    });
+
+    it('should apply writes to the simulated state', async () => {
+      const client = createClient();
+
+      await client.setVolume(30);
+      await client.setChannel(103);
+      await client.setAmbilightBrightness(7);
+      await client.setAmbilightOff();
+
+      expect(simulator.state.volume.current).toBe(30);
+      expect(await client.getCurrentChannel()).toMatchObject({ ccid: 103, name: 'NPO 3 HD' });
+      expect(simulator.state.settings[2131230800]).toBe(7);
+      expect(simulator.state.ambilight.power).toBe('Off');
+    });
+
+    it('should reject a guessed launch activity so the client learns the real one', async () => {
+      const client = createClient();
+
+      expect(await client.launchApplication('com.disney.disneyplus')).toBe(true);
+
+      expect(simulator.state.activity.className).toBe('com.bamtechmedia.dominguez.main.MainActivity');
+      expect(simulator.requests.filter(r => r.endpoint === '/activities/launch').map(r => r.status)).toContain(404);
+    });
+
+    it('should follow remote keys', async () => {
+      const client = createClient();
+
+      await client.sendKey('WatchTV');
+      await client.sendKey('ChannelStepUp');
+      await client.sendKey('Standby');
+
+      expect(simulator.state.power).toBe('Standby');
+      expect(await client.getPowerState()).toBe(false);
+      await client.sendKey('Standby');
+      expect(simulator.state.power).toBe('On');
+    });
+  });
+
+  // ==========================================================================
+  // FAULTS
+  // ==========================================================================
+
+  describe('faults', () => {
+    it('should re-challenge with a stale nonce after nonce expiry', async () => {
+      const client = createClient();
+      await client.getPowerState();
+
+      simulator.expireNonces();
+
+      expect(await client.getVolume()).not.toBeNull();
+      const volumeRequests = simulator.requests.filter(r => r.endpoint === '/audio/volume');
+      expect(volumeRequests.map(r => r.status)).toEqual([401, 200]);
+    });
+
+    it('should time out requests slower than the client allows', async () => {
+      const client = createClient();
+      await client.getPowerState();
+      simulator.faults.latencyMs = 300;
+
+      expect(await client.getApplications(100)).toEqual([]);
+      expect((await client.getApplications()).length).toBeGreaterThan(0);
+    });
+
+    it('should drop requests without answering', async () => {
+      const client = createClient();
+      simulator.faults.dropRequests = 1;
+
+      expect(await client.getVolume()).toBeNull();
+      expect(await client.getVolume()).not.toBeNull();
+      expect(simulator.requests[0]).toMatchObject({ endpoint: '/audio/volume', status: 0 });
+    });
+
+    it('should report unreachable and revoked credentials apart', async () => {
+      const client = createClient();
+
+      simulator.faults.unreachable = true;
+      expect(await client.checkCredentials()).toBe('unreachable');
+
+      simulator.faults.unreachable = false;
+      simulator.faults.rejectCredentials = true;
+      expect(await client.checkCredentials()).toBe('unauthorized');
+    });
+  });
+
+  // ==========================================================================
+  // PAIRING
+  // ==========================================================================
+
+  describe('pairing', () => {
+    it('should pair with the PIN and accept the new credentials', async () => {
+      const pairing = new PairingClient();
+
+      expect((await pairing.request(HOST)).success).toBe(true);
+      expect(await pairing.grant(HOST, '0000')).toMatchObject({ success: false, code: 'invalid-pin' });
+      const granted = await pairing.grant(HOST, '1234');
+
+      expect(granted.success).toBe(true);
+      expect(simulator.pairedUsers).toContain(granted.username);
+      const client = createClient({ username: granted.username!, password: granted.password! });
+      expect(await client.checkCredentials()).toBe('authorized');
+    });
+  });
+
+  // ==========================================================================
+  // NOTIFY CHANGE
+  // ==========================================================================
+
+  describe('notifychange', () => {
+    let notifyClient: NotifyChangeClient | undefined;
+
+    afterEach(() => {
+      notifyClient?.stop();
+    });
+
+    it('should hold the long-poll until a subscribed resource changes', async () => {
+      notifyClient = new NotifyChangeClient({ ip: HOST, ...CREDENTIALS }, () => {});
+      const notifications: Record<string, unknown>[] = [];
+      notifyClient.on('notification', (data: Record<string, unknown>) => notifications.push(data));
+      notifyClient.start();
+
+      await vi.waitFor(() => expect(simulator.heldLongPolls).toBe(1));
+      simulator.update({ volume: { ...simulator.state.volume, current: 40 } });
+
+      await vi.waitFor(() => expect(notifications).toHaveLength(1));
+      expect(notifications[0]).toEqual({ 'audio/volume': { current: 40, min: 0, max: 60, muted: false } });
+    });
+
+    it('should answer an empty notification when nothing changes', async () => {
+      notifyClient = new NotifyChangeClient({ ip: HOST, ...CREDENTIALS }, () => {});
+      const notification = new Promise(resolve => notifyClient!.once('notification', resolve));
+      notifyClient.start();
+
+      expect(await notification).toEqual({});
+    });
+  });
+
+  // ==========================================================================
+  // STATE POLL MANAGER
+  // ==========================================================================
+
+  describe('with StatePollManager', () => {
+    let manager: StatePollManager | undefined;
+
+    afterEach(() => {
+      manager?.cleanup();
+    });
+
+    it('should poll the state and follow changes pushed over the long-poll', async () => {
+      const callbacks = {
+        onPowerChange: vi.fn(),
+        onAmbilightUpdate: vi.fn(),
+        onVolumeUpdate: vi.fn(),
+        onInputUpdate: vi.fn(),
+        onChannelUpdate: vi.fn(),
+        isTunerInputSelected: vi.fn().mockReturnValue(true),
+        onScreenUpdate: vi.fn(),
+        onKeyboardUpdate: vi.fn(),
+        onAuroraUpdate: vi.fn(),
+        onAuroraUnsupported: vi.fn(),
+        onAppsReady: vi.fn(),
+        onUnreachable: vi.fn(),
+        onAuthChange: vi.fn(),
+      };
+      manager = new StatePollManager(createClient(), TV_CONFIG, callbacks, () => {});
+
+      await manager.refresh();
+      expect(callbacks.onPowerChange).toHaveBeenCalledWith(true);
+      expect(callbacks.onVolumeUpdate).toHaveBeenLastCalledWith(false, expect.objectContaining({ current: 15 }));
+
+      await vi.waitFor(() => expect(simulator.heldLongPolls).toBe(1));
+      simulator.update({ volume: { ...simulator.state.volume, muted: true } });
+
+      await vi.waitFor(() => expect(callbacks.onVolumeUpdate).toHaveBeenLastCalledWith(true, expect.objectContaining({ muted: true })), { timeout: 5_000 });
+    });
+  });
+});